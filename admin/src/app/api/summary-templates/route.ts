@@ -0,0 +1,138 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { supabaseAdmin } from '@/lib/supabase'
+import { SummaryTemplate, SummaryTemplateInput, validateTemplateInput } from '@/lib/summary-templates'
+
+async function isSignedIn() {
+    const supabase = await createClient()
+    const {
+        data: { user },
+    } = await supabase.auth.getUser()
+    return !!user
+}
+
+// Apps, and the templates an app summarizes with: its own, and the global ones it has not replaced
+export async function GET(request: NextRequest) {
+    if (!await isSignedIn()) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const appName = request.nextUrl.searchParams.get('appName')
+
+    const { data: apps, error: appsError } = await supabaseAdmin
+        .from('app_registrations')
+        .select('name')
+        .order('name')
+    if (appsError) {
+        return NextResponse.json({ error: appsError.message }, { status: 500 })
+    }
+
+    const activeTemplates = (owner: string | null) => {
+        const query = supabaseAdmin
+            .from('summary_templates')
+            .select('*')
+            .eq('is_active', true)
+        return (owner === null ? query.is('app_name', null) : query.eq('app_name', owner))
+            .order('version', { ascending: false })
+    }
+
+    const [global, own] = await Promise.all([
+        activeTemplates(null),
+        appName ? activeTemplates(appName) : Promise.resolve({ data: [], error: null }),
+    ])
+    const error = global.error || own.error
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    // Newest first, the app's own before the global ones
+    const byType = new Map<string, SummaryTemplate>()
+    for (const template of [...(own.data || []), ...(global.data || [])] as SummaryTemplate[]) {
+        if (!byType.has(template.conversation_type)) {
+            byType.set(template.conversation_type, template)
+        }
+    }
+    const templates = [...byType.values()].sort((a, b) => a.conversation_type.localeCompare(b.conversation_type))
+
+    return NextResponse.json({ apps: (apps || []).map(app => app.name), templates })
+}
+
+// Save a new version of an app's template and make it the active one
+export async function PUT(request: NextRequest) {
+    if (!await isSignedIn()) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = await request.json() as SummaryTemplateInput
+    const errors = validateTemplateInput(input)
+    if (errors.length > 0) {
+        return NextResponse.json({ error: 'Invalid summary template', details: errors }, { status: 400 })
+    }
+
+    const { data: latest, error: latestError } = await supabaseAdmin
+        .from('summary_templates')
+        .select('version')
+        .eq('app_name', input.appName)
+        .eq('conversation_type', input.conversationType)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+    if (latestError) {
+        return NextResponse.json({ error: latestError.message }, { status: 500 })
+    }
+
+    const { data: template, error } = await supabaseAdmin
+        .from('summary_templates')
+        .insert({
+            app_name: input.appName,
+            conversation_type: input.conversationType,
+            version: (latest?.version || 0) + 1,
+            name: input.name.trim(),
+            description: input.description || null,
+            system_prompt: input.systemPrompt.trim(),
+            required_sections: input.requiredSections,
+            output_schema: input.outputSchema,
+            is_active: true,
+        })
+        .select('*')
+        .single()
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const { error: deactivateError } = await supabaseAdmin
+        .from('summary_templates')
+        .update({ is_active: false })
+        .eq('app_name', input.appName)
+        .eq('conversation_type', input.conversationType)
+        .neq('id', template.id)
+    if (deactivateError) {
+        return NextResponse.json({ error: deactivateError.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ template })
+}
+
+// Stop using an app's template so its conversations fall back to the global one
+export async function DELETE(request: NextRequest) {
+    if (!await isSignedIn()) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const appName = request.nextUrl.searchParams.get('appName')
+    const conversationType = request.nextUrl.searchParams.get('conversationType')
+    if (!appName || !conversationType) {
+        return NextResponse.json({ error: 'appName and conversationType are required' }, { status: 400 })
+    }
+
+    const { error } = await supabaseAdmin
+        .from('summary_templates')
+        .update({ is_active: false })
+        .eq('app_name', appName)
+        .eq('conversation_type', conversationType)
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ message: 'Summary template deactivated' })
+}
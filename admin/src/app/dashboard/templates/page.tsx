@@ -0,0 +1,354 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import DashboardLayout from '@/components/layout/DashboardLayout'
+import { ClipboardList, Globe, Pencil, Plus, RotateCcw } from 'lucide-react'
+import { SUMMARY_SECTIONS, SummarySection, SummaryTemplate } from '@/lib/summary-templates'
+
+interface TemplateForm {
+    conversationType: string
+    name: string
+    description: string
+    systemPrompt: string
+    requiredSections: SummarySection[]
+    outputSchema: string
+}
+
+const emptyForm: TemplateForm = {
+    conversationType: '',
+    name: '',
+    description: '',
+    systemPrompt: '',
+    requiredSections: ['overview'],
+    outputSchema: '',
+}
+
+export default function TemplatesPage() {
+    const [apps, setApps] = useState<string[]>([])
+    const [appName, setAppName] = useState('')
+    const [templates, setTemplates] = useState<SummaryTemplate[]>([])
+    const [loading, setLoading] = useState(true)
+    const [form, setForm] = useState<TemplateForm | null>(null)
+    const [isNew, setIsNew] = useState(false)
+    const [errors, setErrors] = useState<string[]>([])
+    const [saving, setSaving] = useState(false)
+
+    const loadTemplates = useCallback(async () => {
+        setLoading(true)
+        const response = await fetch(`/api/summary-templates${appName ? `?appName=${encodeURIComponent(appName)}` : ''}`)
+        const data = await response.json()
+        if (response.ok) {
+            setApps(data.apps)
+            setTemplates(data.templates)
+        } else {
+            setErrors([data.error])
+        }
+        setLoading(false)
+    }, [appName])
+
+    useEffect(() => {
+        loadTemplates()
+    }, [loadTemplates])
+
+    const editTemplate = (template: SummaryTemplate) => {
+        setIsNew(false)
+        setErrors([])
+        setForm({
+            conversationType: template.conversation_type,
+            name: template.name,
+            description: template.description || '',
+            systemPrompt: template.system_prompt,
+            requiredSections: template.required_sections,
+            outputSchema: template.output_schema ? JSON.stringify(template.output_schema, null, 2) : '',
+        })
+    }
+
+    const newTemplate = () => {
+        setIsNew(true)
+        setErrors([])
+        setForm(emptyForm)
+    }
+
+    const toggleSection = (section: SummarySection) => {
+        if (!form) return
+        setForm({
+            ...form,
+            requiredSections: form.requiredSections.includes(section)
+                ? form.requiredSections.filter(item => item !== section)
+                : [...form.requiredSections, section],
+        })
+    }
+
+    const saveTemplate = async () => {
+        if (!form) return
+
+        let outputSchema: Record<string, unknown> | null = null
+        if (form.outputSchema.trim()) {
+            try {
+                outputSchema = JSON.parse(form.outputSchema)
+            } catch {
+                setErrors(['Output schema is not valid JSON'])
+                return
+            }
+        }
+
+        setSaving(true)
+        const response = await fetch('/api/summary-templates', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                appName,
+                conversationType: form.conversationType,
+                name: form.name,
+                description: form.description || null,
+                systemPrompt: form.systemPrompt,
+                requiredSections: form.requiredSections,
+                outputSchema,
+            }),
+        })
+        const data = await response.json()
+        setSaving(false)
+
+        if (!response.ok) {
+            setErrors(data.details || [data.error])
+            return
+        }
+        setForm(null)
+        loadTemplates()
+    }
+
+    const resetTemplate = async (template: SummaryTemplate) => {
+        if (!confirm(`Stop using ${appName}'s own "${template.name}" template and fall back to the global one?`)) return
+
+        const params = new URLSearchParams({ appName, conversationType: template.conversation_type })
+        const response = await fetch(`/api/summary-templates?${params}`, { method: 'DELETE' })
+        if (!response.ok) {
+            const data = await response.json()
+            setErrors([data.error])
+            return
+        }
+        loadTemplates()
+    }
+
+    return (
+        <DashboardLayout>
+            <div className="space-y-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-2xl font-bold text-gray-900">Summary Templates</h1>
+                        <p className="text-gray-600">Choose how each type of conversation is summarized, per app</p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                        <select
+                            value={appName}
+                            onChange={(event) => {
+                                setAppName(event.target.value)
+                                setForm(null)
+                            }}
+                            className="border border-gray-300 rounded-md px-3 py-2 text-sm text-gray-900"
+                        >
+                            <option value="">Global templates</option>
+                            {apps.map(app => (
+                                <option key={app} value={app}>{app}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={newTemplate}
+                            disabled={!appName}
+                            className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center"
+                        >
+                            <Plus className="h-4 w-4 mr-1" />
+                            New Template
+                        </button>
+                    </div>
+                </div>
+
+                {!appName && (
+                    <p className="text-sm text-gray-500">
+                        Global templates apply to every app without its own. Select an app to customize its templates.
+                    </p>
+                )}
+
+                {errors.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 text-red-800 rounded-md p-4 text-sm">
+                        {errors.map(error => <p key={error}>{error}</p>)}
+                    </div>
+                )}
+
+                <div className="bg-white shadow rounded-lg overflow-hidden">
+                    <div className="px-4 py-5 sm:p-6">
+                        {loading ? (
+                            <div className="animate-pulse h-24 bg-gray-100 rounded" />
+                        ) : (
+                            <table className="min-w-full divide-y divide-gray-200">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Conversation Type
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Name
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Version
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Scope
+                                        </th>
+                                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            Actions
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody className="bg-white divide-y divide-gray-200">
+                                    {templates.map((template) => (
+                                        <tr key={template.id} className="hover:bg-gray-50">
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                <div className="flex items-center">
+                                                    <ClipboardList className="h-4 w-4 text-gray-400 mr-2" />
+                                                    <span className="text-sm font-mono text-gray-900">{template.conversation_type}</span>
+                                                </div>
+                                            </td>
+                                            <td className="px-6 py-4 text-sm text-gray-900">
+                                                <div className="font-medium">{template.name}</div>
+                                                {template.description && <div className="text-gray-500">{template.description}</div>}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                                                v{template.version}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap">
+                                                {template.app_name ? (
+                                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                                                        {template.app_name}
+                                                    </span>
+                                                ) : (
+                                                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                                        <Globe className="h-3 w-3 mr-1" />
+                                                        Global
+                                                    </span>
+                                                )}
+                                            </td>
+                                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                                {appName && (
+                                                    <div className="flex space-x-3">
+                                                        <button onClick={() => editTemplate(template)} className="text-indigo-600 hover:text-indigo-900 flex items-center">
+                                                            <Pencil className="h-4 w-4 mr-1" />
+                                                            {template.app_name ? 'Edit' : 'Customize'}
+                                                        </button>
+                                                        {template.app_name && (
+                                                            <button onClick={() => resetTemplate(template)} className="text-gray-600 hover:text-gray-900 flex items-center">
+                                                                <RotateCcw className="h-4 w-4 mr-1" />
+                                                                Use Global
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+
+                {form && (
+                    <div className="bg-white shadow rounded-lg">
+                        <div className="px-4 py-5 sm:p-6 space-y-4">
+                            <h2 className="text-lg font-medium text-gray-900">
+                                {isNew ? 'New template' : `Edit ${form.conversationType}`} for {appName}
+                            </h2>
+                            <p className="text-sm text-gray-500">
+                                Saving adds a new version; conversations summarized earlier keep the version they used.
+                            </p>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <label className="block text-sm font-medium text-gray-700">
+                                    Conversation type
+                                    <input
+                                        value={form.conversationType}
+                                        onChange={(event) => setForm({ ...form, conversationType: event.target.value })}
+                                        disabled={!isNew}
+                                        placeholder="incident_report"
+                                        className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono disabled:bg-gray-100"
+                                    />
+                                </label>
+                                <label className="block text-sm font-medium text-gray-700">
+                                    Name
+                                    <input
+                                        value={form.name}
+                                        onChange={(event) => setForm({ ...form, name: event.target.value })}
+                                        className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                                    />
+                                </label>
+                            </div>
+
+                            <label className="block text-sm font-medium text-gray-700">
+                                Description
+                                <input
+                                    value={form.description}
+                                    onChange={(event) => setForm({ ...form, description: event.target.value })}
+                                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                                />
+                            </label>
+
+                            <label className="block text-sm font-medium text-gray-700">
+                                System prompt
+                                <textarea
+                                    value={form.systemPrompt}
+                                    onChange={(event) => setForm({ ...form, systemPrompt: event.target.value })}
+                                    rows={5}
+                                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2"
+                                />
+                            </label>
+
+                            <fieldset>
+                                <legend className="text-sm font-medium text-gray-700">Required sections</legend>
+                                <div className="mt-2 flex flex-wrap gap-4">
+                                    {SUMMARY_SECTIONS.map(section => (
+                                        <label key={section} className="flex items-center text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={form.requiredSections.includes(section)}
+                                                onChange={() => toggleSection(section)}
+                                                className="mr-2"
+                                            />
+                                            {section}
+                                        </label>
+                                    ))}
+                                </div>
+                            </fieldset>
+
+                            <label className="block text-sm font-medium text-gray-700">
+                                Output schema (JSON Schema of the template&apos;s own fields, optional)
+                                <textarea
+                                    value={form.outputSchema}
+                                    onChange={(event) => setForm({ ...form, outputSchema: event.target.value })}
+                                    rows={10}
+                                    placeholder='{ "type": "object", "required": ["location"], "properties": { "location": { "type": "string" } } }'
+                                    className="mt-1 block w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-xs"
+                                />
+                            </label>
+
+                            <div className="flex justify-end space-x-3">
+                                <button
+                                    onClick={() => setForm(null)}
+                                    className="px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={saveTemplate}
+                                    disabled={saving}
+                                    className="bg-indigo-600 text-white px-4 py-2 rounded-md hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                                >
+                                    {saving ? 'Saving...' : 'Save New Version'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </DashboardLayout>
+    )
+}
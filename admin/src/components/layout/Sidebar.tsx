@@ -9,7 +9,8 @@ import {
     Settings,
     MessageSquare,
     Database,
-    Activity
+    Activity,
+    ClipboardList
 } from 'lucide-react'
 
 const navigation = [
@@ -18,6 +19,7 @@ const navigation = [
     { name: 'Sessions', href: '/dashboard/sessions', icon: Activity },
     { name: 'Users', href: '/dashboard/users', icon: Users },
     { name: 'Files', href: '/dashboard/files', icon: FileText },
+    { name: 'Summary Templates', href: '/dashboard/templates', icon: ClipboardList },
     { name: 'Analytics', href: '/dashboard/analytics', icon: Database },
     { name: 'Settings', href: '/dashboard/settings', icon: Settings },
 ]
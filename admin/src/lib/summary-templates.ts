@@ -0,0 +1,65 @@
+// Summary templates as stored in the summary_templates table. The voice server validates output schemas
+// in depth; the admin checks enough to catch typos before saving.
+
+export const SUMMARY_SECTIONS = ['overview', 'keyPoints', 'decisions', 'actionItems', 'entities', 'followUps'] as const
+
+export type SummarySection = typeof SUMMARY_SECTIONS[number]
+
+export interface SummaryTemplate {
+    id: string
+    app_name: string | null
+    conversation_type: string
+    version: number
+    name: string
+    description: string | null
+    system_prompt: string
+    required_sections: SummarySection[]
+    output_schema: Record<string, unknown> | null
+    is_active: boolean
+    created_at: string
+    updated_at: string
+}
+
+export interface SummaryTemplateInput {
+    appName: string
+    conversationType: string
+    name: string
+    description: string | null
+    systemPrompt: string
+    requiredSections: SummarySection[]
+    outputSchema: Record<string, unknown> | null
+}
+
+export function isConversationType(value: unknown): value is string {
+    return typeof value === 'string' && /^[a-z0-9][a-z0-9_-]{0,63}$/.test(value)
+}
+
+export function validateTemplateInput(input: Partial<SummaryTemplateInput>): string[] {
+    const errors: string[] = []
+
+    if (!input.appName) {
+        errors.push('Choose an app')
+    }
+    if (!isConversationType(input.conversationType)) {
+        errors.push('Conversation type may only contain lowercase letters, digits, _ and -')
+    }
+    if (!input.name?.trim() || input.name.length > 100) {
+        errors.push('Name is required (at most 100 characters)')
+    }
+    if (!input.systemPrompt?.trim()) {
+        errors.push('System prompt is required')
+    }
+    if (!Array.isArray(input.requiredSections) || input.requiredSections.some(section => !SUMMARY_SECTIONS.includes(section))) {
+        errors.push(`Required sections must be among ${SUMMARY_SECTIONS.join(', ')}`)
+    }
+
+    const schema = input.outputSchema
+    if (schema) {
+        const properties = schema.properties
+        if (schema.type !== 'object' || typeof properties !== 'object' || properties === null || Object.keys(properties).length === 0) {
+            errors.push('Output schema must be an object schema with at least one property')
+        }
+    }
+
+    return errors
+}
@@ -4,7 +4,7 @@ module.exports = {
     roots: ['<rootDir>/tests', '<rootDir>/server/src', '<rootDir>/src'],
     testMatch: [
         '**/__tests__/**/*.ts',
-        '**/?(*.)+(spec|test).ts'
+        '**/?(*.)+(spec|test).ts?(x)'
     ],
     collectCoverageFrom: [
         'server/src/**/*.ts',
@@ -28,7 +28,8 @@ module.exports = {
     testTimeout: 30000,
     moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/src/$1',
-        '^@server/(.*)$': '<rootDir>/server/src/$1'
+        '^@server/(.*)$': '<rootDir>/server/src/$1',
+        '\\.css$': '<rootDir>/tests/__mocks__/styleMock.js'
     },
     transform: {
         '^.+\\.(ts|tsx)$': ['ts-jest', {
@@ -40,7 +41,8 @@ module.exports = {
                 esModuleInterop: true,
                 skipLibCheck: true,
                 forceConsistentCasingInFileNames: true,
-                resolveJsonModule: true
+                resolveJsonModule: true,
+                jsx: 'react-jsx'
             }
         }],
     }
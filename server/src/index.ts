@@ -1,36 +1,71 @@
+import crypto from 'crypto';
+import { Context } from '@opentelemetry/api';
 import express from 'express';
 import { createServer } from 'http';
-import { Server as SocketIOServer } from 'socket.io';
+import { Socket, Server as SocketIOServer } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import { logger } from './utils/logger';
 import { SessionManager } from './services/SessionManager';
-import { SpeechmaticsService } from './services/SpeechmaticsService';
+import { TranscriptionProvider, createTranscriptionProvider } from './services/TranscriptionProvider';
+import { AppRegistrationService } from './services/AppRegistrationService';
+import { SessionTokenService } from './services/SessionTokenService';
+import { SummaryTemplateService, isConversationType, validateTemplateInput } from './services/SummaryTemplateService';
+import { ConversationOriginalService, PII_READ_PERMISSION } from './services/ConversationOriginalService';
+import { QuotaService } from './services/QuotaService';
+import { RetentionService, resolveRetentionRules } from './services/RetentionService';
+import { AudioBackpressure, AudioFlowService } from './services/AudioFlowService';
+import { metrics } from './services/MetricsService';
+import { ProcessingProgress, ProcessingProgressService } from './services/ProcessingProgressService';
 import { WebRTCService } from './services/WebRTCService';
-import { QueueService } from './services/QueueService';
+import { DeadLetterJob, JobData, QueueService } from './services/QueueService';
+import { CONVERSATION_PIPELINE, CONVERSATION_PIPELINE_NAME, applyRedactionsToSessions } from './services/ConversationPipeline';
 import { WorkerManager } from './workers/WorkerManager';
 import { SupabaseService } from './services/SupabaseService';
 import { WebhookService } from './services/WebhookService';
 import { SystemInitializer } from './services/SystemInitializer';
-import { AudioChunk } from './types';
+import { AudioRecordingService } from './services/AudioRecordingService';
+import { ClusterService } from './services/ClusterService';
+import { PostgresSessionStore, createSessionStore } from './stores';
+import { getByteRate } from './utils/wav';
+import { isSupportedLanguage } from './utils/languages';
+import { extractTraceContext, initTracing, injectTraceContext, shutdownTracing, withSpan } from './utils/tracing';
+import { AppRegistration, AudioChunk, AuthenticatedApp, Conversation, PaginatedResponse, Session, SessionTokenScope, SpeechmaticsConfig } from './types';
 import path from 'path';
 
 // Load environment variables
 dotenv.config({ path: '../.env' });
 
+// Register the tracer provider before anything creates spans
+initTracing();
+
 class VoiceChatServer {
     private app: express.Application;
     private server: any;
     private io: SocketIOServer;
     private sessionManager: SessionManager;
     private webrtcService: WebRTCService;
-    private speechmaticsServices: Map<string, SpeechmaticsService> = new Map();
+    private transcriptionProviders: Map<string, TranscriptionProvider> = new Map();
+    // Sessions a finishSession call is already ending; further calls return at once instead of ending them twice
+    private endingSessions: Set<string> = new Set();
+    // Audio that arrived while a handed-off session's transcription was being flushed, forwarded to the new owner
+    private handoffAudio: Map<string, AudioChunk[]> = new Map();
     private queueService: QueueService;
     private workerManager: WorkerManager;
     private supabaseService: SupabaseService;
     private webhookService: WebhookService;
     private systemInitializer: SystemInitializer;
+    private clusterService: ClusterService;
+    private appRegistrationService: AppRegistrationService;
+    private sessionTokenService: SessionTokenService;
+    private summaryTemplateService: SummaryTemplateService;
+    private conversationOriginalService: ConversationOriginalService;
+    private quotaService: QuotaService;
+    private retentionService: RetentionService;
+    private audioFlowService: AudioFlowService;
+    private processingProgressService: ProcessingProgressService;
+    private audioRecordingService: AudioRecordingService;
 
     constructor() {
         this.app = express();
@@ -43,12 +78,23 @@ class VoiceChatServer {
             },
         });
 
-        this.sessionManager = new SessionManager();
+        // Post-processing workers read ended conversations from Postgres, whichever store holds live sessions
+        const sessionStore = createSessionStore();
+        this.sessionManager = new SessionManager(sessionStore, sessionStore.type === 'postgres' ? undefined : new PostgresSessionStore());
         this.webrtcService = new WebRTCService();
         this.queueService = new QueueService();
+        this.queueService.registerPipeline(CONVERSATION_PIPELINE);
         this.workerManager = new WorkerManager(this.queueService);
+        this.processingProgressService = new ProcessingProgressService(this.queueService, this.workerManager);
         this.supabaseService = new SupabaseService();
         this.webhookService = new WebhookService(this.supabaseService);
+        this.clusterService = new ClusterService();
+        this.appRegistrationService = new AppRegistrationService();
+        this.sessionTokenService = new SessionTokenService(this.appRegistrationService);
+        this.summaryTemplateService = new SummaryTemplateService();
+        this.conversationOriginalService = new ConversationOriginalService();
+        this.quotaService = new QuotaService(this.appRegistrationService);
+        this.audioFlowService = new AudioFlowService();
         
         // Initialize system initializer
         this.systemInitializer = new SystemInitializer({
@@ -70,12 +116,16 @@ class VoiceChatServer {
                 functions: path.join(__dirname, '../../supabase/functions')
             }
         });
+        this.audioRecordingService = new AudioRecordingService(this.systemInitializer.getMinIO());
+        this.retentionService = new RetentionService(this.systemInitializer.getMinIO(), this.appRegistrationService);
 
         this.setupMiddleware();
         this.setupRoutes();
         this.setupSocketHandlers();
         this.setupEventHandlers();
+        this.setupClusterHandlers();
         this.setupGlobalIO();
+        this.setupMetrics();
     }
 
     /**
@@ -101,16 +151,29 @@ class VoiceChatServer {
                 status: 'healthy',
                 timestamp: new Date().toISOString(),
                 uptime: process.uptime(),
-                version: process.env['npm_package_version'] || '1.0.0'
+                version: process.env['npm_package_version'] || '1.0.0',
+                node: this.clusterService.getNodeId()
             });
         });
 
+        // Prometheus scrape endpoint
+        this.app.get('/metrics', async (req, res) => {
+            try {
+                res.set('Content-Type', metrics.getContentType());
+                res.send(await metrics.getMetrics());
+            } catch (error) {
+                logger.error('Error rendering metrics:', error);
+                res.status(500).end();
+            }
+        });
+
         // System status endpoint
         this.app.get('/api/system/status', async (req, res) => {
             try {
                 const status = await this.systemInitializer.getSystemStatus();
                 res.json({
                     ...status,
+                    audioBuffers: this.audioFlowService.getStats(),
                     timestamp: new Date().toISOString(),
                     uptime: process.uptime()
                 });
@@ -146,10 +209,10 @@ class VoiceChatServer {
             }
         });
 
-        this.app.get('/api/sessions/:sessionId', (req, res) => {
+        this.app.get('/api/sessions/:sessionId', async (req, res) => {
             try {
                 const { sessionId } = req.params;
-                const session = this.sessionManager.getSession(sessionId);
+                const session = await this.sessionManager.getSession(sessionId);
                 if (!session) {
                     return res.status(404).json({ error: 'Session not found' });
                 }
@@ -160,13 +223,17 @@ class VoiceChatServer {
             }
         });
 
-        this.app.delete('/api/sessions/:sessionId', (req, res) => {
+        this.app.delete('/api/sessions/:sessionId', async (req, res) => {
             try {
                 const { sessionId } = req.params;
-                const success = this.sessionManager.endSession(sessionId);
-                if (!success) {
+                const session = await this.sessionManager.getSession(sessionId);
+                if (!session) {
                     return res.status(404).json({ error: 'Session not found' });
                 }
+                if (session.status !== 'active') {
+                    return res.status(409).json({ error: 'Session has already ended', conversationId: session.conversation_id });
+                }
+                await this.sessionManager.endSession(sessionId);
                 return res.json({ message: 'Session ended successfully' });
             } catch (error) {
                 logger.error('Error ending session:', error);
@@ -174,6 +241,264 @@ class VoiceChatServer {
             }
         });
 
+        // App configuration for the widget
+        this.app.get('/api/apps/:appName/transcription', async (req, res) => {
+            try {
+                const provider = await this.appRegistrationService.getTranscriptionProvider(req.params.appName);
+                return res.json({ provider });
+            } catch (error) {
+                logger.error('Error resolving transcription provider:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Session tokens: host backends trade their API key for a short-lived token to hand to the browser
+        this.app.post('/api/session-tokens', async (req, res) => {
+            try {
+                if (!this.sessionTokenService.isEnabled()) {
+                    return res.status(503).json({ error: 'Session tokens are not configured' });
+                }
+
+                const registration = await this.authenticateRequest(req);
+                if (!registration) {
+                    return res.status(401).json({ error: 'Unauthorized' });
+                }
+
+                const { officerEmail, languages, ttlSeconds } = req.body || {};
+                if (typeof officerEmail !== 'string' || !officerEmail.includes('@')) {
+                    return res.status(400).json({ error: 'A valid officerEmail is required' });
+                }
+                if (languages !== undefined && (!Array.isArray(languages) || !languages.every(language => typeof language === 'string'))) {
+                    return res.status(400).json({ error: 'languages must be an array of language codes' });
+                }
+
+                const minted = this.sessionTokenService.mint(registration, {
+                    officerEmail,
+                    languages: languages || [],
+                    ttlSeconds: Number(ttlSeconds) || 0,
+                });
+                return res.status(201).json(minted);
+            } catch (error) {
+                logger.error('Error minting session token:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Quota usage for the admin dashboard
+        this.app.get('/api/apps/:appName/usage', async (req, res) => {
+            try {
+                const { appName } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+                if (!this.quotaService.isEnabled()) {
+                    return res.status(503).json({ error: 'Quotas are not enabled' });
+                }
+
+                const usage = await this.quotaService.getUsage(appName);
+                if (!usage) {
+                    return res.status(404).json({ error: 'App not found' });
+                }
+                return res.json({ usage });
+            } catch (error) {
+                logger.error('Error fetching quota usage:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Dry run of the retention purge: what the next run would delete for the app
+        this.app.get('/api/apps/:appName/retention/report', async (req, res) => {
+            try {
+                const { appName } = req.params;
+                const registration = await this.authorizeAppRequest(req, res, appName);
+                if (!registration) {
+                    return;
+                }
+
+                const report = await this.retentionService.run({ dryRun: true, appName });
+                return res.json({
+                    rules: resolveRetentionRules(registration.retention),
+                    legalHold: registration.legal_hold === true,
+                    report,
+                });
+            } catch (error) {
+                logger.error('Error building retention report:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.post('/api/apps/:appName/tokens/revoke', async (req, res) => {
+            try {
+                const { appName } = req.params;
+                const registration = await this.authenticateRequest(req);
+                if (!registration) {
+                    return res.status(401).json({ error: 'Unauthorized' });
+                }
+                if (registration.name !== appName) {
+                    return res.status(403).json({ error: 'API key does not belong to this app' });
+                }
+
+                const revokedAt = await this.appRegistrationService.revokeTokens(appName);
+
+                // Drop live token sockets on every node; they cannot reconnect with a revoked token
+                this.io.in(this.appTokenRoom(appName)).disconnectSockets(true);
+
+                return res.json({ message: 'Session tokens revoked successfully', revokedAt });
+            } catch (error) {
+                logger.error('Error revoking session tokens:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Summary templates: the app's own, versioned, falling back to the global ones per conversation type
+        this.app.get('/api/apps/:appName/summary-templates', async (req, res) => {
+            try {
+                const { appName } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+
+                const templates = await this.summaryTemplateService.listTemplates(appName);
+                return res.json({ templates });
+            } catch (error) {
+                logger.error('Error listing summary templates:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.get('/api/apps/:appName/summary-templates/:conversationType', async (req, res) => {
+            try {
+                const { appName, conversationType } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+
+                const template = await this.summaryTemplateService.getTemplate(appName, conversationType);
+                if (!template) {
+                    return res.status(404).json({ error: 'Summary template not found' });
+                }
+                const versions = await this.summaryTemplateService.getVersions(appName, conversationType);
+                return res.json({ template, versions });
+            } catch (error) {
+                logger.error('Error fetching summary template:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.put('/api/apps/:appName/summary-templates/:conversationType', async (req, res) => {
+            try {
+                const { appName, conversationType } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+                if (!isConversationType(conversationType)) {
+                    return res.status(400).json({ error: 'conversationType may only contain lowercase letters, digits, _ and -' });
+                }
+
+                const validation = validateTemplateInput(req.body);
+                if (!validation.ok) {
+                    return res.status(400).json({ error: 'Invalid summary template', details: validation.errors });
+                }
+
+                const template = await this.summaryTemplateService.saveTemplate(appName, conversationType, validation.input);
+                logger.info(`Summary template ${conversationType} v${template.version} saved for ${appName}`);
+                return res.json({ template });
+            } catch (error) {
+                logger.error('Error saving summary template:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.delete('/api/apps/:appName/summary-templates/:conversationType', async (req, res) => {
+            try {
+                const { appName, conversationType } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+
+                if (!await this.summaryTemplateService.deactivateTemplate(appName, conversationType)) {
+                    return res.status(404).json({ error: 'Summary template not found' });
+                }
+                return res.json({ message: 'Summary template deactivated successfully' });
+            } catch (error) {
+                logger.error('Error deactivating summary template:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Officer report settings: the language reports are written in and whether transcripts are translated
+        this.app.get('/api/apps/:appName/officers/:officerEmail/settings', async (req, res) => {
+            try {
+                const { appName, officerEmail } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+
+                const settings = await this.appRegistrationService.getOfficerSettings(appName, officerEmail);
+                const effective = await this.appRegistrationService.getReportSettings(appName, officerEmail);
+                return res.json({ settings, effective });
+            } catch (error) {
+                logger.error('Error fetching officer settings:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.put('/api/apps/:appName/officers/:officerEmail/settings', async (req, res) => {
+            try {
+                const { appName, officerEmail } = req.params;
+                if (!await this.authorizeAppRequest(req, res, appName)) {
+                    return;
+                }
+                if (!officerEmail.includes('@')) {
+                    return res.status(400).json({ error: 'A valid officer email is required' });
+                }
+
+                const { reportLanguage, translateTranscript } = req.body || {};
+                if (reportLanguage !== undefined && reportLanguage !== null && !isSupportedLanguage(reportLanguage)) {
+                    return res.status(400).json({ error: 'reportLanguage must be a supported language code or null' });
+                }
+                if (translateTranscript !== undefined && translateTranscript !== null && typeof translateTranscript !== 'boolean') {
+                    return res.status(400).json({ error: 'translateTranscript must be a boolean or null' });
+                }
+
+                const settings = await this.appRegistrationService.saveOfficerSettings(appName, officerEmail, {
+                    ...(reportLanguage !== undefined ? { reportLanguage } : {}),
+                    ...(translateTranscript !== undefined ? { translateTranscript } : {}),
+                });
+                return res.json({ settings });
+            } catch (error) {
+                logger.error('Error saving officer settings:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Cluster routes
+        this.app.get('/api/cluster', async (req, res) => {
+            try {
+                const status = await this.clusterService.getStatus();
+                return res.json(status);
+            } catch (error) {
+                logger.error('Error fetching cluster status:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.post('/api/cluster/drain', async (req, res) => {
+            try {
+                if (!this.authorizeAdminRequest(req, res)) {
+                    return;
+                }
+                if (!this.clusterService.isEnabled()) {
+                    return res.status(400).json({ error: 'Cluster mode is not enabled' });
+                }
+                const handedOff = await this.clusterService.drain(sessionId => this.prepareHandoff(sessionId));
+                return res.json({ message: 'Node drained', node: this.clusterService.getNodeId(), handedOff });
+            } catch (error) {
+                logger.error('Error draining node:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
         // Webhook routes for Supabase database changes
         this.app.post('/webhooks/supabase', (req, res) => {
             this.webhookService.handleSupabaseWebhook(req, res);
@@ -202,6 +527,203 @@ class VoiceChatServer {
             }
         });
 
+        // Dead-letter routes: jobs that exhausted their retries, per processing queue. Operator-only, as payloads carry transcripts and recipients
+        this.app.get('/api/queues/:queueName/dead-letter', async (req, res) => {
+            try {
+                if (!this.authorizeAdminRequest(req, res)) {
+                    return;
+                }
+                const { queueName } = req.params;
+                if (!QueueService.PROCESSING_QUEUES.includes(queueName)) {
+                    return res.status(404).json({ error: 'Queue not found' });
+                }
+
+                const page = Math.max(parseInt(String(req.query['page'] || '1')) || 1, 1);
+                const limit = Math.min(Math.max(parseInt(String(req.query['limit'] || '50')) || 50, 1), 200);
+                const { jobs, total } = await this.queueService.listDeadLetters(queueName, (page - 1) * limit, page * limit - 1);
+                const totalPages = Math.ceil(total / limit);
+
+                const response: PaginatedResponse<DeadLetterJob> = {
+                    data: jobs,
+                    pagination: {
+                        page,
+                        limit,
+                        total,
+                        totalPages,
+                        hasNext: page < totalPages,
+                        hasPrev: page > 1,
+                    },
+                };
+                return res.json(response);
+            } catch (error) {
+                logger.error('Error listing dead-lettered jobs:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.get('/api/queues/:queueName/dead-letter/:jobId', async (req, res) => {
+            try {
+                if (!this.authorizeAdminRequest(req, res)) {
+                    return;
+                }
+                const { queueName, jobId } = req.params;
+                if (!QueueService.PROCESSING_QUEUES.includes(queueName)) {
+                    return res.status(404).json({ error: 'Queue not found' });
+                }
+
+                const job = await this.queueService.getDeadLetter(queueName, jobId);
+                if (!job) {
+                    return res.status(404).json({ error: 'Job not found' });
+                }
+                return res.json({ job });
+            } catch (error) {
+                logger.error('Error fetching dead-lettered job:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.put('/api/queues/:queueName/dead-letter/:jobId', async (req, res) => {
+            try {
+                if (!this.authorizeAdminRequest(req, res)) {
+                    return;
+                }
+                const { queueName, jobId } = req.params;
+                if (!QueueService.PROCESSING_QUEUES.includes(queueName)) {
+                    return res.status(404).json({ error: 'Queue not found' });
+                }
+
+                const data = req.body?.data;
+                if (!data || typeof data !== 'object' || typeof data.sessionId !== 'string') {
+                    return res.status(400).json({ error: 'Job data with a sessionId is required' });
+                }
+
+                const job = await this.queueService.updateDeadLetter(queueName, jobId, data);
+                if (!job) {
+                    return res.status(404).json({ error: 'Job not found' });
+                }
+                return res.json({ job });
+            } catch (error) {
+                logger.error('Error updating dead-lettered job:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.post('/api/queues/:queueName/dead-letter/:jobId/retry', async (req, res) => {
+            try {
+                if (!this.authorizeAdminRequest(req, res)) {
+                    return;
+                }
+                const { queueName, jobId } = req.params;
+                if (!QueueService.PROCESSING_QUEUES.includes(queueName)) {
+                    return res.status(404).json({ error: 'Queue not found' });
+                }
+
+                const job = await this.queueService.replayDeadLetter(queueName, jobId);
+                if (!job) {
+                    return res.status(404).json({ error: 'Job not found' });
+                }
+                return res.json({ message: 'Job retry initiated successfully', jobId: job.id });
+            } catch (error) {
+                logger.error('Error retrying dead-lettered job:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.get('/api/conversations/:conversationId/segments', async (req, res) => {
+            try {
+                const conversation = await this.sessionManager.findConversation(req.params.conversationId);
+                if (!conversation) {
+                    return res.status(404).json({ error: 'Conversation not found' });
+                }
+                if (!await this.authorizeAppRequest(req, res, conversation.app_name)) {
+                    return;
+                }
+
+                const segments = await this.sessionManager.getConversationSegments(conversation.id);
+                return res.json({ segments: segments || [] });
+            } catch (error) {
+                logger.error('Error fetching transcript segments:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // A conversation's content from before redaction, for apps granted the pii:read permission
+        this.app.get('/api/conversations/:conversationId/originals', async (req, res) => {
+            try {
+                const conversation = await this.sessionManager.findConversation(req.params.conversationId);
+                if (!conversation) {
+                    return res.status(404).json({ error: 'Conversation not found' });
+                }
+                const registration = await this.authorizeAppRequest(req, res, conversation.app_name);
+                if (!registration) {
+                    return;
+                }
+                if (!(registration.permissions || []).includes(PII_READ_PERMISSION)) {
+                    return res.status(403).json({ error: `API key lacks the ${PII_READ_PERMISSION} permission` });
+                }
+
+                const original = await this.conversationOriginalService.get(conversation.id);
+                if (!original) {
+                    return res.status(404).json({ error: 'No personal data was redacted from this conversation' });
+                }
+                logger.info(`App ${registration.name} read the originals of conversation ${conversation.id}`);
+                return res.json({ original });
+            } catch (error) {
+                logger.error('Error fetching conversation originals:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        // Legal holds keep a conversation out of retention purges until released
+        this.app.put('/api/conversations/:conversationId/legal-hold', async (req, res) => {
+            try {
+                const conversation = await this.sessionManager.findConversation(req.params.conversationId);
+                if (!conversation) {
+                    return res.status(404).json({ error: 'Conversation not found' });
+                }
+                const registration = await this.authorizeAppRequest(req, res, conversation.app_name);
+                if (!registration) {
+                    return;
+                }
+
+                const { hold, reason } = req.body || {};
+                if (typeof hold !== 'boolean') {
+                    return res.status(400).json({ error: 'hold must be true or false' });
+                }
+                if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+                    return res.status(400).json({ error: 'reason must be a string' });
+                }
+
+                await this.retentionService.setLegalHold(conversation.id, registration.name, hold, reason || null);
+                logger.info(`App ${registration.name} ${hold ? 'placed' : 'released'} a legal hold on conversation ${conversation.id}`);
+                return res.json({ conversationId: conversation.id, legalHold: hold, reason: hold ? reason || null : null });
+            } catch (error) {
+                logger.error('Error updating legal hold:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
+        this.app.get('/api/conversations/:conversationId/pipeline', async (req, res) => {
+            try {
+                const conversation = await this.sessionManager.findConversation(req.params.conversationId);
+                if (!conversation) {
+                    return res.status(404).json({ error: 'Conversation not found' });
+                }
+                if (!await this.authorizeAppRequest(req, res, conversation.app_name)) {
+                    return;
+                }
+
+                const pipeline = await this.queueService.getPipelineState(conversation.id);
+                if (!pipeline) {
+                    return res.status(404).json({ error: 'Pipeline not found' });
+                }
+                return res.json({ pipeline });
+            } catch (error) {
+                logger.error('Error fetching pipeline state:', error);
+                return res.status(500).json({ error: 'Internal server error' });
+            }
+        });
+
         // Real-time subscription routes
         this.app.get('/api/conversations/:conversationId', async (req, res) => {
             try {
@@ -219,65 +741,251 @@ class VoiceChatServer {
      * Setup Socket.IO handlers
      */
     private setupSocketHandlers(): void {
+        // Authenticate the app on the handshake; everything after trusts the bound identity
+        this.io.use(async (socket, next) => {
+            if (process.env['SOCKET_AUTH_ENABLED'] === 'false') {
+                return next();
+            }
+
+            const origin = socket.handshake.headers.origin;
+            const reject = (code: string) => {
+                logger.warn(`Rejected socket ${socket.id} from ${origin || 'unknown origin'}: ${code}`);
+                const error = new Error('Unauthorized') as Error & { data?: Record<string, any> };
+                error.data = { code };
+                return next(error);
+            };
+
+            try {
+                // Browsers present a session token minted by the host backend; API keys stay for trusted clients
+                const token = socket.handshake.auth?.['token'];
+                if (token) {
+                    const result = await this.sessionTokenService.verify(token);
+                    if (!result.ok) {
+                        return reject(result.code);
+                    }
+                    if (!this.appRegistrationService.isOriginAllowed(result.registration, origin)) {
+                        return reject('ORIGIN_NOT_ALLOWED');
+                    }
+
+                    socket.data.app = this.toAuthenticatedApp(result.registration);
+                    socket.data.scope = result.scope;
+                    return next();
+                }
+
+                const headerKey = socket.handshake.headers['x-api-key'];
+                const apiKey = socket.handshake.auth?.['apiKey'] || (typeof headerKey === 'string' ? headerKey : undefined);
+
+                const result = await this.appRegistrationService.authenticate(apiKey, origin);
+                if (!result.ok) {
+                    return reject(result.code);
+                }
+
+                socket.data.app = this.toAuthenticatedApp(result.registration);
+                return next();
+            } catch (error) {
+                logger.error('Error authenticating socket:', error);
+                return next(new Error('Authentication unavailable'));
+            }
+        });
+
         this.io.on('connection', (socket) => {
-            logger.info(`Client connected: ${socket.id}`);
+            const app: AuthenticatedApp | undefined = socket.data.app;
+            logger.info(`Client connected: ${socket.id}${app ? ` (app ${app.name})` : ''}`);
+
+            if (app && socket.data.scope) {
+                socket.join(this.appTokenRoom(app.name));
+            }
+
+            // Swap in a refreshed session token before the current one expires
+            socket.on('refreshToken', async (data) => {
+                try {
+                    const current: SessionTokenScope | undefined = socket.data.scope;
+                    if (!app || !current) {
+                        socket.emit('error', { code: 'INVALID_TOKEN', message: 'Connection does not use a session token' });
+                        return;
+                    }
+
+                    const result = await this.sessionTokenService.verify(data?.token);
+                    if (!result.ok) {
+                        socket.emit('error', { code: result.code, message: 'Failed to refresh session token' });
+                        return;
+                    }
+                    if (result.registration.name !== app.name || result.scope.officerEmail !== current.officerEmail) {
+                        socket.emit('error', { code: 'INVALID_TOKEN', message: 'Refreshed token is for a different app or officer' });
+                        return;
+                    }
+
+                    socket.data.scope = result.scope;
+                    socket.emit('tokenRefreshed', { expiresAt: new Date(result.scope.expiresAt).toISOString() });
+                } catch (error) {
+                    logger.error('Error refreshing session token:', error);
+                    socket.emit('error', { code: 'INVALID_TOKEN', message: 'Failed to refresh session token' });
+                }
+            });
+
+            // Handle session start
+            socket.on('startSession', async (data) => {
+                try {
+                    const scope: SessionTokenScope | undefined = socket.data.scope;
+                    const { language = 'en', conversationType } = data;
+                    const officerEmail = data.officerEmail || scope?.officerEmail;
+
+                    // A session token limits which officer and languages the browser may use
+                    if (scope) {
+                        if (scope.expiresAt <= Date.now()) {
+                            socket.emit('error', { code: 'TOKEN_EXPIRED', message: 'Session token expired' });
+                            return;
+                        }
+                        if (officerEmail !== scope.officerEmail) {
+                            socket.emit('error', { code: 'UNAUTHORIZED', message: 'Officer does not match session token' });
+                            return;
+                        }
+                        if (scope.languages.length > 0 && !scope.languages.includes(language)) {
+                            socket.emit('error', { code: 'UNAUTHORIZED', message: 'Language not allowed by session token' });
+                            return;
+                        }
+                    }
+
+                    // The app comes from the API key, never from the client payload
+                    if (app && data.appName && data.appName !== app.name) {
+                        logger.warn(`Socket ${socket.id} for app ${app.name} tried to start a session as ${data.appName}`);
+                        socket.emit('error', { code: 'UNAUTHORIZED', message: 'App name does not match API key' });
+                        return;
+                    }
+                    const appName = app ? app.name : data.appName;
+
+                    if (!officerEmail || !appName) {
+                        socket.emit('error', { message: 'Missing required fields: officerEmail and appName' });
+                        return;
+                    }
+                    if (conversationType !== undefined && !isConversationType(conversationType)) {
+                        socket.emit('error', { message: 'Invalid conversationType' });
+                        return;
+                    }
+
+                    if (this.clusterService.isDraining()) {
+                        socket.emit('error', { message: 'Server is draining, please reconnect' });
+                        return;
+                    }
+
+                    // The session's trace starts here; its later steps continue it via the stored context
+                    await withSpan('session.start', { attributes: { 'app.name': appName, 'socket.id': socket.id } }, async (span) => {
+                        // Reserve the quota under the new session's ID so the slot can be released by it later
+                        const sessionId = crypto.randomUUID();
+                        span.setAttribute('session.id', sessionId);
+                        const quota = await this.quotaService.acquireSession({ sessionId, appName, officerEmail });
+                        if (!quota.ok) {
+                            span.setAttribute('quota.exceeded', quota.quota);
+                            logger.warn(`Rejected session for ${officerEmail} of app ${appName}: ${quota.quota} quota exceeded`);
+                            socket.emit('error', { code: quota.code, message: 'Quota exceeded', details: { quota: quota.quota, limit: quota.limit } });
+                            return;
+                        }
+
+                        const traceContext = injectTraceContext();
+                        let session: Session;
+                        try {
+                            session = await this.sessionManager.startSession({
+                                id: sessionId,
+                                officer_email: officerEmail,
+                                app_name: appName,
+                                language,
+                                ...(conversationType ? { conversation_type: conversationType } : {}),
+                                client_id: socket.id,
+                                ...(traceContext ? { trace_context: traceContext } : {})
+                            });
+                        } catch (error) {
+                            await this.quotaService.releaseSession(sessionId, appName);
+                            throw error;
+                        }
+
+                        socket.join(this.sessionRoom(session.id));
+                        await this.startTranscription(session);
+
+                        const resumeToken = await this.sessionManager.issueResumeToken(session.id);
+                        socket.emit('sessionStarted', { ...this.toClientSession(session), resumeToken });
+                        logger.info(`Session started: ${session.id} for ${officerEmail}`);
+                    });
 
-            // Handle session start
-            socket.on('startSession', async (data) => {
+                } catch (error) {
+                    logger.error('Error starting session:', error);
+                    socket.emit('error', { message: 'Failed to start session' });
+                }
+            });
+
+            // Handle resuming a session after a network drop or server restart
+            socket.on('resumeSession', async (data) => {
                 try {
-                    const { officerEmail, appName, language = 'en' } = data;
+                    const { sessionId, resumeToken, lastSeq = 0 } = data || {};
 
-                    if (!officerEmail || !appName) {
-                        socket.emit('error', { message: 'Missing required fields: officerEmail and appName' });
+                    if (!sessionId || !resumeToken) {
+                        socket.emit('error', { code: 'RESUME_FAILED', message: 'Missing sessionId or resumeToken' });
                         return;
                     }
 
-                    const session = await this.sessionManager.startSession({
-                        officer_email: officerEmail,
-                        app_name: appName,
-                        language,
-                        client_id: socket.id
-                    });
+                    const scope: SessionTokenScope | undefined = socket.data.scope;
+                    if (scope && scope.expiresAt <= Date.now()) {
+                        socket.emit('error', { code: 'TOKEN_EXPIRED', message: 'Session token expired' });
+                        return;
+                    }
 
-                    // Create Speechmatics service for this session
-                    const speechmaticsService = new SpeechmaticsService({
-                        language,
-                        enablePartials: true,
-                        punctuationPermitted: true,
-                        sampleRate: 16000,
-                        encoding: 'pcm_f32le'
-                    }, session.id);
+                    const existing = await this.sessionManager.getSession(sessionId);
+                    if (scope && existing && existing.officer_email !== scope.officerEmail) {
+                        logger.warn(`Socket ${socket.id} tried to resume session ${sessionId} of another officer`);
+                        socket.emit('error', { code: 'RESUME_FAILED', message: 'Failed to resume session' });
+                        return;
+                    }
+                    if (app && existing && existing.app_name !== app.name) {
+                        logger.warn(`Socket ${socket.id} for app ${app.name} tried to resume session ${sessionId} of app ${existing.app_name}`);
+                        socket.emit('error', { code: 'RESUME_FAILED', message: 'Failed to resume session' });
+                        return;
+                    }
 
-                    this.speechmaticsServices.set(session.id, speechmaticsService);
+                    await withSpan('session.resume', {
+                        parent: extractTraceContext(existing?.trace_context),
+                        attributes: { 'session.id': sessionId, 'socket.id': socket.id },
+                    }, async () => {
+                        const session = await this.sessionManager.resumeSession(sessionId, socket.id, resumeToken);
 
-                    // Connect to Speechmatics
-                    await speechmaticsService.connect();
+                        socket.join(this.sessionRoom(session.id));
+                        await this.quotaService.resumeSession({ sessionId: session.id, appName: session.app_name, officerEmail: session.officer_email });
 
-                    // Setup Speechmatics event handlers
-                    speechmaticsService.on('partialTranscript', (data) => {
-                        socket.emit('partialTranscript', data);
-                    });
+                        // Keep transcription where it is if another live node still owns it
+                        if (!this.transcriptionProviders.has(session.id) && !(await this.clusterService.isOwnedElsewhere(session.id))) {
+                            await this.startTranscription(session);
+                        }
 
-                    speechmaticsService.on('finalTranscript', (data) => {
-                        socket.emit('finalTranscript', data);
-                    });
+                        const missedSegments = await this.sessionManager.getMissedSegments(session.id, Number(lastSeq) || 0);
+                        const nextResumeToken = await this.sessionManager.issueResumeToken(session.id);
+
+                        socket.emit('sessionResumed', {
+                            session: this.toClientSession(session),
+                            resumeToken: nextResumeToken,
+                            missedSegments: missedSegments.map(segment => ({
+                                seq: segment.seq,
+                                transcript: segment.transcript,
+                                confidence: segment.confidence,
+                                isPartial: false,
+                                timestamp: segment.created_at.getTime(),
+                                startTime: segment.start_time,
+                                endTime: segment.end_time
+                            }))
+                        });
+                        logger.info(`Session resumed: ${session.id} for ${session.officer_email}, replayed ${missedSegments.length} segments`);
 
-                    speechmaticsService.on('error', (error) => {
-                        logger.error('Speechmatics error:', error);
-                        socket.emit('error', { message: 'Transcription service error' });
+                        const backpressure = this.audioFlowService.getBackpressure(session.id);
+                        if (backpressure) {
+                            socket.emit('audioBackpressure', backpressure);
+                        }
                     });
 
-                    socket.emit('sessionStarted', session);
-                    logger.info(`Session started: ${session.id} for ${officerEmail}`);
-
                 } catch (error) {
-                    logger.error('Error starting session:', error);
-                    socket.emit('error', { message: 'Failed to start session' });
+                    logger.error('Error resuming session:', error);
+                    socket.emit('error', { code: 'RESUME_FAILED', message: 'Failed to resume session' });
                 }
             });
 
             // Handle audio data
-            socket.on('audioData', (data) => {
+            socket.on('audioData', async (data) => {
                 try {
                     const { sessionId, audioChunk } = data;
 
@@ -286,10 +994,13 @@ class VoiceChatServer {
                         return;
                     }
 
-                    const speechmaticsService = this.speechmaticsServices.get(sessionId);
-                    if (speechmaticsService) {
-                        speechmaticsService.sendAudio(audioChunk);
-                    } else {
+                    if (!await this.canAccessSession(socket, sessionId)) {
+                        socket.emit('error', { code: 'UNAUTHORIZED', message: 'Session not found' });
+                        return;
+                    }
+
+                    const delivered = await this.dispatchAudio(sessionId, audioChunk);
+                    if (!delivered) {
                         socket.emit('error', { message: 'Session not found or transcription service not available' });
                     }
                 } catch (error) {
@@ -308,49 +1019,16 @@ class VoiceChatServer {
                         return;
                     }
 
-                    const conversation = await this.sessionManager.endSession(sessionId);
-
-                    // Clean up Speechmatics service
-                    const speechmaticsService = this.speechmaticsServices.get(sessionId);
-                    if (speechmaticsService) {
-                        speechmaticsService.disconnect();
-                        this.speechmaticsServices.delete(sessionId);
+                    if (!await this.canAccessSession(socket, sessionId)) {
+                        socket.emit('error', { code: 'UNAUTHORIZED', message: 'Session not found' });
+                        return;
                     }
 
-                    // Create jobs for post-processing
+                    // A session forwarded to its owning node is announced to the session room from there
+                    const conversation = await this.finishSession(sessionId);
                     if (conversation) {
-                        // Add audio processing job
-                        if (conversation.audio_url) {
-                            await this.queueService.addJob(QueueService.AUDIO_QUEUE, {
-                                sessionId: conversation.session_id,
-                                conversationId: conversation.id,
-                                audioUrl: conversation.audio_url,
-                                metadata: {
-                                    officerEmail: conversation.officer_email,
-                                    appName: conversation.app_name,
-                                    language: conversation.language,
-                                    duration: conversation.duration
-                                }
-                            });
-                        }
-
-                        // Add summary generation job (depends on audio processing)
-                        await this.queueService.addJob(QueueService.SUMMARY_QUEUE, {
-                            sessionId: conversation.session_id,
-                            conversationId: conversation.id,
-                            metadata: {
-                                officerEmail: conversation.officer_email,
-                                appName: conversation.app_name,
-                                language: conversation.language
-                            }
-                        }, {
-                            delay: 30000 // Wait 30 seconds for audio processing to complete
-                        });
-
-                        logger.info(`Created processing jobs for conversation: ${conversation.id}`);
+                        socket.emit('sessionEnded', conversation);
                     }
-
-                    socket.emit('sessionEnded', conversation);
                     logger.info(`Session ended: ${sessionId}`);
 
                 } catch (error) {
@@ -369,6 +1047,11 @@ class VoiceChatServer {
                         return;
                     }
 
+                    if (!await this.canAccessSession(socket, sessionId)) {
+                        socket.emit('error', { code: 'UNAUTHORIZED', message: 'Session not found' });
+                        return;
+                    }
+
                     // Handle WebRTC signaling through the service
                     await this.webrtcService.handleSignal(sessionId, signal);
 
@@ -391,6 +1074,11 @@ class VoiceChatServer {
                         return;
                     }
 
+                    if (!await this.canAccessSession(socket, sessionId)) {
+                        socket.emit('error', { code: 'UNAUTHORIZED', message: 'Session not found' });
+                        return;
+                    }
+
                     // Create WebRTC connection
                     const peerConnection = await this.webrtcService.createConnection(sessionId);
 
@@ -410,16 +1098,14 @@ class VoiceChatServer {
                     this.webrtcService.on('dataChannelMessage', ({ sessionId: connSessionId, data }) => {
                         if (connSessionId === sessionId) {
                             // Handle incoming audio data from WebRTC
-                            const speechmaticsService = this.speechmaticsServices.get(sessionId);
-                            if (speechmaticsService) {
-                                // Convert data to AudioChunk format
-                                const audioChunk: AudioChunk = {
-                                    data: Buffer.from(data),
-                                    timestamp: Date.now(),
-                                    sequence: 0, // This should be managed properly
-                                };
-                                speechmaticsService.sendAudio(audioChunk);
-                            }
+                            const audioChunk: AudioChunk = {
+                                data: Buffer.from(data),
+                                timestamp: Date.now(),
+                                sequence: 0, // This should be managed properly
+                            };
+                            this.dispatchAudio(sessionId, audioChunk).catch((error) => {
+                                logger.error('Error dispatching WebRTC audio:', error);
+                            });
                         }
                     });
 
@@ -435,19 +1121,22 @@ class VoiceChatServer {
             socket.on('disconnect', () => {
                 logger.info(`Client disconnected: ${socket.id}`);
 
-                // Clean up any active sessions for this client
+                // A draining node hands its sessions off; clients reconnect elsewhere and resume
+                if (this.clusterService.isDraining()) {
+                    return;
+                }
+
+                // Keep active sessions resumable for the grace window, then clean them up
+                const graceMs = parseInt(process.env['SESSION_RESUME_GRACE_MS'] || '60000');
                 const sessions = this.sessionManager.getSessionsByClientId(socket.id);
                 sessions.forEach(async (session) => {
                     try {
-                        await this.sessionManager.endSession(session.id);
-
-                        // Clean up Speechmatics service
-                        const speechmaticsService = this.speechmaticsServices.get(session.id);
-                        if (speechmaticsService) {
-                            speechmaticsService.disconnect();
-                            this.speechmaticsServices.delete(session.id);
+                        if (graceMs > 0 && this.sessionManager.suspendSession(session.id, graceMs)) {
+                            return;
                         }
 
+                        await this.finishSession(session.id);
+
                         // Clean up WebRTC connection
                         await this.webrtcService.closeConnection(session.id);
                     } catch (error) {
@@ -458,10 +1147,485 @@ class VoiceChatServer {
         });
     }
 
+    /**
+     * Stop a session's transcription, end the session and queue post-processing.
+     * Returns null when the session is already being ended, or was forwarded to the node running its transcription, which ends it there.
+     */
+    private async finishSession(sessionId: string): Promise<Conversation | null> {
+        // Checked and set before the first await, so concurrent calls cannot both get through
+        if (this.endingSessions.has(sessionId)) {
+            return null;
+        }
+        this.endingSessions.add(sessionId);
+
+        try {
+            return await this.endSessionInSpan(sessionId);
+        } finally {
+            this.endingSessions.delete(sessionId);
+        }
+    }
+
+    /**
+     * The steps of finishSession, traced as part of the session
+     */
+    private async endSessionInSpan(sessionId: string): Promise<Conversation | null> {
+        return withSpan('session.end', {
+            parent: await this.getSessionTraceContext(sessionId),
+            attributes: { 'session.id': sessionId },
+        }, async () => {
+            // The provider's last final segments must be in before the session is closed to them
+            if (await this.stopTranscription(sessionId)) {
+                return null;
+            }
+
+            const conversation = await this.sessionManager.endSession(sessionId);
+            await this.quotaService.releaseSession(sessionId, conversation.app_name);
+
+            // The recording is finalized once the conversation exists, so its audio_files row links to it
+            const ended = await this.finalizeRecording(sessionId) || conversation;
+            await this.clusterService.releaseSession(sessionId);
+            await this.startPostProcessing(ended);
+
+            return ended;
+        });
+    }
+
+    /**
+     * The trace a session was started in, so its later steps join it
+     */
+    private async getSessionTraceContext(sessionId: string): Promise<Context> {
+        const session = await this.sessionManager.getSession(sessionId);
+        return extractTraceContext(session?.trace_context);
+    }
+
+    /**
+     * Start the post-processing pipeline for an ended conversation
+     */
+    private async startPostProcessing(conversation: Conversation): Promise<void> {
+        const jobData: JobData = {
+            sessionId: conversation.session_id,
+            conversationId: conversation.id,
+            metadata: {
+                officerEmail: conversation.officer_email,
+                appName: conversation.app_name,
+                language: conversation.language,
+                conversationType: conversation.conversation_type,
+                duration: conversation.duration,
+                // Stages read the transcript from the conversation record, which redaction overwrites, so it never sits in job payloads
+                hasTranscript: !!conversation.transcript?.trim(),
+            }
+        };
+        if (conversation.audio_url) {
+            jobData.audioUrl = conversation.audio_url;
+        }
+
+        await this.queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+    }
+
+    /**
+     * Authenticate a server-to-server request by the app API key in `Authorization: Bearer` or `x-api-key`
+     */
+    private async authenticateRequest(req: express.Request): Promise<AppRegistration | null> {
+        const apiKey = this.getRequestApiKey(req);
+        if (!apiKey) {
+            return null;
+        }
+
+        const registration = await this.appRegistrationService.getByApiKey(apiKey);
+        return registration && registration.status === 'active' ? registration : null;
+    }
+
+    /**
+     * The API key a request carries as a bearer token or in x-api-key
+     */
+    private getRequestApiKey(req: express.Request): string | undefined {
+        const authorization = req.headers.authorization;
+        const headerKey = req.headers['x-api-key'];
+        return authorization?.startsWith('Bearer ')
+            ? authorization.slice('Bearer '.length).trim()
+            : (typeof headerKey === 'string' ? headerKey : undefined);
+    }
+
+    /**
+     * Authenticate an operator request by ADMIN_API_KEY, answering 503 while none is configured and 401 when it does not match
+     */
+    private authorizeAdminRequest(req: express.Request, res: express.Response): boolean {
+        const adminKey = process.env['ADMIN_API_KEY'];
+        if (!adminKey) {
+            res.status(503).json({ error: 'Admin API is not configured' });
+            return false;
+        }
+
+        const apiKey = this.getRequestApiKey(req);
+        const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+        if (!apiKey || !crypto.timingSafeEqual(digest(apiKey), digest(adminKey))) {
+            res.status(401).json({ error: 'Unauthorized' });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Authenticate a request for an app's own resources, answering 401 or 403 when it may not access them
+     */
+    private async authorizeAppRequest(req: express.Request, res: express.Response, appName: string): Promise<AppRegistration | null> {
+        const registration = await this.authenticateRequest(req);
+        if (!registration) {
+            res.status(401).json({ error: 'Unauthorized' });
+            return null;
+        }
+        if (registration.name !== appName) {
+            res.status(403).json({ error: 'API key does not belong to this app' });
+            return null;
+        }
+        return registration;
+    }
+
+    /**
+     * Whether a socket may act on a session: it must belong to the socket's app and, under a session token, to its officer
+     */
+    private async canAccessSession(socket: Socket, sessionId: string): Promise<boolean> {
+        const session = await this.sessionManager.getSession(sessionId);
+        if (!session) {
+            return false;
+        }
+
+        const app: AuthenticatedApp | undefined = socket.data.app;
+        const scope: SessionTokenScope | undefined = socket.data.scope;
+        if ((app && session.app_name !== app.name) || (scope && session.officer_email !== scope.officerEmail)) {
+            logger.warn(`Socket ${socket.id} tried to access session ${sessionId} of app ${session.app_name}`);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * The identity bound to a socket for an authenticated app
+     */
+    private toAuthenticatedApp(registration: AppRegistration): AuthenticatedApp {
+        return {
+            id: registration.id,
+            name: registration.name,
+            permissions: registration.permissions || [],
+            rateLimit: registration.rate_limit,
+        };
+    }
+
+    /**
+     * Socket.IO room for an app's token-authenticated sockets, so revocation can reach them on every node
+     */
+    private appTokenRoom(appName: string): string {
+        return `app-tokens:${appName}`;
+    }
+
+    /**
+     * Strip server-only fields before sending a session to a client
+     */
+    private toClientSession(session: Session): Omit<Session, 'resume_token_hash' | 'trace_context'> {
+        const { resume_token_hash, trace_context, ...clientSession } = session;
+        return clientSession;
+    }
+
+    /**
+     * Socket.IO room for a session's clients, shared across nodes by the adapter
+     */
+    private sessionRoom(sessionId: string): string {
+        return `session:${sessionId}`;
+    }
+
+    /**
+     * Create and connect the app's transcription provider for a session on this node
+     */
+    private async startTranscription(session: Session): Promise<TranscriptionProvider> {
+        const providerName = await this.appRegistrationService.getTranscriptionProvider(session.app_name);
+        const config: SpeechmaticsConfig = {
+            language: session.language,
+            enablePartials: true,
+            punctuationPermitted: true,
+            sampleRate: 16000,
+            encoding: 'pcm_f32le',
+            diarization: process.env['SPEECHMATICS_DIARIZATION'] === 'speaker' ? 'speaker' : 'none',
+            maxSpeakers: parseInt(process.env['SPEECHMATICS_MAX_SPEAKERS'] || '2')
+        };
+        const provider = createTranscriptionProvider(providerName, config, session.id);
+
+        this.transcriptionProviders.set(session.id, provider);
+        this.audioFlowService.attach(session.id, provider);
+        this.audioRecordingService.start(session.id, { sampleRate: config.sampleRate, channels: 1, encoding: config.encoding });
+        await this.clusterService.claimSession(session.id);
+        await this.sessionManager.prepareTranscript(session.id);
+        const room = this.sessionRoom(session.id);
+
+        // Connect to the transcription provider
+        await withSpan('transcription.connect', {
+            attributes: { 'session.id': session.id, 'transcription.provider': provider.name },
+        }, () => provider.connect());
+        logger.info(`Transcription for session ${session.id} using ${provider.name}`);
+
+        // Setup transcription event handlers
+        provider.on('partialTranscript', (data) => {
+            this.sessionManager.recordPartial(session.id);
+            this.io.to(room).emit('partialTranscript', data);
+        });
+
+        provider.on('finalTranscript', (data) => {
+            const segment = this.sessionManager.addFinalSegment(session.id, data);
+            this.io.to(room).emit('finalTranscript', { ...data, seq: segment?.seq });
+        });
+
+        provider.on('error', (error) => {
+            logger.error(`Transcription error (${provider.name}):`, error);
+            this.io.to(room).emit('error', { message: 'Transcription service error' });
+        });
+
+        return provider;
+    }
+
+    /**
+     * Stop a session's transcription once its last final segments are in, forwarding to the owning node if it runs elsewhere.
+     * Returns whether the session was forwarded.
+     */
+    private async stopTranscription(sessionId: string): Promise<boolean> {
+        const provider = this.transcriptionProviders.get(sessionId);
+        if (!provider) {
+            return this.clusterService.routeEndSession(sessionId);
+        }
+
+        this.audioFlowService.detach(sessionId);
+        this.transcriptionProviders.delete(sessionId);
+        await this.flushTranscription(provider);
+        provider.disconnect();
+        return false;
+    }
+
+    /**
+     * Signal the end of the audio and wait, up to TRANSCRIPTION_FLUSH_TIMEOUT_MS, for the provider to send its last final segments
+     */
+    private async flushTranscription(provider: TranscriptionProvider): Promise<void> {
+        if (!provider.isReady()) {
+            return;
+        }
+
+        const timeoutMs = parseInt(process.env['TRANSCRIPTION_FLUSH_TIMEOUT_MS'] || '5000');
+        await new Promise<void>((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                provider.off('endOfTranscript', done);
+                provider.off('disconnected', done);
+                resolve();
+            };
+            const timer = setTimeout(done, timeoutMs);
+            provider.on('endOfTranscript', done);
+            provider.on('disconnected', done);
+            provider.endStream();
+        });
+    }
+
+    /**
+     * Finish a session's local transcription before another node takes it over. The provider's last final
+     * segments are saved here, ahead of the new owner's, and the audio recorded here is kept as its own part,
+     * linked to the conversation when the session ends.
+     */
+    private async prepareHandoff(sessionId: string): Promise<void> {
+        const provider = this.transcriptionProviders.get(sessionId);
+        if (!provider) {
+            return;
+        }
+
+        // Audio arriving while the provider flushes is held for the new owner
+        this.handoffAudio.set(sessionId, []);
+        this.audioFlowService.detach(sessionId);
+        this.transcriptionProviders.delete(sessionId);
+        await this.flushTranscription(provider);
+        provider.disconnect();
+        await this.audioRecordingService.finalize(sessionId);
+    }
+
+    /**
+     * Forward the audio held during a handoff to the session's new owner, or drop it if the session could not be moved
+     */
+    private async forwardHandoffAudio(sessionId: string, target: string | null): Promise<void> {
+        const held = this.handoffAudio.get(sessionId);
+        if (!held) {
+            return;
+        }
+
+        try {
+            // Chunks arriving while earlier ones are forwarded are appended and sent in order
+            while (target && held.length > 0) {
+                await this.clusterService.routeAudio(sessionId, held.shift()!);
+            }
+        } finally {
+            this.handoffAudio.delete(sessionId);
+        }
+
+        if (held.length > 0) {
+            logger.warn(`Dropped ${held.length} held audio chunks for session ${sessionId}, it was not handed off`);
+        }
+        logger.info(`Handed off transcription for session ${sessionId}`);
+    }
+
+    /**
+     * Hold a chunk for a session that is being handed off
+     */
+    private holdHandoffAudio(sessionId: string, audioChunk: AudioChunk): boolean {
+        const held = this.handoffAudio.get(sessionId);
+        if (!held) {
+            return false;
+        }
+        held.push(audioChunk);
+        return true;
+    }
+
+    /**
+     * Finalize a session's recording and attach its URL to the session and conversation
+     */
+    private async finalizeRecording(sessionId: string): Promise<Conversation | null> {
+        try {
+            const session = await this.sessionManager.getSession(sessionId);
+            const recording = await this.audioRecordingService.finalize(sessionId, session?.conversation_id);
+            if (!recording) {
+                return null;
+            }
+            return await this.sessionManager.attachRecording(sessionId, recording.audioUrl);
+        } catch (error) {
+            logger.error(`Error finalizing recording for session ${sessionId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Send audio to the session's transcription, locally or on the owning node
+     */
+    private async dispatchAudio(sessionId: string, audioChunk: AudioChunk): Promise<boolean> {
+        metrics.recordAudioIn(audioChunk.data.length);
+        this.meterAudio(sessionId, audioChunk);
+
+        if (this.holdHandoffAudio(sessionId, audioChunk)) {
+            return true;
+        }
+
+        if (this.audioFlowService.push(sessionId, audioChunk)) {
+            this.audioRecordingService.write(sessionId, audioChunk);
+            return true;
+        }
+
+        return this.clusterService.routeAudio(sessionId, audioChunk);
+    }
+
+    /**
+     * Count audio against the session's quotas and end the session once an audio allowance runs out
+     */
+    private meterAudio(sessionId: string, audioChunk: AudioChunk): void {
+        const byteRate = getByteRate({ sampleRate: audioChunk.sampleRate || 16000, channels: audioChunk.channels || 1, encoding: 'pcm_f32le' });
+
+        this.quotaService.recordAudio(sessionId, audioChunk.data.length / byteRate)
+            .then(async (quota) => {
+                // Every chunk after the allowance runs out is over quota; only the first one ends the session
+                if (quota.ok || this.endingSessions.has(sessionId)) {
+                    return;
+                }
+                const session = await this.sessionManager.getSession(sessionId);
+                if (session?.status !== 'active') {
+                    return;
+                }
+
+                logger.warn(`Session ${sessionId} exceeded its ${quota.quota} quota, ending it`);
+                const room = this.sessionRoom(sessionId);
+                this.io.to(room).emit('error', { code: quota.code, message: 'Quota exceeded', details: { quota: quota.quota, limit: quota.limit } });
+
+                const conversation = await this.finishSession(sessionId);
+                if (conversation) {
+                    this.io.to(room).emit('sessionEnded', conversation);
+                }
+            })
+            .catch((error) => {
+                logger.error(`Error enforcing audio quota for session ${sessionId}:`, error);
+            });
+    }
+
+    /**
+     * Handle audio, session ends and handoffs routed from other nodes
+     */
+    private setupClusterHandlers(): void {
+        this.clusterService.on('audio', (sessionId: string, audioChunk: AudioChunk) => {
+            if (this.holdHandoffAudio(sessionId, audioChunk)) {
+                return;
+            }
+            if (this.audioFlowService.push(sessionId, audioChunk)) {
+                this.audioRecordingService.write(sessionId, audioChunk);
+            } else {
+                logger.warn(`Received routed audio for session ${sessionId} not running on this node`);
+            }
+        });
+
+        this.clusterService.on('endSession', async (sessionId: string) => {
+            try {
+                await withSpan('session.end.routed', {
+                    parent: await this.getSessionTraceContext(sessionId),
+                    attributes: { 'session.id': sessionId },
+                }, async () => {
+                    // Another node was asked to end the session, but its transcription and recording run here
+                    const conversation = await this.finishSession(sessionId);
+                    if (conversation) {
+                        this.io.to(this.sessionRoom(sessionId)).emit('sessionEnded', conversation);
+                    }
+                });
+            } catch (error) {
+                logger.error(`Error stopping routed session ${sessionId}:`, error);
+            }
+        });
+
+        this.clusterService.on('handedOff', (sessionId: string, target: string | null) => {
+            this.forwardHandoffAudio(sessionId, target).catch((error) => {
+                logger.error(`Error handing off session ${sessionId}:`, error);
+            });
+        });
+
+        this.clusterService.on('handoff', async (sessionId: string) => {
+            try {
+                const session = await this.sessionManager.getSession(sessionId);
+                if (!session || session.status !== 'active') {
+                    await this.clusterService.releaseSession(sessionId);
+                    logger.warn(`Dropped handoff for inactive session ${sessionId}`);
+                    return;
+                }
+
+                await this.startTranscription(session);
+                logger.info(`Took over transcription for session ${sessionId}`);
+            } catch (error) {
+                logger.error(`Error taking over session ${sessionId}:`, error);
+            }
+        });
+    }
+
     /**
      * Setup event handlers
      */
     private setupEventHandlers(): void {
+        // Tell a session's clients to hold or resume audio as its buffer fills and drains, wherever they are connected
+        this.audioFlowService.on('backpressure', (backpressure: AudioBackpressure) => {
+            this.io.to(this.sessionRoom(backpressure.sessionId)).emit('audioBackpressure', backpressure);
+        });
+
+        // Keep the ending socket, or whichever client resumed the session, informed as its summary, PDF and email are produced
+        this.processingProgressService.on('progress', (progress: ProcessingProgress) => {
+            this.io.to(this.sessionRoom(progress.sessionId)).emit('processingProgress', progress);
+        });
+
+        // The redaction stage rewrites the database; the session store's copies of the transcript are replaced here
+        applyRedactionsToSessions(this.queueService, this.sessionManager);
+
+        // End sessions whose client did not resume in time
+        this.sessionManager.on('resumeWindowExpired', async (session: Session) => {
+            try {
+                await this.finishSession(session.id);
+                await this.webrtcService.closeConnection(session.id);
+            } catch (error) {
+                logger.error(`Error ending expired session ${session.id}:`, error);
+            }
+        });
+
         // Handle graceful shutdown
         process.on('SIGTERM', () => {
             logger.info('SIGTERM received, shutting down gracefully');
@@ -493,6 +1657,40 @@ class VoiceChatServer {
         logger.info('Global IO instance set up for real-time updates');
     }
 
+    /**
+     * Point the scrape-time gauges at this node's sessions, sockets, buffers and queues
+     */
+    private setupMetrics(): void {
+        metrics.setSources({
+            activeSessions: () => this.sessionManager.getActiveSessions().length,
+            socketConnections: () => this.io.engine.clientsCount,
+            audioBuffers: () => this.audioFlowService.getStats(),
+            queueStats: () => this.queueService.getAllQueueStats(),
+        });
+    }
+
+    /**
+     * Schedule the retention purge on RETENTION_PURGE_CRON, nightly by default; "off" disables it
+     */
+    private async scheduleRetentionPurge(): Promise<void> {
+        const cron = process.env['RETENTION_PURGE_CRON'] || '0 3 * * *';
+        if (cron === 'off') {
+            logger.info('Retention purge is disabled');
+            return;
+        }
+
+        try {
+            // A fixed job ID keeps one schedule however many nodes start
+            await this.queueService.scheduleRepeatingJob(QueueService.RETENTION_QUEUE, 'retention-purge', {
+                sessionId: 'retention',
+                metadata: { dryRun: false },
+            }, cron);
+            logger.info(`Retention purge scheduled: ${cron}`);
+        } catch (error) {
+            logger.warn('Failed to schedule the retention purge:', (error as Error).message);
+        }
+    }
+
     /**
      * Start the server
      */
@@ -514,6 +1712,17 @@ class VoiceChatServer {
                 logger.warn('⚠️ Some system components are unhealthy, but continuing with startup...');
             }
 
+            // Join the cluster before accepting connections
+            await this.clusterService.initialize(this.io);
+
+            // Restore active sessions persisted before the last restart, other than those live nodes are serving
+            try {
+                const graceMs = parseInt(process.env['SESSION_RESUME_GRACE_MS'] || '60000');
+                await this.sessionManager.rehydrate(graceMs, sessionId => this.clusterService.isOwnedElsewhere(sessionId));
+            } catch (error) {
+                logger.warn('Session rehydration failed, continuing with an empty session cache:', (error as Error).message);
+            }
+
             // Initialize queue service
             await this.queueService.initialize();
             logger.info('Queue service initialized');
@@ -526,6 +1735,8 @@ class VoiceChatServer {
                 logger.warn('Worker manager initialization failed, continuing without workers:', (error as Error).message);
             }
 
+            await this.scheduleRetentionPurge();
+
             const port = process.env['APP_PORT'] || 3001;
             const host = process.env['APP_HOST'] || '0.0.0.0';
 
@@ -547,6 +1758,9 @@ class VoiceChatServer {
         logger.info('Shutting down server...');
 
         try {
+            // Hand owned sessions off to other nodes before tearing down transcription
+            await this.clusterService.drain(sessionId => this.prepareHandoff(sessionId));
+
             // Stop worker manager
             await this.workerManager.shutdown();
             logger.info('Worker manager stopped');
@@ -555,11 +1769,29 @@ class VoiceChatServer {
             await this.queueService.shutdown();
             logger.info('Queue service stopped');
 
-            // Close all Speechmatics connections
-            this.speechmaticsServices.forEach((service) => {
+            // Close all transcription connections
+            this.transcriptionProviders.forEach((service, sessionId) => {
+                this.audioFlowService.detach(sessionId);
                 service.disconnect();
             });
-            this.speechmaticsServices.clear();
+            this.transcriptionProviders.clear();
+
+            // Upload whatever audio this node still holds
+            await this.audioRecordingService.close();
+            logger.info('Audio recordings finalized');
+
+            // Flush metered audio; sessions keep their concurrent slots while they resume elsewhere
+            await this.quotaService.close();
+
+            // Close session store
+            await this.sessionManager.close();
+            logger.info('Session store closed');
+
+            // Export the spans still buffered
+            await shutdownTracing();
+
+            // Leave the cluster
+            await this.clusterService.close();
 
             // Close all WebRTC connections
             await this.webrtcService.closeAllConnections();
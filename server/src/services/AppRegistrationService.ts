@@ -0,0 +1,359 @@
+import crypto from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { AppRegistration, OfficerSettings, RedactionPolicy, SummaryProviderName, TranscriptionProviderName } from '../types';
+import { isTranscriptionProviderName } from './TranscriptionProvider';
+import { isSummaryProviderName } from './SummaryProvider';
+import { isRedactionPolicy } from './PiiRedactor';
+import { isSupportedLanguage } from '../utils/languages';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+interface CacheEntry {
+    registration: AppRegistration | null;
+    expiresAt: number;
+}
+
+export type AppAuthFailure = 'MISSING_API_KEY' | 'INVALID_API_KEY' | 'APP_INACTIVE' | 'ORIGIN_NOT_ALLOWED';
+
+export type AppAuthResult =
+    | { ok: true; registration: AppRegistration }
+    | { ok: false; code: AppAuthFailure };
+
+export interface SummarySettings {
+    provider: SummaryProviderName;
+    // Unset uses the provider's configured default
+    model?: string;
+}
+
+export interface ReportSettings {
+    // Null writes reports in the conversation's own language
+    language: string | null;
+    translateTranscript: boolean;
+}
+
+export interface RedactionSettings {
+    policy: RedactionPolicy;
+    // Names to redact besides the patterns every app gets
+    names: string[];
+}
+
+export interface OfficerSettingsInput {
+    reportLanguage?: string | null;
+    translateTranscript?: boolean | null;
+}
+
+export class AppRegistrationService {
+    private supabase: SupabaseClient;
+    private cache: Map<string, CacheEntry> = new Map();
+    // Keyed by a hash of the API key so raw keys are not held in memory
+    private keyCache: Map<string, CacheEntry> = new Map();
+
+    constructor(supabase?: SupabaseClient) {
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Get an app registration by name, cached for a minute
+     */
+    async getByName(appName: string): Promise<AppRegistration | null> {
+        const cached = this.cache.get(appName);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.registration;
+        }
+
+        const { data, error } = await this.supabase
+            .from('app_registrations')
+            .select('*')
+            .eq('name', appName)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load app registration ${appName}: ${error.message}`);
+        }
+
+        const registration = (data as AppRegistration | null) || null;
+        this.cache.set(appName, { registration, expiresAt: Date.now() + CACHE_TTL_MS });
+
+        return registration;
+    }
+
+    /**
+     * Get an app registration by API key, cached for a minute; unknown keys are cached too
+     */
+    async getByApiKey(apiKey: string): Promise<AppRegistration | null> {
+        const cacheKey = crypto.createHash('sha256').update(apiKey).digest('hex');
+        const cached = this.keyCache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.registration;
+        }
+
+        const { data, error } = await this.supabase
+            .from('app_registrations')
+            .select('*')
+            .eq('api_key', apiKey)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to look up app registration by API key: ${error.message}`);
+        }
+
+        const registration = (data as AppRegistration | null) || null;
+        this.keyCache.set(cacheKey, { registration, expiresAt: Date.now() + CACHE_TTL_MS });
+
+        return registration;
+    }
+
+    /**
+     * Authenticate a client by API key and check that it connects from the app's registered domain
+     */
+    async authenticate(apiKey: string | undefined, origin: string | undefined): Promise<AppAuthResult> {
+        if (!apiKey) {
+            return { ok: false, code: 'MISSING_API_KEY' };
+        }
+
+        const registration = await this.getByApiKey(apiKey);
+        if (!registration) {
+            return { ok: false, code: 'INVALID_API_KEY' };
+        }
+        if (registration.status !== 'active') {
+            return { ok: false, code: 'APP_INACTIVE' };
+        }
+        if (!this.isOriginAllowed(registration, origin)) {
+            return { ok: false, code: 'ORIGIN_NOT_ALLOWED' };
+        }
+
+        return { ok: true, registration };
+    }
+
+    /**
+     * Check an Origin header against an app's domain: a comma-separated list of origins
+     * (`https://app.example.com`) or hostnames (`example.com`, `*.example.com`).
+     * Apps without a domain accept any origin.
+     */
+    isOriginAllowed(registration: AppRegistration, origin: string | undefined): boolean {
+        const allowed = (registration.domain || '').split(',').map(entry => entry.trim()).filter(Boolean);
+        if (allowed.length === 0) {
+            return true;
+        }
+        if (!origin) {
+            return false;
+        }
+
+        let originUrl: URL;
+        try {
+            originUrl = new URL(origin);
+        } catch {
+            return false;
+        }
+
+        return allowed.some(entry => {
+            if (entry.includes('://')) {
+                try {
+                    return new URL(entry).origin === originUrl.origin;
+                } catch {
+                    return false;
+                }
+            }
+
+            const hostname = entry.toLowerCase();
+            if (hostname.startsWith('*.')) {
+                return originUrl.hostname.endsWith(hostname.slice(1));
+            }
+            return originUrl.hostname === hostname;
+        });
+    }
+
+    /**
+     * Resolve the transcription provider for an app, falling back to TRANSCRIPTION_PROVIDER
+     */
+    async getTranscriptionProvider(appName: string): Promise<TranscriptionProviderName> {
+        const fallback = process.env['TRANSCRIPTION_PROVIDER'];
+        const defaultProvider: TranscriptionProviderName = isTranscriptionProviderName(fallback) ? fallback : 'speechmatics';
+
+        try {
+            const registration = await this.getByName(appName);
+            if (registration && isTranscriptionProviderName(registration.transcription_provider)) {
+                return registration.transcription_provider;
+            }
+        } catch (error) {
+            logger.warn(`Could not resolve transcription provider for ${appName}, using ${defaultProvider}:`, error);
+        }
+
+        return defaultProvider;
+    }
+
+    /**
+     * Resolve the summary provider and model for an app, falling back to SUMMARY_PROVIDER
+     */
+    async getSummarySettings(appName: string | undefined): Promise<SummarySettings> {
+        const fallback = process.env['SUMMARY_PROVIDER'];
+        const defaults: SummarySettings = { provider: isSummaryProviderName(fallback) ? fallback : 'openai' };
+        if (!appName) {
+            return defaults;
+        }
+
+        try {
+            const registration = await this.getByName(appName);
+            if (registration) {
+                return {
+                    provider: isSummaryProviderName(registration.summary_provider) ? registration.summary_provider : defaults.provider,
+                    ...(registration.summary_model ? { model: registration.summary_model } : {}),
+                };
+            }
+        } catch (error) {
+            logger.warn(`Could not resolve summary provider for ${appName}, using ${defaults.provider}:`, error);
+        }
+
+        return defaults;
+    }
+
+    /**
+     * Resolve how an app's transcripts are redacted, falling back to REDACTION_POLICY and adding the
+     * REDACTION_NAMES every app redacts
+     */
+    async getRedactionSettings(appName: string | undefined): Promise<RedactionSettings> {
+        const fallback = process.env['REDACTION_POLICY'] || 'mask';
+        const settings: RedactionSettings = {
+            policy: isRedactionPolicy(fallback) ? fallback : 'mask',
+            names: (process.env['REDACTION_NAMES'] || '').split(',').map(name => name.trim()).filter(Boolean),
+        };
+        if (!appName) {
+            return settings;
+        }
+
+        try {
+            const registration = await this.getByName(appName);
+            if (isRedactionPolicy(registration?.redaction_policy)) {
+                settings.policy = registration.redaction_policy;
+            }
+            settings.names.push(...(registration?.redaction_names || []));
+        } catch (error) {
+            logger.warn(`Could not resolve redaction policy for ${appName}, using ${settings.policy}:`, error);
+        }
+
+        return settings;
+    }
+
+    /**
+     * Resolve the report language and transcript translation for an officer's conversations:
+     * the officer's settings, then the app's, then REPORT_LANGUAGE and TRANSLATE_TRANSCRIPTS
+     */
+    async getReportSettings(appName: string | undefined, officerEmail: string | undefined): Promise<ReportSettings> {
+        const fallbackLanguage = process.env['REPORT_LANGUAGE'];
+        const settings: ReportSettings = {
+            language: isSupportedLanguage(fallbackLanguage) ? fallbackLanguage : null,
+            translateTranscript: process.env['TRANSLATE_TRANSCRIPTS'] === 'true',
+        };
+        if (!appName) {
+            return settings;
+        }
+
+        try {
+            const registration = await this.getByName(appName);
+            const officer = officerEmail ? await this.getOfficerSettings(appName, officerEmail) : null;
+
+            for (const source of [registration, officer]) {
+                if (isSupportedLanguage(source?.report_language)) {
+                    settings.language = source.report_language;
+                }
+                if (typeof source?.translate_transcript === 'boolean') {
+                    settings.translateTranscript = source.translate_transcript;
+                }
+            }
+        } catch (error) {
+            logger.warn(`Could not resolve report settings for ${officerEmail || 'unknown officer'} of ${appName}, using defaults:`, error);
+        }
+
+        return settings;
+    }
+
+    /**
+     * Get an officer's report settings overrides for an app
+     */
+    async getOfficerSettings(appName: string, officerEmail: string): Promise<OfficerSettings | null> {
+        const { data, error } = await this.supabase
+            .from('officer_settings')
+            .select('*')
+            .eq('app_name', appName)
+            .eq('officer_email', officerEmail.toLowerCase())
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load settings of ${officerEmail} for app ${appName}: ${error.message}`);
+        }
+
+        return (data as OfficerSettings | null) || null;
+    }
+
+    /**
+     * Save an officer's report settings overrides; omitted fields keep their value, null inherits the app's
+     */
+    async saveOfficerSettings(appName: string, officerEmail: string, input: OfficerSettingsInput): Promise<OfficerSettings> {
+        const current = await this.getOfficerSettings(appName, officerEmail);
+
+        const { data, error } = await this.supabase
+            .from('officer_settings')
+            .upsert({
+                app_name: appName,
+                officer_email: officerEmail.toLowerCase(),
+                report_language: input.reportLanguage !== undefined ? input.reportLanguage : current?.report_language ?? null,
+                translate_transcript: input.translateTranscript !== undefined ? input.translateTranscript : current?.translate_transcript ?? null,
+            }, { onConflict: 'app_name,officer_email' })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to save settings of ${officerEmail} for app ${appName}: ${error.message}`);
+        }
+
+        return data as OfficerSettings;
+    }
+
+    /**
+     * Revoke every session token minted for an app so far. Other nodes honour it once their
+     * cached registration expires.
+     */
+    async revokeTokens(appName: string): Promise<string> {
+        const revokedAt = new Date().toISOString();
+
+        const { error } = await this.supabase
+            .from('app_registrations')
+            .update({ tokens_revoked_at: revokedAt, updated_at: revokedAt })
+            .eq('name', appName);
+
+        if (error) {
+            throw new Error(`Failed to revoke tokens for app ${appName}: ${error.message}`);
+        }
+
+        this.invalidate(appName);
+        logger.info(`Revoked session tokens for app ${appName} issued before ${revokedAt}`);
+
+        return revokedAt;
+    }
+
+    /**
+     * Drop cached registrations, e.g. after an update
+     */
+    invalidate(appName?: string): void {
+        if (appName) {
+            this.cache.delete(appName);
+        } else {
+            this.cache.clear();
+        }
+        // Key lookups are not indexed by name, so any change drops them all
+        this.keyCache.clear();
+    }
+}
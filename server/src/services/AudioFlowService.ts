@@ -0,0 +1,225 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { AudioChunk } from '../types';
+import { TranscriptionProvider } from './TranscriptionProvider';
+
+export interface AudioBufferOptions {
+    maxBytes: number;
+    highWatermark: number;
+    lowWatermark: number;
+}
+
+// Sent to a session's clients when its buffer crosses a watermark
+export interface AudioBackpressure {
+    sessionId: string;
+    paused: boolean;
+    bufferedBytes: number;
+    maxBytes: number;
+}
+
+export interface AudioBufferStats {
+    sessionId: string;
+    bufferedBytes: number;
+    bufferedChunks: number;
+    paused: boolean;
+    droppedChunks: number;
+    droppedBytes: number;
+}
+
+export interface AudioFlowStats {
+    sessions: AudioBufferStats[];
+    bufferedBytes: number;
+    pausedSessions: number;
+    droppedBytes: number;
+    maxBytes: number;
+}
+
+interface SessionAudioBuffer {
+    sessionId: string;
+    provider: TranscriptionProvider;
+    chunks: AudioChunk[];
+    bytes: number;
+    paused: boolean;
+    droppedChunks: number;
+    droppedBytes: number;
+    onReady: () => void;
+}
+
+/**
+ * Bounded per-session audio buffers between the client sockets and the transcription providers.
+ *
+ * Chunks are forwarded while the provider is ready and queued while it connects,
+ * reconnects or falls behind. Crossing the high watermark emits `backpressure`
+ * with `paused: true` so clients hold their audio; draining to the low watermark
+ * emits it again with `paused: false`. A full buffer drops its oldest audio.
+ */
+export class AudioFlowService extends EventEmitter {
+    private buffers: Map<string, SessionAudioBuffer> = new Map();
+    private readonly options: AudioBufferOptions;
+    // Audio dropped by buffers that have since been detached
+    private detachedDroppedBytes = 0;
+
+    constructor(options?: Partial<AudioBufferOptions>) {
+        super();
+        const maxBytes = options?.maxBytes ?? parseInt(process.env['AUDIO_BUFFER_MAX_BYTES'] || '1920000');
+        this.options = {
+            maxBytes,
+            highWatermark: options?.highWatermark ?? parseInt(process.env['AUDIO_BUFFER_HIGH_WATERMARK'] || String(Math.floor(maxBytes * 0.75))),
+            lowWatermark: options?.lowWatermark ?? parseInt(process.env['AUDIO_BUFFER_LOW_WATERMARK'] || String(Math.floor(maxBytes * 0.25))),
+        };
+
+        if (this.options.lowWatermark >= this.options.highWatermark || this.options.highWatermark > this.options.maxBytes) {
+            throw new Error('Audio buffer watermarks must satisfy low < high <= max');
+        }
+    }
+
+    /**
+     * Start buffering a session's audio for its provider
+     */
+    attach(sessionId: string, provider: TranscriptionProvider): void {
+        this.detach(sessionId);
+
+        const buffer: SessionAudioBuffer = {
+            sessionId,
+            provider,
+            chunks: [],
+            bytes: 0,
+            paused: false,
+            droppedChunks: 0,
+            droppedBytes: 0,
+            onReady: () => this.drain(buffer),
+        };
+
+        provider.on('ready', buffer.onReady);
+        this.buffers.set(sessionId, buffer);
+    }
+
+    /**
+     * Stop buffering a session's audio, forwarding what the provider will still take and discarding the rest
+     */
+    detach(sessionId: string): void {
+        const buffer = this.buffers.get(sessionId);
+        if (!buffer) {
+            return;
+        }
+
+        while (buffer.chunks.length > 0 && buffer.provider.isReady()) {
+            const chunk = buffer.chunks.shift()!;
+            buffer.bytes -= chunk.data.length;
+            buffer.provider.sendAudio(chunk);
+        }
+
+        buffer.provider.off('ready', buffer.onReady);
+        this.buffers.delete(sessionId);
+        this.detachedDroppedBytes += buffer.droppedBytes + buffer.bytes;
+
+        if (buffer.bytes > 0) {
+            logger.warn(`Discarded ${buffer.bytes} bytes of buffered audio for session ${sessionId}`);
+        }
+        if (buffer.paused) {
+            this.emitBackpressure(buffer, false);
+        }
+    }
+
+    /**
+     * Check whether a session's audio is buffered on this node
+     */
+    has(sessionId: string): boolean {
+        return this.buffers.has(sessionId);
+    }
+
+    /**
+     * The backpressure a session's clients should currently apply, or null when it is not paused
+     */
+    getBackpressure(sessionId: string): AudioBackpressure | null {
+        const buffer = this.buffers.get(sessionId);
+        if (!buffer || !buffer.paused) {
+            return null;
+        }
+        return this.toBackpressure(buffer, true);
+    }
+
+    /**
+     * Queue a chunk for a session and forward as much as the provider will take
+     */
+    push(sessionId: string, audioChunk: AudioChunk): boolean {
+        const buffer = this.buffers.get(sessionId);
+        if (!buffer) {
+            return false;
+        }
+
+        const size = audioChunk.data.length;
+        while (buffer.chunks.length > 0 && buffer.bytes + size > this.options.maxBytes) {
+            const dropped = buffer.chunks.shift()!;
+            buffer.bytes -= dropped.data.length;
+            buffer.droppedChunks++;
+            buffer.droppedBytes += dropped.data.length;
+
+            if (buffer.droppedChunks === 1) {
+                logger.warn(`Audio buffer for session ${sessionId} is full, dropping its oldest audio`);
+            }
+        }
+
+        buffer.chunks.push(audioChunk);
+        buffer.bytes += size;
+
+        this.drain(buffer);
+        return true;
+    }
+
+    /**
+     * Occupancy of every buffer on this node
+     */
+    getStats(): AudioFlowStats {
+        const sessions = Array.from(this.buffers.values()).map(buffer => ({
+            sessionId: buffer.sessionId,
+            bufferedBytes: buffer.bytes,
+            bufferedChunks: buffer.chunks.length,
+            paused: buffer.paused,
+            droppedChunks: buffer.droppedChunks,
+            droppedBytes: buffer.droppedBytes,
+        }));
+
+        return {
+            sessions,
+            bufferedBytes: sessions.reduce((sum, session) => sum + session.bufferedBytes, 0),
+            pausedSessions: sessions.filter(session => session.paused).length,
+            droppedBytes: this.detachedDroppedBytes + sessions.reduce((sum, session) => sum + session.droppedBytes, 0),
+            maxBytes: this.options.maxBytes,
+        };
+    }
+
+    /**
+     * Forward queued chunks while the provider is ready, then re-evaluate the watermarks
+     */
+    private drain(buffer: SessionAudioBuffer): void {
+        while (buffer.chunks.length > 0 && buffer.provider.isReady()) {
+            const chunk = buffer.chunks.shift()!;
+            buffer.bytes -= chunk.data.length;
+            buffer.provider.sendAudio(chunk);
+        }
+
+        if (!buffer.paused && buffer.bytes >= this.options.highWatermark) {
+            buffer.paused = true;
+            logger.warn(`Audio buffer for session ${buffer.sessionId} reached ${buffer.bytes} bytes, pausing client audio`);
+            this.emitBackpressure(buffer, true);
+        } else if (buffer.paused && buffer.bytes <= this.options.lowWatermark) {
+            buffer.paused = false;
+            logger.info(`Audio buffer for session ${buffer.sessionId} drained to ${buffer.bytes} bytes, resuming client audio`);
+            this.emitBackpressure(buffer, false);
+        }
+    }
+
+    private emitBackpressure(buffer: SessionAudioBuffer, paused: boolean): void {
+        this.emit('backpressure', this.toBackpressure(buffer, paused));
+    }
+
+    private toBackpressure(buffer: SessionAudioBuffer, paused: boolean): AudioBackpressure {
+        return {
+            sessionId: buffer.sessionId,
+            paused,
+            bufferedBytes: buffer.bytes,
+            maxBytes: this.options.maxBytes,
+        };
+    }
+}
@@ -0,0 +1,286 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { logger } from '../utils/logger';
+import { createWavHeader, getByteRate, WavFormat, WAV_HEADER_SIZE } from '../utils/wav';
+import { AudioChunk, AudioFile } from '../types';
+import { MinIOInitializer } from './MinIOInitializer';
+
+export const AUDIO_BUCKET = 'voice-chat-audio';
+
+interface Recording {
+    sessionId: string;
+    objectName: string;
+    filePath: string;
+    format: WavFormat;
+    stream: fs.WriteStream;
+    bytesWritten: number;
+    lastUploadAt: number;
+    upload: Promise<void> | null;
+}
+
+export interface AudioRecordingResult {
+    sessionId: string;
+    objectName: string;
+    audioUrl: string;
+    fileSize: number;
+    duration: number;
+    checksum: string;
+}
+
+/**
+ * Records the PCM streamed for each live session on this node.
+ *
+ * Chunks are appended to a local spool file and the WAV object in MinIO is
+ * rewritten every `AUDIO_RECORDING_UPLOAD_INTERVAL_MS`, so at most one interval
+ * of audio is lost if the node dies. Finalizing uploads the complete file and
+ * records it in `audio_files`.
+ */
+export class AudioRecordingService extends EventEmitter {
+    private minio: MinIOInitializer;
+    private supabase: SupabaseClient;
+    private recordings: Map<string, Recording> = new Map();
+    private readonly enabled: boolean;
+    private readonly spoolDir: string;
+    private readonly uploadIntervalMs: number;
+    private readonly urlExpirySeconds: number;
+
+    constructor(minio: MinIOInitializer, supabase?: SupabaseClient) {
+        super();
+        this.minio = minio;
+        this.enabled = process.env['AUDIO_RECORDING_ENABLED'] !== 'false';
+        this.spoolDir = process.env['AUDIO_RECORDING_SPOOL_DIR'] || path.join(os.tmpdir(), 'vcw-recordings');
+        this.uploadIntervalMs = parseInt(process.env['AUDIO_RECORDING_UPLOAD_INTERVAL_MS'] || '30000');
+        // Presigned URLs are capped at seven days
+        this.urlExpirySeconds = Math.min(parseInt(process.env['AUDIO_RECORDING_URL_EXPIRY'] || '604800'), 604800);
+
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Check whether recording is enabled
+     */
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Check whether a session is being recorded on this node
+     */
+    isRecording(sessionId: string): boolean {
+        return this.recordings.has(sessionId);
+    }
+
+    /**
+     * Start recording a session; a session taken over from another node starts a new part
+     */
+    start(sessionId: string, format: WavFormat): void {
+        if (!this.enabled || this.recordings.has(sessionId)) {
+            return;
+        }
+
+        fs.mkdirSync(this.spoolDir, { recursive: true });
+
+        const startedAt = Date.now();
+        const filePath = path.join(this.spoolDir, `${sessionId}-${startedAt}.pcm`);
+        const stream = fs.createWriteStream(filePath, { flags: 'a' });
+        stream.on('error', (error) => {
+            logger.error(`Audio spool error for session ${sessionId}:`, error);
+        });
+
+        this.recordings.set(sessionId, {
+            sessionId,
+            objectName: `recordings/${sessionId}/${startedAt}.wav`,
+            filePath,
+            format,
+            stream,
+            bytesWritten: 0,
+            lastUploadAt: startedAt,
+            upload: null,
+        });
+
+        logger.info(`Recording started for session ${sessionId}`);
+    }
+
+    /**
+     * Append an audio chunk and refresh the rolling object when the upload interval has passed
+     */
+    write(sessionId: string, audioChunk: AudioChunk): void {
+        const recording = this.recordings.get(sessionId);
+        if (!recording) {
+            return;
+        }
+
+        const data = Buffer.from(audioChunk.data);
+        recording.stream.write(data);
+        recording.bytesWritten += data.length;
+
+        if (!recording.upload && Date.now() - recording.lastUploadAt >= this.uploadIntervalMs) {
+            recording.lastUploadAt = Date.now();
+            recording.upload = this.uploadSnapshot(recording)
+                .catch(error => logger.warn(`Rolling upload failed for session ${sessionId}:`, error))
+                .then(() => {
+                    recording.upload = null;
+                });
+        }
+    }
+
+    /**
+     * Finish a recording: upload the complete WAV, record it in audio_files and drop the spool file
+     */
+    async finalize(sessionId: string, conversationId?: string): Promise<AudioRecordingResult | null> {
+        const recording = this.recordings.get(sessionId);
+        if (!recording) {
+            return null;
+        }
+        this.recordings.delete(sessionId);
+
+        try {
+            await new Promise<void>(resolve => recording.stream.end(() => resolve()));
+            await recording.upload;
+
+            const { size } = await fs.promises.stat(recording.filePath);
+            if (size === 0) {
+                logger.info(`No audio recorded for session ${sessionId}`);
+                return null;
+            }
+
+            await this.uploadSnapshot(recording);
+
+            const header = createWavHeader(recording.format, size);
+            const checksum = await this.computeChecksum(header, recording.filePath, size);
+            const audioUrl = await this.minio.createSignedUrl(AUDIO_BUCKET, recording.objectName, this.urlExpirySeconds);
+            const byteRate = getByteRate(recording.format);
+            const duration = size / byteRate;
+
+            const audioFile: AudioFile = {
+                session_id: sessionId,
+                filename: path.basename(recording.objectName),
+                file_size: WAV_HEADER_SIZE + size,
+                mime_type: 'audio/wav',
+                storage_path: `${AUDIO_BUCKET}/${recording.objectName}`,
+                storage_provider: 'minio',
+                checksum,
+                duration: Math.round(duration),
+                sample_rate: recording.format.sampleRate,
+                channels: recording.format.channels,
+                bit_rate: byteRate * 8,
+                metadata: {
+                    encoding: recording.format.encoding,
+                    duration_ms: Math.round(duration * 1000),
+                },
+            };
+            if (conversationId) {
+                audioFile.conversation_id = conversationId;
+            }
+
+            const { error } = await this.supabase.from('audio_files').insert(audioFile);
+            if (error) {
+                throw new Error(`Failed to save audio file for session ${sessionId}: ${error.message}`);
+            }
+            if (conversationId) {
+                await this.linkEarlierParts(sessionId, conversationId);
+            }
+
+            const result: AudioRecordingResult = {
+                sessionId,
+                objectName: recording.objectName,
+                audioUrl,
+                fileSize: audioFile.file_size,
+                duration,
+                checksum,
+            };
+
+            logger.info(`Recording finalized for session ${sessionId}: ${audioFile.storage_path} (${duration.toFixed(1)}s)`);
+            this.emit('recordingFinalized', result);
+
+            return result;
+        } finally {
+            await fs.promises.unlink(recording.filePath).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Link the parts other nodes recorded before the session was handed off to the conversation
+     */
+    private async linkEarlierParts(sessionId: string, conversationId: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('audio_files')
+            .update({ conversation_id: conversationId })
+            .eq('session_id', sessionId)
+            .is('conversation_id', null);
+
+        if (error) {
+            throw new Error(`Failed to link earlier recording parts of session ${sessionId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Finalize every open recording, e.g. before the node shuts down
+     */
+    async close(): Promise<void> {
+        const sessionIds = Array.from(this.recordings.keys());
+        for (const sessionId of sessionIds) {
+            try {
+                await this.finalize(sessionId);
+            } catch (error) {
+                logger.error(`Failed to finalize recording for session ${sessionId}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Upload the audio spooled so far as a complete WAV object
+     */
+    private async uploadSnapshot(recording: Recording): Promise<void> {
+        const { size } = await fs.promises.stat(recording.filePath);
+        const header = createWavHeader(recording.format, size);
+
+        await this.minio.uploadStream(
+            AUDIO_BUCKET,
+            recording.objectName,
+            this.createWavStream(header, recording.filePath, size),
+            WAV_HEADER_SIZE + size,
+            { 'Content-Type': 'audio/wav' }
+        );
+    }
+
+    /**
+     * Stream a WAV header followed by the first `size` bytes of a spool file
+     */
+    private createWavStream(header: Buffer, filePath: string, size: number): Readable {
+        return Readable.from((async function* () {
+            yield header;
+            if (size > 0) {
+                yield* fs.createReadStream(filePath, { start: 0, end: size - 1 });
+            }
+        })());
+    }
+
+    /**
+     * Compute the SHA-256 checksum of the finalized WAV object
+     */
+    private async computeChecksum(header: Buffer, filePath: string, size: number): Promise<string> {
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of this.createWavStream(header, filePath, size)) {
+            hash.update(chunk as Buffer);
+        }
+        return hash.digest('hex');
+    }
+}
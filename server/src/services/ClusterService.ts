@@ -0,0 +1,408 @@
+import { EventEmitter } from 'events';
+import os from 'os';
+import Redis from 'ioredis';
+import { Server as SocketIOServer } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { logger } from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+import { AudioChunk } from '../types';
+
+const KEY_PREFIX = 'vcw:cluster';
+const NODES_KEY = `${KEY_PREFIX}:nodes`;
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_TTL_SECONDS = 30;
+const OWNER_TTL_SECONDS = 60;
+
+// Only touch the owner key while this node still holds it
+const COMPARE_AND_DELETE = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const COMPARE_AND_SET = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+    return redis.call('set', KEYS[1], ARGV[2], 'EX', ARGV[3])
+end
+return nil`;
+
+export type ClusterMessageType = 'audio' | 'endSession' | 'handoff';
+
+export interface ClusterMessage {
+    type: ClusterMessageType;
+    sessionId: string;
+    fromNode: string;
+    audioChunk?: Omit<AudioChunk, 'data'> & { data: string };
+}
+
+export interface ClusterStatus {
+    enabled: boolean;
+    nodeId: string;
+    draining: boolean;
+    ownedSessions: string[];
+    nodes: string[];
+}
+
+export class ClusterService extends EventEmitter {
+    private readonly nodeId: string;
+    private readonly enabled: boolean;
+    private redis: Redis | null = null;
+    private pubClient: Redis | null = null;
+    private subClient: Redis | null = null;
+    private inboxClient: Redis | null = null;
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private ownedSessions: Set<string> = new Set();
+    private draining = false;
+
+    constructor() {
+        super();
+        this.nodeId = process.env['NODE_ID'] || `${os.hostname()}-${process.pid}`;
+        this.enabled = process.env['CLUSTER_MODE'] === 'true';
+    }
+
+    private nodeKey(nodeId: string): string {
+        return `${KEY_PREFIX}:node:${nodeId}`;
+    }
+
+    private inboxChannel(nodeId: string): string {
+        return `${KEY_PREFIX}:inbox:${nodeId}`;
+    }
+
+    private ownerKey(sessionId: string): string {
+        return `${KEY_PREFIX}:owner:${sessionId}`;
+    }
+
+    /**
+     * Check whether cluster mode is enabled
+     */
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Check whether this node is draining
+     */
+    isDraining(): boolean {
+        return this.draining;
+    }
+
+    /**
+     * Get this node's ID
+     */
+    getNodeId(): string {
+        return this.nodeId;
+    }
+
+    /**
+     * Attach the Redis adapter and start heartbeating
+     */
+    async initialize(io: SocketIOServer): Promise<void> {
+        if (!this.enabled) {
+            logger.info('Cluster mode disabled, running as a single node');
+            return;
+        }
+
+        if ((process.env['SESSION_STORE'] || 'memory') === 'memory') {
+            logger.warn('Cluster mode is enabled with the in-memory session store; sessions cannot be resumed or handed off across nodes');
+        }
+
+        try {
+            this.redis = createRedisClient('cluster');
+            this.pubClient = createRedisClient('socket.io-pub');
+            this.subClient = this.pubClient.duplicate();
+            this.inboxClient = this.pubClient.duplicate();
+
+            io.adapter(createAdapter(this.pubClient, this.subClient, { key: `${KEY_PREFIX}:socket.io` }));
+
+            this.inboxClient.on('message', (_channel: string, raw: string) => {
+                this.handleMessage(raw);
+            });
+            await this.inboxClient.subscribe(this.inboxChannel(this.nodeId));
+
+            await this.heartbeat();
+            this.heartbeatTimer = setInterval(() => {
+                this.heartbeat().catch(error => logger.error('Cluster heartbeat failed:', error));
+            }, HEARTBEAT_INTERVAL_MS);
+
+            logger.info(`Cluster mode enabled, node ${this.nodeId} joined`);
+        } catch (error) {
+            logger.error('Failed to initialize cluster service:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Refresh this node's liveness and the TTL of every session it owns
+     */
+    private async heartbeat(): Promise<void> {
+        if (!this.redis) {
+            return;
+        }
+
+        const pipeline = this.redis.multi()
+            .set(this.nodeKey(this.nodeId), Date.now().toString(), 'EX', HEARTBEAT_TTL_SECONDS)
+            .sadd(NODES_KEY, this.nodeId);
+
+        this.ownedSessions.forEach(sessionId => {
+            pipeline.expire(this.ownerKey(sessionId), OWNER_TTL_SECONDS);
+        });
+
+        await pipeline.exec();
+    }
+
+    /**
+     * Handle a message published to this node's inbox
+     */
+    private handleMessage(raw: string): void {
+        try {
+            const message = JSON.parse(raw) as ClusterMessage;
+
+            switch (message.type) {
+                case 'audio':
+                    if (message.audioChunk) {
+                        this.emit('audio', message.sessionId, {
+                            ...message.audioChunk,
+                            data: Buffer.from(message.audioChunk.data, 'base64'),
+                        } as AudioChunk);
+                    }
+                    break;
+                case 'endSession':
+                    this.emit('endSession', message.sessionId);
+                    break;
+                case 'handoff':
+                    this.ownedSessions.add(message.sessionId);
+                    logger.info(`Received session ${message.sessionId} from node ${message.fromNode}`);
+                    this.emit('handoff', message.sessionId, message.fromNode);
+                    break;
+                default:
+                    logger.warn(`Unknown cluster message type: ${(message as ClusterMessage).type}`);
+            }
+        } catch (error) {
+            logger.error('Error handling cluster message:', error);
+        }
+    }
+
+    /**
+     * Publish a message to another node's inbox
+     */
+    private async publish(nodeId: string, message: ClusterMessage): Promise<void> {
+        if (!this.pubClient) {
+            throw new Error('Cluster service not initialized');
+        }
+        await this.pubClient.publish(this.inboxChannel(nodeId), JSON.stringify(message));
+    }
+
+    /**
+     * Record this node as the owner of a session
+     */
+    async claimSession(sessionId: string): Promise<void> {
+        this.ownedSessions.add(sessionId);
+
+        if (!this.redis) {
+            return;
+        }
+
+        await this.redis.set(this.ownerKey(sessionId), this.nodeId, 'EX', OWNER_TTL_SECONDS);
+        logger.debug(`Node ${this.nodeId} claimed session ${sessionId}`);
+    }
+
+    /**
+     * Release ownership of a session
+     */
+    async releaseSession(sessionId: string): Promise<void> {
+        this.ownedSessions.delete(sessionId);
+
+        if (!this.redis) {
+            return;
+        }
+
+        await this.redis.eval(COMPARE_AND_DELETE, 1, this.ownerKey(sessionId), this.nodeId);
+    }
+
+    /**
+     * Get the node that owns a session
+     */
+    async getOwner(sessionId: string): Promise<string | null> {
+        if (!this.redis) {
+            return this.ownedSessions.has(sessionId) ? this.nodeId : null;
+        }
+        return this.redis.get(this.ownerKey(sessionId));
+    }
+
+    /**
+     * Check whether a session is owned by a live node other than this one
+     */
+    async isOwnedElsewhere(sessionId: string): Promise<boolean> {
+        const owner = await this.getOwner(sessionId);
+        if (!owner || owner === this.nodeId) {
+            return false;
+        }
+        return (await this.getLiveNodes()).includes(owner);
+    }
+
+    /**
+     * Forward audio to the node that owns the session
+     */
+    async routeAudio(sessionId: string, audioChunk: AudioChunk): Promise<boolean> {
+        return this.forward(sessionId, {
+            type: 'audio',
+            sessionId,
+            fromNode: this.nodeId,
+            audioChunk: {
+                ...audioChunk,
+                data: Buffer.from(audioChunk.data).toString('base64'),
+            },
+        });
+    }
+
+    /**
+     * Ask the node that owns a session to stop its transcription
+     */
+    async routeEndSession(sessionId: string): Promise<boolean> {
+        return this.forward(sessionId, { type: 'endSession', sessionId, fromNode: this.nodeId });
+    }
+
+    /**
+     * Forward a message to the owner of a session, returning false if there is no remote owner
+     */
+    private async forward(sessionId: string, message: ClusterMessage): Promise<boolean> {
+        if (!this.enabled) {
+            return false;
+        }
+
+        const owner = await this.getOwner(sessionId);
+        if (!owner || owner === this.nodeId) {
+            return false;
+        }
+
+        await this.publish(owner, message);
+        return true;
+    }
+
+    /**
+     * Get the IDs of nodes with a live heartbeat, pruning dead ones
+     */
+    async getLiveNodes(): Promise<string[]> {
+        if (!this.redis) {
+            return [this.nodeId];
+        }
+
+        const nodeIds = await this.redis.smembers(NODES_KEY);
+        if (nodeIds.length === 0) {
+            return [];
+        }
+
+        const heartbeats = await this.redis.mget(nodeIds.map(id => this.nodeKey(id)));
+        const live = nodeIds.filter((_, index) => heartbeats[index] !== null);
+        const dead = nodeIds.filter((_, index) => heartbeats[index] === null);
+
+        if (dead.length > 0) {
+            await this.redis.srem(NODES_KEY, ...dead);
+            logger.info(`Pruned ${dead.length} dead cluster nodes`);
+        }
+
+        return live;
+    }
+
+    /**
+     * Stop accepting sessions and hand owned sessions off to the remaining nodes. prepareHandoff runs for
+     * each session before its ownership moves, so this node can finish its part of the session first.
+     */
+    async drain(prepareHandoff?: (sessionId: string) => Promise<void>): Promise<number> {
+        if (!this.enabled || !this.redis || this.draining) {
+            return 0;
+        }
+
+        this.draining = true;
+        logger.info(`Draining node ${this.nodeId} (${this.ownedSessions.size} owned sessions)`);
+
+        // Leave the node set first so peers stop picking this node
+        await this.redis.multi().del(this.nodeKey(this.nodeId)).srem(NODES_KEY, this.nodeId).exec();
+
+        const peers = (await this.getLiveNodes()).filter(id => id !== this.nodeId);
+        const sessionIds = Array.from(this.ownedSessions);
+        let handedOff = 0;
+
+        for (const [index, sessionId] of sessionIds.entries()) {
+            try {
+                if (peers.length === 0) {
+                    await this.releaseSession(sessionId);
+                    continue;
+                }
+
+                if (prepareHandoff) {
+                    await prepareHandoff(sessionId).catch(error => {
+                        logger.error(`Failed to prepare handoff of session ${sessionId}:`, error);
+                    });
+                }
+
+                const target = peers[index % peers.length]!;
+                const moved = await this.redis.eval(
+                    COMPARE_AND_SET, 1, this.ownerKey(sessionId), this.nodeId, target, OWNER_TTL_SECONDS
+                );
+                this.ownedSessions.delete(sessionId);
+                // Emitted once ownership has moved, so audio this node held during the handoff can follow the session
+                this.emit('handedOff', sessionId, moved ? target : null);
+
+                if (moved) {
+                    await this.publish(target, { type: 'handoff', sessionId, fromNode: this.nodeId });
+                    handedOff++;
+                }
+            } catch (error) {
+                logger.error(`Failed to hand off session ${sessionId}:`, error);
+            }
+        }
+
+        if (peers.length === 0 && sessionIds.length > 0) {
+            logger.warn(`No peer nodes available, released ${sessionIds.length} sessions`);
+        }
+
+        logger.info(`Node ${this.nodeId} drained, handed off ${handedOff} sessions`);
+        this.emit('drained', handedOff);
+
+        return handedOff;
+    }
+
+    /**
+     * Get cluster status
+     */
+    async getStatus(): Promise<ClusterStatus> {
+        return {
+            enabled: this.enabled,
+            nodeId: this.nodeId,
+            draining: this.draining,
+            ownedSessions: Array.from(this.ownedSessions),
+            nodes: this.enabled ? await this.getLiveNodes() : [this.nodeId],
+        };
+    }
+
+    /**
+     * Leave the cluster and close Redis connections
+     */
+    async close(): Promise<void> {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+
+        if (!this.redis) {
+            return;
+        }
+
+        try {
+            await this.redis.multi().del(this.nodeKey(this.nodeId)).srem(NODES_KEY, this.nodeId).exec();
+        } catch (error) {
+            logger.error('Error leaving cluster:', error);
+        }
+
+        await Promise.all([
+            this.redis.quit(),
+            this.pubClient?.quit(),
+            this.subClient?.quit(),
+            this.inboxClient?.quit(),
+        ]);
+
+        this.redis = null;
+        logger.info(`Node ${this.nodeId} left the cluster`);
+    }
+}
@@ -0,0 +1,67 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { ConversationOriginal } from '../types';
+
+// App permission needed to read a conversation's content from before redaction
+export const PII_READ_PERMISSION = 'pii:read';
+
+/**
+ * Conversations' content as transcribed, kept apart from the redacted copies everything else reads
+ */
+export class ConversationOriginalService {
+    private supabase: SupabaseClient;
+
+    constructor(supabase?: SupabaseClient) {
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        // The table is only open to the service role
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Get a conversation's originals, or null when redaction replaced nothing in it
+     */
+    async get(conversationId: string): Promise<ConversationOriginal | null> {
+        const { data, error } = await this.supabase
+            .from('conversation_originals')
+            .select('*')
+            .eq('conversation_id', conversationId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load originals of conversation ${conversationId}: ${error.message}`);
+        }
+
+        return (data as ConversationOriginal | null) || null;
+    }
+
+    /**
+     * Save a conversation's originals and the values replaced in them
+     */
+    async save(original: ConversationOriginal): Promise<void> {
+        const { error } = await this.supabase
+            .from('conversation_originals')
+            .upsert({
+                conversation_id: original.conversation_id,
+                app_name: original.app_name,
+                policy: original.policy,
+                transcript: original.transcript,
+                speaker_turns: original.speaker_turns,
+                segments: original.segments,
+                entities: original.entities,
+            }, { onConflict: 'conversation_id' });
+
+        if (error) {
+            throw new Error(`Failed to save originals of conversation ${original.conversation_id}: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,91 @@
+import { JobData, PipelineDefinition, QueueService } from './QueueService';
+import { SessionManager } from './SessionManager';
+import { RedactedConversation } from '../types';
+import { logger } from '../utils/logger';
+
+export const CONVERSATION_PIPELINE_NAME = 'conversation';
+
+/**
+ * Post-processing for an ended conversation: audio and redaction → summary → pdf → email.
+ *
+ * Audio only runs when the session was recorded, and a skipped audio stage does
+ * not hold up the summary. Redaction replaces personal data in the stored
+ * transcript before anything reads it; no stage carries the transcript itself,
+ * so the summary is generated from the redacted conversation record. The report needs a summary, and email fans out to one
+ * job per recipient.
+ */
+export const CONVERSATION_PIPELINE: PipelineDefinition = {
+    name: CONVERSATION_PIPELINE_NAME,
+    stages: [
+        {
+            name: 'audio',
+            queue: QueueService.AUDIO_QUEUE,
+            condition: ({ data }) => !!data.audioUrl,
+        },
+        {
+            name: 'redaction',
+            queue: QueueService.REDACTION_QUEUE,
+            condition: ({ data }) => !!data.metadata?.['hasTranscript'],
+        },
+        {
+            name: 'summary',
+            queue: QueueService.SUMMARY_QUEUE,
+            dependsOn: ['audio', 'redaction'],
+            condition: ({ data }) => !!data.metadata?.['hasTranscript'],
+            fanOut: ({ data, results }) => [withRedactionPolicy(data, results['redaction']?.[0])],
+        },
+        {
+            name: 'pdf',
+            queue: QueueService.PDF_QUEUE,
+            dependsOn: ['summary'],
+            condition: ({ results }) => !!results['summary'],
+        },
+        {
+            name: 'email',
+            queue: QueueService.EMAIL_QUEUE,
+            dependsOn: ['pdf'],
+            condition: ({ results }) => !!results['pdf'],
+            fanOut: ({ data }) => getRecipients(data).map(recipient => ({
+                ...data,
+                metadata: { ...data.metadata, recipient },
+            })),
+        },
+    ],
+};
+
+/**
+ * Distinct report recipients, defaulting to the officer who held the conversation
+ */
+function getRecipients(data: JobData): string[] {
+    const recipients: string[] = data.metadata?.['recipients'] || [data.metadata?.['officerEmail']];
+    return Array.from(new Set(recipients.filter(Boolean)));
+}
+
+/**
+ * Job data telling the summary which redaction policy the stored transcript went through
+ */
+function withRedactionPolicy(data: JobData, redaction: { policy?: string } | undefined): JobData {
+    if (!redaction?.policy) {
+        return data;
+    }
+    return {
+        ...data,
+        metadata: { ...data.metadata, redactionPolicy: redaction.policy },
+    };
+}
+
+/**
+ * Replace the session store's copies of each transcript the redaction stage rewrote. Every node hears
+ * the completion, so each one also drops the unredacted text from its own cache.
+ */
+export function applyRedactionsToSessions(queueService: QueueService, sessionManager: SessionManager): void {
+    queueService.on('globalJobCompleted', ({ queueName, result }: { queueName: string; result: any }) => {
+        if (queueName !== QueueService.REDACTION_QUEUE || !result?.redacted) {
+            return;
+        }
+        const redacted: RedactedConversation = result.redacted;
+        sessionManager.applyRedaction(redacted).catch((error) => {
+            logger.error(`Error redacting stored transcripts of session ${redacted.session_id}:`, error);
+        });
+    });
+}
@@ -0,0 +1,229 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { logger } from '../utils/logger';
+import { AudioFlowStats } from './AudioFlowService';
+
+const METRIC_PREFIX = 'vcw_';
+
+export type ExternalService = 'openai' | 'azure-openai' | 'openai-compatible' | 'smtp' | 'puppeteer';
+
+export type JobOutcome = 'completed' | 'failed';
+
+export interface QueueStatsSnapshot {
+    queueName: string;
+    waiting: number;
+    active: number;
+    completed: number;
+    failed: number;
+    delayed: number;
+    deadLettered: number;
+}
+
+// Read on every scrape rather than pushed, so the gauges never drift from the source of truth
+export interface MetricsSources {
+    activeSessions: () => number;
+    socketConnections: () => number;
+    audioBuffers: () => AudioFlowStats;
+    queueStats: () => Promise<QueueStatsSnapshot[]>;
+}
+
+/**
+ * Prometheus metrics for the gateway, its queues and the in-process workers.
+ *
+ * Counters and histograms are recorded as things happen; gauges are read from
+ * the registered sources when `/metrics` is scraped.
+ */
+export class MetricsService {
+    readonly registry: Registry;
+    private sources: Partial<MetricsSources> = {};
+
+    private readonly audioInBytes: Counter;
+    private readonly transcriptLatency: Histogram<'provider'>;
+    private readonly providerReconnects: Counter<'provider'>;
+    private readonly jobDuration: Histogram<'worker' | 'outcome'>;
+    private readonly externalCalls: Counter<'service' | 'outcome'>;
+
+    constructor(options: { defaultMetrics?: boolean } = {}) {
+        this.registry = new Registry();
+
+        if (options.defaultMetrics ?? process.env['METRICS_DEFAULT_METRICS'] !== 'false') {
+            collectDefaultMetrics({ register: this.registry, prefix: METRIC_PREFIX });
+        }
+
+        const sources = () => this.sources;
+
+        new Gauge({
+            name: `${METRIC_PREFIX}active_sessions`,
+            help: 'Sessions currently active on this node',
+            registers: [this.registry],
+            collect() {
+                const activeSessions = sources().activeSessions;
+                if (activeSessions) {
+                    this.set(activeSessions());
+                }
+            },
+        });
+
+        new Gauge({
+            name: `${METRIC_PREFIX}socket_connections`,
+            help: 'Socket.IO connections open on this node',
+            registers: [this.registry],
+            collect() {
+                const socketConnections = sources().socketConnections;
+                if (socketConnections) {
+                    this.set(socketConnections());
+                }
+            },
+        });
+
+        const audioBuffers = () => sources().audioBuffers?.() ?? null;
+        new Gauge({
+            name: `${METRIC_PREFIX}audio_buffered_bytes`,
+            help: 'Audio held in session buffers waiting for a transcription provider',
+            registers: [this.registry],
+            collect() {
+                const stats = audioBuffers();
+                if (stats) {
+                    this.set(stats.bufferedBytes);
+                }
+            },
+        });
+
+        new Gauge({
+            name: `${METRIC_PREFIX}audio_paused_sessions`,
+            help: 'Sessions whose clients are currently told to hold their audio',
+            registers: [this.registry],
+            collect() {
+                const stats = audioBuffers();
+                if (stats) {
+                    this.set(stats.pausedSessions);
+                }
+            },
+        });
+
+        new Gauge({
+            name: `${METRIC_PREFIX}queue_jobs`,
+            help: 'Jobs per queue and state',
+            labelNames: ['queue', 'state'],
+            registers: [this.registry],
+            async collect() {
+                const queueStats = sources().queueStats;
+                if (!queueStats) {
+                    return;
+                }
+
+                try {
+                    this.reset();
+                    for (const stats of await queueStats()) {
+                        for (const state of ['waiting', 'active', 'completed', 'failed', 'delayed', 'deadLettered'] as const) {
+                            this.set({ queue: stats.queueName, state }, stats[state]);
+                        }
+                    }
+                } catch (error) {
+                    logger.error('Failed to collect queue metrics:', error);
+                }
+            },
+        });
+
+        this.audioInBytes = new Counter({
+            name: `${METRIC_PREFIX}audio_in_bytes_total`,
+            help: 'Audio received from clients',
+            registers: [this.registry],
+        });
+
+        this.transcriptLatency = new Histogram({
+            name: `${METRIC_PREFIX}transcript_final_latency_seconds`,
+            help: 'Time from receiving audio to receiving its final transcript',
+            labelNames: ['provider'],
+            buckets: [0.25, 0.5, 1, 1.5, 2, 3, 5, 8, 13],
+            registers: [this.registry],
+        });
+
+        this.providerReconnects = new Counter({
+            name: `${METRIC_PREFIX}transcription_reconnects_total`,
+            help: 'Reconnection attempts to transcription providers',
+            labelNames: ['provider'],
+            registers: [this.registry],
+        });
+
+        this.jobDuration = new Histogram({
+            name: `${METRIC_PREFIX}job_duration_seconds`,
+            help: 'Time workers spend processing a job',
+            labelNames: ['worker', 'outcome'],
+            buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+            registers: [this.registry],
+        });
+
+        this.externalCalls = new Counter({
+            name: `${METRIC_PREFIX}external_calls_total`,
+            help: 'Calls to external services by outcome',
+            labelNames: ['service', 'outcome'],
+            registers: [this.registry],
+        });
+    }
+
+    /**
+     * Register where the scrape-time gauges read their values from
+     */
+    setSources(sources: Partial<MetricsSources>): void {
+        this.sources = { ...this.sources, ...sources };
+    }
+
+    /**
+     * Count audio received from a client
+     */
+    recordAudioIn(bytes: number): void {
+        this.audioInBytes.inc(bytes);
+    }
+
+    /**
+     * Record how long a final transcript took to arrive after its audio
+     */
+    observeTranscriptLatency(provider: string, seconds: number): void {
+        this.transcriptLatency.observe({ provider }, seconds);
+    }
+
+    /**
+     * Count a reconnection attempt to a transcription provider
+     */
+    recordReconnect(provider: string): void {
+        this.providerReconnects.inc({ provider });
+    }
+
+    /**
+     * Record how long a worker spent on a job
+     */
+    observeJob(worker: string, outcome: JobOutcome, seconds: number): void {
+        this.jobDuration.observe({ worker, outcome }, seconds);
+    }
+
+    /**
+     * Run a call to an external service, counting whether it succeeded
+     */
+    async trackExternalCall<T>(service: ExternalService, call: () => Promise<T>): Promise<T> {
+        try {
+            const result = await call();
+            this.externalCalls.inc({ service, outcome: 'success' });
+            return result;
+        } catch (error) {
+            this.externalCalls.inc({ service, outcome: 'error' });
+            throw error;
+        }
+    }
+
+    /**
+     * Content type of the exposition format
+     */
+    getContentType(): string {
+        return this.registry.contentType;
+    }
+
+    /**
+     * Render every metric in the Prometheus exposition format
+     */
+    async getMetrics(): Promise<string> {
+        return this.registry.metrics();
+    }
+}
+
+// Shared by the gateway, the transcription providers and the workers
+export const metrics = new MetricsService();
@@ -1,4 +1,5 @@
 import { Client } from 'minio'
+import { Readable } from 'stream'
 import { logger } from '../utils/logger'
 
 interface MinIOConfig {
@@ -171,6 +172,16 @@ export class MinIOInitializer {
     }
   }
 
+  async uploadStream(bucketName: string, objectName: string, stream: Readable, size: number, metaData: Record<string, string> = {}): Promise<void> {
+    try {
+      await this.client.putObject(bucketName, objectName, stream, size, metaData)
+      logger.debug(`Uploaded stream: ${objectName} to bucket: ${bucketName}`)
+    } catch (error) {
+      logger.error('Failed to upload stream:', error)
+      throw error
+    }
+  }
+
   async downloadFile(bucketName: string, objectName: string, filePath: string): Promise<void> {
     try {
       await this.client.fGetObject(bucketName, objectName, filePath)
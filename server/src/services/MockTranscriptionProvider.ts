@@ -0,0 +1,203 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import { AudioChunk, SpeechmaticsConfig, TranscriptData, TranscriptWord } from '../types';
+import { TranscriptionProvider } from './TranscriptionProvider';
+
+export interface MockScriptLine {
+    transcript: string;
+    speaker?: string;
+    confidence?: number;
+}
+
+const DEFAULT_SCRIPT: MockScriptLine[] = [
+    { speaker: 'S1', transcript: 'Good afternoon, this is the front desk. How can I help you today?' },
+    { speaker: 'S2', transcript: 'Hello, I would like to report that my bicycle was stolen last night.' },
+    { speaker: 'S1', transcript: 'I am sorry to hear that. Where was the bicycle parked?' },
+    { speaker: 'S2', transcript: 'Outside the train station on Main Street, locked to the railing.' },
+    { speaker: 'S1', transcript: 'Thank you. I will file a report and send you a reference number by email.' },
+];
+
+const BYTES_PER_SAMPLE: Record<string, number> = {
+    pcm_f32le: 4,
+    pcm_s16le: 2,
+    mulaw: 1,
+};
+
+/**
+ * Offline transcription provider that replays a scripted conversation.
+ *
+ * Output depends only on the audio received: every `chunksPerSegment` chunks
+ * produce the next scripted line, with a partial half way through, so runs are
+ * repeatable without network access.
+ */
+export class MockTranscriptionProvider extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'mock' as const;
+    private config: SpeechmaticsConfig;
+    private sessionId: string;
+    private script: MockScriptLine[];
+    private chunksPerSegment: number;
+    private isConnected = false;
+    private chunksReceived = 0;
+    private bytesReceived = 0;
+    private lineIndex = 0;
+    private segmentStartTime = 0;
+
+    constructor(config: SpeechmaticsConfig, sessionId: string, script?: MockScriptLine[]) {
+        super();
+        this.config = config;
+        this.sessionId = sessionId;
+        this.script = script || MockTranscriptionProvider.loadScript();
+        this.chunksPerSegment = Math.max(2, parseInt(process.env['MOCK_TRANSCRIPTION_CHUNKS_PER_SEGMENT'] || '10'));
+    }
+
+    /**
+     * Load the script from MOCK_TRANSCRIPTION_SCRIPT, falling back to the built-in one
+     */
+    static loadScript(): MockScriptLine[] {
+        const scriptPath = process.env['MOCK_TRANSCRIPTION_SCRIPT'];
+        if (!scriptPath) {
+            return DEFAULT_SCRIPT;
+        }
+
+        try {
+            const script = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+            if (!Array.isArray(script) || script.some(line => typeof line?.transcript !== 'string')) {
+                throw new Error('Script must be an array of { transcript, speaker?, confidence? }');
+            }
+            return script;
+        } catch (error) {
+            logger.warn(`Failed to load mock transcription script ${scriptPath}, using default:`, error);
+            return DEFAULT_SCRIPT;
+        }
+    }
+
+    /**
+     * Start the mock recognition
+     */
+    async connect(): Promise<void> {
+        if (this.isConnected) {
+            return;
+        }
+
+        this.isConnected = true;
+        logger.info(`Mock transcription started for session: ${this.sessionId}`);
+        this.emit('connected');
+        this.emit('ready');
+    }
+
+    /**
+     * The mock takes audio whenever it is connected
+     */
+    isReady(): boolean {
+        return this.isConnected;
+    }
+
+    /**
+     * Consume an audio chunk and emit scripted transcripts at fixed chunk counts
+     */
+    sendAudio(audioChunk: AudioChunk): void {
+        if (!this.isConnected) {
+            logger.warn('Cannot send audio: mock transcription not connected');
+            return;
+        }
+
+        this.chunksReceived++;
+        this.bytesReceived += Buffer.from(audioChunk.data).length;
+
+        const line = this.script[this.lineIndex];
+        if (!line) {
+            return;
+        }
+
+        const position = this.chunksReceived % this.chunksPerSegment;
+
+        if (position === Math.floor(this.chunksPerSegment / 2) && this.config.enablePartials) {
+            const words = line.transcript.split(' ');
+            this.emit('partialTranscript', this.buildTranscript(words.slice(0, Math.ceil(words.length / 2)).join(' '), line, true));
+        } else if (position === 0) {
+            const transcriptData = this.buildTranscript(line.transcript, line, false);
+            this.segmentStartTime = transcriptData.endTime ?? this.segmentStartTime;
+            this.lineIndex++;
+            this.emit('finalTranscript', transcriptData);
+        }
+    }
+
+    /**
+     * Signal the end of the audio stream
+     */
+    endStream(): void {
+        if (!this.isConnected) {
+            return;
+        }
+        this.emit('endOfTranscript', { message: 'EndOfTranscript' });
+    }
+
+    /**
+     * Stop the mock recognition
+     */
+    disconnect(): void {
+        if (!this.isConnected) {
+            return;
+        }
+
+        this.isConnected = false;
+        logger.info(`Mock transcription stopped for session: ${this.sessionId}`);
+        this.emit('disconnected');
+    }
+
+    /**
+     * Build transcript data for a scripted line at the current audio position
+     */
+    private buildTranscript(transcript: string, line: MockScriptLine, isPartial: boolean): TranscriptData {
+        const bytesPerSecond = this.config.sampleRate * (BYTES_PER_SAMPLE[this.config.encoding] || 4);
+        const endTime = Math.round((this.bytesReceived / bytesPerSecond) * 1000) / 1000;
+        const speaker = line.speaker && this.config.diarization === 'speaker' ? line.speaker : undefined;
+        const transcriptData: TranscriptData = {
+            transcript,
+            confidence: line.confidence ?? 0.95,
+            isPartial,
+            timestamp: Date.now(),
+            startTime: this.segmentStartTime,
+            endTime,
+            words: this.buildWords(transcript, this.segmentStartTime, endTime, line.confidence ?? 0.95, speaker),
+        };
+
+        if (speaker) {
+            transcriptData.speaker = speaker;
+        }
+
+        return transcriptData;
+    }
+
+    /**
+     * Spread a line's words evenly over its time span, splitting off trailing punctuation
+     */
+    private buildWords(transcript: string, startTime: number, endTime: number, confidence: number, speaker?: string): TranscriptWord[] {
+        const tokens = transcript.split(' ').filter(token => token.length > 0);
+        const step = tokens.length > 0 ? (endTime - startTime) / tokens.length : 0;
+        const words: TranscriptWord[] = [];
+
+        tokens.forEach((token, index) => {
+            const [, content = token, punctuation = ''] = /^(.*?)([.,?!;:]*)$/.exec(token) || [];
+            const wordStart = Math.round((startTime + step * index) * 1000) / 1000;
+            const wordEnd = Math.round((startTime + step * (index + 1)) * 1000) / 1000;
+
+            const entries: TranscriptWord[] = [];
+            if (content) {
+                entries.push({ content, type: 'word', start_time: wordStart, end_time: wordEnd, confidence });
+            }
+            if (punctuation) {
+                entries.push({ content: punctuation, type: 'punctuation', start_time: wordEnd, end_time: wordEnd, confidence: 1 });
+            }
+            entries.forEach(entry => {
+                if (speaker) {
+                    entry.speaker = speaker;
+                }
+                words.push(entry);
+            });
+        });
+
+        return words;
+    }
+}
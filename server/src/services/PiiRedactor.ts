@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import { PiiType, RedactedEntity, RedactionPolicy } from '../types';
+
+export interface PiiMatch {
+    type: PiiType;
+    start: number;
+    end: number;
+    value: string;
+}
+
+/**
+ * Finds one kind of personal data in text
+ */
+export interface PiiDetector {
+    readonly type: PiiType;
+
+    detect(text: string): PiiMatch[];
+}
+
+export const REDACTION_POLICIES: RedactionPolicy[] = ['none', 'mask', 'hash', 'tokenize'];
+
+/**
+ * Check whether a value names a known redaction policy
+ */
+export function isRedactionPolicy(value: unknown): value is RedactionPolicy {
+    return typeof value === 'string' && (REDACTION_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Matches of a regular expression that pass an optional check, e.g. a checksum
+ */
+export class RegexPiiDetector implements PiiDetector {
+    constructor(
+        readonly type: PiiType,
+        private pattern: RegExp,
+        private isValid: (value: string) => boolean = () => true
+    ) {}
+
+    detect(text: string): PiiMatch[] {
+        const pattern = new RegExp(this.pattern.source, this.pattern.flags.includes('g') ? this.pattern.flags : `${this.pattern.flags}g`);
+        const matches: PiiMatch[] = [];
+        for (const match of text.matchAll(pattern)) {
+            if (match.index !== undefined && this.isValid(match[0])) {
+                matches.push({ type: this.type, start: match.index, end: match.index + match[0].length, value: match[0] });
+            }
+        }
+        return matches;
+    }
+}
+
+/**
+ * Whole-word, case-insensitive matches of a list of names, longest names first
+ */
+export class NameDictionaryDetector implements PiiDetector {
+    readonly type: PiiType = 'name';
+    private pattern: RegExp | null;
+
+    constructor(names: string[]) {
+        const terms = Array.from(new Set(names.map(name => name.trim()).filter(name => name.length > 1)))
+            .sort((a, b) => b.length - a.length)
+            .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+
+        this.pattern = terms.length > 0
+            ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+            : null;
+    }
+
+    detect(text: string): PiiMatch[] {
+        return this.pattern ? new RegexPiiDetector(this.type, this.pattern).detect(text) : [];
+    }
+}
+
+/**
+ * Luhn checksum, which payment card numbers satisfy
+ */
+function passesLuhn(digits: string): boolean {
+    let sum = 0;
+    for (let index = 0; index < digits.length; index++) {
+        let digit = Number(digits[digits.length - 1 - index]);
+        if (index % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * The built-in detectors plus a dictionary of names, in order of precedence when matches overlap
+ */
+export function createPiiDetectors(names: string[] = []): PiiDetector[] {
+    return [
+        new RegexPiiDetector('email', /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g),
+        new RegexPiiDetector('card_number', /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g, value => passesLuhn(value.replace(/\D/g, ''))),
+        // US social security, UK national insurance and Indian Aadhaar numbers
+        new RegexPiiDetector('national_id', /(?<![\w-])\d{3}-\d{2}-\d{4}(?![\w-])/g),
+        new RegexPiiDetector('national_id', /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi),
+        new RegexPiiDetector('national_id', /(?<![\w-]|\d )[2-9]\d{3} ?\d{4} ?\d{4}(?![\w-]| \d)/g),
+        new RegexPiiDetector(
+            'phone',
+            /(?<![\w+])(?:(?:\+|00)\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+            value => {
+                const digits = value.replace(/\D/g, '').length;
+                return digits >= 7 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(value);
+            }
+        ),
+        new NameDictionaryDetector(names),
+    ];
+}
+
+/**
+ * The form a value is recognized by again, so "555 0100" and "555-0100" get the same replacement
+ */
+function normalizeValue(type: PiiType, value: string): string {
+    return type === 'email' || type === 'name'
+        ? value.toLowerCase().replace(/\s+/g, ' ')
+        : value.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
+
+/**
+ * Replaces personal data according to a policy. One redactor covers one conversation, so a value
+ * gets the same replacement throughout its transcript, speaker turns and segments.
+ */
+export class Redactor {
+    private entities: Map<string, RedactedEntity> = new Map();
+    private tokenCounts: Map<PiiType, number> = new Map();
+
+    constructor(
+        private detectors: PiiDetector[],
+        readonly policy: RedactionPolicy,
+        private hashSecret?: string
+    ) {
+        if (policy === 'hash' && !hashSecret) {
+            throw new Error('The hash redaction policy requires a secret');
+        }
+    }
+
+    /**
+     * Text with every detected value replaced
+     */
+    redact(text: string): string {
+        if (this.policy === 'none' || !text) {
+            return text;
+        }
+
+        let redacted = '';
+        let position = 0;
+        for (const match of this.findMatches(text)) {
+            redacted += text.slice(position, match.start) + this.replace(match);
+            position = match.end;
+        }
+        return redacted + text.slice(position);
+    }
+
+    /**
+     * The distinct values replaced so far
+     */
+    getEntities(): RedactedEntity[] {
+        return Array.from(this.entities.values());
+    }
+
+    /**
+     * Non-overlapping matches in text order; of overlapping ones the longest wins, then the earlier detector
+     */
+    private findMatches(text: string): PiiMatch[] {
+        const candidates = this.detectors
+            .flatMap((detector, priority) => detector.detect(text).map(match => ({ match, priority })))
+            .sort((a, b) => a.match.start - b.match.start
+                || (b.match.end - b.match.start) - (a.match.end - a.match.start)
+                || a.priority - b.priority);
+
+        const matches: PiiMatch[] = [];
+        let end = 0;
+        for (const { match } of candidates) {
+            if (match.start >= end) {
+                matches.push(match);
+                end = match.end;
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * The replacement for a match, reusing the one its value already has
+     */
+    private replace(match: PiiMatch): string {
+        const key = `${match.type}:${normalizeValue(match.type, match.value)}`;
+        let entity = this.entities.get(key);
+        if (!entity) {
+            entity = { type: match.type, value: match.value, replacement: this.createReplacement(match.type, key), occurrences: 0 };
+            this.entities.set(key, entity);
+        }
+        entity.occurrences++;
+        return entity.replacement;
+    }
+
+    /**
+     * [PHONE] when masking, [PHONE:<keyed hash>] when hashing, [PHONE_1] when tokenizing
+     */
+    private createReplacement(type: PiiType, key: string): string {
+        const label = type.toUpperCase();
+        if (this.policy === 'hash') {
+            const hash = crypto.createHmac('sha256', this.hashSecret!).update(key).digest('hex').slice(0, 12);
+            return `[${label}:${hash}]`;
+        }
+        if (this.policy === 'tokenize') {
+            const count = (this.tokenCounts.get(type) || 0) + 1;
+            this.tokenCounts.set(type, count);
+            return `[${label}_${count}]`;
+        }
+        return `[${label}]`;
+    }
+}
@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { PipelineStageStatus, PipelineState, PipelineStatus, QueueJob, QueueService, derivePipelineStatus } from './QueueService';
+
+export type ProcessingStageStatus = PipelineStageStatus | 'running';
+
+// Downloads a client can offer once the stages producing them have completed
+export interface ProcessingArtifacts {
+    audioUrl?: string;
+    pdfUrl?: string;
+}
+
+// Sent to a session's clients as its conversation moves through post-processing
+export interface ProcessingProgress {
+    sessionId: string;
+    conversationId: string;
+    pipeline: string;
+    stage: string;
+    status: ProcessingStageStatus;
+    // 0-100 while the stage is running
+    percent?: number;
+    error?: string;
+    // Every stage's status, so a client that missed an event still sees the whole pipeline
+    stages: Record<string, ProcessingStageStatus>;
+    pipelineStatus: PipelineStatus;
+    artifacts: ProcessingArtifacts;
+    timestamp: string;
+}
+
+interface StageChange {
+    pipeline: string;
+    conversationId: string;
+    stage: string;
+    status: PipelineStageStatus;
+}
+
+interface WorkerJobEvent {
+    workerName: string;
+    job: QueueJob;
+    progress?: number;
+}
+
+/**
+ * Turns pipeline stage changes and worker job activity into per-stage `progress` events.
+ *
+ * Stage changes are emitted once by whichever node made them, and job activity by
+ * the node running the job, so each event is published once across the cluster.
+ */
+export class ProcessingProgressService extends EventEmitter {
+    private queueService: QueueService;
+
+    constructor(queueService: QueueService, workers: EventEmitter) {
+        super();
+        this.queueService = queueService;
+
+        queueService.on('pipelineStageChanged', (change: StageChange) => {
+            this.publish(change.conversationId, change.stage, change.status);
+        });
+
+        workers.on('jobActive', ({ job }: WorkerJobEvent) => {
+            this.publishJob(job, 0);
+        });
+
+        workers.on('jobProgress', ({ job, progress }: WorkerJobEvent) => {
+            this.publishJob(job, progress ?? 0);
+        });
+    }
+
+    /**
+     * Report a pipeline job as running, with how far it has got
+     */
+    private publishJob(job: QueueJob, percent: number): void {
+        const ref = job.data.pipeline;
+        if (!ref) {
+            return;
+        }
+        this.publish(ref.conversationId, ref.stage, 'running', Math.min(Math.max(Math.round(percent), 0), 100));
+    }
+
+    /**
+     * Emit a stage's progress along with a snapshot of the whole pipeline
+     */
+    private publish(conversationId: string, stage: string, status: ProcessingStageStatus, percent?: number): void {
+        this.queueService.getPipelineState(conversationId)
+            .then((state) => {
+                if (!state) {
+                    return;
+                }
+
+                const current = state.stages[stage];
+                // A job's activity can arrive after its stage has already finished
+                if (status === 'running' && current && current.status !== 'queued') {
+                    return;
+                }
+
+                const progress: ProcessingProgress = {
+                    sessionId: state.sessionId,
+                    conversationId,
+                    pipeline: state.pipeline,
+                    stage,
+                    status,
+                    stages: this.getStageStatuses(state, stage, status),
+                    pipelineStatus: derivePipelineStatus(Object.values(state.stages).map(stageState => stageState.status)),
+                    artifacts: this.getArtifacts(state),
+                    timestamp: new Date().toISOString(),
+                };
+                if (percent !== undefined) {
+                    progress.percent = percent;
+                }
+                if (current?.error && (status === 'failed' || status === 'cancelled')) {
+                    progress.error = current.error;
+                }
+
+                this.emit('progress', progress);
+            })
+            .catch((error) => {
+                logger.error(`Failed to publish processing progress for conversation ${conversationId}:`, error);
+            });
+    }
+
+    /**
+     * Every stage's stored status, with the reported stage's status taking precedence
+     */
+    private getStageStatuses(state: PipelineState, stage: string, status: ProcessingStageStatus): Record<string, ProcessingStageStatus> {
+        const stages: Record<string, ProcessingStageStatus> = {};
+        for (const [name, stageState] of Object.entries(state.stages)) {
+            stages[name] = stageState.status;
+        }
+        stages[stage] = status;
+        return stages;
+    }
+
+    /**
+     * Collect download links from the results of completed stages
+     */
+    private getArtifacts(state: PipelineState): ProcessingArtifacts {
+        const artifacts: ProcessingArtifacts = {};
+
+        const audioUrl = state.stages['audio']?.results[0]?.storageUrl;
+        if (typeof audioUrl === 'string') {
+            artifacts.audioUrl = audioUrl;
+        }
+
+        const pdfUrl = state.stages['pdf']?.results[0]?.pdfUrl;
+        if (typeof pdfUrl === 'string') {
+            artifacts.pdfUrl = pdfUrl;
+        }
+
+        return artifacts;
+    }
+}
@@ -1,7 +1,9 @@
 import Bull from 'bull';
 import Redis from 'ioredis';
 import { EventEmitter } from 'events';
+import { SpanKind, trace } from '@opentelemetry/api';
 import { logger } from '../utils/logger';
+import { extractTraceContext, injectTraceContext, withSpan } from '../utils/tracing';
 
 export interface QueueConfig {
     redis: string | {
@@ -30,31 +32,153 @@ export interface JobData {
     conversationId?: string;
     audioUrl?: string;
     transcript?: string;
+    // traceContext carries the W3C trace context of the span that queued the job
     metadata?: Record<string, any>;
     priority?: number;
     delay?: number;
+    pipeline?: PipelineJobRef;
 }
 
 export interface QueueJob extends Bull.Job<JobData> {
     data: JobData;
 }
 
+export type PipelineStatus = 'running' | 'completed' | 'failed';
+
+export type PipelineStageStatus = 'pending' | 'queued' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+/**
+ * Identifies the pipeline stage a queued job belongs to
+ */
+export interface PipelineJobRef {
+    name: string;
+    conversationId: string;
+    stage: string;
+    index: number;
+}
+
+/**
+ * What stage conditions and fan-out see: the data the pipeline was started with
+ * and the results of every finished stage (one entry per fanned-out job)
+ */
+export interface PipelineContext {
+    data: JobData;
+    results: Record<string, any[]>;
+}
+
+export interface PipelineStage {
+    name: string;
+    queue: string;
+    // Stages that must have completed (or been skipped) before this one starts
+    dependsOn?: string[];
+    // Returning false skips the stage; its dependents still run
+    condition?: (context: PipelineContext) => boolean;
+    // One job per returned payload; an empty list skips the stage
+    fanOut?: (context: PipelineContext) => JobData[];
+    options?: Bull.JobOptions;
+}
+
+export interface PipelineDefinition {
+    name: string;
+    stages: PipelineStage[];
+}
+
+export interface PipelineStageState {
+    status: PipelineStageStatus;
+    jobIds: string[];
+    results: any[];
+    error?: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface PipelineState {
+    pipeline: string;
+    conversationId: string;
+    sessionId: string;
+    status: PipelineStatus;
+    stages: Record<string, PipelineStageState>;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DeadLetterAttempt {
+    attempt: number;
+    error: string;
+    stack: string;
+}
+
+/**
+ * A job that exhausted its retries, as captured when it was dead-lettered
+ */
+export interface DeadLetterEntry {
+    queueName: string;
+    jobId: string;
+    data: JobData;
+    failedReason: string;
+    attemptsMade: number;
+    attempts: DeadLetterAttempt[];
+    createdAt: string;
+    failedAt: string;
+    editedAt?: string;
+}
+
+export interface DeadLetterJob extends DeadLetterEntry {
+    id: string;
+}
+
+/**
+ * Overall status of a pipeline given its stages' statuses
+ */
+export function derivePipelineStatus(statuses: Array<PipelineStageStatus | undefined>): PipelineStatus {
+    if (statuses.includes('failed')) {
+        return 'failed';
+    }
+    if (statuses.every(status => status === 'completed' || status === 'skipped')) {
+        return 'completed';
+    }
+    return 'running';
+}
+
+interface PipelineMeta {
+    pipeline: string;
+    conversationId: string;
+    sessionId: string;
+    data: JobData;
+    createdAt: string;
+}
+
 export class QueueService extends EventEmitter {
     private redis!: Redis;
     private queues: Map<string, Bull.Queue> = new Map();
+    private deadLetterQueues: Map<string, Bull.Queue> = new Map();
     private workers: Map<string, any> = new Map(); // Bull doesn't export Worker type
     private config: QueueConfig;
+    private pipelines: Map<string, PipelineDefinition> = new Map();
+    private readonly pipelineTtlSeconds: number;
     private isInitialized = false;
 
     // Queue names
     public static readonly AUDIO_QUEUE = 'audio-processing';
+    public static readonly REDACTION_QUEUE = 'pii-redaction';
     public static readonly SUMMARY_QUEUE = 'summary-generation';
     public static readonly PDF_QUEUE = 'pdf-creation';
     public static readonly EMAIL_QUEUE = 'email-delivery';
+    public static readonly RETENTION_QUEUE = 'retention-purge';
+
+    public static readonly PROCESSING_QUEUES = [
+        QueueService.AUDIO_QUEUE,
+        QueueService.REDACTION_QUEUE,
+        QueueService.SUMMARY_QUEUE,
+        QueueService.PDF_QUEUE,
+        QueueService.EMAIL_QUEUE,
+        QueueService.RETENTION_QUEUE,
+    ];
 
     constructor() {
         super();
         this.config = this.loadConfig();
+        this.pipelineTtlSeconds = parseInt(process.env['PIPELINE_STATE_TTL'] || '604800');
     }
 
     /**
@@ -163,18 +287,36 @@ export class QueueService extends EventEmitter {
      * Initialize all queues
      */
     private async initializeQueues(): Promise<void> {
-        const queueNames = [
-            QueueService.AUDIO_QUEUE,
-            QueueService.SUMMARY_QUEUE,
-            QueueService.PDF_QUEUE,
-            QueueService.EMAIL_QUEUE,
-        ];
-
-        for (const queueName of queueNames) {
+        for (const queueName of QueueService.PROCESSING_QUEUES) {
             await this.createQueue(queueName);
+            this.createDeadLetterQueue(queueName);
         }
     }
 
+    /**
+     * Create the dead-letter queue for a processing queue; nothing consumes it, so its jobs stay waiting until replayed
+     */
+    private createDeadLetterQueue(queueName: string): Bull.Queue {
+        const deadLetterQueueName = `${queueName}-dead-letter`;
+        const queue = new Bull(deadLetterQueueName, {
+            redis: this.config.redis,
+            defaultJobOptions: {
+                attempts: 1,
+                removeOnComplete: false,
+                removeOnFail: false,
+            },
+        });
+
+        queue.on('error', (error) => {
+            logger.error(`Queue ${deadLetterQueueName} error:`, error);
+            this.emit('queueError', { queueName: deadLetterQueueName, error });
+        });
+
+        this.deadLetterQueues.set(queueName, queue);
+        logger.info(`Created queue: ${deadLetterQueueName}`);
+        return queue;
+    }
+
     /**
      * Create a new queue
      */
@@ -216,13 +358,32 @@ export class QueueService extends EventEmitter {
             this.emit('jobStalled', { queueName, job });
         });
 
+        // Workers run their own queue instances, possibly on other nodes, so pipelines advance on global events
+        queue.on('global:completed', (jobId: string, result: string) => {
+            // Seen by every node, unlike jobCompleted, which only the instance that ran the job hears
+            this.emit('globalJobCompleted', { queueName, jobId: String(jobId), result: this.parseJobResult(result ?? null) });
+            this.handlePipelineJobCompleted(queueName, String(jobId), result).catch(error => {
+                logger.error(`Failed to advance pipeline for job ${jobId} in queue ${queueName}:`, error);
+            });
+        });
+
+        // Only fires once Bull has given up retrying the job
+        queue.on('global:failed', (jobId: string, reason: string) => {
+            this.deadLetterJob(queueName, String(jobId), reason).catch(error => {
+                logger.error(`Failed to dead-letter job ${jobId} from queue ${queueName}:`, error);
+            });
+            this.handlePipelineJobFailed(queueName, String(jobId), reason).catch(error => {
+                logger.error(`Failed to record pipeline failure for job ${jobId} in queue ${queueName}:`, error);
+            });
+        });
+
         this.queues.set(queueName, queue);
         logger.info(`Created queue: ${queueName}`);
         return queue;
     }
 
     /**
-     * Add a job to a queue
+     * Add a job to a queue, carrying the trace context the worker continues from
      */
     async addJob(queueName: string, jobData: JobData, options?: any): Promise<QueueJob> {
         const queue = this.queues.get(queueName);
@@ -237,9 +398,21 @@ export class QueueService extends EventEmitter {
             delay: jobData.delay || 0,
         };
 
-        const job = await queue.add(jobData, jobOptions);
-        logger.info(`Added job ${job.id} to queue ${queueName}`);
-        return job as QueueJob;
+        // Jobs queued from job events run outside any span; they continue the trace their payload carries
+        const parent = trace.getActiveSpan() ? undefined : extractTraceContext(jobData.metadata?.['traceContext']);
+
+        return withSpan(`queue.add ${queueName}`, {
+            kind: SpanKind.PRODUCER,
+            attributes: { 'messaging.destination.name': queueName, 'session.id': jobData.sessionId },
+            ...(parent ? { parent } : {}),
+        }, async (span) => {
+            const traceContext = injectTraceContext();
+            const job = await queue.add(traceContext ? { ...jobData, metadata: { ...jobData.metadata, traceContext } } : jobData, jobOptions);
+
+            span.setAttribute('messaging.message.id', String(job.id));
+            logger.info(`Added job ${job.id} to queue ${queueName}`);
+            return job as QueueJob;
+        });
     }
 
     /**
@@ -286,6 +459,623 @@ export class QueueService extends EventEmitter {
         });
     }
 
+    /**
+     * Run a job on a cron schedule, replacing any schedule the job had under another cron
+     */
+    async scheduleRepeatingJob(queueName: string, jobId: string, jobData: JobData, cron: string): Promise<QueueJob> {
+        const queue = this.queues.get(queueName);
+        if (!queue) {
+            throw new Error(`Queue ${queueName} not found`);
+        }
+
+        for (const repeatable of await queue.getRepeatableJobs()) {
+            if (repeatable.id === jobId && repeatable.cron !== cron) {
+                await queue.removeRepeatableByKey(repeatable.key);
+                logger.info(`Removed schedule ${repeatable.cron} of job ${jobId} in queue ${queueName}`);
+            }
+        }
+
+        return this.addJob(queueName, jobData, { repeat: { cron }, jobId });
+    }
+
+    /**
+     * List a queue's dead-lettered jobs, oldest first
+     */
+    async listDeadLetters(queueName: string, start: number = 0, end: number = 49): Promise<{ jobs: DeadLetterJob[]; total: number }> {
+        const queue = this.getDeadLetterQueue(queueName);
+        const [jobs, total] = await Promise.all([
+            queue.getWaiting(start, end),
+            queue.getWaitingCount(),
+        ]);
+
+        return {
+            jobs: jobs.filter(Boolean).map(job => this.toDeadLetterJob(job)),
+            total,
+        };
+    }
+
+    /**
+     * Get a dead-lettered job with its failure reason and attempt history
+     */
+    async getDeadLetter(queueName: string, jobId: string): Promise<DeadLetterJob | null> {
+        const job = await this.getDeadLetterQueue(queueName).getJob(jobId);
+        return job ? this.toDeadLetterJob(job) : null;
+    }
+
+    /**
+     * Replace the payload a dead-lettered job will be replayed with; its pipeline link is kept
+     */
+    async updateDeadLetter(queueName: string, jobId: string, data: JobData): Promise<DeadLetterJob | null> {
+        const job = await this.getDeadLetterQueue(queueName).getJob(jobId);
+        if (!job) {
+            return null;
+        }
+
+        const entry: DeadLetterEntry = job.data;
+        const updated: DeadLetterEntry = {
+            ...entry,
+            data: { ...data },
+            editedAt: new Date().toISOString(),
+        };
+        if (entry.data.pipeline) {
+            updated.data.pipeline = entry.data.pipeline;
+        } else {
+            delete updated.data.pipeline;
+        }
+
+        await job.update(updated);
+        logger.info(`Updated payload of dead-lettered job ${jobId} in queue ${queueName}`);
+        return { ...updated, id: String(job.id) };
+    }
+
+    /**
+     * Put a dead-lettered job back on its queue, reopening its pipeline stage if it belongs to one
+     */
+    async replayDeadLetter(queueName: string, jobId: string): Promise<QueueJob | null> {
+        const deadLetter = await this.getDeadLetterQueue(queueName).getJob(jobId);
+        if (!deadLetter) {
+            return null;
+        }
+
+        const entry: DeadLetterEntry = deadLetter.data;
+        const replayJobId = `${entry.jobId}:replay:${Date.now()}`;
+
+        if (entry.data.pipeline) {
+            await this.reopenPipelineStage(queueName, entry.data.pipeline, replayJobId);
+        }
+
+        const job = await this.addJob(queueName, entry.data, { jobId: replayJobId });
+        await deadLetter.remove();
+
+        logger.info(`Replayed dead-lettered job ${jobId} from queue ${queueName} as job ${job.id}`);
+        return job;
+    }
+
+    /**
+     * Copy a job that exhausted its retries to its stage's dead-letter queue
+     */
+    private async deadLetterJob(queueName: string, jobId: string, reason: string): Promise<void> {
+        const queue = this.queues.get(queueName);
+        const deadLetterQueue = this.deadLetterQueues.get(queueName);
+        if (!queue || !deadLetterQueue) {
+            return;
+        }
+
+        const job = await queue.getJob(jobId);
+        if (!job) {
+            logger.warn(`Failed job ${jobId} was removed from queue ${queueName} before it could be dead-lettered`);
+            return;
+        }
+
+        const stacktrace = job.stacktrace || [];
+        const entry: DeadLetterEntry = {
+            queueName,
+            jobId,
+            data: job.data,
+            failedReason: job.failedReason || reason,
+            attemptsMade: job.attemptsMade,
+            attempts: stacktrace.map((stack, index) => ({
+                attempt: index + 1,
+                error: stack.split('\n')[0] || '',
+                stack,
+            })),
+            createdAt: new Date(job.timestamp).toISOString(),
+            failedAt: new Date(job.finishedOn || Date.now()).toISOString(),
+        };
+
+        // Every node sees the failure; reusing the job ID makes the copy idempotent
+        await deadLetterQueue.add(entry, { jobId });
+
+        logger.warn(`Dead-lettered job ${jobId} from queue ${queueName}: ${entry.failedReason}`);
+        this.emit('jobDeadLettered', { queueName, jobId, failedReason: entry.failedReason });
+    }
+
+    /**
+     * Get the dead-letter queue of a processing queue
+     */
+    private getDeadLetterQueue(queueName: string): Bull.Queue {
+        const queue = this.deadLetterQueues.get(queueName);
+        if (!queue) {
+            throw new Error(`Queue ${queueName} not found`);
+        }
+        return queue;
+    }
+
+    /**
+     * Shape a dead-letter queue job for callers
+     */
+    private toDeadLetterJob(job: Bull.Job): DeadLetterJob {
+        return { ...(job.data as DeadLetterEntry), id: String(job.id) };
+    }
+
+    /**
+     * Register a pipeline definition, rejecting unknown dependencies and cycles
+     */
+    registerPipeline(definition: PipelineDefinition): void {
+        const stageNames = new Set<string>();
+        for (const stage of definition.stages) {
+            if (stageNames.has(stage.name)) {
+                throw new Error(`Pipeline ${definition.name} has duplicate stage ${stage.name}`);
+            }
+            stageNames.add(stage.name);
+        }
+
+        for (const stage of definition.stages) {
+            for (const parent of stage.dependsOn || []) {
+                if (!stageNames.has(parent)) {
+                    throw new Error(`Stage ${stage.name} in pipeline ${definition.name} depends on unknown stage ${parent}`);
+                }
+            }
+        }
+
+        // Kahn's algorithm: stages left unordered are part of a cycle
+        const inDegree = new Map(definition.stages.map(stage => [stage.name, (stage.dependsOn || []).length]));
+        const ready = definition.stages.filter(stage => !stage.dependsOn?.length).map(stage => stage.name);
+        let ordered = 0;
+        while (ready.length > 0) {
+            const name = ready.shift()!;
+            ordered++;
+            for (const child of this.getChildStages(definition, name)) {
+                const remaining = (inDegree.get(child.name) || 0) - 1;
+                inDegree.set(child.name, remaining);
+                if (remaining === 0) {
+                    ready.push(child.name);
+                }
+            }
+        }
+        if (ordered !== definition.stages.length) {
+            throw new Error(`Pipeline ${definition.name} has a dependency cycle`);
+        }
+
+        this.pipelines.set(definition.name, definition);
+        logger.info(`Registered pipeline: ${definition.name}`);
+    }
+
+    /**
+     * Start a registered pipeline for a conversation; a conversation runs each pipeline at most once
+     */
+    async startPipeline(pipelineName: string, data: JobData): Promise<PipelineState> {
+        const definition = this.pipelines.get(pipelineName);
+        if (!definition) {
+            throw new Error(`Pipeline ${pipelineName} not registered`);
+        }
+        if (!data.conversationId) {
+            throw new Error(`Pipeline ${pipelineName} requires a conversation ID`);
+        }
+        if (!this.redis) {
+            throw new Error('QueueService not initialized');
+        }
+
+        const conversationId = data.conversationId;
+        const key = this.pipelineKey(conversationId);
+        const now = new Date().toISOString();
+        // Stages started later, from job events, continue the trace the pipeline was started in
+        const traceContext = injectTraceContext();
+        const meta: PipelineMeta = {
+            pipeline: pipelineName,
+            conversationId,
+            sessionId: data.sessionId,
+            data: traceContext ? { ...data, metadata: { ...data.metadata, traceContext } } : data,
+            createdAt: now,
+        };
+
+        const created = await this.redis.hsetnx(key, 'meta', JSON.stringify(meta));
+        if (!created) {
+            logger.warn(`Pipeline already started for conversation ${conversationId}`);
+            return (await this.getPipelineState(conversationId))!;
+        }
+
+        const fields: Record<string, string> = { status: 'running', updatedAt: now };
+        for (const stage of definition.stages) {
+            const state: PipelineStageState = { status: 'pending', jobIds: [], results: [] };
+            fields[`stage:${stage.name}`] = JSON.stringify(state);
+        }
+        await this.redis.hset(key, fields);
+        await this.redis.expire(key, this.pipelineTtlSeconds);
+
+        logger.info(`Started pipeline ${pipelineName} for conversation ${conversationId}`);
+
+        for (const stage of definition.stages) {
+            if (!stage.dependsOn?.length) {
+                await this.startStage(definition, conversationId, stage);
+            }
+        }
+
+        return (await this.getPipelineState(conversationId))!;
+    }
+
+    /**
+     * Get the state of a conversation's pipeline, or null if none was started
+     */
+    async getPipelineState(conversationId: string): Promise<PipelineState | null> {
+        if (!this.redis) {
+            throw new Error('QueueService not initialized');
+        }
+
+        const fields = await this.redis.hgetall(this.pipelineKey(conversationId));
+        if (!fields['meta']) {
+            return null;
+        }
+
+        const meta: PipelineMeta = JSON.parse(fields['meta']);
+        const stages: Record<string, PipelineStageState> = {};
+        for (const [field, value] of Object.entries(fields)) {
+            if (field.startsWith('stage:')) {
+                stages[field.slice('stage:'.length)] = JSON.parse(value);
+            }
+        }
+
+        return {
+            pipeline: meta.pipeline,
+            conversationId: meta.conversationId,
+            sessionId: meta.sessionId,
+            status: (fields['status'] as PipelineStatus) || 'running',
+            stages,
+            createdAt: meta.createdAt,
+            updatedAt: fields['updatedAt'] || meta.createdAt,
+        };
+    }
+
+    /**
+     * Queue a stage's jobs, or skip it when its condition or fan-out yields nothing to do.
+     * Only the first caller to claim a stage starts it, so every node can safely try.
+     */
+    private async startStage(definition: PipelineDefinition, conversationId: string, stage: PipelineStage): Promise<void> {
+        const key = this.pipelineKey(conversationId);
+        const claimed = await this.redis.hsetnx(key, `claim:${stage.name}`, new Date().toISOString());
+        if (!claimed) {
+            return;
+        }
+
+        const context = await this.getPipelineContext(conversationId);
+        if (!context) {
+            return;
+        }
+
+        let payloads: JobData[];
+        try {
+            if (stage.condition && !stage.condition(context)) {
+                logger.info(`Skipping stage ${stage.name} of pipeline ${definition.name} for conversation ${conversationId}`);
+                await this.finishStage(definition, conversationId, stage.name, { status: 'skipped' });
+                return;
+            }
+            payloads = stage.fanOut ? stage.fanOut(context) : [context.data];
+        } catch (error) {
+            await this.finishStage(definition, conversationId, stage.name, {
+                status: 'failed',
+                error: (error as Error).message,
+            });
+            return;
+        }
+
+        if (payloads.length === 0) {
+            await this.finishStage(definition, conversationId, stage.name, { status: 'skipped' });
+            return;
+        }
+
+        // Job IDs are known up front so the job index exists before a fast job can finish
+        const jobIds = payloads.map((_, index) => `${definition.name}:${conversationId}:${stage.name}:${index}`);
+        const state: PipelineStageState = {
+            status: 'queued',
+            jobIds,
+            results: [],
+            startedAt: new Date().toISOString(),
+        };
+        await this.redis.hset(key, {
+            [`stage:${stage.name}`]: JSON.stringify(state),
+            [`remaining:${stage.name}`]: String(payloads.length),
+            updatedAt: state.startedAt!,
+        });
+        this.emit('pipelineStageChanged', { pipeline: definition.name, conversationId, stage: stage.name, status: state.status });
+
+        for (const [index, payload] of payloads.entries()) {
+            const ref: PipelineJobRef = { name: definition.name, conversationId, stage: stage.name, index };
+            const jobId = jobIds[index]!;
+            await this.redis.set(this.pipelineJobKey(stage.queue, jobId), JSON.stringify(ref), 'EX', this.pipelineTtlSeconds);
+            await this.addJob(stage.queue, { ...payload, pipeline: ref }, { ...stage.options, jobId });
+        }
+
+        logger.info(`Queued stage ${stage.name} of pipeline ${definition.name} for conversation ${conversationId} (${payloads.length} job(s))`);
+    }
+
+    /**
+     * Record a finished pipeline job and complete its stage once all of the stage's jobs are done
+     */
+    private async handlePipelineJobCompleted(queueName: string, jobId: string, result: string): Promise<void> {
+        const ref = await this.claimPipelineJob(queueName, jobId);
+        if (!ref) {
+            return;
+        }
+
+        const definition = this.pipelines.get(ref.name);
+        if (!definition) {
+            logger.warn(`Job ${jobId} belongs to unregistered pipeline ${ref.name}`);
+            return;
+        }
+
+        const key = this.pipelineKey(ref.conversationId);
+        await this.redis.hset(key, `result:${ref.stage}:${ref.index}`, result ?? 'null');
+        const remaining = await this.redis.hincrby(key, `remaining:${ref.stage}`, -1);
+        if (remaining > 0) {
+            return;
+        }
+
+        const stageState = await this.getStageState(ref.conversationId, ref.stage);
+        const rawResults = await Promise.all(
+            (stageState?.jobIds || []).map((_, index) => this.redis.hget(key, `result:${ref.stage}:${index}`))
+        );
+        const results = rawResults.map(raw => this.parseJobResult(raw));
+
+        await this.finishStage(definition, ref.conversationId, ref.stage, { status: 'completed', results });
+    }
+
+    /**
+     * Fail a job's stage once Bull has given up retrying it
+     */
+    private async handlePipelineJobFailed(queueName: string, jobId: string, reason: string): Promise<void> {
+        const ref = await this.claimPipelineJob(queueName, jobId);
+        if (!ref) {
+            return;
+        }
+
+        const definition = this.pipelines.get(ref.name);
+        if (!definition) {
+            logger.warn(`Job ${jobId} belongs to unregistered pipeline ${ref.name}`);
+            return;
+        }
+
+        await this.finishStage(definition, ref.conversationId, ref.stage, {
+            status: 'failed',
+            error: reason || 'Job failed',
+        });
+    }
+
+    /**
+     * Move a stage to a terminal status, then start ready dependents or cancel the ones that can no longer run
+     */
+    private async finishStage(
+        definition: PipelineDefinition,
+        conversationId: string,
+        stageName: string,
+        update: Pick<PipelineStageState, 'status'> & Partial<PipelineStageState>
+    ): Promise<void> {
+        const key = this.pipelineKey(conversationId);
+        const now = new Date().toISOString();
+        const current = await this.getStageState(conversationId, stageName);
+        const state: PipelineStageState = {
+            jobIds: [],
+            results: [],
+            ...current,
+            ...update,
+            finishedAt: now,
+        };
+
+        await this.redis.hset(key, { [`stage:${stageName}`]: JSON.stringify(state), updatedAt: now });
+        this.emit('pipelineStageChanged', { pipeline: definition.name, conversationId, stage: stageName, status: state.status });
+
+        if (state.status === 'failed') {
+            logger.error(`Stage ${stageName} of pipeline ${definition.name} failed for conversation ${conversationId}: ${state.error}`);
+            await this.cancelDependents(definition, conversationId, stageName);
+        } else {
+            for (const child of this.getChildStages(definition, stageName)) {
+                if (await this.parentsSucceeded(conversationId, child)) {
+                    await this.startStage(definition, conversationId, child);
+                }
+            }
+        }
+
+        await this.updatePipelineStatus(definition, conversationId);
+    }
+
+    /**
+     * Cancel every pending stage downstream of a failed one
+     */
+    private async cancelDependents(definition: PipelineDefinition, conversationId: string, stageName: string): Promise<void> {
+        const key = this.pipelineKey(conversationId);
+        for (const child of this.getChildStages(definition, stageName)) {
+            // Claiming the stage keeps a late parent from starting it
+            const claimed = await this.redis.hsetnx(key, `claim:${child.name}`, new Date().toISOString());
+            if (!claimed) {
+                continue;
+            }
+
+            const state: PipelineStageState = {
+                status: 'cancelled',
+                jobIds: [],
+                results: [],
+                error: `Upstream stage ${stageName} failed`,
+                finishedAt: new Date().toISOString(),
+            };
+            await this.redis.hset(key, `stage:${child.name}`, JSON.stringify(state));
+            this.emit('pipelineStageChanged', { pipeline: definition.name, conversationId, stage: child.name, status: state.status });
+
+            await this.cancelDependents(definition, conversationId, child.name);
+        }
+    }
+
+    /**
+     * Requeue a failed stage under a replayed job and restore the stages its failure cancelled
+     */
+    private async reopenPipelineStage(queueName: string, ref: PipelineJobRef, jobId: string): Promise<void> {
+        const definition = this.pipelines.get(ref.name);
+        const state = await this.getStageState(ref.conversationId, ref.stage);
+        if (!definition || !state) {
+            logger.warn(`Pipeline ${ref.name} for conversation ${ref.conversationId} is gone; replaying job without it`);
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const reopened: PipelineStageState = { ...state, status: 'queued', jobIds: [...state.jobIds] };
+        reopened.jobIds[ref.index] = jobId;
+        delete reopened.error;
+        delete reopened.finishedAt;
+
+        await this.redis.set(this.pipelineJobKey(queueName, jobId), JSON.stringify(ref), 'EX', this.pipelineTtlSeconds);
+        await this.redis.hset(this.pipelineKey(ref.conversationId), {
+            [`stage:${ref.stage}`]: JSON.stringify(reopened),
+            updatedAt: now,
+        });
+        this.emit('pipelineStageChanged', { pipeline: ref.name, conversationId: ref.conversationId, stage: ref.stage, status: reopened.status });
+
+        await this.restoreDependents(definition, ref.conversationId, ref.stage);
+        await this.updatePipelineStatus(definition, ref.conversationId);
+    }
+
+    /**
+     * Return stages cancelled by an upstream failure to pending so they can start again
+     */
+    private async restoreDependents(definition: PipelineDefinition, conversationId: string, stageName: string): Promise<void> {
+        const key = this.pipelineKey(conversationId);
+        for (const child of this.getChildStages(definition, stageName)) {
+            const state = await this.getStageState(conversationId, child.name);
+            if (state?.status !== 'cancelled') {
+                continue;
+            }
+
+            const pending: PipelineStageState = { status: 'pending', jobIds: [], results: [] };
+            await this.redis.hset(key, `stage:${child.name}`, JSON.stringify(pending));
+            await this.redis.hdel(key, `claim:${child.name}`);
+            this.emit('pipelineStageChanged', { pipeline: definition.name, conversationId, stage: child.name, status: pending.status });
+
+            await this.restoreDependents(definition, conversationId, child.name);
+        }
+    }
+
+    /**
+     * Recompute the overall pipeline status from its stages
+     */
+    private async updatePipelineStatus(definition: PipelineDefinition, conversationId: string): Promise<void> {
+        const key = this.pipelineKey(conversationId);
+        const statuses = await Promise.all(
+            definition.stages.map(async stage => (await this.getStageState(conversationId, stage.name))?.status)
+        );
+
+        const status = derivePipelineStatus(statuses);
+        const previous = await this.redis.hget(key, 'status');
+        if (previous === status) {
+            return;
+        }
+
+        await this.redis.hset(key, 'status', status);
+        if (status !== 'running') {
+            logger.info(`Pipeline ${definition.name} ${status} for conversation ${conversationId}`);
+            this.emit(status === 'completed' ? 'pipelineCompleted' : 'pipelineFailed', { pipeline: definition.name, conversationId });
+        }
+    }
+
+    /**
+     * Check whether every parent of a stage completed or was skipped
+     */
+    private async parentsSucceeded(conversationId: string, stage: PipelineStage): Promise<boolean> {
+        for (const parent of stage.dependsOn || []) {
+            const state = await this.getStageState(conversationId, parent);
+            if (state?.status !== 'completed' && state?.status !== 'skipped') {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Build the context stage conditions and fan-out run against
+     */
+    private async getPipelineContext(conversationId: string): Promise<PipelineContext | null> {
+        const state = await this.getPipelineState(conversationId);
+        const rawMeta = await this.redis.hget(this.pipelineKey(conversationId), 'meta');
+        if (!state || !rawMeta) {
+            return null;
+        }
+
+        const meta: PipelineMeta = JSON.parse(rawMeta);
+        const results: Record<string, any[]> = {};
+        for (const [name, stageState] of Object.entries(state.stages)) {
+            if (stageState.status === 'completed') {
+                results[name] = stageState.results;
+            }
+        }
+
+        return { data: meta.data, results };
+    }
+
+    /**
+     * Read one stage's state
+     */
+    private async getStageState(conversationId: string, stageName: string): Promise<PipelineStageState | null> {
+        const raw = await this.redis.hget(this.pipelineKey(conversationId), `stage:${stageName}`);
+        return raw ? JSON.parse(raw) : null;
+    }
+
+    /**
+     * Take ownership of a finished pipeline job; every node sees the global event but only one advances the pipeline
+     */
+    private async claimPipelineJob(queueName: string, jobId: string): Promise<PipelineJobRef | null> {
+        if (!this.redis) {
+            return null;
+        }
+
+        const jobKey = this.pipelineJobKey(queueName, jobId);
+        const raw = await this.redis.get(jobKey);
+        if (!raw || (await this.redis.del(jobKey)) === 0) {
+            return null;
+        }
+        return JSON.parse(raw);
+    }
+
+    /**
+     * Stages that list the given stage as a dependency
+     */
+    private getChildStages(definition: PipelineDefinition, stageName: string): PipelineStage[] {
+        return definition.stages.filter(stage => stage.dependsOn?.includes(stageName));
+    }
+
+    /**
+     * Parse a job's return value as published by Bull
+     */
+    private parseJobResult(raw: string | null): any {
+        if (raw === null) {
+            return null;
+        }
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return raw;
+        }
+    }
+
+    /**
+     * Redis key holding a conversation's pipeline state
+     */
+    private pipelineKey(conversationId: string): string {
+        return `pipeline:${conversationId}`;
+    }
+
+    /**
+     * Redis key mapping a queued job back to its pipeline stage
+     */
+    private pipelineJobKey(queueName: string, jobId: string): string {
+        return `pipeline-job:${queueName}:${jobId}`;
+    }
+
     /**
      * Get queue statistics
      */
@@ -295,12 +1085,14 @@ export class QueueService extends EventEmitter {
             throw new Error(`Queue ${queueName} not found`);
         }
 
-        const [waiting, active, completed, failed, delayed] = await Promise.all([
+        const deadLetterQueue = this.deadLetterQueues.get(queueName);
+        const [waiting, active, completed, failed, delayed, deadLettered] = await Promise.all([
             queue.getWaiting(),
             queue.getActive(),
             queue.getCompleted(),
             queue.getFailed(),
             queue.getDelayed(),
+            deadLetterQueue ? deadLetterQueue.getWaitingCount() : Promise.resolve(0),
         ]);
 
         return {
@@ -310,6 +1102,7 @@ export class QueueService extends EventEmitter {
             completed: completed.length,
             failed: failed.length,
             delayed: delayed.length,
+            deadLettered,
         };
     }
 
@@ -445,6 +1238,12 @@ export class QueueService extends EventEmitter {
             }
             this.queues.clear();
 
+            for (const [name, queue] of this.deadLetterQueues.entries()) {
+                await queue.close();
+                logger.info(`Closed dead-letter queue: ${name}`);
+            }
+            this.deadLetterQueues.clear();
+
             // Close Redis connection
             if (this.redis) {
                 await this.redis.quit();
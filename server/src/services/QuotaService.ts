@@ -0,0 +1,412 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+import { AppRegistration } from '../types';
+import { AppRegistrationService } from './AppRegistrationService';
+
+const KEY_PREFIX = 'vcw:quota';
+const STARTS_TTL_SECONDS = 2 * 60;
+const DAY_TTL_SECONDS = 2 * 24 * 60 * 60;
+const MONTH_TTL_SECONDS = 32 * 24 * 60 * 60;
+
+export type QuotaName =
+    | 'sessionsPerMinute'
+    | 'concurrentSessions'
+    | 'audioMinutesPerDay'
+    | 'audioMinutesPerMonth'
+    | 'officerAudioMinutesPerDay'
+    | 'officerAudioMinutesPerMonth';
+
+// Effective limits for an app; 0 means unlimited
+export interface QuotaLimits {
+    sessionsPerMinute: number;
+    concurrentSessions: number;
+    audioMinutesPerDay: number;
+    audioMinutesPerMonth: number;
+    officerAudioMinutesPerDay: number;
+    officerAudioMinutesPerMonth: number;
+}
+
+export type QuotaResult =
+    | { ok: true }
+    | { ok: false; code: 'QUOTA_EXCEEDED'; quota: QuotaName; limit: number };
+
+export interface QuotaSession {
+    sessionId: string;
+    appName: string;
+    officerEmail: string;
+}
+
+export interface AudioUsage {
+    minutesToday: number;
+    minutesThisMonth: number;
+}
+
+export interface QuotaUsage {
+    appName: string;
+    limits: QuotaLimits;
+    sessionsThisMinute: number;
+    concurrentSessions: number;
+    audio: AudioUsage;
+    officers: Record<string, AudioUsage>;
+}
+
+interface MeteredSession extends QuotaSession {
+    pendingSeconds: number;
+    exceeded: boolean;
+}
+
+interface AudioTotals {
+    appDay: number;
+    appMonth: number;
+    officerDay: number;
+    officerMonth: number;
+}
+
+const OK: QuotaResult = { ok: true };
+
+/**
+ * Redis-backed per-app and per-officer quotas, shared by every node.
+ *
+ * Session starts per minute come from `app_registrations.rate_limit`; concurrent
+ * sessions and audio minutes come from the app's `quotas` overrides or the server
+ * defaults. Audio is metered locally and flushed to Redis every few seconds of
+ * speech. When Redis is unavailable quotas fail open rather than block sessions.
+ */
+export class QuotaService {
+    private appRegistrationService: AppRegistrationService;
+    private redis: Redis | null;
+    private readonly enabled: boolean;
+    private readonly defaults: Omit<QuotaLimits, 'sessionsPerMinute'>;
+    private readonly flushSeconds: number;
+    private readonly staleMs: number;
+    private sessions: Map<string, MeteredSession> = new Map();
+
+    constructor(appRegistrationService: AppRegistrationService, redis?: Redis) {
+        this.appRegistrationService = appRegistrationService;
+        this.redis = redis || null;
+        this.enabled = process.env['QUOTA_ENABLED'] !== 'false';
+        this.defaults = {
+            concurrentSessions: parseInt(process.env['QUOTA_CONCURRENT_SESSIONS'] || '0'),
+            audioMinutesPerDay: parseInt(process.env['QUOTA_AUDIO_MINUTES_PER_DAY'] || '0'),
+            audioMinutesPerMonth: parseInt(process.env['QUOTA_AUDIO_MINUTES_PER_MONTH'] || '0'),
+            officerAudioMinutesPerDay: parseInt(process.env['QUOTA_OFFICER_AUDIO_MINUTES_PER_DAY'] || '0'),
+            officerAudioMinutesPerMonth: parseInt(process.env['QUOTA_OFFICER_AUDIO_MINUTES_PER_MONTH'] || '0'),
+        };
+        this.flushSeconds = parseInt(process.env['QUOTA_AUDIO_FLUSH_SECONDS'] || '15');
+        // Sessions that stopped reporting audio (e.g. a crashed node) stop counting as concurrent after this
+        this.staleMs = parseInt(process.env['QUOTA_SESSION_STALE_SECONDS'] || '900') * 1000;
+    }
+
+    private startsKey(appName: string, now: number): string {
+        return `${KEY_PREFIX}:starts:${appName}:${Math.floor(now / 60000)}`;
+    }
+
+    private activeKey(appName: string): string {
+        return `${KEY_PREFIX}:active:${appName}`;
+    }
+
+    private audioKey(appName: string, period: string): string {
+        return `${KEY_PREFIX}:audio:${appName}:${period}`;
+    }
+
+    private officerAudioKey(appName: string, period: string): string {
+        return `${KEY_PREFIX}:audio-officers:${appName}:${period}`;
+    }
+
+    /**
+     * Check whether quotas are enforced
+     */
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Get the effective limits for an app registration
+     */
+    getLimits(registration: AppRegistration | null): QuotaLimits {
+        const quotas = registration?.quotas || {};
+        return {
+            sessionsPerMinute: registration?.rate_limit || 0,
+            concurrentSessions: quotas.concurrent_sessions ?? this.defaults.concurrentSessions,
+            audioMinutesPerDay: quotas.audio_minutes_per_day ?? this.defaults.audioMinutesPerDay,
+            audioMinutesPerMonth: quotas.audio_minutes_per_month ?? this.defaults.audioMinutesPerMonth,
+            officerAudioMinutesPerDay: quotas.officer_audio_minutes_per_day ?? this.defaults.officerAudioMinutesPerDay,
+            officerAudioMinutesPerMonth: quotas.officer_audio_minutes_per_month ?? this.defaults.officerAudioMinutesPerMonth,
+        };
+    }
+
+    /**
+     * Admit a new session: audio allowances, the start rate and a concurrent slot, which is held until release
+     */
+    async acquireSession(session: QuotaSession): Promise<QuotaResult> {
+        if (!this.enabled) {
+            return OK;
+        }
+
+        try {
+            const limits = await this.resolveLimits(session.appName);
+            const redis = this.getRedis();
+            const now = Date.now();
+
+            const audio = this.compareAudio(await this.getAudioTotals(session, now), limits);
+            if (!audio.ok) {
+                return audio;
+            }
+
+            const startsKey = this.startsKey(session.appName, now);
+            const starts = await redis.incr(startsKey);
+            if (starts === 1) {
+                await redis.expire(startsKey, STARTS_TTL_SECONDS);
+            }
+            if (limits.sessionsPerMinute > 0 && starts > limits.sessionsPerMinute) {
+                return this.exceeded('sessionsPerMinute', limits.sessionsPerMinute);
+            }
+
+            // Claim the slot before counting and give it back when over, so simultaneous starts cannot overshoot
+            const activeKey = this.activeKey(session.appName);
+            await redis.zremrangebyscore(activeKey, 0, now - this.staleMs);
+            await redis.zadd(activeKey, now, session.sessionId);
+            if (limits.concurrentSessions > 0 && await redis.zcard(activeKey) > limits.concurrentSessions) {
+                await redis.zrem(activeKey, session.sessionId);
+                return this.exceeded('concurrentSessions', limits.concurrentSessions);
+            }
+
+            this.track(session);
+            return OK;
+        } catch (error) {
+            logger.warn(`Quota check failed for app ${session.appName}, allowing session:`, error);
+            this.track(session);
+            return OK;
+        }
+    }
+
+    /**
+     * Pick up metering for a session resumed on this node; its concurrent slot is already held
+     */
+    async resumeSession(session: QuotaSession): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+
+        this.track(session);
+        try {
+            await this.getRedis().zadd(this.activeKey(session.appName), Date.now(), session.sessionId);
+        } catch (error) {
+            logger.warn(`Failed to refresh quota slot for session ${session.sessionId}:`, error);
+        }
+    }
+
+    /**
+     * Meter audio for a session, checking the audio allowances whenever the local tally is flushed
+     */
+    async recordAudio(sessionId: string, seconds: number): Promise<QuotaResult> {
+        const metered = this.sessions.get(sessionId);
+        if (!metered || metered.exceeded) {
+            return OK;
+        }
+
+        metered.pendingSeconds += seconds;
+        if (metered.pendingSeconds < this.flushSeconds) {
+            return OK;
+        }
+
+        return this.flush(metered);
+    }
+
+    /**
+     * Flush a session's remaining audio and free its concurrent slot
+     */
+    async releaseSession(sessionId: string, appName: string): Promise<void> {
+        if (!this.enabled) {
+            return;
+        }
+
+        const metered = this.sessions.get(sessionId);
+        this.sessions.delete(sessionId);
+
+        try {
+            if (metered) {
+                await this.flush(metered);
+            }
+            await this.getRedis().zrem(this.activeKey(appName), sessionId);
+        } catch (error) {
+            logger.warn(`Failed to release quota for session ${sessionId}:`, error);
+        }
+    }
+
+    /**
+     * Current usage against an app's limits, with audio broken down by officer; null for unknown apps
+     */
+    async getUsage(appName: string): Promise<QuotaUsage | null> {
+        const registration = await this.appRegistrationService.getByName(appName);
+        if (!registration) {
+            return null;
+        }
+
+        const redis = this.getRedis();
+        const now = Date.now();
+        const [day, month] = [this.dayPeriod(now), this.monthPeriod(now)];
+
+        const [starts, concurrent, appDay, appMonth, officersDay, officersMonth] = await Promise.all([
+            redis.get(this.startsKey(appName, now)),
+            redis.zcount(this.activeKey(appName), now - this.staleMs, '+inf'),
+            redis.get(this.audioKey(appName, day)),
+            redis.get(this.audioKey(appName, month)),
+            redis.hgetall(this.officerAudioKey(appName, day)),
+            redis.hgetall(this.officerAudioKey(appName, month)),
+        ]);
+
+        const officers: Record<string, AudioUsage> = {};
+        for (const email of new Set([...Object.keys(officersDay), ...Object.keys(officersMonth)])) {
+            officers[email] = {
+                minutesToday: this.toMinutes(officersDay[email]),
+                minutesThisMonth: this.toMinutes(officersMonth[email]),
+            };
+        }
+
+        return {
+            appName,
+            limits: this.getLimits(registration),
+            sessionsThisMinute: parseInt(starts || '0'),
+            concurrentSessions: concurrent,
+            audio: {
+                minutesToday: this.toMinutes(appDay),
+                minutesThisMonth: this.toMinutes(appMonth),
+            },
+            officers,
+        };
+    }
+
+    /**
+     * Flush audio metered on this node and close the Redis connection
+     */
+    async close(): Promise<void> {
+        await Promise.all(Array.from(this.sessions.values()).map(metered => this.flush(metered)));
+        this.sessions.clear();
+
+        if (this.redis) {
+            await this.redis.quit();
+            this.redis = null;
+        }
+    }
+
+    private getRedis(): Redis {
+        if (!this.redis) {
+            this.redis = createRedisClient('quota');
+        }
+        return this.redis;
+    }
+
+    private async resolveLimits(appName: string): Promise<QuotaLimits> {
+        return this.getLimits(await this.appRegistrationService.getByName(appName));
+    }
+
+    private track(session: QuotaSession): void {
+        if (!this.sessions.has(session.sessionId)) {
+            this.sessions.set(session.sessionId, { ...session, pendingSeconds: 0, exceeded: false });
+        }
+    }
+
+    /**
+     * Add a session's pending audio to the shared counters and compare the new totals to the limits
+     */
+    private async flush(metered: MeteredSession): Promise<QuotaResult> {
+        const seconds = metered.pendingSeconds;
+        metered.pendingSeconds = 0;
+        if (seconds <= 0) {
+            return OK;
+        }
+
+        try {
+            const limits = await this.resolveLimits(metered.appName);
+            const redis = this.getRedis();
+            const now = Date.now();
+            const [day, month] = [this.dayPeriod(now), this.monthPeriod(now)];
+            const [appDayKey, appMonthKey] = [this.audioKey(metered.appName, day), this.audioKey(metered.appName, month)];
+            const [officerDayKey, officerMonthKey] = [this.officerAudioKey(metered.appName, day), this.officerAudioKey(metered.appName, month)];
+
+            const [appDay, appMonth, officerDay, officerMonth] = await Promise.all([
+                redis.incrbyfloat(appDayKey, seconds),
+                redis.incrbyfloat(appMonthKey, seconds),
+                redis.hincrbyfloat(officerDayKey, metered.officerEmail, seconds),
+                redis.hincrbyfloat(officerMonthKey, metered.officerEmail, seconds),
+            ]);
+            await Promise.all([
+                redis.expire(appDayKey, DAY_TTL_SECONDS),
+                redis.expire(appMonthKey, MONTH_TTL_SECONDS),
+                redis.expire(officerDayKey, DAY_TTL_SECONDS),
+                redis.expire(officerMonthKey, MONTH_TTL_SECONDS),
+                // Audio doubles as the heartbeat that keeps the concurrent slot from going stale
+                redis.zadd(this.activeKey(metered.appName), 'XX', now, metered.sessionId),
+            ]);
+
+            const result = this.compareAudio({
+                appDay: parseFloat(appDay),
+                appMonth: parseFloat(appMonth),
+                officerDay: parseFloat(officerDay),
+                officerMonth: parseFloat(officerMonth),
+            }, limits);
+            if (!result.ok) {
+                metered.exceeded = true;
+            }
+            return result;
+        } catch (error) {
+            logger.warn(`Failed to record audio usage for session ${metered.sessionId}:`, error);
+            return OK;
+        }
+    }
+
+    private async getAudioTotals(session: QuotaSession, now: number): Promise<AudioTotals> {
+        const redis = this.getRedis();
+        const [day, month] = [this.dayPeriod(now), this.monthPeriod(now)];
+
+        const [appDay, appMonth, officerDay, officerMonth] = await Promise.all([
+            redis.get(this.audioKey(session.appName, day)),
+            redis.get(this.audioKey(session.appName, month)),
+            redis.hget(this.officerAudioKey(session.appName, day), session.officerEmail),
+            redis.hget(this.officerAudioKey(session.appName, month), session.officerEmail),
+        ]);
+
+        return {
+            appDay: parseFloat(appDay || '0'),
+            appMonth: parseFloat(appMonth || '0'),
+            officerDay: parseFloat(officerDay || '0'),
+            officerMonth: parseFloat(officerMonth || '0'),
+        };
+    }
+
+    private compareAudio(totals: AudioTotals, limits: QuotaLimits): QuotaResult {
+        const checks: Array<[QuotaName, number]> = [
+            ['audioMinutesPerDay', totals.appDay],
+            ['audioMinutesPerMonth', totals.appMonth],
+            ['officerAudioMinutesPerDay', totals.officerDay],
+            ['officerAudioMinutesPerMonth', totals.officerMonth],
+        ];
+
+        for (const [quota, seconds] of checks) {
+            const limit = limits[quota];
+            if (limit > 0 && seconds >= limit * 60) {
+                return this.exceeded(quota, limit);
+            }
+        }
+        return OK;
+    }
+
+    private exceeded(quota: QuotaName, limit: number): QuotaResult {
+        return { ok: false, code: 'QUOTA_EXCEEDED', quota, limit };
+    }
+
+    // Usage periods roll over at UTC midnight and on the first of the month
+    private dayPeriod(now: number): string {
+        return `day:${new Date(now).toISOString().slice(0, 10)}`;
+    }
+
+    private monthPeriod(now: number): string {
+        return `month:${new Date(now).toISOString().slice(0, 7)}`;
+    }
+
+    private toMinutes(seconds: string | undefined | null): number {
+        return Math.round(parseFloat(seconds || '0') / 60 * 100) / 100;
+    }
+}
@@ -0,0 +1,550 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { AppRetentionSettings, RetentionCategory } from '../types';
+import { AppRegistrationService } from './AppRegistrationService';
+import { MinIOInitializer } from './MinIOInitializer';
+
+export const RETENTION_CATEGORIES: RetentionCategory[] = ['audio', 'transcript', 'report'];
+
+export const TEMP_BUCKET = 'voice-chat-temp';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days each category is kept after a conversation ends; null keeps it forever
+export type RetentionRules = Record<RetentionCategory, number | null>;
+
+/**
+ * What a purge deletes for one conversation category, a whole conversation, or the temp bucket.
+ * Targets name storage objects (minio:bucket/object, storage:bucket/path) and tables or columns.
+ */
+export interface RetentionAction {
+    category: RetentionCategory | 'conversation' | 'temp';
+    appName: string | null;
+    conversationId: string | null;
+    targets: string[];
+}
+
+export interface RetentionReport {
+    runId: string;
+    dryRun: boolean;
+    startedAt: string;
+    finishedAt: string;
+    actions: RetentionAction[];
+    // Apps skipped because they are on legal hold
+    heldApps: string[];
+    errors: string[];
+}
+
+export interface RetentionRunOptions {
+    // Report what would be deleted without deleting anything
+    dryRun: boolean;
+    // Limit the run to one app; only runs across all apps purge the temp bucket
+    appName?: string;
+    now?: Date;
+}
+
+// The conversation columns a purge reads
+interface ConversationRow {
+    id: string;
+    session_id: string;
+    app_name: string;
+    end_time: string;
+    audio_url?: string | null;
+    pdf_url?: string | null;
+    pdf_report_url?: string | null;
+    audio_purged_at?: string | null;
+    transcript_purged_at?: string | null;
+    report_purged_at?: string | null;
+}
+
+// A storage object to delete, in MinIO or Supabase Storage
+interface StorageObject {
+    provider: 'minio' | 'storage';
+    bucket: string;
+    path: string;
+}
+
+/**
+ * Read a retention period in days; unset, invalid or 0 keeps data forever
+ */
+function toRetentionDays(value: number | string | undefined): number | null {
+    const days = typeof value === 'number' ? value : parseInt(value || '0');
+    return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * An app's retention rules: its overrides over RETENTION_AUDIO_DAYS, RETENTION_TRANSCRIPT_DAYS and RETENTION_REPORT_DAYS
+ */
+export function resolveRetentionRules(overrides: AppRetentionSettings | undefined): RetentionRules {
+    return {
+        audio: toRetentionDays(overrides?.audio_days ?? process.env['RETENTION_AUDIO_DAYS']),
+        transcript: toRetentionDays(overrides?.transcript_days ?? process.env['RETENTION_TRANSCRIPT_DAYS']),
+        report: toRetentionDays(overrides?.report_days ?? process.env['RETENTION_REPORT_DAYS']),
+    };
+}
+
+/**
+ * Split a Supabase Storage URL into its bucket and object path
+ */
+export function parseStorageUrl(url: string | null | undefined): { bucket: string; path: string } | null {
+    const match = url?.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/([^?#]+)/);
+    return match ? { bucket: match[1]!, path: decodeURIComponent(match[2]!) } : null;
+}
+
+/**
+ * Purges conversation data once an app's retention rules say it has expired.
+ *
+ * Each category is purged on its own: audio deletes the recordings and their audio_files rows,
+ * transcript clears the transcripts and deletes segments and redaction originals, and report
+ * deletes the PDF and clears the summary. Once every category is purged the session and
+ * conversation rows are deleted too. Storage objects go before the rows that point at them, so a
+ * failed deletion is retried by the next run, and every purge is written to retention_audit_log.
+ */
+export class RetentionService {
+    private supabase: SupabaseClient;
+    private readonly batchSize: number;
+    private readonly tempHours: number;
+
+    constructor(
+        private minio: MinIOInitializer | null,
+        private appRegistrationService: AppRegistrationService,
+        supabase?: SupabaseClient
+    ) {
+        this.batchSize = parseInt(process.env['RETENTION_BATCH_SIZE'] || '500');
+        this.tempHours = parseInt(process.env['RETENTION_TEMP_HOURS'] || '24');
+
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Get an app's retention rules
+     */
+    async getRules(appName: string): Promise<RetentionRules> {
+        const registration = await this.appRegistrationService.getByName(appName);
+        return resolveRetentionRules(registration?.retention);
+    }
+
+    /**
+     * Purge, or with dryRun only report, everything whose retention period has passed
+     */
+    async run(options: RetentionRunOptions): Promise<RetentionReport> {
+        const now = options.now || new Date();
+        const report: RetentionReport = {
+            runId: uuidv4(),
+            dryRun: options.dryRun,
+            startedAt: now.toISOString(),
+            finishedAt: now.toISOString(),
+            actions: [],
+            heldApps: [],
+            errors: [],
+        };
+
+        const appNames = options.appName ? [options.appName] : await this.listAppNames();
+        for (const appName of appNames) {
+            try {
+                await this.purgeApp(appName, now, report);
+            } catch (error) {
+                logger.error(`Retention run ${report.runId} failed for app ${appName}:`, error);
+                report.errors.push(`${appName}: ${(error as Error).message}`);
+            }
+        }
+
+        if (!options.appName) {
+            try {
+                await this.purgeTemp(now, report);
+            } catch (error) {
+                logger.error(`Retention run ${report.runId} failed to purge ${TEMP_BUCKET}:`, error);
+                report.errors.push(`${TEMP_BUCKET}: ${(error as Error).message}`);
+            }
+        }
+
+        report.finishedAt = new Date().toISOString();
+        logger.info(`Retention ${options.dryRun ? 'dry run' : 'purge'} ${report.runId}: ${report.actions.length} action(s), ${report.errors.length} error(s)`);
+
+        return report;
+    }
+
+    /**
+     * Put a conversation on legal hold, or release it, and audit the change
+     */
+    async setLegalHold(conversationId: string, appName: string, hold: boolean, reason: string | null): Promise<void> {
+        const { error } = await this.supabase
+            .from('conversations')
+            .update({
+                legal_hold: hold,
+                legal_hold_reason: hold ? reason : null,
+                legal_hold_at: hold ? new Date().toISOString() : null,
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', conversationId);
+
+        if (error) {
+            throw new Error(`Failed to update legal hold of conversation ${conversationId}: ${error.message}`);
+        }
+
+        await this.writeAudit({
+            run_id: null,
+            action: hold ? 'legal_hold_set' : 'legal_hold_released',
+            category: null,
+            app_name: appName,
+            conversation_id: conversationId,
+            targets: [],
+            reason,
+        });
+    }
+
+    /**
+     * Purge one app's expired categories, then delete its conversations with nothing left to keep
+     */
+    private async purgeApp(appName: string, now: Date, report: RetentionReport): Promise<void> {
+        const registration = await this.appRegistrationService.getByName(appName);
+        if (registration?.legal_hold) {
+            report.heldApps.push(appName);
+            return;
+        }
+
+        const rules = resolveRetentionRules(registration?.retention);
+        // Conversations purged in this run, with their purge markers as they are after it
+        const purged: Map<string, ConversationRow> = new Map();
+
+        for (const category of RETENTION_CATEGORIES) {
+            const days = rules[category];
+            if (days === null) {
+                continue;
+            }
+
+            const cutoff = new Date(now.getTime() - days * DAY_MS);
+            for (const conversation of await this.findExpired(appName, category, cutoff)) {
+                if (await this.purgeCategory(conversation, category, now, report)) {
+                    const row = purged.get(conversation.id) || conversation;
+                    purged.set(conversation.id, { ...row, [`${category}_purged_at`]: now.toISOString() });
+                }
+            }
+        }
+
+        // Rows only go when every category expires; one kept forever keeps the conversation
+        if (RETENTION_CATEGORIES.some(category => rules[category] === null)) {
+            return;
+        }
+
+        const complete = new Map<string, ConversationRow>();
+        for (const conversation of [...await this.findFullyPurged(appName), ...purged.values()]) {
+            if (RETENTION_CATEGORIES.every(category => conversation[`${category}_purged_at`])) {
+                complete.set(conversation.id, conversation);
+            }
+        }
+        for (const conversation of complete.values()) {
+            await this.deleteConversation(conversation, report);
+        }
+    }
+
+    /**
+     * Purge one category of a conversation; false when it failed and is left for the next run
+     */
+    private async purgeCategory(conversation: ConversationRow, category: RetentionCategory, now: Date, report: RetentionReport): Promise<boolean> {
+        try {
+            const objects: StorageObject[] = [];
+            const targets: string[] = [];
+            let values: Record<string, unknown>;
+            let cleanup: () => Promise<void>;
+
+            if (category === 'audio') {
+                const files = await this.findAudioFiles(conversation.session_id);
+                for (const file of files) {
+                    const separator = file.storage_path?.indexOf('/') ?? -1;
+                    if (file.storage_provider === 'minio' && separator > 0) {
+                        objects.push({ provider: 'minio', bucket: file.storage_path.slice(0, separator), path: file.storage_path.slice(separator + 1) });
+                    }
+                    const archival = parseStorageUrl(file.archival_url);
+                    if (archival) {
+                        objects.push({ provider: 'storage', ...archival });
+                    }
+                }
+                const audio = parseStorageUrl(conversation.audio_url);
+                if (audio) {
+                    objects.push({ provider: 'storage', ...audio });
+                }
+
+                targets.push(`audio_files (${files.length} row(s))`, 'conversations.audio_url', 'sessions.audio_url');
+                values = { audio_url: null };
+                cleanup = async () => {
+                    await this.updateRow('sessions', conversation.session_id, { audio_url: null });
+                    await this.deleteRows('audio_files', 'session_id', conversation.session_id);
+                };
+            } else if (category === 'transcript') {
+                targets.push(
+                    'conversations.transcript',
+                    'conversations.speaker_turns',
+                    'conversations.transcript_translation',
+                    'sessions.transcript',
+                    'transcript_segments',
+                    'conversation_originals'
+                );
+                values = { transcript: null, speaker_turns: null, transcript_translation: null };
+                cleanup = async () => {
+                    await this.updateRow('sessions', conversation.session_id, { transcript: null });
+                    await this.deleteRows('transcript_segments', 'session_id', conversation.session_id);
+                    await this.deleteRows('conversation_originals', 'conversation_id', conversation.id);
+                };
+            } else {
+                const pdf = parseStorageUrl(conversation.pdf_report_url || conversation.pdf_url);
+                if (pdf) {
+                    objects.push({ provider: 'storage', ...pdf });
+                }
+
+                // Older rows carry the report URL in pdf_url, newer ones in pdf_report_url
+                values = { summary: null, summary_data: null };
+                for (const column of ['pdf_url', 'pdf_report_url'] as const) {
+                    if (column in conversation) {
+                        values[column] = null;
+                    }
+                }
+                targets.push(...Object.keys(values).map(column => `conversations.${column}`));
+                cleanup = async () => undefined;
+            }
+
+            const action: RetentionAction = {
+                category,
+                appName: conversation.app_name,
+                conversationId: conversation.id,
+                targets: [...objects.map(object => `${object.provider}:${object.bucket}/${object.path}`), ...targets],
+            };
+            report.actions.push(action);
+            if (report.dryRun) {
+                return true;
+            }
+
+            await this.deleteObjects(objects);
+            await cleanup();
+            await this.updateRow('conversations', conversation.id, { ...values, [`${category}_purged_at`]: now.toISOString() });
+            await this.auditAction(report, action);
+            return true;
+        } catch (error) {
+            logger.error(`Failed to purge ${category} of conversation ${conversation.id}:`, error);
+            report.errors.push(`${conversation.id} (${category}): ${(error as Error).message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Delete a purged conversation with its session; segments, audio rows and originals cascade
+     */
+    private async deleteConversation(conversation: ConversationRow, report: RetentionReport): Promise<void> {
+        const action: RetentionAction = {
+            category: 'conversation',
+            appName: conversation.app_name,
+            conversationId: conversation.id,
+            targets: ['sessions', 'conversations'],
+        };
+        report.actions.push(action);
+        if (report.dryRun) {
+            return;
+        }
+
+        try {
+            await this.deleteRows('sessions', 'id', conversation.session_id);
+            await this.auditAction(report, action);
+        } catch (error) {
+            logger.error(`Failed to delete conversation ${conversation.id}:`, error);
+            report.errors.push(`${conversation.id} (conversation): ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Delete temp objects older than RETENTION_TEMP_HOURS
+     */
+    private async purgeTemp(now: Date, report: RetentionReport): Promise<void> {
+        if (!this.minio) {
+            return;
+        }
+
+        const cutoff = now.getTime() - this.tempHours * 60 * 60 * 1000;
+        const expired = (await this.minio.listFiles(TEMP_BUCKET))
+            .filter(object => object.name && object.lastModified && new Date(object.lastModified).getTime() < cutoff)
+            .slice(0, this.batchSize);
+        if (expired.length === 0) {
+            return;
+        }
+
+        const action: RetentionAction = {
+            category: 'temp',
+            appName: null,
+            conversationId: null,
+            targets: expired.map(object => `minio:${TEMP_BUCKET}/${object.name}`),
+        };
+        report.actions.push(action);
+        if (report.dryRun) {
+            return;
+        }
+
+        await this.deleteObjects(expired.map(object => ({ provider: 'minio', bucket: TEMP_BUCKET, path: object.name })));
+        await this.auditAction(report, action);
+    }
+
+    /**
+     * Names of every registered app
+     */
+    private async listAppNames(): Promise<string[]> {
+        const { data, error } = await this.supabase
+            .from('app_registrations')
+            .select('name');
+
+        if (error) {
+            throw new Error(`Failed to list apps: ${error.message}`);
+        }
+
+        return (data || []).map((row: { name: string }) => row.name);
+    }
+
+    /**
+     * An app's conversations, oldest first, that ended before the cutoff and still hold the category
+     */
+    private async findExpired(appName: string, category: RetentionCategory, cutoff: Date): Promise<ConversationRow[]> {
+        const { data, error } = await this.supabase
+            .from('conversations')
+            .select('*')
+            .eq('app_name', appName)
+            .eq('legal_hold', false)
+            .is(`${category}_purged_at`, null)
+            .lt('end_time', cutoff.toISOString())
+            .order('end_time', { ascending: true })
+            .limit(this.batchSize);
+
+        if (error) {
+            throw new Error(`Failed to find expired ${category} of app ${appName}: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * An app's conversations with every category purged by earlier runs
+     */
+    private async findFullyPurged(appName: string): Promise<ConversationRow[]> {
+        const { data, error } = await this.supabase
+            .from('conversations')
+            .select('*')
+            .eq('app_name', appName)
+            .eq('legal_hold', false)
+            .not('audio_purged_at', 'is', null)
+            .not('transcript_purged_at', 'is', null)
+            .not('report_purged_at', 'is', null)
+            .limit(this.batchSize);
+
+        if (error) {
+            throw new Error(`Failed to find purged conversations of app ${appName}: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * A session's recordings
+     */
+    private async findAudioFiles(sessionId: string): Promise<Array<{ storage_path: string; storage_provider: string | null; archival_url: string | null }>> {
+        const { data, error } = await this.supabase
+            .from('audio_files')
+            .select('storage_path, storage_provider, archival_url')
+            .eq('session_id', sessionId);
+
+        if (error) {
+            throw new Error(`Failed to load audio files of session ${sessionId}: ${error.message}`);
+        }
+
+        return data || [];
+    }
+
+    /**
+     * Delete storage objects; objects that are already gone count as deleted
+     */
+    private async deleteObjects(objects: StorageObject[]): Promise<void> {
+        for (const object of objects) {
+            if (object.provider === 'minio') {
+                if (!this.minio) {
+                    throw new Error(`MinIO is not configured, cannot delete ${object.bucket}/${object.path}`);
+                }
+                await this.minio.deleteFile(object.bucket, object.path);
+                continue;
+            }
+
+            const { error } = await this.supabase.storage.from(object.bucket).remove([object.path]);
+            if (error) {
+                throw new Error(`Failed to delete ${object.bucket}/${object.path}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Delete the rows of a table matching a column value
+     */
+    private async deleteRows(table: string, column: string, value: string): Promise<void> {
+        const { error } = await this.supabase
+            .from(table)
+            .delete()
+            .eq(column, value);
+
+        if (error) {
+            throw new Error(`Failed to delete from ${table}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Update a row by ID
+     */
+    private async updateRow(table: string, id: string, values: Record<string, unknown>): Promise<void> {
+        const { error } = await this.supabase
+            .from(table)
+            .update(values)
+            .eq('id', id);
+
+        if (error) {
+            throw new Error(`Failed to update ${table} ${id}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Audit a purge; the data is already gone, so a failed write is reported instead of thrown
+     */
+    private async auditAction(report: RetentionReport, action: RetentionAction): Promise<void> {
+        try {
+            await this.writeAudit({
+                run_id: report.runId,
+                action: 'purge',
+                category: action.category,
+                app_name: action.appName,
+                conversation_id: action.conversationId,
+                targets: action.targets,
+                reason: null,
+            });
+        } catch (error) {
+            logger.error(`Failed to audit retention run ${report.runId}:`, error);
+            report.errors.push(`audit (${action.conversationId || action.category}): ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Write a retention audit entry
+     */
+    private async writeAudit(entry: Record<string, unknown>): Promise<void> {
+        const { error } = await this.supabase
+            .from('retention_audit_log')
+            .insert(entry);
+
+        if (error) {
+            throw new Error(`Failed to write retention audit entry: ${error.message}`);
+        }
+    }
+}
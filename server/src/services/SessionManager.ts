@@ -1,15 +1,28 @@
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger';
-import { Session, Conversation, SessionStartData } from '../types';
+import { Session, Conversation, RedactedConversation, SessionStartData, TranscriptData, TranscriptSegment } from '../types';
+import { SessionStore, InMemorySessionStore } from '../stores';
+import { buildSpeakerTurns, formatSpeakerTranscript } from '../utils/speakers';
 
 export class SessionManager extends EventEmitter {
+    // Local cache of the sessions this node serves; the store is the source of truth
     private sessions: Map<string, Session> = new Map();
     private conversations: Map<string, Conversation> = new Map();
     private clientSessions: Map<string, string[]> = new Map();
-
-    constructor() {
+    private resumeTimers: Map<string, NodeJS.Timeout> = new Map();
+    private segmentSeqs: Map<string, number> = new Map();
+    private transcriptSegments: Map<string, TranscriptSegment[]> = new Map();
+    private partialRevisions: Map<string, number> = new Map();
+    private store: SessionStore;
+    // The database post-processing reads ended conversations from, when live sessions are kept elsewhere
+    private recordStore: SessionStore | null;
+
+    constructor(store?: SessionStore, recordStore?: SessionStore) {
         super();
+        this.store = store || new InMemorySessionStore();
+        this.recordStore = recordStore || null;
         this.setupEventHandlers();
     }
 
@@ -17,10 +30,10 @@ export class SessionManager extends EventEmitter {
      * Setup event handlers
      */
     private setupEventHandlers(): void {
-        // Clean up expired sessions every 5 minutes
+        // Clean up expired sessions every 5 minutes; unref'd so the timer alone never keeps the process alive
         setInterval(() => {
             this.cleanupExpiredSessions();
-        }, 5 * 60 * 1000);
+        }, 5 * 60 * 1000).unref();
     }
 
     /**
@@ -29,7 +42,7 @@ export class SessionManager extends EventEmitter {
     async startSession(data: SessionStartData): Promise<Session> {
         try {
             const session: Session = {
-                id: uuidv4(),
+                id: data.id || uuidv4(),
                 officer_email: data.officer_email,
                 app_name: data.app_name,
                 language: data.language || 'en',
@@ -37,14 +50,16 @@ export class SessionManager extends EventEmitter {
                 start_time: new Date(),
                 status: 'active',
             };
+            if (data.conversation_type) {
+                session.conversation_type = data.conversation_type;
+            }
+            if (data.trace_context) {
+                session.trace_context = data.trace_context;
+            }
 
+            await this.store.saveSession(session);
             this.sessions.set(session.id, session);
-
-            // Track client sessions
-            if (!this.clientSessions.has(data.client_id)) {
-                this.clientSessions.set(data.client_id, []);
-            }
-            this.clientSessions.get(data.client_id)!.push(session.id);
+            this.trackClientSession(data.client_id, session.id);
 
             logger.info(`Session started: ${session.id} for ${data.officer_email}`);
             this.emit('sessionStarted', session);
@@ -61,15 +76,21 @@ export class SessionManager extends EventEmitter {
      */
     async endSession(sessionId: string): Promise<Conversation> {
         try {
-            const session = this.sessions.get(sessionId);
+            const session = await this.getSession(sessionId);
             if (!session) {
                 throw new Error(`Session ${sessionId} not found`);
             }
+            // Checked and marked ended before the next await, so a concurrent second call is rejected too
+            if (session.status !== 'active') {
+                throw new Error(`Session ${sessionId} has already ended`);
+            }
 
             // Update session
             session.end_time = new Date();
             session.status = 'ended';
-            this.sessions.set(sessionId, session);
+            delete session.resume_token_hash;
+            delete session.disconnected_at;
+            this.clearResumeTimer(sessionId);
 
             // Create conversation record
             const conversation: Conversation = {
@@ -81,6 +102,7 @@ export class SessionManager extends EventEmitter {
                 end_time: session.end_time!,
                 duration: Math.floor((session.end_time!.getTime() - session.start_time.getTime()) / 1000),
                 language: session.language,
+                conversation_type: session.conversation_type,
                 status: 'processing',
                 transcript: session.transcript,
                 audio_url: session.audio_url,
@@ -88,20 +110,29 @@ export class SessionManager extends EventEmitter {
                 updated_at: new Date(),
             };
 
-            this.conversations.set(conversation.id, conversation);
-
-            // Remove from client sessions
-            const clientSessions = this.clientSessions.get(session.client_id);
-            if (clientSessions) {
-                const index = clientSessions.indexOf(sessionId);
-                if (index > -1) {
-                    clientSessions.splice(index, 1);
-                }
-                if (clientSessions.length === 0) {
-                    this.clientSessions.delete(session.client_id);
-                }
+            // Stamp the session's segments with the conversation and save them in one go
+            const segments = await this.collectTranscriptSegments(sessionId);
+            segments.forEach(segment => {
+                segment.conversation_id = conversation.id;
+            });
+            await this.store.saveTranscriptSegments(sessionId, segments);
+            this.clearTranscriptState(sessionId);
+
+            // Attribute the transcript to speakers when diarization labelled any segment
+            if (segments.some(segment => segment.speaker)) {
+                conversation.speaker_turns = buildSpeakerTurns(segments);
+                conversation.transcript = formatSpeakerTranscript(conversation.speaker_turns);
             }
 
+            session.conversation_id = conversation.id;
+            await this.store.saveSession(session);
+            await this.store.saveConversation(conversation);
+            await this.saveRecord(session, conversation, segments);
+
+            this.sessions.set(sessionId, session);
+            this.conversations.set(conversation.id, conversation);
+            this.untrackClientSession(session.client_id, sessionId);
+
             logger.info(`Session ended: ${sessionId}, conversation created: ${conversation.id}`);
             this.emit('sessionEnded', session);
             this.emit('conversationCreated', conversation);
@@ -114,10 +145,128 @@ export class SessionManager extends EventEmitter {
     }
 
     /**
-     * Get session by ID
+     * Get session by ID, falling back to the store for sessions not cached on this node
+     */
+    async getSession(sessionId: string): Promise<Session | null> {
+        const cached = this.sessions.get(sessionId);
+        if (cached) {
+            return cached;
+        }
+
+        const session = await this.store.getSession(sessionId);
+        if (session) {
+            this.sessions.set(session.id, session);
+        }
+        return session;
+    }
+
+    /**
+     * Load active sessions from the store after a restart. Their clients were connected to the old process,
+     * so each session gets the rest of its resume window and is ended if no client resumes it in time.
+     * Sessions another live node is serving are left to that node.
+     */
+    async rehydrate(graceMs: number, isOwnedElsewhere?: (sessionId: string) => Promise<boolean>): Promise<Session[]> {
+        try {
+            const sessions: Session[] = [];
+            for (const session of await this.store.listSessions({ status: 'active' })) {
+                if (isOwnedElsewhere && await isOwnedElsewhere(session.id)) {
+                    continue;
+                }
+                sessions.push(session);
+            }
+
+            for (const session of sessions) {
+                // A client that dropped before the restart keeps the window it had left
+                const elapsed = session.disconnected_at ? Date.now() - session.disconnected_at.getTime() : 0;
+                this.sessions.set(session.id, session);
+                this.trackClientSession(session.client_id, session.id);
+                this.suspendSession(session.id, Math.max(graceMs - elapsed, 0));
+            }
+
+            logger.info(`Rehydrated ${sessions.length} active sessions from ${this.store.type} store`);
+            this.emit('sessionsRehydrated', sessions);
+
+            return sessions;
+        } catch (error) {
+            logger.error('Error rehydrating sessions:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Issue a new resume token for a session, replacing any previous one
+     */
+    async issueResumeToken(sessionId: string): Promise<string> {
+        const session = await this.getSession(sessionId);
+        if (!session) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        session.resume_token_hash = this.hashResumeToken(token);
+        await this.store.saveSession(session);
+        this.sessions.set(sessionId, session);
+
+        return token;
+    }
+
+    /**
+     * Mark a session's client as gone and end the session if it is not resumed within the grace window
+     */
+    suspendSession(sessionId: string, graceMs: number): boolean {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.status !== 'active') {
+            return false;
+        }
+
+        session.disconnected_at = new Date();
+        this.untrackClientSession(session.client_id, sessionId);
+        this.persistSession(session);
+
+        this.clearResumeTimer(sessionId);
+        this.resumeTimers.set(sessionId, setTimeout(() => {
+            this.resumeTimers.delete(sessionId);
+            this.expireResumeWindow(sessionId).catch(error => {
+                logger.error(`Error expiring resume window for session ${sessionId}:`, error);
+            });
+        }, graceMs));
+
+        logger.info(`Session suspended: ${sessionId}, resumable for ${graceMs}ms`);
+        this.emit('sessionSuspended', session);
+
+        return true;
+    }
+
+    /**
+     * Resume an active session from a new client connection
      */
-    getSession(sessionId: string): Session | null {
-        return this.sessions.get(sessionId) || null;
+    async resumeSession(sessionId: string, clientId: string, resumeToken: string): Promise<Session> {
+        // Read through to the store, the session may have been resumed on another node
+        const session = (await this.store.getSession(sessionId)) || this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Session ${sessionId} not found`);
+        }
+        if (session.status !== 'active') {
+            throw new Error(`Session ${sessionId} is not active`);
+        }
+        if (!this.verifyResumeToken(session, resumeToken)) {
+            throw new Error(`Invalid resume token for session ${sessionId}`);
+        }
+
+        const previousClientId = session.client_id;
+        this.untrackClientSession(previousClientId, sessionId);
+        this.clearResumeTimer(sessionId);
+
+        session.client_id = clientId;
+        delete session.disconnected_at;
+        await this.store.saveSession(session);
+        this.sessions.set(sessionId, session);
+        this.trackClientSession(clientId, sessionId);
+
+        logger.info(`Session resumed: ${sessionId} by client ${clientId} (was ${previousClientId})`);
+        this.emit('sessionResumed', { session, previousClientId });
+
+        return session;
     }
 
     /**
@@ -192,7 +341,7 @@ export class SessionManager extends EventEmitter {
         }
 
         session.transcript = transcript;
-        this.sessions.set(sessionId, session);
+        this.persistSession(session);
         
         logger.debug(`Updated transcript for session: ${sessionId}`);
         this.emit('transcriptUpdated', { sessionId, transcript });
@@ -200,6 +349,114 @@ export class SessionManager extends EventEmitter {
         return true;
     }
 
+    /**
+     * Load the last segment sequence number before this node starts producing segments
+     */
+    async prepareTranscript(sessionId: string): Promise<void> {
+        if (this.segmentSeqs.has(sessionId)) {
+            return;
+        }
+
+        const segments = await this.store.getTranscriptSegments(sessionId);
+        const lastSeq = segments.reduce((max, segment) => Math.max(max, segment.seq), 0);
+        this.segmentSeqs.set(sessionId, lastSeq);
+    }
+
+    /**
+     * Count a partial hypothesis towards the revision of the next final segment
+     */
+    recordPartial(sessionId: string): void {
+        if (!this.sessions.has(sessionId)) {
+            return;
+        }
+        this.partialRevisions.set(sessionId, (this.partialRevisions.get(sessionId) || 0) + 1);
+    }
+
+    /**
+     * Record a final transcript segment and append it to the session transcript
+     */
+    addFinalSegment(sessionId: string, data: TranscriptData): TranscriptSegment | null {
+        if (!this.sessions.has(sessionId) || !data.transcript.trim()) {
+            return null;
+        }
+
+        const seq = (this.segmentSeqs.get(sessionId) || 0) + 1;
+        this.segmentSeqs.set(sessionId, seq);
+
+        const segment: TranscriptSegment = {
+            session_id: sessionId,
+            seq,
+            transcript: data.transcript.trim(),
+            confidence: data.confidence,
+            words: data.words || [],
+            revision: (this.partialRevisions.get(sessionId) || 0) + 1,
+            created_at: new Date(),
+        };
+        this.partialRevisions.delete(sessionId);
+        if (data.startTime !== undefined) {
+            segment.start_time = data.startTime;
+        }
+        if (data.endTime !== undefined) {
+            segment.end_time = data.endTime;
+        }
+        if (data.speaker) {
+            segment.speaker = data.speaker;
+        }
+
+        const segments = this.transcriptSegments.get(sessionId) || [];
+        segments.push(segment);
+        this.transcriptSegments.set(sessionId, segments);
+
+        this.store.saveTranscriptSegment(segment).catch(error => {
+            logger.error(`Failed to persist transcript segment ${sessionId}#${seq}:`, error);
+        });
+        this.appendSessionTranscript(sessionId, segment.transcript);
+
+        return segment;
+    }
+
+    /**
+     * Get a session's transcript segments, merging this node's segments over the stored ones
+     */
+    async collectTranscriptSegments(sessionId: string): Promise<TranscriptSegment[]> {
+        const bySeq = new Map<number, TranscriptSegment>();
+        (await this.store.getTranscriptSegments(sessionId)).forEach(segment => bySeq.set(segment.seq, segment));
+        (this.transcriptSegments.get(sessionId) || []).forEach(segment => bySeq.set(segment.seq, { ...segment }));
+
+        return Array.from(bySeq.values()).sort((a, b) => a.seq - b.seq);
+    }
+
+    /**
+     * Get the transcript segments saved for a conversation
+     */
+    async getConversationSegments(conversationId: string): Promise<TranscriptSegment[] | null> {
+        const conversation = await this.findConversation(conversationId);
+        if (!conversation) {
+            return null;
+        }
+        return this.collectTranscriptSegments(conversation.session_id);
+    }
+
+    /**
+     * Get the final transcript segments a client missed
+     */
+    async getMissedSegments(sessionId: string, afterSeq: number): Promise<TranscriptSegment[]> {
+        return this.store.getTranscriptSegments(sessionId, afterSeq);
+    }
+
+    /**
+     * Append a final transcript segment to the session transcript
+     */
+    appendSessionTranscript(sessionId: string, text: string): boolean {
+        const session = this.sessions.get(sessionId);
+        if (!session || !text.trim()) {
+            return false;
+        }
+
+        const transcript = session.transcript ? `${session.transcript} ${text.trim()}` : text.trim();
+        return this.updateSessionTranscript(sessionId, transcript);
+    }
+
     /**
      * Update session audio URL
      */
@@ -210,7 +467,7 @@ export class SessionManager extends EventEmitter {
         }
 
         session.audio_url = audioUrl;
-        this.sessions.set(sessionId, session);
+        this.persistSession(session);
         
         logger.debug(`Updated audio URL for session: ${sessionId}`);
         this.emit('audioUrlUpdated', { sessionId, audioUrl });
@@ -229,7 +486,7 @@ export class SessionManager extends EventEmitter {
 
         conversation.status = status;
         conversation.updated_at = new Date();
-        this.conversations.set(conversationId, conversation);
+        this.persistConversation(conversation);
         
         logger.debug(`Updated conversation status: ${conversationId} -> ${status}`);
         this.emit('conversationStatusUpdated', { conversationId, status });
@@ -237,6 +494,80 @@ export class SessionManager extends EventEmitter {
         return true;
     }
 
+    /**
+     * Get a conversation from the local cache or, if it was created on another node, the store
+     */
+    async findConversation(conversationId: string): Promise<Conversation | null> {
+        return this.conversations.get(conversationId) || await this.store.getConversation(conversationId);
+    }
+
+    /**
+     * Attach a finalized recording to a session and its conversation
+     */
+    async attachRecording(sessionId: string, audioUrl: string): Promise<Conversation | null> {
+        const session = await this.getSession(sessionId);
+        if (!session) {
+            return null;
+        }
+
+        session.audio_url = audioUrl;
+        await this.store.saveSession(session);
+
+        const conversation = session.conversation_id ? await this.findConversation(session.conversation_id) : null;
+        if (!conversation) {
+            return null;
+        }
+
+        conversation.audio_url = audioUrl;
+        conversation.updated_at = new Date();
+        await this.store.saveConversation(conversation);
+        this.conversations.set(conversation.id, conversation);
+        await this.saveRecord(session, conversation);
+
+        logger.debug(`Attached recording to session ${sessionId} and conversation ${conversation.id}`);
+        this.emit('audioUrlUpdated', { sessionId, audioUrl });
+
+        return conversation;
+    }
+
+    /**
+     * Overwrite the transcripts this node and the store keep for a conversation with their redacted text
+     */
+    async applyRedaction(redacted: RedactedConversation): Promise<void> {
+        const conversation = await this.findConversation(redacted.conversation_id);
+        if (conversation) {
+            conversation.transcript = redacted.transcript;
+            if (redacted.speaker_turns) {
+                conversation.speaker_turns = redacted.speaker_turns;
+            }
+            conversation.updated_at = new Date();
+            await this.store.saveConversation(conversation);
+            this.conversations.set(conversation.id, conversation);
+        }
+
+        const session = await this.getSession(redacted.session_id);
+        if (session && redacted.session_transcript !== null) {
+            session.transcript = redacted.session_transcript;
+            await this.store.saveSession(session);
+        }
+
+        if (redacted.segments.length > 0) {
+            const texts = new Map(redacted.segments.map(segment => [segment.seq, segment.transcript]));
+            const segments = await this.store.getTranscriptSegments(redacted.session_id);
+            segments.forEach(segment => {
+                const text = texts.get(segment.seq);
+                // Word timings carry the same words, so they are dropped as the redaction stage does
+                if (text !== undefined) {
+                    segment.transcript = text;
+                    segment.words = [];
+                }
+            });
+            await this.store.saveTranscriptSegments(redacted.session_id, segments);
+        }
+
+        logger.debug(`Applied redaction to session ${redacted.session_id} and conversation ${redacted.conversation_id}`);
+    }
+
     /**
      * Update conversation with processing results
      */
@@ -248,7 +579,7 @@ export class SessionManager extends EventEmitter {
 
         Object.assign(conversation, results);
         conversation.updated_at = new Date();
-        this.conversations.set(conversationId, conversation);
+        this.persistConversation(conversation);
         
         logger.debug(`Updated conversation results: ${conversationId}`);
         this.emit('conversationResultsUpdated', { conversationId, results });
@@ -310,9 +641,15 @@ export class SessionManager extends EventEmitter {
             }
         }
 
-        // Remove expired sessions
+        // Remove expired sessions from the local cache. Redis expires them on its own and
+        // Postgres keeps them as the session history, so only the in-memory store is pruned.
         expiredSessions.forEach(sessionId => {
             this.sessions.delete(sessionId);
+            if (this.store.type === 'memory') {
+                this.store.deleteSession(sessionId).catch(error => {
+                    logger.warn(`Failed to delete expired session ${sessionId} from store:`, error);
+                });
+            }
             logger.debug(`Cleaned up expired session: ${sessionId}`);
         });
 
@@ -321,6 +658,122 @@ export class SessionManager extends EventEmitter {
         }
     }
 
+    /**
+     * Track a session against the client that owns it
+     */
+    private trackClientSession(clientId: string, sessionId: string): void {
+        const sessionIds = this.clientSessions.get(clientId) || [];
+        if (!sessionIds.includes(sessionId)) {
+            sessionIds.push(sessionId);
+        }
+        this.clientSessions.set(clientId, sessionIds);
+    }
+
+    /**
+     * Stop tracking a session against a client
+     */
+    private untrackClientSession(clientId: string, sessionId: string): void {
+        const sessionIds = this.clientSessions.get(clientId);
+        if (!sessionIds) {
+            return;
+        }
+
+        const index = sessionIds.indexOf(sessionId);
+        if (index > -1) {
+            sessionIds.splice(index, 1);
+        }
+        if (sessionIds.length === 0) {
+            this.clientSessions.delete(clientId);
+        }
+    }
+
+    /**
+     * End the session if its client has not come back in time
+     */
+    private async expireResumeWindow(sessionId: string): Promise<void> {
+        const latest = await this.store.getSession(sessionId);
+        if (!latest || latest.status !== 'active' || !latest.disconnected_at) {
+            return;
+        }
+
+        logger.info(`Resume window expired for session ${sessionId}`);
+        this.emit('resumeWindowExpired', latest);
+    }
+
+    /**
+     * Forget the transcript state this node kept for a session
+     */
+    private clearTranscriptState(sessionId: string): void {
+        this.segmentSeqs.delete(sessionId);
+        this.transcriptSegments.delete(sessionId);
+        this.partialRevisions.delete(sessionId);
+    }
+
+    /**
+     * Cancel a pending resume window
+     */
+    private clearResumeTimer(sessionId: string): void {
+        const timer = this.resumeTimers.get(sessionId);
+        if (timer) {
+            clearTimeout(timer);
+            this.resumeTimers.delete(sessionId);
+        }
+    }
+
+    /**
+     * Hash a resume token for storage
+     */
+    private hashResumeToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    /**
+     * Check a resume token against the session's stored hash
+     */
+    private verifyResumeToken(session: Session, token: string): boolean {
+        if (!session.resume_token_hash || !token) {
+            return false;
+        }
+
+        const expected = Buffer.from(session.resume_token_hash, 'hex');
+        const actual = Buffer.from(this.hashResumeToken(token), 'hex');
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Copy an ended session and its conversation to the record store, if there is one
+     */
+    private async saveRecord(session: Session, conversation: Conversation, segments?: TranscriptSegment[]): Promise<void> {
+        if (!this.recordStore) {
+            return;
+        }
+        await this.recordStore.saveSession(session);
+        await this.recordStore.saveConversation(conversation);
+        if (segments) {
+            await this.recordStore.saveTranscriptSegments(session.id, segments);
+        }
+    }
+
+    /**
+     * Write a session update through to the store
+     */
+    private persistSession(session: Session): void {
+        this.sessions.set(session.id, session);
+        this.store.saveSession(session).catch(error => {
+            logger.error(`Failed to persist session ${session.id}:`, error);
+        });
+    }
+
+    /**
+     * Write a conversation update through to the store
+     */
+    private persistConversation(conversation: Conversation): void {
+        this.conversations.set(conversation.id, conversation);
+        this.store.saveConversation(conversation).catch(error => {
+            logger.error(`Failed to persist conversation ${conversation.id}:`, error);
+        });
+    }
+
     /**
      * Get service status
      */
@@ -328,16 +781,27 @@ export class SessionManager extends EventEmitter {
         sessions: number;
         conversations: number;
         activeClients: number;
+        store: string;
         uptime: number;
     } {
         return {
             sessions: this.sessions.size,
             conversations: this.conversations.size,
             activeClients: this.clientSessions.size,
+            store: this.store.type,
             uptime: process.uptime(),
         };
     }
 
+    /**
+     * Close the underlying session store
+     */
+    async close(): Promise<void> {
+        this.resumeTimers.forEach(timer => clearTimeout(timer));
+        this.resumeTimers.clear();
+        await this.store.close();
+    }
+
     /**
      * Clear all data (for testing)
      */
@@ -345,6 +809,11 @@ export class SessionManager extends EventEmitter {
         this.sessions.clear();
         this.conversations.clear();
         this.clientSessions.clear();
+        this.resumeTimers.forEach(timer => clearTimeout(timer));
+        this.resumeTimers.clear();
+        this.segmentSeqs.clear();
+        this.transcriptSegments.clear();
+        this.partialRevisions.clear();
         logger.info('SessionManager cleared');
     }
 }
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppRegistration, SessionTokenScope } from '../types';
+import { AppRegistrationService } from './AppRegistrationService';
+
+const TOKEN_ISSUER = 'voice-chat-server';
+const TOKEN_AUDIENCE = 'voice-chat-widget';
+const MIN_TTL_SECONDS = 60;
+
+export type SessionTokenFailure = 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'TOKEN_REVOKED' | 'APP_INACTIVE';
+
+export type SessionTokenResult =
+    | { ok: true; registration: AppRegistration; scope: SessionTokenScope }
+    | { ok: false; code: SessionTokenFailure };
+
+export interface SessionTokenRequest {
+    officerEmail: string;
+    // Languages the holder may start sessions in; empty allows any
+    languages?: string[];
+    ttlSeconds?: number;
+}
+
+export interface MintedSessionToken {
+    token: string;
+    expiresAt: string;
+    expiresIn: number;
+}
+
+interface SessionTokenClaims {
+    sub: string;
+    app: string;
+    langs: string[];
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Mints and verifies the short-lived JWTs browsers present instead of an app's API key.
+ *
+ * A token is bound to one app, one officer and a set of languages. Revoking an
+ * app's tokens rejects everything minted before the revocation time.
+ */
+export class SessionTokenService {
+    private appRegistrationService: AppRegistrationService;
+    private readonly secret: string | null;
+    private readonly defaultTtlSeconds: number;
+    private readonly maxTtlSeconds: number;
+
+    constructor(appRegistrationService: AppRegistrationService, secret?: string) {
+        this.appRegistrationService = appRegistrationService;
+
+        // Without a secret the server only accepts API keys
+        this.secret = secret || process.env['JWT_SECRET'] || null;
+
+        this.maxTtlSeconds = parseInt(process.env['SESSION_TOKEN_MAX_TTL'] || '3600');
+        this.defaultTtlSeconds = Math.min(parseInt(process.env['SESSION_TOKEN_TTL'] || '900'), this.maxTtlSeconds);
+    }
+
+    /**
+     * Check whether session tokens can be minted and verified
+     */
+    isEnabled(): boolean {
+        return this.secret !== null;
+    }
+
+    /**
+     * Mint a token for an officer of an app, clamping the lifetime to the configured maximum
+     */
+    mint(registration: AppRegistration, request: SessionTokenRequest): MintedSessionToken {
+        if (!this.secret) {
+            throw new Error('Session tokens are not configured: JWT_SECRET missing');
+        }
+
+        const expiresIn = Math.min(Math.max(request.ttlSeconds || this.defaultTtlSeconds, MIN_TTL_SECONDS), this.maxTtlSeconds);
+
+        const token = jwt.sign(
+            { app: registration.name, langs: request.languages || [] },
+            this.secret,
+            {
+                algorithm: 'HS256',
+                subject: request.officerEmail,
+                issuer: TOKEN_ISSUER,
+                audience: TOKEN_AUDIENCE,
+                expiresIn,
+                jwtid: crypto.randomUUID(),
+            }
+        );
+
+        return {
+            token,
+            expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+            expiresIn,
+        };
+    }
+
+    /**
+     * Verify a token's signature and lifetime, and that its app is active and has not revoked it
+     */
+    async verify(token: string | undefined): Promise<SessionTokenResult> {
+        if (!token || !this.secret) {
+            return { ok: false, code: 'INVALID_TOKEN' };
+        }
+
+        let claims: SessionTokenClaims;
+        try {
+            claims = jwt.verify(token, this.secret, {
+                algorithms: ['HS256'],
+                issuer: TOKEN_ISSUER,
+                audience: TOKEN_AUDIENCE,
+            }) as SessionTokenClaims;
+        } catch (error) {
+            return { ok: false, code: error instanceof jwt.TokenExpiredError ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN' };
+        }
+
+        const registration = await this.appRegistrationService.getByName(claims.app);
+        if (!registration) {
+            return { ok: false, code: 'INVALID_TOKEN' };
+        }
+        if (registration.status !== 'active') {
+            return { ok: false, code: 'APP_INACTIVE' };
+        }
+
+        // iat has second precision, so a token minted in the same second as a revocation is rejected too
+        if (registration.tokens_revoked_at && claims.iat * 1000 <= Date.parse(registration.tokens_revoked_at)) {
+            return { ok: false, code: 'TOKEN_REVOKED' };
+        }
+
+        return {
+            ok: true,
+            registration,
+            scope: {
+                officerEmail: claims.sub,
+                languages: claims.langs || [],
+                expiresAt: claims.exp * 1000,
+            },
+        };
+    }
+}
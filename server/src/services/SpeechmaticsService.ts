@@ -1,7 +1,14 @@
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
 import { logger } from '../utils/logger';
-import { SpeechmaticsConfig, TranscriptData, AudioChunk } from '../types';
+import { SpeechmaticsConfig, TranscriptData, TranscriptWord, AudioChunk } from '../types';
+import { TranscriptionProvider } from './TranscriptionProvider';
+import { getByteRate } from '../utils/wav';
+import { metrics } from './MetricsService';
+import { withSpan } from '../utils/tracing';
+
+// Arrival times kept for timing final transcripts; enough for a minute of 100ms chunks
+const MAX_AUDIO_ARRIVALS = 600;
 
 // Speechmatics WebSocket message types based on official documentation
 interface StartRecognitionMessage {
@@ -53,8 +60,23 @@ interface AudioAddedMessage {
     seq_no: number;
 }
 
+// A recognised word or punctuation mark; the speaker label is set when diarization is on
+interface RecognitionResult {
+    type: 'word' | 'punctuation';
+    start_time: number;
+    end_time: number;
+    attaches_to?: 'previous' | 'next' | 'both' | 'none';
+    alternatives: Array<{
+        content: string;
+        confidence: number;
+        language?: string;
+        speaker?: string;
+    }>;
+}
+
 interface AddTranscriptMessage {
     message: 'AddTranscript';
+    results?: RecognitionResult[];
     transcript: {
         alternatives: Array<{
             content: string;
@@ -71,6 +93,7 @@ interface AddTranscriptMessage {
 
 interface AddPartialTranscriptMessage {
     message: 'AddPartialTranscript';
+    results?: RecognitionResult[];
     transcript: {
         alternatives: Array<{
             content: string;
@@ -105,7 +128,22 @@ interface InfoMessage {
     seq_no?: number;
 }
 
-export class SpeechmaticsService extends EventEmitter {
+// Audio kept until Speechmatics acknowledges it, so it can be replayed into a new recognition
+interface RetainedAudio {
+    data: Buffer;
+    duration: number;
+    // Sequence number in the current recognition; null until sent
+    seqNo: number | null;
+}
+
+// When the audio up to a point in the session's timeline reached this node
+interface AudioArrival {
+    endTime: number;
+    receivedAt: number;
+}
+
+export class SpeechmaticsService extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'speechmatics' as const;
     private config: SpeechmaticsConfig;
     private sessionId: string;
     private ws: WebSocket | null = null;
@@ -114,16 +152,33 @@ export class SpeechmaticsService extends EventEmitter {
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private isReconnecting = false;
     private heartbeatInterval: NodeJS.Timeout | null = null;
     private lastHeartbeat = 0;
     private audioSequenceNumber = 0;
     private recognitionId: string | null = null;
     private isRecognitionStarted = false;
+    // Bytes handed to the socket but not yet written out; past the limit the provider reports not ready
+    private pendingSendBytes = 0;
+    private readonly maxPendingSendBytes: number;
+    private retainedAudio: RetainedAudio[] = [];
+    private retainedBytes = 0;
+    private readonly maxRetainedBytes: number;
+    private readonly byteRate: number;
+    // Seconds of audio before the current recognition's first chunk; added to its transcript timings
+    private acknowledgedSeconds = 0;
+    private timeOffset = 0;
+    private receivedSeconds = 0;
+    private audioArrivals: AudioArrival[] = [];
 
     constructor(config: SpeechmaticsConfig, sessionId: string) {
         super();
         this.config = config;
         this.sessionId = sessionId;
+        this.maxPendingSendBytes = parseInt(process.env['SPEECHMATICS_MAX_PENDING_BYTES'] || '256000');
+        this.maxRetainedBytes = parseInt(process.env['SPEECHMATICS_MAX_RETAINED_BYTES'] || '1920000');
+        this.byteRate = getByteRate({ sampleRate: config.sampleRate, channels: 1, encoding: config.encoding });
     }
 
     /**
@@ -153,6 +208,8 @@ export class SpeechmaticsService extends EventEmitter {
                 },
             });
 
+            this.pendingSendBytes = 0;
+
             // Set up event handlers
             this.setupWebSocketHandlers();
 
@@ -198,11 +255,20 @@ export class SpeechmaticsService extends EventEmitter {
      * Disconnect from Speechmatics
      */
     disconnect(): void {
-        if (!this.isConnected) {
+        if (!this.isConnected && !this.isReconnecting) {
             return;
         }
 
         this.isConnected = false;
+        this.isRecognitionStarted = false;
+        this.isReconnecting = false;
+        this.clearRetainedAudio();
+        this.audioArrivals = [];
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
 
         // Stop heartbeat
         if (this.heartbeatInterval) {
@@ -220,32 +286,96 @@ export class SpeechmaticsService extends EventEmitter {
         this.emit('disconnected');
     }
 
+    /**
+     * Check whether recognition is running and the socket is keeping up with the audio
+     */
+    isReady(): boolean {
+        return this.isConnected && !!this.ws && this.isRecognitionStarted && this.pendingSendBytes < this.maxPendingSendBytes;
+    }
+
     /**
      * Send audio data to Speechmatics
      */
     sendAudio(audioChunk: AudioChunk): void {
         if (!this.isConnected || !this.ws || !this.isRecognitionStarted) {
+            // Keep audio that arrives mid-reconnect for the next recognition
+            if (this.isReconnecting) {
+                this.retainAudio(this.convertAudioData(audioChunk));
+                return;
+            }
             logger.warn('Cannot send audio: not connected to Speechmatics or recognition not started');
             return;
         }
 
         try {
-            // Increment sequence number for this audio chunk
-            this.audioSequenceNumber++;
-
             // Convert audio data to the expected format
-            const audioData = this.convertAudioData(audioChunk);
-
-            // Send as binary data (AddAudio message)
-            this.ws.send(audioData);
-
-            logger.debug(`Sent audio chunk to Speechmatics: ${audioData.length} bytes, seq: ${this.audioSequenceNumber}`);
+            this.transmitAudio(this.retainAudio(this.convertAudioData(audioChunk)));
         } catch (error) {
             logger.error('Error sending audio to Speechmatics:', error);
             this.emit('error', error);
         }
     }
 
+    /**
+     * Send retained audio as the next chunk of the current recognition
+     */
+    private transmitAudio(entry: RetainedAudio): void {
+        if (!this.ws) {
+            return;
+        }
+
+        // Increment sequence number for this audio chunk
+        this.audioSequenceNumber++;
+        entry.seqNo = this.audioSequenceNumber;
+
+        // Send as binary data (AddAudio message), tracking what the socket has yet to write
+        const ws = this.ws;
+        const audioData = entry.data;
+        this.pendingSendBytes += audioData.length;
+        ws.send(audioData, () => {
+            if (ws !== this.ws) {
+                return;
+            }
+            const wasCongested = this.pendingSendBytes >= this.maxPendingSendBytes;
+            this.pendingSendBytes -= audioData.length;
+            if (wasCongested && this.isReady()) {
+                this.emit('ready');
+            }
+        });
+
+        logger.debug(`Sent audio chunk to Speechmatics: ${audioData.length} bytes, seq: ${this.audioSequenceNumber}`);
+    }
+
+    /**
+     * Hold audio until it is acknowledged, dropping the oldest beyond the retention limit
+     */
+    private retainAudio(data: Buffer): RetainedAudio {
+        const entry: RetainedAudio = { data, duration: data.length / this.byteRate, seqNo: null };
+        this.retainedAudio.push(entry);
+        this.retainedBytes += data.length;
+
+        this.receivedSeconds += entry.duration;
+        this.audioArrivals.push({ endTime: this.receivedSeconds, receivedAt: Date.now() });
+        if (this.audioArrivals.length > MAX_AUDIO_ARRIVALS) {
+            this.audioArrivals.shift();
+        }
+
+        while (this.retainedBytes > this.maxRetainedBytes && this.retainedAudio.length > 1) {
+            const dropped = this.retainedAudio.shift()!;
+            this.retainedBytes -= dropped.data.length;
+            // Dropped audio still advances the timeline, leaving a gap rather than shifting later words
+            this.acknowledgedSeconds += dropped.duration;
+            logger.warn(`Dropped ${dropped.data.length} bytes of unacknowledged audio for session ${this.sessionId}`);
+        }
+
+        return entry;
+    }
+
+    private clearRetainedAudio(): void {
+        this.retainedAudio = [];
+        this.retainedBytes = 0;
+    }
+
     /**
      * Send end of stream signal
      */
@@ -295,14 +425,26 @@ export class SpeechmaticsService extends EventEmitter {
             this.emit('error', error);
         });
 
+        const ws = this.ws;
         this.ws.on('close', (code, reason) => {
             logger.warn(`Speechmatics WebSocket closed: ${code} ${reason}`);
+
+            // disconnect() already tore this socket down; it must not trigger a reconnect
+            if (ws !== this.ws) {
+                return;
+            }
+
             this.isConnected = false;
+            this.isRecognitionStarted = false;
             this.emit('disconnected');
 
             // Attempt to reconnect if not intentionally closed
             if (code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
+                this.isReconnecting = true;
                 this.attemptReconnect();
+            } else {
+                this.isReconnecting = false;
+                this.clearRetainedAudio();
             }
         });
 
@@ -362,15 +504,35 @@ export class SpeechmaticsService extends EventEmitter {
     private handleRecognitionStarted(message: RecognitionStartedMessage): void {
         this.recognitionId = message.id;
         this.isRecognitionStarted = true;
-        logger.info('Speechmatics recognition started', { id: message.id });
+        this.isReconnecting = false;
+
+        // A new recognition numbers its audio from 1 and times it from 0
+        this.audioSequenceNumber = 0;
+        this.timeOffset = this.acknowledgedSeconds;
+        logger.info('Speechmatics recognition started', { id: message.id, time_offset: this.timeOffset });
+
+        // Replay what the previous recognition never acknowledged before any new audio
+        if (this.retainedAudio.length > 0) {
+            logger.info(`Replaying ${this.retainedAudio.length} unacknowledged audio chunks for session ${this.sessionId}`);
+            this.retainedAudio.forEach(entry => this.transmitAudio(entry));
+        }
+
         this.emit('recognitionStarted', message);
+        this.emit('ready');
     }
 
     /**
-     * Handle audio added confirmation
+     * Handle audio added confirmation, releasing the audio it covers
      */
     private handleAudioAdded(message: AudioAddedMessage): void {
         logger.debug('Audio chunk confirmed by Speechmatics', { seq_no: message.seq_no });
+
+        while (this.retainedAudio[0] && this.retainedAudio[0].seqNo !== null && this.retainedAudio[0].seqNo <= message.seq_no) {
+            const acknowledged = this.retainedAudio.shift()!;
+            this.retainedBytes -= acknowledged.data.length;
+            this.acknowledgedSeconds += acknowledged.duration;
+        }
+
         this.emit('audioAdded', message);
     }
 
@@ -378,34 +540,114 @@ export class SpeechmaticsService extends EventEmitter {
      * Handle final transcript
      */
     private handleTranscript(message: AddTranscriptMessage): void {
-        const transcriptData: TranscriptData = {
-            transcript: message.transcript.alternatives[0]?.content || '',
-            confidence: message.transcript.alternatives[0]?.confidence || 0,
-            isPartial: false,
-            timestamp: Date.now(),
-            startTime: message.transcript.start_time,
-            endTime: message.transcript.end_time,
-        };
+        // With diarization on, a single message can span several speakers; emit one transcript per turn
+        for (const transcriptData of this.buildTranscripts(message, false)) {
+            logger.debug(`Final transcript${transcriptData.speaker ? ` [${transcriptData.speaker}]` : ''}: ${transcriptData.transcript}`);
+            this.emit('finalTranscript', transcriptData);
+        }
+
+        this.observeFinalLatency(message.transcript.end_time + this.timeOffset);
+    }
+
+    /**
+     * Record how long ago the audio ending a final transcript arrived
+     */
+    private observeFinalLatency(endTime: number): void {
+        while (this.audioArrivals[0] && this.audioArrivals[0].endTime < endTime) {
+            this.audioArrivals.shift();
+        }
 
-        logger.debug(`Final transcript: ${transcriptData.transcript}`);
-        this.emit('finalTranscript', transcriptData);
+        const arrival = this.audioArrivals[0];
+        if (arrival) {
+            metrics.observeTranscriptLatency(this.name, (Date.now() - arrival.receivedAt) / 1000);
+        }
     }
 
     /**
      * Handle partial transcript
      */
     private handlePartialTranscript(message: AddPartialTranscriptMessage): void {
-        const transcriptData: TranscriptData = {
-            transcript: message.transcript.alternatives[0]?.content || '',
-            confidence: message.transcript.alternatives[0]?.confidence || 0,
-            isPartial: true,
-            timestamp: Date.now(),
-            startTime: message.transcript.start_time,
-            endTime: message.transcript.end_time,
-        };
+        for (const transcriptData of this.buildTranscripts(message, true)) {
+            logger.debug(`Partial transcript: ${transcriptData.transcript}`);
+            this.emit('partialTranscript', transcriptData);
+        }
+    }
+
+    /**
+     * Build transcripts from a transcript message, split into runs of the same speaker
+     */
+    private buildTranscripts(message: AddTranscriptMessage | AddPartialTranscriptMessage, isPartial: boolean): TranscriptData[] {
+        if (!message.results || message.results.length === 0) {
+            return [{
+                transcript: message.transcript.alternatives[0]?.content || '',
+                confidence: message.transcript.alternatives[0]?.confidence || 0,
+                isPartial,
+                timestamp: Date.now(),
+                startTime: message.transcript.start_time + this.timeOffset,
+                endTime: message.transcript.end_time + this.timeOffset,
+            }];
+        }
+
+        type Turn = TranscriptData & { confidences: number[]; words: TranscriptWord[] };
+        const transcripts: Turn[] = [];
+        let current: Turn | null = null;
+
+        for (const result of message.results) {
+            const alternative = result.alternatives[0];
+            if (!alternative) {
+                continue;
+            }
+
+            const speaker = alternative.speaker;
+            // Punctuation stays with the word it attaches to, whatever its speaker label
+            const startsTurn = !current || (result.type === 'word' && speaker !== current.speaker);
+
+            if (startsTurn) {
+                current = {
+                    transcript: alternative.content,
+                    confidence: 0,
+                    confidences: [],
+                    isPartial,
+                    timestamp: Date.now(),
+                    startTime: result.start_time + this.timeOffset,
+                    endTime: result.end_time + this.timeOffset,
+                    words: [],
+                };
+                if (speaker) {
+                    current.speaker = speaker;
+                }
+                transcripts.push(current);
+            } else if (current) {
+                const separator = result.attaches_to === 'previous' || result.attaches_to === 'both' ? '' : ' ';
+                current.transcript += `${separator}${alternative.content}`;
+                current.endTime = result.end_time + this.timeOffset;
+            }
+
+            if (current) {
+                const word: TranscriptWord = {
+                    content: alternative.content,
+                    type: result.type,
+                    start_time: result.start_time + this.timeOffset,
+                    end_time: result.end_time + this.timeOffset,
+                    confidence: alternative.confidence,
+                };
+                if (speaker) {
+                    word.speaker = speaker;
+                }
+                current.words.push(word);
+
+                if (result.type === 'word') {
+                    current.confidences.push(alternative.confidence);
+                }
+            }
+        }
 
-        logger.debug(`Partial transcript: ${transcriptData.transcript}`);
-        this.emit('partialTranscript', transcriptData);
+        return transcripts.map(({ confidences, ...transcriptData }) => ({
+            ...transcriptData,
+            confidence: confidences.length > 0
+                ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+                : 0,
+        }));
     }
 
     /**
@@ -460,10 +702,18 @@ export class SpeechmaticsService extends EventEmitter {
                 max_delay: 4,
                 max_delay_mode: 'flexible',
                 operating_point: 'standard',
-                diarization: 'none',
+                diarization: this.config.diarization || 'none',
             },
         };
 
+        if (this.config.diarization === 'speaker') {
+            config.transcription_config.speaker_diarization_config = {
+                max_speakers: this.config.maxSpeakers || 2,
+                prefer_current_speaker: true,
+                speaker_sensitivity: this.config.speakerSensitivity ?? 0.5,
+            };
+        }
+
         this.ws.send(JSON.stringify(config));
         logger.debug('Sent StartRecognition configuration to Speechmatics', config);
     }
@@ -503,18 +753,24 @@ export class SpeechmaticsService extends EventEmitter {
     private async attemptReconnect(): Promise<void> {
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
             logger.error('Max reconnection attempts reached');
+            this.isReconnecting = false;
+            this.clearRetainedAudio();
             this.emit('maxReconnectAttemptsReached');
             return;
         }
 
         this.reconnectAttempts++;
+        metrics.recordReconnect(this.name);
         const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
 
         logger.info(`Attempting to reconnect to Speechmatics (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms`);
 
-        setTimeout(async () => {
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
             try {
-                await this.connect();
+                await withSpan('speechmatics.reconnect', {
+                    attributes: { 'session.id': this.sessionId, 'reconnect.attempt': this.reconnectAttempts },
+                }, () => this.connect());
             } catch (error) {
                 logger.error(`Reconnection attempt ${this.reconnectAttempts} failed:`, error);
             }
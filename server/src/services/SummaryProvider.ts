@@ -0,0 +1,263 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { SummaryProviderName } from '../types';
+import { ExternalService, metrics } from './MetricsService';
+import { SUMMARY_SCHEMA_VERSION, StructuredSummary } from '../utils/summarySchema';
+
+// How a chat model is asked for JSON: structured outputs, JSON mode, or a forced function call
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'tools';
+
+export interface ResponseSchema {
+    name: string;
+    description: string;
+    schema: Record<string, unknown>;
+}
+
+export interface SummaryRequest {
+    systemPrompt: string;
+    userPrompt: string;
+    // The raw transcript, for providers that summarize without a model
+    transcript: string;
+    // Overrides the provider's default model (the deployment on Azure)
+    model?: string;
+    temperature: number;
+    maxTokens: number;
+    // Ask for a JSON document matching this schema instead of prose
+    responseSchema?: ResponseSchema;
+}
+
+export interface SummaryCompletion {
+    text: string;
+    provider: SummaryProviderName;
+    model: string;
+}
+
+/**
+ * A text generation backend for conversation summaries
+ */
+export interface SummaryProvider {
+    readonly name: SummaryProviderName;
+
+    summarize(request: SummaryRequest): Promise<SummaryCompletion>;
+}
+
+export const SUMMARY_PROVIDERS: SummaryProviderName[] = ['openai', 'azure-openai', 'openai-compatible', 'extractive'];
+
+/**
+ * Check whether a value names a known summary provider
+ */
+export function isSummaryProviderName(value: unknown): value is SummaryProviderName {
+    return typeof value === 'string' && (SUMMARY_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Read a structured output mode from the environment, defaulting when unset or unknown
+ */
+function getStructuredOutputMode(value: string | undefined, defaultMode: StructuredOutputMode): StructuredOutputMode {
+    return value === 'json_schema' || value === 'json_object' || value === 'tools' ? value : defaultMode;
+}
+
+/**
+ * Chat completions against OpenAI, Azure OpenAI or any server speaking the same API
+ */
+export class ChatCompletionSummaryProvider implements SummaryProvider {
+    constructor(
+        readonly name: SummaryProviderName,
+        private client: OpenAI,
+        private defaultModel: string,
+        private service: ExternalService,
+        private structuredOutput: StructuredOutputMode = 'tools'
+    ) {}
+
+    async summarize(request: SummaryRequest): Promise<SummaryCompletion> {
+        const model = request.model || this.defaultModel;
+        const schema = request.responseSchema;
+
+        const params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+            model,
+            messages: [
+                { role: 'system', content: request.systemPrompt },
+                { role: 'user', content: request.userPrompt },
+            ],
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+        };
+
+        if (schema) {
+            switch (this.structuredOutput) {
+                case 'json_schema':
+                    params.response_format = {
+                        type: 'json_schema',
+                        json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: true },
+                    };
+                    break;
+                case 'json_object':
+                    // JSON mode does not take a schema, so the model gets it in the instructions
+                    params.response_format = { type: 'json_object' };
+                    params.messages = [
+                        { role: 'system', content: `${request.systemPrompt}\n\nRespond only with a JSON object matching this JSON Schema:\n${JSON.stringify(schema.schema)}` },
+                        { role: 'user', content: request.userPrompt },
+                    ];
+                    break;
+                case 'tools':
+                    params.tools = [{ type: 'function', function: { name: schema.name, description: schema.description, parameters: schema.schema } }];
+                    params.tool_choice = { type: 'function', function: { name: schema.name } };
+                    break;
+            }
+        }
+
+        const response = await metrics.trackExternalCall(this.service, () => this.client.chat.completions.create(params));
+
+        const message = response.choices[0]?.message;
+        const toolCall = message?.tool_calls?.[0];
+        const text = schema && this.structuredOutput === 'tools' && toolCall?.type === 'function'
+            ? toolCall.function.arguments
+            : message?.content;
+        if (!text) {
+            throw new Error(`No summary generated by ${this.name}`);
+        }
+
+        return { text, provider: this.name, model };
+    }
+}
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+    'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that',
+    'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when',
+    'which', 'who', 'will', 'with', 'would', 'you', 'your', 'yes', 'okay', 'ok', 'um', 'uh',
+]);
+
+/**
+ * Picks the transcript's most representative sentences by word frequency.
+ * Deterministic and offline, so it doubles as the fallback when a model is unavailable.
+ */
+export class ExtractiveSummaryProvider implements SummaryProvider {
+    readonly name = 'extractive' as const;
+
+    constructor(private overviewSentences = 3, private keyPoints = 5) {}
+
+    async summarize(request: SummaryRequest): Promise<SummaryCompletion> {
+        const sentences = this.splitSentences(request.transcript);
+        if (sentences.length === 0) {
+            throw new Error('Transcript has no sentences to summarize');
+        }
+
+        const frequencies = new Map<string, number>();
+        for (const sentence of sentences) {
+            for (const word of this.tokenize(sentence)) {
+                frequencies.set(word, (frequencies.get(word) || 0) + 1);
+            }
+        }
+
+        const ranked = sentences
+            .map((sentence, index) => {
+                const words = this.tokenize(sentence);
+                const score = words.reduce((sum, word) => sum + (frequencies.get(word) || 0), 0) / Math.max(words.length, 1);
+                return { sentence, index, score: words.length > 0 ? score : 0 };
+            })
+            // Ties keep transcript order so the output is stable
+            .sort((a, b) => b.score - a.score || a.index - b.index);
+
+        const inOrder = (picked: typeof ranked) => picked.sort((a, b) => a.index - b.index).map(entry => entry.sentence);
+        const overview = inOrder(ranked.slice(0, this.overviewSentences));
+        const keyPoints = inOrder(ranked.slice(this.overviewSentences, this.overviewSentences + this.keyPoints));
+
+        if (request.responseSchema) {
+            const summary: StructuredSummary = {
+                schemaVersion: SUMMARY_SCHEMA_VERSION,
+                overview: overview.join(' '),
+                keyPoints,
+                decisions: [],
+                actionItems: [],
+                entities: [],
+                sentiment: { overall: 'neutral', rationale: null },
+                followUps: [],
+            };
+            return { text: JSON.stringify(summary), provider: this.name, model: 'extractive' };
+        }
+
+        const lines = ['Overview:', overview.join(' ')];
+        if (keyPoints.length > 0) {
+            lines.push('', 'Key Points:', ...keyPoints.map(point => `- ${point}`));
+        }
+
+        return { text: lines.join('\n'), provider: this.name, model: 'extractive' };
+    }
+
+    private splitSentences(transcript: string): string[] {
+        // Drop headings and bullet markers, e.g. when merging summaries of transcript chunks
+        return transcript
+            .split('\n')
+            .map(line => line.trim().replace(/^[-•]\s*/, ''))
+            .filter(line => !/^[\p{L} ]+:$/u.test(line))
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .split(/(?<=[.!?])\s+/)
+            .map(sentence => sentence.trim())
+            .filter(sentence => sentence.length > 0);
+    }
+
+    private tokenize(sentence: string): string[] {
+        return sentence
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}']+/u)
+            .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+    }
+}
+
+/**
+ * Create a summary provider from its environment configuration
+ */
+export function createSummaryProvider(name: SummaryProviderName): SummaryProvider {
+    const timeout = parseInt(process.env['OPENAI_TIMEOUT'] || '30000');
+    const structuredOutput = getStructuredOutputMode(process.env['SUMMARY_STRUCTURED_OUTPUT'], 'tools');
+
+    switch (name) {
+        case 'openai': {
+            const apiKey = process.env['OPENAI_API_KEY'];
+            if (!apiKey) {
+                throw new Error('OpenAI API key missing');
+            }
+            const client = new OpenAI({
+                apiKey,
+                baseURL: process.env['OPENAI_API_URL'] || undefined,
+                organization: process.env['OPENAI_ORGANIZATION'] || undefined,
+                timeout,
+            });
+            return new ChatCompletionSummaryProvider(name, client, process.env['OPENAI_MODEL'] || 'gpt-4', 'openai', structuredOutput);
+        }
+        case 'azure-openai': {
+            const apiKey = process.env['AZURE_OPENAI_API_KEY'];
+            const endpoint = process.env['AZURE_OPENAI_ENDPOINT'];
+            if (!apiKey || !endpoint) {
+                throw new Error('Azure OpenAI configuration missing');
+            }
+            const client = new AzureOpenAI({
+                apiKey,
+                endpoint,
+                apiVersion: process.env['AZURE_OPENAI_API_VERSION'] || '2024-10-21',
+                timeout,
+            });
+            return new ChatCompletionSummaryProvider(name, client, process.env['AZURE_OPENAI_DEPLOYMENT'] || 'gpt-4', 'azure-openai', structuredOutput);
+        }
+        case 'openai-compatible': {
+            const baseURL = process.env['SUMMARY_LLM_BASE_URL'];
+            if (!baseURL) {
+                throw new Error('SUMMARY_LLM_BASE_URL missing for the OpenAI-compatible summary provider');
+            }
+            // Self-hosted servers such as vLLM and Ollama usually ignore the key, but the client requires one
+            const client = new OpenAI({
+                apiKey: process.env['SUMMARY_LLM_API_KEY'] || 'not-needed',
+                baseURL,
+                timeout,
+            });
+            // Tool calling depends on the server and model, JSON mode is more widely supported
+            const mode = getStructuredOutputMode(process.env['SUMMARY_LLM_STRUCTURED_OUTPUT'], 'json_object');
+            return new ChatCompletionSummaryProvider(name, client, process.env['SUMMARY_LLM_MODEL'] || 'llama3.1', 'openai-compatible', mode);
+        }
+        case 'extractive':
+            return new ExtractiveSummaryProvider();
+        default:
+            throw new Error(`Unknown summary provider: ${name}`);
+    }
+}
@@ -0,0 +1,280 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { SummaryTemplate } from '../types';
+import { SUMMARY_SECTIONS, SummarySection, checkDetailsSchema } from '../utils/summarySchema';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+
+interface CacheEntry {
+    template: SummaryTemplate | null;
+    expiresAt: number;
+}
+
+export interface SummaryTemplateInput {
+    name: string;
+    description?: string | null;
+    systemPrompt: string;
+    requiredSections: SummarySection[];
+    outputSchema: Record<string, any> | null;
+}
+
+export type SummaryTemplateInputValidation =
+    | { ok: true; input: SummaryTemplateInput }
+    | { ok: false; errors: string[] };
+
+// Used when neither the app nor the global templates cover a conversation type
+export const DEFAULT_SUMMARY_TEMPLATE: SummaryTemplate = {
+    id: 'default',
+    app_name: null,
+    conversation_type: 'general',
+    version: 0,
+    name: 'General conversation',
+    system_prompt: 'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes.',
+    required_sections: ['overview'],
+    output_schema: null,
+    is_active: true,
+};
+
+/**
+ * Check whether a value can name a conversation type: lowercase letters, digits, `_` and `-`
+ */
+export function isConversationType(value: unknown): value is string {
+    return typeof value === 'string' && /^[a-z0-9][a-z0-9_-]{0,63}$/.test(value);
+}
+
+/**
+ * Check a template submitted through the API, listing every problem found
+ */
+export function validateTemplateInput(value: unknown): SummaryTemplateInputValidation {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return { ok: false, errors: ['template must be an object'] };
+    }
+
+    const body = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof body['name'] !== 'string' || body['name'].trim().length === 0 || body['name'].length > 100) {
+        errors.push('name must be a non-empty string of at most 100 characters');
+    }
+    if (body['description'] !== undefined && body['description'] !== null && typeof body['description'] !== 'string') {
+        errors.push('description must be a string or null');
+    }
+    if (typeof body['systemPrompt'] !== 'string' || body['systemPrompt'].trim().length === 0 || body['systemPrompt'].length > MAX_SYSTEM_PROMPT_LENGTH) {
+        errors.push(`systemPrompt must be a non-empty string of at most ${MAX_SYSTEM_PROMPT_LENGTH} characters`);
+    }
+
+    const requiredSections = body['requiredSections'] ?? [];
+    if (!Array.isArray(requiredSections) || requiredSections.some(section => !(SUMMARY_SECTIONS as unknown[]).includes(section))) {
+        errors.push(`requiredSections must only contain ${SUMMARY_SECTIONS.join(', ')}`);
+    }
+
+    const outputSchema = body['outputSchema'] ?? null;
+    if (outputSchema !== null) {
+        errors.push(...checkDetailsSchema(outputSchema));
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    return {
+        ok: true,
+        input: {
+            name: (body['name'] as string).trim(),
+            description: (body['description'] as string | null | undefined) ?? null,
+            systemPrompt: (body['systemPrompt'] as string).trim(),
+            requiredSections: [...new Set(requiredSections as SummarySection[])],
+            outputSchema: outputSchema as Record<string, any> | null,
+        },
+    };
+}
+
+export class SummaryTemplateService {
+    private supabase: SupabaseClient;
+    private cache: Map<string, CacheEntry> = new Map();
+
+    constructor(supabase?: SupabaseClient) {
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Get the template for an app's conversation type, falling back to the global one; cached for a minute
+     */
+    async getTemplate(appName: string | undefined, conversationType: string): Promise<SummaryTemplate | null> {
+        const cacheKey = `${appName || ''}:${conversationType}`;
+        const cached = this.cache.get(cacheKey);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.template;
+        }
+
+        const template = (appName ? await this.findActive(appName, conversationType) : null)
+            || await this.findActive(null, conversationType);
+        this.cache.set(cacheKey, { template, expiresAt: Date.now() + CACHE_TTL_MS });
+
+        return template;
+    }
+
+    /**
+     * List the templates an app summarizes with: its own, and the global ones it has not replaced
+     */
+    async listTemplates(appName: string): Promise<SummaryTemplate[]> {
+        const [own, global] = await Promise.all([this.listActive(appName), this.listActive(null)]);
+        const byType = new Map<string, SummaryTemplate>();
+        // Newest first, the app's own before the global ones
+        for (const template of [...own, ...global]) {
+            if (!byType.has(template.conversation_type)) {
+                byType.set(template.conversation_type, template);
+            }
+        }
+
+        return [...byType.values()].sort((a, b) => a.conversation_type.localeCompare(b.conversation_type));
+    }
+
+    /**
+     * List every saved version of an app's template, newest first
+     */
+    async getVersions(appName: string, conversationType: string): Promise<SummaryTemplate[]> {
+        const { data, error } = await this.supabase
+            .from('summary_templates')
+            .select('*')
+            .eq('app_name', appName)
+            .eq('conversation_type', conversationType)
+            .order('version', { ascending: false });
+
+        if (error) {
+            throw new Error(`Failed to list versions of summary template ${conversationType} for ${appName}: ${error.message}`);
+        }
+
+        return (data || []).map(row => this.fromRow(row));
+    }
+
+    /**
+     * Save a new version of an app's template and make it the active one
+     */
+    async saveTemplate(appName: string, conversationType: string, input: SummaryTemplateInput): Promise<SummaryTemplate> {
+        const versions = await this.getVersions(appName, conversationType);
+        const version = (versions[0]?.version || 0) + 1;
+
+        const { data, error } = await this.supabase
+            .from('summary_templates')
+            .insert({
+                app_name: appName,
+                conversation_type: conversationType,
+                version,
+                name: input.name,
+                description: input.description ?? null,
+                system_prompt: input.systemPrompt,
+                required_sections: input.requiredSections,
+                output_schema: input.outputSchema,
+                is_active: true,
+            })
+            .select('*')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to save summary template ${conversationType} for ${appName}: ${error.message}`);
+        }
+
+        const template = this.fromRow(data);
+        await this.deactivate(appName, conversationType, template.id);
+
+        return template;
+    }
+
+    /**
+     * Stop using an app's template so its conversations fall back to the global one.
+     * Returns whether there was an active template.
+     */
+    async deactivateTemplate(appName: string, conversationType: string): Promise<boolean> {
+        return (await this.deactivate(appName, conversationType)) > 0;
+    }
+
+    /**
+     * Deactivate an app's versions of a template, except the one to keep
+     */
+    private async deactivate(appName: string, conversationType: string, keepId?: string): Promise<number> {
+        let query = this.supabase
+            .from('summary_templates')
+            .update({ is_active: false })
+            .eq('app_name', appName)
+            .eq('conversation_type', conversationType)
+            .eq('is_active', true);
+        if (keepId) {
+            query = query.neq('id', keepId);
+        }
+
+        const { data, error } = await query.select('id');
+        if (error) {
+            throw new Error(`Failed to deactivate summary template ${conversationType} for ${appName}: ${error.message}`);
+        }
+
+        this.cache.delete(`${appName}:${conversationType}`);
+        return (data || []).length;
+    }
+
+    /**
+     * Find the newest active template of a conversation type, for an app or globally (null)
+     */
+    private async findActive(appName: string | null, conversationType: string): Promise<SummaryTemplate | null> {
+        let query = this.supabase
+            .from('summary_templates')
+            .select('*')
+            .eq('conversation_type', conversationType)
+            .eq('is_active', true);
+        query = appName === null ? query.is('app_name', null) : query.eq('app_name', appName);
+
+        const { data, error } = await query
+            .order('version', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load summary template ${conversationType}: ${error.message}`);
+        }
+
+        return data ? this.fromRow(data) : null;
+    }
+
+    /**
+     * List the active templates of an app, or the global ones (null)
+     */
+    private async listActive(appName: string | null): Promise<SummaryTemplate[]> {
+        let query = this.supabase
+            .from('summary_templates')
+            .select('*')
+            .eq('is_active', true);
+        query = appName === null ? query.is('app_name', null) : query.eq('app_name', appName);
+
+        const { data, error } = await query.order('version', { ascending: false });
+        if (error) {
+            throw new Error(`Failed to list summary templates: ${error.message}`);
+        }
+
+        return (data || []).map(row => this.fromRow(row));
+    }
+
+    /**
+     * Map a row from the summary_templates table, dropping sections this version does not know
+     */
+    private fromRow(row: any): SummaryTemplate {
+        const sections = Array.isArray(row.required_sections) ? row.required_sections : [];
+        return {
+            ...row,
+            required_sections: sections.filter((section: unknown) => (SUMMARY_SECTIONS as unknown[]).includes(section)),
+            output_schema: row.output_schema ?? null,
+        };
+    }
+}
@@ -45,6 +45,10 @@ export class SystemInitializer {
     })
   }
 
+  getMinIO(): MinIOInitializer {
+    return this.minioInitializer
+  }
+
   async initialize(): Promise<boolean> {
     try {
       logger.info('🚀 Starting system initialization...')
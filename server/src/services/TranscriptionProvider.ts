@@ -0,0 +1,49 @@
+import { EventEmitter } from 'events';
+import { AudioChunk, SpeechmaticsConfig, TranscriptionProviderName } from '../types';
+import { SpeechmaticsService } from './SpeechmaticsService';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+
+/**
+ * A streaming speech-to-text engine for one session.
+ *
+ * Providers emit `partialTranscript` and `finalTranscript` with TranscriptData,
+ * plus `connected`, `disconnected` and `error`. `ready` fires whenever a provider
+ * that could not take audio (connecting, reconnecting or congested) can again.
+ */
+export interface TranscriptionProvider extends EventEmitter {
+    readonly name: TranscriptionProviderName;
+
+    connect(): Promise<void>;
+    // Whether sendAudio would deliver a chunk right now
+    isReady(): boolean;
+    sendAudio(audioChunk: AudioChunk): void;
+    endStream(): void;
+    disconnect(): void;
+}
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProviderName[] = ['speechmatics', 'mock'];
+
+/**
+ * Check whether a value names a known transcription provider
+ */
+export function isTranscriptionProviderName(value: unknown): value is TranscriptionProviderName {
+    return typeof value === 'string' && (TRANSCRIPTION_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Create a transcription provider for a session
+ */
+export function createTranscriptionProvider(
+    name: TranscriptionProviderName,
+    config: SpeechmaticsConfig,
+    sessionId: string
+): TranscriptionProvider {
+    switch (name) {
+        case 'speechmatics':
+            return new SpeechmaticsService(config, sessionId);
+        case 'mock':
+            return new MockTranscriptionProvider(config, sessionId);
+        default:
+            throw new Error(`Unknown transcription provider: ${name}`);
+    }
+}
@@ -300,55 +300,12 @@ export class WebhookService {
     private async handleTaskCompleted(record: any): Promise<void> {
         logger.info('Task completed:', record.id, record.type);
 
-        // Handle task-specific completion logic
-        switch (record.type) {
-            case 'audio':
-                // Audio processing completed, create summary task
-                const conversation = await this.supabaseService.getConversationWithTasks(record.conversation_id);
-                if (conversation.transcript && !this.hasTaskOfType(conversation.tasks, 'summary')) {
-                    await this.supabaseService.createTask({
-                        id: `summary-${record.conversation_id}-${Date.now()}`,
-                        type: 'summary',
-                        conversationId: record.conversation_id,
-                        status: 'queued',
-                        metadata: {
-                            transcript: conversation.transcript,
-                            language: conversation.language
-                        }
-                    });
-                }
-                break;
-            case 'summary':
-                // Summary completed, create PDF task
-                if (!this.hasTaskOfType(conversation.tasks, 'pdf')) {
-                    await this.supabaseService.createTask({
-                        id: `pdf-${record.conversation_id}-${Date.now()}`,
-                        type: 'pdf',
-                        conversationId: record.conversation_id,
-                        status: 'queued',
-                        metadata: {
-                            summary: conversation.summary,
-                            transcript: conversation.transcript
-                        }
-                    });
-                }
-                break;
-            case 'pdf':
-                // PDF completed, create email task
-                if (!this.hasTaskOfType(conversation.tasks, 'email')) {
-                    await this.supabaseService.createTask({
-                        id: `email-${record.conversation_id}-${Date.now()}`,
-                        type: 'email',
-                        conversationId: record.conversation_id,
-                        status: 'queued',
-                        metadata: {
-                            officerEmail: conversation.officer_email,
-                            pdfUrl: conversation.pdf_url,
-                            summary: conversation.summary
-                        }
-                    });
-                }
-                break;
+        // Follow-up stages are started by the conversation pipeline in QueueService once their parents succeed
+        if ((globalThis as any).io) {
+            (globalThis as any).io.emit('task-completed', {
+                task: record,
+                timestamp: new Date().toISOString()
+            });
         }
     }
 
@@ -376,13 +333,6 @@ export class WebhookService {
         return false;
     }
 
-    /**
-     * Check if conversation has task of specific type
-     */
-    private hasTaskOfType(tasks: any[], taskType: string): boolean {
-        return tasks.some(task => task.type === taskType);
-    }
-
     /**
      * Get changes between old and new records
      */
@@ -0,0 +1,88 @@
+import { Session, Conversation, TranscriptSegment } from '../types';
+import { SessionStore, SessionQuery, matchesQuery } from './SessionStore';
+
+export class InMemorySessionStore implements SessionStore {
+    public readonly type = 'memory' as const;
+    private sessions: Map<string, Session> = new Map();
+    private conversations: Map<string, Conversation> = new Map();
+    private segments: Map<string, TranscriptSegment[]> = new Map();
+
+    /**
+     * Save a session
+     */
+    async saveSession(session: Session): Promise<void> {
+        this.sessions.set(session.id, { ...session });
+    }
+
+    /**
+     * Get a session by ID
+     */
+    async getSession(sessionId: string): Promise<Session | null> {
+        const session = this.sessions.get(sessionId);
+        return session ? { ...session } : null;
+    }
+
+    /**
+     * Delete a session
+     */
+    async deleteSession(sessionId: string): Promise<void> {
+        this.sessions.delete(sessionId);
+        this.segments.delete(sessionId);
+    }
+
+    /**
+     * List sessions matching a query
+     */
+    async listSessions(query?: SessionQuery): Promise<Session[]> {
+        return Array.from(this.sessions.values())
+            .filter(session => matchesQuery(session, query))
+            .map(session => ({ ...session }));
+    }
+
+    /**
+     * Save a conversation
+     */
+    async saveConversation(conversation: Conversation): Promise<void> {
+        this.conversations.set(conversation.id, { ...conversation });
+    }
+
+    /**
+     * Get a conversation by ID
+     */
+    async getConversation(conversationId: string): Promise<Conversation | null> {
+        const conversation = this.conversations.get(conversationId);
+        return conversation ? { ...conversation } : null;
+    }
+
+    /**
+     * Save a final transcript segment
+     */
+    async saveTranscriptSegment(segment: TranscriptSegment): Promise<void> {
+        const segments = this.segments.get(segment.session_id) || [];
+        segments.push({ ...segment });
+        this.segments.set(segment.session_id, segments);
+    }
+
+    /**
+     * Replace a session's transcript segments
+     */
+    async saveTranscriptSegments(sessionId: string, segments: TranscriptSegment[]): Promise<void> {
+        this.segments.set(sessionId, segments.map(segment => ({ ...segment })));
+    }
+
+    /**
+     * Get a session's transcript segments after a sequence number
+     */
+    async getTranscriptSegments(sessionId: string, afterSeq = 0): Promise<TranscriptSegment[]> {
+        return (this.segments.get(sessionId) || [])
+            .filter(segment => segment.seq > afterSeq)
+            .map(segment => ({ ...segment }));
+    }
+
+    /**
+     * Close the store
+     */
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,252 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { Session, Conversation, TranscriptSegment } from '../types';
+import { SessionStore, SessionQuery, reviveSession, reviveConversation, reviveTranscriptSegment } from './SessionStore';
+
+export class PostgresSessionStore implements SessionStore {
+    public readonly type = 'postgres' as const;
+    private supabase: SupabaseClient;
+
+    constructor(supabase?: SupabaseClient) {
+        if (supabase) {
+            this.supabase = supabase;
+            return;
+        }
+
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+    }
+
+    /**
+     * Map a session to a row in the sessions table
+     */
+    private toSessionRow(session: Session): Record<string, any> {
+        return {
+            id: session.id,
+            officer_email: session.officer_email,
+            app_name: session.app_name,
+            language: session.language,
+            conversation_type: session.conversation_type ?? null,
+            client_id: session.client_id,
+            start_time: session.start_time.toISOString(),
+            end_time: session.end_time ? session.end_time.toISOString() : null,
+            status: session.status,
+            transcript: session.transcript ?? null,
+            audio_url: session.audio_url ?? null,
+            conversation_id: session.conversation_id ?? null,
+            resume_token_hash: session.resume_token_hash ?? null,
+            disconnected_at: session.disconnected_at ? session.disconnected_at.toISOString() : null,
+            trace_context: session.trace_context ?? null,
+        };
+    }
+
+    /**
+     * Map a row from the sessions table to a session
+     */
+    private fromSessionRow(row: any): Session {
+        const { metadata, created_at, updated_at, ...fields } = row;
+        for (const key of Object.keys(fields)) {
+            if (fields[key] === null) {
+                delete fields[key];
+            }
+        }
+        return reviveSession(fields);
+    }
+
+    /**
+     * Save a session
+     */
+    async saveSession(session: Session): Promise<void> {
+        const { error } = await this.supabase
+            .from('sessions')
+            .upsert(this.toSessionRow(session), { onConflict: 'id' });
+
+        if (error) {
+            throw new Error(`Failed to save session ${session.id}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get a session by ID
+     */
+    async getSession(sessionId: string): Promise<Session | null> {
+        const { data, error } = await this.supabase
+            .from('sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load session ${sessionId}: ${error.message}`);
+        }
+
+        return data ? this.fromSessionRow(data) : null;
+    }
+
+    /**
+     * Delete a session
+     */
+    async deleteSession(sessionId: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('sessions')
+            .delete()
+            .eq('id', sessionId);
+
+        if (error) {
+            throw new Error(`Failed to delete session ${sessionId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * List sessions matching a query
+     */
+    async listSessions(query?: SessionQuery): Promise<Session[]> {
+        let request = this.supabase.from('sessions').select('*');
+
+        if (query?.status) {
+            request = request.eq('status', query.status);
+        }
+        if (query?.clientId) {
+            request = request.eq('client_id', query.clientId);
+        }
+
+        const { data, error } = await request.order('start_time', { ascending: true });
+
+        if (error) {
+            throw new Error(`Failed to list sessions: ${error.message}`);
+        }
+
+        return (data || []).map(row => this.fromSessionRow(row));
+    }
+
+    /**
+     * Save a conversation
+     */
+    async saveConversation(conversation: Conversation): Promise<void> {
+        const { error } = await this.supabase
+            .from('conversations')
+            .upsert({
+                id: conversation.id,
+                session_id: conversation.session_id,
+                officer_email: conversation.officer_email,
+                app_name: conversation.app_name,
+                start_time: conversation.start_time.toISOString(),
+                end_time: conversation.end_time.toISOString(),
+                duration: conversation.duration,
+                language: conversation.language,
+                conversation_type: conversation.conversation_type ?? null,
+                status: conversation.status,
+                transcript: conversation.transcript ?? null,
+                audio_url: conversation.audio_url ?? null,
+                speaker_turns: conversation.speaker_turns ?? null,
+                created_at: conversation.created_at.toISOString(),
+                updated_at: conversation.updated_at.toISOString(),
+            }, { onConflict: 'id' });
+
+        if (error) {
+            throw new Error(`Failed to save conversation ${conversation.id}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get a conversation by ID
+     */
+    async getConversation(conversationId: string): Promise<Conversation | null> {
+        const { data, error } = await this.supabase
+            .from('conversations')
+            .select('*')
+            .eq('id', conversationId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to load conversation ${conversationId}: ${error.message}`);
+        }
+
+        return data ? reviveConversation(data) : null;
+    }
+
+    /**
+     * Save a final transcript segment
+     */
+    async saveTranscriptSegment(segment: TranscriptSegment): Promise<void> {
+        const { error } = await this.supabase
+            .from('transcript_segments')
+            .upsert(this.toSegmentRow(segment), { onConflict: 'session_id,seq' });
+
+        if (error) {
+            throw new Error(`Failed to save transcript segment ${segment.session_id}#${segment.seq}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Save a session's transcript segments; segments are never removed once persisted
+     */
+    async saveTranscriptSegments(sessionId: string, segments: TranscriptSegment[]): Promise<void> {
+        if (segments.length === 0) {
+            return;
+        }
+
+        const { error } = await this.supabase
+            .from('transcript_segments')
+            .upsert(segments.map(segment => this.toSegmentRow(segment)), { onConflict: 'session_id,seq' });
+
+        if (error) {
+            throw new Error(`Failed to save transcript segments for ${sessionId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Get a session's transcript segments after a sequence number
+     */
+    async getTranscriptSegments(sessionId: string, afterSeq = 0): Promise<TranscriptSegment[]> {
+        const { data, error } = await this.supabase
+            .from('transcript_segments')
+            .select('session_id, conversation_id, seq, transcript, confidence, start_time, end_time, speaker, words, revision, created_at')
+            .eq('session_id', sessionId)
+            .gt('seq', afterSeq)
+            .order('seq', { ascending: true });
+
+        if (error) {
+            throw new Error(`Failed to load transcript segments for ${sessionId}: ${error.message}`);
+        }
+
+        return (data || []).map(row => reviveTranscriptSegment({
+            ...row,
+            start_time: row.start_time ?? undefined,
+            end_time: row.end_time ?? undefined,
+            speaker: row.speaker ?? undefined,
+            conversation_id: row.conversation_id ?? undefined,
+        }));
+    }
+
+    /**
+     * Map a transcript segment to its table row
+     */
+    private toSegmentRow(segment: TranscriptSegment): Record<string, any> {
+        return {
+            session_id: segment.session_id,
+            conversation_id: segment.conversation_id ?? null,
+            seq: segment.seq,
+            transcript: segment.transcript,
+            confidence: segment.confidence,
+            start_time: segment.start_time ?? null,
+            end_time: segment.end_time ?? null,
+            speaker: segment.speaker ?? null,
+            words: segment.words,
+            revision: segment.revision,
+            created_at: segment.created_at.toISOString(),
+        };
+    }
+
+    /**
+     * Close the store
+     */
+    async close(): Promise<void> {
+        // The Supabase client holds no persistent connection for table access
+    }
+}
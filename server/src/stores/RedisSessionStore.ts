@@ -0,0 +1,155 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { createRedisClient } from '../utils/redis';
+import { Session, Conversation, TranscriptSegment } from '../types';
+import { SessionStore, SessionQuery, matchesQuery, reviveSession, reviveConversation, reviveTranscriptSegment } from './SessionStore';
+
+const KEY_PREFIX = 'vcw';
+const SESSION_INDEX_KEY = `${KEY_PREFIX}:sessions`;
+const ENDED_TTL_SECONDS = 24 * 60 * 60; // Keep ended sessions for 24 hours
+
+export class RedisSessionStore implements SessionStore {
+    public readonly type = 'redis' as const;
+    private redis: Redis;
+
+    constructor(redis?: Redis) {
+        this.redis = redis || createRedisClient('session-store');
+    }
+
+    private sessionKey(sessionId: string): string {
+        return `${KEY_PREFIX}:session:${sessionId}`;
+    }
+
+    private conversationKey(conversationId: string): string {
+        return `${KEY_PREFIX}:conversation:${conversationId}`;
+    }
+
+    private segmentsKey(sessionId: string): string {
+        return `${KEY_PREFIX}:segments:${sessionId}`;
+    }
+
+    /**
+     * Save a session
+     */
+    async saveSession(session: Session): Promise<void> {
+        const key = this.sessionKey(session.id);
+        const pipeline = this.redis.multi().set(key, JSON.stringify(session)).sadd(SESSION_INDEX_KEY, session.id);
+
+        // Active sessions never expire; ended ones age out like the in-memory cleanup
+        if (session.status === 'active') {
+            pipeline.persist(key).persist(this.segmentsKey(session.id));
+        } else {
+            pipeline.expire(key, ENDED_TTL_SECONDS).expire(this.segmentsKey(session.id), ENDED_TTL_SECONDS);
+        }
+
+        await pipeline.exec();
+    }
+
+    /**
+     * Get a session by ID
+     */
+    async getSession(sessionId: string): Promise<Session | null> {
+        const raw = await this.redis.get(this.sessionKey(sessionId));
+        return raw ? reviveSession(JSON.parse(raw)) : null;
+    }
+
+    /**
+     * Delete a session
+     */
+    async deleteSession(sessionId: string): Promise<void> {
+        await this.redis.multi()
+            .del(this.sessionKey(sessionId), this.segmentsKey(sessionId))
+            .srem(SESSION_INDEX_KEY, sessionId)
+            .exec();
+    }
+
+    /**
+     * List sessions matching a query
+     */
+    async listSessions(query?: SessionQuery): Promise<Session[]> {
+        const sessionIds = await this.redis.smembers(SESSION_INDEX_KEY);
+        if (sessionIds.length === 0) {
+            return [];
+        }
+
+        const values = await this.redis.mget(sessionIds.map(id => this.sessionKey(id)));
+        const sessions: Session[] = [];
+        const staleIds: string[] = [];
+
+        values.forEach((raw, index) => {
+            if (!raw) {
+                staleIds.push(sessionIds[index]!);
+                return;
+            }
+            const session = reviveSession(JSON.parse(raw));
+            if (matchesQuery(session, query)) {
+                sessions.push(session);
+            }
+        });
+
+        // Drop index entries whose session key has expired
+        if (staleIds.length > 0) {
+            await this.redis.srem(SESSION_INDEX_KEY, ...staleIds);
+            logger.debug(`Pruned ${staleIds.length} expired sessions from Redis index`);
+        }
+
+        return sessions;
+    }
+
+    /**
+     * Save a conversation
+     */
+    async saveConversation(conversation: Conversation): Promise<void> {
+        await this.redis.set(
+            this.conversationKey(conversation.id),
+            JSON.stringify(conversation),
+            'EX',
+            ENDED_TTL_SECONDS
+        );
+    }
+
+    /**
+     * Get a conversation by ID
+     */
+    async getConversation(conversationId: string): Promise<Conversation | null> {
+        const raw = await this.redis.get(this.conversationKey(conversationId));
+        return raw ? reviveConversation(JSON.parse(raw)) : null;
+    }
+
+    /**
+     * Save a final transcript segment
+     */
+    async saveTranscriptSegment(segment: TranscriptSegment): Promise<void> {
+        await this.redis.rpush(this.segmentsKey(segment.session_id), JSON.stringify(segment));
+    }
+
+    /**
+     * Replace a session's transcript segments
+     */
+    async saveTranscriptSegments(sessionId: string, segments: TranscriptSegment[]): Promise<void> {
+        const key = this.segmentsKey(sessionId);
+        const pipeline = this.redis.multi().del(key);
+        if (segments.length > 0) {
+            pipeline.rpush(key, ...segments.map(segment => JSON.stringify(segment)));
+        }
+        await pipeline.exec();
+    }
+
+    /**
+     * Get a session's transcript segments after a sequence number
+     */
+    async getTranscriptSegments(sessionId: string, afterSeq = 0): Promise<TranscriptSegment[]> {
+        const values = await this.redis.lrange(this.segmentsKey(sessionId), 0, -1);
+        return values
+            .map(raw => reviveTranscriptSegment(JSON.parse(raw)))
+            .filter(segment => segment.seq > afterSeq)
+            .sort((a, b) => a.seq - b.seq);
+    }
+
+    /**
+     * Close the Redis connection
+     */
+    async close(): Promise<void> {
+        await this.redis.quit();
+    }
+}
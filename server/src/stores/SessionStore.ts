@@ -0,0 +1,89 @@
+import { Session, Conversation, TranscriptSegment } from '../types';
+
+export type SessionStoreType = 'memory' | 'redis' | 'postgres';
+
+export interface SessionQuery {
+    status?: Session['status'];
+    clientId?: string;
+}
+
+/**
+ * Persistence backend for live sessions and the conversations they produce.
+ * SessionManager writes through to a store so sessions survive restarts.
+ */
+export interface SessionStore {
+    readonly type: SessionStoreType;
+
+    saveSession(session: Session): Promise<void>;
+    getSession(sessionId: string): Promise<Session | null>;
+    deleteSession(sessionId: string): Promise<void>;
+    listSessions(query?: SessionQuery): Promise<Session[]>;
+
+    saveConversation(conversation: Conversation): Promise<void>;
+    getConversation(conversationId: string): Promise<Conversation | null>;
+
+    saveTranscriptSegment(segment: TranscriptSegment): Promise<void>;
+    saveTranscriptSegments(sessionId: string, segments: TranscriptSegment[]): Promise<void>;
+    getTranscriptSegments(sessionId: string, afterSeq?: number): Promise<TranscriptSegment[]>;
+
+    close(): Promise<void>;
+}
+
+const SESSION_DATE_FIELDS = ['start_time', 'end_time', 'disconnected_at'] as const;
+const CONVERSATION_DATE_FIELDS = ['start_time', 'end_time', 'created_at', 'updated_at'] as const;
+
+/**
+ * Restore Date fields on a session read back from a serialized store
+ */
+export function reviveSession(raw: any): Session {
+    const session = { ...raw };
+    for (const field of SESSION_DATE_FIELDS) {
+        if (session[field]) {
+            session[field] = new Date(session[field]);
+        } else {
+            delete session[field];
+        }
+    }
+    return session as Session;
+}
+
+/**
+ * Restore Date fields on a conversation read back from a serialized store
+ */
+export function reviveConversation(raw: any): Conversation {
+    const conversation = { ...raw };
+    for (const field of CONVERSATION_DATE_FIELDS) {
+        if (conversation[field]) {
+            conversation[field] = new Date(conversation[field]);
+        }
+    }
+    return conversation as Conversation;
+}
+
+/**
+ * Restore a transcript segment read back from a serialized store, defaulting fields older rows lack
+ */
+export function reviveTranscriptSegment(raw: any): TranscriptSegment {
+    return {
+        ...raw,
+        words: raw.words || [],
+        revision: raw.revision || 1,
+        created_at: new Date(raw.created_at),
+    } as TranscriptSegment;
+}
+
+/**
+ * Check whether a session matches a query
+ */
+export function matchesQuery(session: Session, query?: SessionQuery): boolean {
+    if (!query) {
+        return true;
+    }
+    if (query.status && session.status !== query.status) {
+        return false;
+    }
+    if (query.clientId && session.client_id !== query.clientId) {
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,31 @@
+import { logger } from '../utils/logger';
+import { SessionStore, SessionStoreType } from './SessionStore';
+import { InMemorySessionStore } from './InMemorySessionStore';
+import { RedisSessionStore } from './RedisSessionStore';
+import { PostgresSessionStore } from './PostgresSessionStore';
+
+export * from './SessionStore';
+export { InMemorySessionStore } from './InMemorySessionStore';
+export { RedisSessionStore } from './RedisSessionStore';
+export { PostgresSessionStore } from './PostgresSessionStore';
+
+/**
+ * Create the session store selected by SESSION_STORE (memory, redis or postgres)
+ */
+export function createSessionStore(type?: SessionStoreType): SessionStore {
+    const storeType = type || (process.env['SESSION_STORE'] as SessionStoreType) || 'memory';
+
+    switch (storeType) {
+        case 'redis':
+            logger.info('Using Redis session store');
+            return new RedisSessionStore();
+        case 'postgres':
+            logger.info('Using Postgres session store');
+            return new PostgresSessionStore();
+        case 'memory':
+            logger.info('Using in-memory session store');
+            return new InMemorySessionStore();
+        default:
+            throw new Error(`Unknown session store: ${storeType}`);
+    }
+}
@@ -1,3 +1,5 @@
+import { SummarySection } from '../utils/summarySchema';
+
 export interface AudioChunk {
     data: Buffer;
     timestamp: number;
@@ -12,6 +14,8 @@ export interface Session {
     officer_email: string;
     app_name: string;
     language: string;
+    // Selects the app's summary template, e.g. incident_report
+    conversation_type?: string;
     client_id: string;
     start_time: Date;
     end_time?: Date;
@@ -19,6 +23,10 @@ export interface Session {
     transcript?: string;
     audio_url?: string;
     conversation_id?: string;
+    resume_token_hash?: string;
+    disconnected_at?: Date;
+    // W3C trace context of the span that started the session, so later steps join its trace
+    trace_context?: Record<string, string>;
 }
 
 export interface Conversation {
@@ -30,21 +38,37 @@ export interface Conversation {
     end_time: Date;
     duration: number;
     language: string;
+    conversation_type?: string | undefined;
     status: 'processing' | 'completed' | 'failed';
     transcript?: string | undefined;
+    // Written by the summary worker when the app translates transcripts into its report language
+    report_language?: string | undefined;
+    transcript_translation?: string | undefined;
+    transcript_translation_language?: string | undefined;
     summary?: string | undefined;
     audio_url?: string | undefined;
     pdf_url?: string | undefined;
     email_sent?: boolean | undefined;
+    speaker_turns?: SpeakerTurn[] | undefined;
+    // Set by the redaction stage once personal data was replaced; the originals are in conversation_originals
+    redaction_policy?: RedactionPolicy | undefined;
+    redacted_at?: string | undefined;
+    // Held conversations are never purged, whatever the app's retention rules
+    legal_hold?: boolean | undefined;
+    legal_hold_reason?: string | null | undefined;
     created_at: Date;
     updated_at: Date;
 }
 
 export interface SessionStartData {
+    // Pre-assigned ID, e.g. when a quota was reserved for the session before it started
+    id?: string;
     officer_email: string;
     app_name: string;
     language?: string;
+    conversation_type?: string;
     client_id: string;
+    trace_context?: Record<string, string>;
 }
 
 export interface SpeechmaticsConfig {
@@ -53,6 +77,9 @@ export interface SpeechmaticsConfig {
     punctuationPermitted: boolean;
     sampleRate: number;
     encoding: string;
+    diarization?: 'none' | 'speaker';
+    maxSpeakers?: number;
+    speakerSensitivity?: number;
 }
 
 export interface TranscriptData {
@@ -62,6 +89,187 @@ export interface TranscriptData {
     timestamp: number;
     startTime?: number;
     endTime?: number;
+    speaker?: string;
+    words?: TranscriptWord[];
+}
+
+export interface TranscriptWord {
+    content: string;
+    type: 'word' | 'punctuation';
+    start_time: number;
+    end_time: number;
+    confidence: number;
+    speaker?: string;
+}
+
+export interface TranscriptSegment {
+    session_id: string;
+    conversation_id?: string;
+    seq: number;
+    transcript: string;
+    confidence: number;
+    start_time?: number;
+    end_time?: number;
+    speaker?: string;
+    words: TranscriptWord[];
+    // Number of hypotheses (partials plus the final) the provider produced for this segment
+    revision: number;
+    created_at: Date;
+}
+
+export interface AudioFile {
+    id?: string;
+    session_id: string;
+    conversation_id?: string;
+    filename: string;
+    file_size: number;
+    mime_type: string;
+    storage_path: string;
+    storage_provider: 'minio';
+    checksum: string;
+    duration: number;
+    sample_rate: number;
+    channels: number;
+    bit_rate: number;
+    metadata: Record<string, any>;
+    created_at?: Date;
+}
+
+export type TranscriptionProviderName = 'speechmatics' | 'mock';
+
+export type SummaryProviderName = 'openai' | 'azure-openai' | 'openai-compatible' | 'extractive';
+
+// How the redaction stage replaces personal data: [PHONE], a keyed hash, or a per-conversation token
+export type RedactionPolicy = 'none' | 'mask' | 'hash' | 'tokenize';
+
+export type PiiType = 'email' | 'phone' | 'national_id' | 'card_number' | 'name';
+
+export interface AppRegistration {
+    id: string;
+    name: string;
+    description?: string;
+    domain?: string;
+    api_key?: string;
+    status: 'active' | 'inactive' | 'suspended';
+    permissions: string[];
+    rate_limit: number;
+    transcription_provider: TranscriptionProviderName;
+    // Falls back to SUMMARY_PROVIDER and the provider's default model when unset
+    summary_provider?: SummaryProviderName | null;
+    summary_model?: string | null;
+    // Language reports are written in; unset uses the conversation's language
+    report_language?: string | null;
+    // Also translate the full transcript into the report language
+    translate_transcript?: boolean | null;
+    // Falls back to REDACTION_POLICY when unset; names are redacted wherever they occur
+    redaction_policy?: RedactionPolicy | null;
+    redaction_names?: string[] | null;
+    tokens_revoked_at?: string | null;
+    quotas?: AppQuotaSettings;
+    retention?: AppRetentionSettings;
+    // Keeps all of the app's conversations from being purged, e.g. during litigation
+    legal_hold?: boolean;
+    metadata: Record<string, any>;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// An officer's overrides of their app's report settings; null inherits the app's
+export interface OfficerSettings {
+    app_name: string;
+    officer_email: string;
+    report_language: string | null;
+    translate_transcript: boolean | null;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// A versioned summary format; app_name null is the global template apps inherit unless they save their own
+export interface SummaryTemplate {
+    id: string;
+    app_name: string | null;
+    conversation_type: string;
+    version: number;
+    name: string;
+    description?: string | null;
+    system_prompt: string;
+    // Sections of the base summary that must not be empty
+    required_sections: SummarySection[];
+    // JSON Schema of the summary's `details` object
+    output_schema: Record<string, any> | null;
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// Per-app quota overrides; omitted keys use the server defaults and 0 means unlimited
+export type RetentionCategory = 'audio' | 'transcript' | 'report';
+
+// Per-app retention overrides in days after a conversation ends; omitted keys use the server defaults, 0 keeps forever
+export interface AppRetentionSettings {
+    audio_days?: number;
+    transcript_days?: number;
+    report_days?: number;
+}
+
+export interface AppQuotaSettings {
+    concurrent_sessions?: number;
+    audio_minutes_per_day?: number;
+    audio_minutes_per_month?: number;
+    officer_audio_minutes_per_day?: number;
+    officer_audio_minutes_per_month?: number;
+}
+
+// The app a socket authenticated as during the handshake
+export interface AuthenticatedApp {
+    id: string;
+    name: string;
+    permissions: string[];
+    rateLimit: number;
+}
+
+// What a session token limits its holder to
+export interface SessionTokenScope {
+    officerEmail: string;
+    languages: string[];
+    expiresAt: number;
+}
+
+// A distinct value the redaction stage replaced, and how often it occurred
+export interface RedactedEntity {
+    type: PiiType;
+    value: string;
+    replacement: string;
+    occurrences: number;
+}
+
+// A conversation's content as transcribed, kept from before redaction; only the service role may read it
+export interface ConversationOriginal {
+    conversation_id: string;
+    app_name: string;
+    policy: RedactionPolicy;
+    transcript: string | null;
+    speaker_turns: SpeakerTurn[] | null;
+    segments: Array<Pick<TranscriptSegment, 'seq' | 'transcript' | 'words'>>;
+    entities: RedactedEntity[];
+    created_at?: string;
+}
+
+// The redacted text that replaces a conversation's transcripts in the session store; segments lists only those that changed
+export interface RedactedConversation {
+    conversation_id: string;
+    session_id: string;
+    transcript: string;
+    session_transcript: string | null;
+    speaker_turns: SpeakerTurn[] | null;
+    segments: Array<Pick<TranscriptSegment, 'seq' | 'transcript'>>;
+}
+
+export interface SpeakerTurn {
+    speaker: string;
+    transcript: string;
+    start_time?: number;
+    end_time?: number;
 }
 
 export interface WebRTCSignal {
@@ -0,0 +1,644 @@
+import { createWavHeader } from './wav';
+
+export type AudioContainer = 'wav' | 'webm' | 'ogg' | 'mp3' | 'unknown';
+
+export type AudioStatus = 'ok' | 'silent' | 'corrupted';
+
+export interface AudioInfo {
+    format: AudioContainer;
+    codec: string;
+    sampleRate: number | null;
+    channels: number | null;
+    duration: number | null;
+    bitRate: number | null;
+}
+
+export interface LoudnessStats {
+    rmsDbfs: number;
+    peakDbfs: number;
+    silenceRatio: number;
+}
+
+export interface AudioAnalysis extends AudioInfo {
+    size: number;
+    status: AudioStatus;
+    loudness: LoudnessStats | null;
+    issues: string[];
+}
+
+export interface WavInfo extends AudioInfo {
+    formatTag: number;
+    bitsPerSample: number;
+    dataOffset: number;
+    dataLength: number;
+    truncated: boolean;
+}
+
+export const ARCHIVAL_FORMAT = { format: 'wav', codec: 'pcm_s16le', mimeType: 'audio/wav' } as const;
+
+const MIN_DBFS = -120;
+const SILENCE_WINDOW_SECONDS = 0.02;
+
+/**
+ * Convert a linear amplitude to dBFS, floored so silence stays JSON-serializable
+ */
+function toDbfs(amplitude: number): number {
+    return amplitude > 0 ? Math.max(20 * Math.log10(amplitude), MIN_DBFS) : MIN_DBFS;
+}
+
+/**
+ * Round to a fixed number of decimals
+ */
+function round(value: number, digits = 2): number {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Identify the container from its magic bytes
+ */
+export function detectAudioFormat(buffer: Buffer): AudioContainer {
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE') {
+        return 'wav';
+    }
+    if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1A45DFA3) {
+        return 'webm';
+    }
+    if (buffer.length >= 4 && buffer.toString('ascii', 0, 4) === 'OggS') {
+        return 'ogg';
+    }
+    if (buffer.length >= 3 && buffer.toString('ascii', 0, 3) === 'ID3') {
+        return 'mp3';
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xFF && ((buffer[1] ?? 0) & 0xE0) === 0xE0) {
+        return 'mp3';
+    }
+    return 'unknown';
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+/**
+ * Name a WAV codec the way ffmpeg does (pcm_s16le, pcm_f32le, pcm_mulaw, ...)
+ */
+function getWavCodec(formatTag: number, bitsPerSample: number): string {
+    switch (formatTag) {
+        case 1: return bitsPerSample === 8 ? 'pcm_u8' : `pcm_s${bitsPerSample}le`;
+        case 3: return `pcm_f${bitsPerSample}le`;
+        case 6: return 'pcm_alaw';
+        case 7: return 'pcm_mulaw';
+        default: return `wav_0x${formatTag.toString(16)}`;
+    }
+}
+
+/**
+ * Walk the RIFF chunks of a WAV file and read its fmt and data chunks
+ */
+export function parseWav(buffer: Buffer): WavInfo {
+    if (detectAudioFormat(buffer) !== 'wav') {
+        throw new Error('Missing RIFF/WAVE header');
+    }
+
+    let fmt: { formatTag: number; channels: number; sampleRate: number; byteRate: number; bitsPerSample: number } | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+        const id = buffer.toString('ascii', offset, offset + 4);
+        const size = buffer.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (id === 'fmt ') {
+            if (size < 16 || body + 16 > buffer.length) {
+                throw new Error('Truncated fmt chunk');
+            }
+            let formatTag = buffer.readUInt16LE(body);
+            // WAVE_FORMAT_EXTENSIBLE carries the real format in its sub-format GUID
+            if (formatTag === 0xFFFE && size >= 40 && body + 26 <= buffer.length) {
+                formatTag = buffer.readUInt16LE(body + 24);
+            }
+            fmt = {
+                formatTag,
+                channels: buffer.readUInt16LE(body + 2),
+                sampleRate: buffer.readUInt32LE(body + 4),
+                byteRate: buffer.readUInt32LE(body + 8),
+                bitsPerSample: buffer.readUInt16LE(body + 14),
+            };
+        } else if (id === 'data') {
+            if (!fmt) {
+                throw new Error('data chunk before fmt chunk');
+            }
+            if (fmt.channels === 0 || fmt.sampleRate === 0 || fmt.bitsPerSample === 0) {
+                throw new Error('Invalid fmt chunk');
+            }
+
+            const available = buffer.length - body;
+            // Streamed WAVs may declare 0 or 0xFFFFFFFF; trust what is actually there
+            const declared = size === 0 || size === 0xFFFFFFFF ? available : size;
+            const dataLength = Math.min(declared, available);
+            const frameSize = fmt.channels * (fmt.bitsPerSample / 8);
+            const byteRate = fmt.sampleRate * frameSize;
+
+            return {
+                format: 'wav',
+                codec: getWavCodec(fmt.formatTag, fmt.bitsPerSample),
+                sampleRate: fmt.sampleRate,
+                channels: fmt.channels,
+                duration: round(dataLength / byteRate, 3),
+                bitRate: byteRate * 8,
+                formatTag: fmt.formatTag,
+                bitsPerSample: fmt.bitsPerSample,
+                dataOffset: body,
+                dataLength,
+                truncated: declared > available,
+            };
+        }
+
+        offset = body + size + (size % 2);
+    }
+
+    throw new Error(fmt ? 'Missing data chunk' : 'Missing fmt chunk');
+}
+
+/**
+ * Decode a mu-law byte to a 16-bit sample
+ */
+function decodeMulaw(value: number): number {
+    const inverted = ~value & 0xFF;
+    const exponent = (inverted >> 4) & 0x07;
+    const magnitude = ((((inverted & 0x0F) << 3) + 0x84) << exponent) - 0x84;
+    return inverted & 0x80 ? -magnitude : magnitude;
+}
+
+/**
+ * Decode the interleaved samples of a PCM WAV to floats in [-1, 1], or null for unsupported codecs
+ */
+export function decodeWavSamples(buffer: Buffer, info: WavInfo): Float32Array | null {
+    const bytesPerSample = info.bitsPerSample / 8;
+    const count = Math.floor(info.dataLength / bytesPerSample);
+    const samples = new Float32Array(count);
+    const start = info.dataOffset;
+
+    let read: ((offset: number) => number) | null = null;
+    if (info.formatTag === 1) {
+        switch (info.bitsPerSample) {
+            case 8: read = offset => ((buffer[offset] ?? 128) - 128) / 128; break;
+            case 16: read = offset => buffer.readInt16LE(offset) / 32768; break;
+            case 24: read = offset => buffer.readIntLE(offset, 3) / 8388608; break;
+            case 32: read = offset => buffer.readInt32LE(offset) / 2147483648; break;
+        }
+    } else if (info.formatTag === 3) {
+        switch (info.bitsPerSample) {
+            case 32: read = offset => buffer.readFloatLE(offset); break;
+            case 64: read = offset => buffer.readDoubleLE(offset); break;
+        }
+    } else if (info.formatTag === 7 && info.bitsPerSample === 8) {
+        read = offset => decodeMulaw(buffer[offset] ?? 0xFF) / 32768;
+    }
+
+    if (!read) {
+        return null;
+    }
+
+    for (let i = 0; i < count; i++) {
+        samples[i] = read(start + i * bytesPerSample);
+    }
+    return samples;
+}
+
+/**
+ * Encode float samples as a 16-bit PCM WAV, the archival format
+ */
+export function encodeWav16(samples: Float32Array, sampleRate: number, channels: number): Buffer {
+    const data = Buffer.alloc(samples.length * 2);
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i] ?? 0));
+        data.writeInt16LE(Math.round(sample < 0 ? sample * 32768 : sample * 32767), i * 2);
+    }
+    return Buffer.concat([createWavHeader({ sampleRate, channels, encoding: 'pcm_s16le' }, data.length), data]);
+}
+
+/**
+ * Measure RMS and peak level, and the share of 20 ms windows quieter than the silence threshold
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number, channels: number, silenceThresholdDbfs: number): LoudnessStats {
+    const windowSize = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SECONDS)) * channels;
+    let sumSquares = 0;
+    let peak = 0;
+    let windowSum = 0;
+    let windowCount = 0;
+    let windows = 0;
+    let silentWindows = 0;
+
+    const closeWindow = () => {
+        windows++;
+        if (toDbfs(Math.sqrt(windowSum / windowCount)) < silenceThresholdDbfs) {
+            silentWindows++;
+        }
+        windowSum = 0;
+        windowCount = 0;
+    };
+
+    for (let i = 0; i < samples.length; i++) {
+        const value = samples[i] ?? 0;
+        const square = value * value;
+        sumSquares += square;
+        peak = Math.max(peak, Math.abs(value));
+        windowSum += square;
+        windowCount++;
+        if (windowCount === windowSize) {
+            closeWindow();
+        }
+    }
+    if (windowCount > 0) {
+        closeWindow();
+    }
+
+    return {
+        rmsDbfs: round(toDbfs(samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0)),
+        peakDbfs: round(toDbfs(peak)),
+        silenceRatio: windows > 0 ? round(silentWindows / windows, 4) : 1,
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Ogg (Opus, Vorbis)
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the identification header from the first Ogg page and the duration from the last granule position
+ */
+export function parseOgg(buffer: Buffer): AudioInfo {
+    if (buffer.length < 27 || buffer.toString('ascii', 0, 4) !== 'OggS') {
+        throw new Error('Missing OggS capture pattern');
+    }
+
+    const segments = buffer[26] ?? 0;
+    const headerLength = 27 + segments;
+    let bodyLength = 0;
+    for (let i = 0; i < segments; i++) {
+        bodyLength += buffer[27 + i] ?? 0;
+    }
+    if (headerLength + bodyLength > buffer.length) {
+        throw new Error('Truncated first Ogg page');
+    }
+    const body = buffer.subarray(headerLength, headerLength + bodyLength);
+
+    let codec = 'unknown';
+    let channels: number | null = null;
+    let sampleRate: number | null = null;
+    let granuleRate = 0;
+    let preSkip = 0;
+    let bitRate: number | null = null;
+
+    if (body.length >= 19 && body.toString('ascii', 0, 8) === 'OpusHead') {
+        codec = 'opus';
+        channels = body[9] ?? null;
+        preSkip = body.readUInt16LE(10);
+        sampleRate = body.readUInt32LE(12) || 48000;
+        // Opus granule positions always count 48 kHz samples
+        granuleRate = 48000;
+    } else if (body.length >= 30 && body[0] === 1 && body.toString('ascii', 1, 7) === 'vorbis') {
+        codec = 'vorbis';
+        channels = body[11] ?? null;
+        sampleRate = body.readUInt32LE(12);
+        granuleRate = sampleRate;
+        const nominal = body.readInt32LE(20);
+        bitRate = nominal > 0 ? nominal : null;
+    }
+
+    const lastPage = buffer.lastIndexOf('OggS');
+    if (lastPage + 14 > buffer.length) {
+        throw new Error('Truncated last Ogg page');
+    }
+    const granule = Number(buffer.readBigInt64LE(lastPage + 6));
+    const duration = granuleRate > 0 && granule > 0 ? round(Math.max(0, granule - preSkip) / granuleRate, 3) : null;
+
+    return {
+        format: 'ogg',
+        codec,
+        sampleRate,
+        channels,
+        duration,
+        bitRate: bitRate ?? (duration ? Math.round((buffer.length * 8) / duration) : null),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// MP3
+// ---------------------------------------------------------------------------
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+    3: [44100, 48000, 32000],
+    2: [22050, 24000, 16000],
+    0: [11025, 12000, 8000],
+};
+
+const MP3_BITRATES: Record<string, number[]> = {
+    '1-3': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    '1-1': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+    '2-3': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    '2-1': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+/**
+ * Parse the first MPEG audio frame, using a Xing/Info header for the frame count when present
+ */
+export function parseMp3(buffer: Buffer): AudioInfo {
+    let offset = 0;
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'ID3') {
+        const tagSize = (((buffer[6] ?? 0) & 0x7F) << 21) | (((buffer[7] ?? 0) & 0x7F) << 14)
+            | (((buffer[8] ?? 0) & 0x7F) << 7) | ((buffer[9] ?? 0) & 0x7F);
+        offset = 10 + tagSize + (((buffer[5] ?? 0) & 0x10) ? 10 : 0);
+    }
+
+    for (; offset + 4 <= buffer.length; offset++) {
+        if (buffer[offset] !== 0xFF || ((buffer[offset + 1] ?? 0) & 0xE0) !== 0xE0) {
+            continue;
+        }
+
+        const b1 = buffer[offset + 1] ?? 0;
+        const b2 = buffer[offset + 2] ?? 0;
+        const b3 = buffer[offset + 3] ?? 0;
+        const version = (b1 >> 3) & 0x03;
+        const layer = (b1 >> 1) & 0x03;
+        const bitrateIndex = b2 >> 4;
+        const sampleRateIndex = (b2 >> 2) & 0x03;
+
+        if (version === 1 || layer === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+            continue;
+        }
+
+        const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex];
+        const bitrateKbps = MP3_BITRATES[`${version === 3 ? 1 : 2}-${layer}`]?.[bitrateIndex];
+        if (!sampleRate || !bitrateKbps) {
+            continue;
+        }
+
+        const mono = (b3 >> 6) === 3;
+        const samplesPerFrame = layer === 3 ? 384 : layer === 2 || version === 3 ? 1152 : 576;
+        let duration = ((buffer.length - offset) * 8) / (bitrateKbps * 1000);
+
+        // VBR files carry the total frame count after the side information of the first frame
+        if (layer === 1) {
+            const sideInfo = version === 3 ? (mono ? 17 : 32) : (mono ? 9 : 17);
+            const xing = offset + 4 + sideInfo;
+            const tag = xing + 12 <= buffer.length ? buffer.toString('ascii', xing, xing + 4) : '';
+            if ((tag === 'Xing' || tag === 'Info') && (buffer.readUInt32BE(xing + 4) & 0x01)) {
+                duration = (buffer.readUInt32BE(xing + 8) * samplesPerFrame) / sampleRate;
+            }
+        }
+
+        return {
+            format: 'mp3',
+            codec: layer === 1 ? 'mp3' : layer === 2 ? 'mp2' : 'mp1',
+            sampleRate,
+            channels: mono ? 1 : 2,
+            duration: round(duration, 3),
+            bitRate: bitrateKbps * 1000,
+        };
+    }
+
+    throw new Error('No MPEG audio frame found');
+}
+
+// ---------------------------------------------------------------------------
+// WebM / Matroska
+// ---------------------------------------------------------------------------
+
+const EBML_MASTER_IDS = new Set([
+    0x18538067, // Segment
+    0x1549A966, // Info
+    0x1654AE6B, // Tracks
+    0xAE, // TrackEntry
+    0xE1, // Audio
+]);
+const EBML_CLUSTER_ID = 0x1F43B675;
+
+interface EbmlVint {
+    value: number;
+    length: number;
+    unknown: boolean;
+}
+
+/**
+ * Read an EBML variable-length integer, keeping the length marker for element IDs
+ */
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): EbmlVint {
+    const first = buffer[offset];
+    if (first === undefined || first === 0) {
+        throw new Error(`Invalid EBML variable-length integer at ${offset}`);
+    }
+
+    let length = 1;
+    while (length <= 8 && !(first & (0x80 >> (length - 1)))) {
+        length++;
+    }
+    if (offset + length > buffer.length) {
+        throw new Error('Truncated EBML element');
+    }
+
+    let value = keepMarker ? first : first & (0xFF >> length);
+    let allOnes = value === (0xFF >> length);
+    for (let i = 1; i < length; i++) {
+        const byte = buffer[offset + i] ?? 0;
+        value = value * 256 + byte;
+        allOnes = allOnes && byte === 0xFF;
+    }
+
+    return { value, length, unknown: !keepMarker && allOnes };
+}
+
+/**
+ * Read a big-endian unsigned EBML integer
+ */
+function readEbmlUint(buffer: Buffer, start: number, size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+        value = value * 256 + (buffer[start + i] ?? 0);
+    }
+    return value;
+}
+
+/**
+ * Read a 4- or 8-byte big-endian EBML float
+ */
+function readEbmlFloat(buffer: Buffer, start: number, size: number): number {
+    return size === 4 ? buffer.readFloatBE(start) : buffer.readDoubleBE(start);
+}
+
+/**
+ * Estimate duration from the last cluster: its timecode plus its latest SimpleBlock offset
+ */
+function lastClusterTime(buffer: Buffer): number | null {
+    const marker = Buffer.from([0x1F, 0x43, 0xB6, 0x75]);
+    const clusterStart = buffer.lastIndexOf(marker);
+    if (clusterStart < 0) {
+        return null;
+    }
+
+    try {
+        const size = readVint(buffer, clusterStart + 4, false);
+        let offset = clusterStart + 4 + size.length;
+        const end = size.unknown ? buffer.length : Math.min(offset + size.value, buffer.length);
+        let clusterTime: number | null = null;
+        let maxBlockTime = 0;
+
+        while (offset < end) {
+            const id = readVint(buffer, offset, true);
+            const elementSize = readVint(buffer, offset + id.length, false);
+            const dataStart = offset + id.length + elementSize.length;
+            if (id.value === 0xE7) {
+                clusterTime = readEbmlUint(buffer, dataStart, elementSize.value);
+            } else if (id.value === 0xA3 && dataStart + 4 <= buffer.length) {
+                const track = readVint(buffer, dataStart, false);
+                maxBlockTime = Math.max(maxBlockTime, buffer.readInt16BE(dataStart + track.length));
+            }
+            offset = dataStart + elementSize.value;
+        }
+
+        return clusterTime === null ? null : clusterTime + maxBlockTime;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the segment info and first audio track of a WebM file
+ */
+export function parseWebm(buffer: Buffer): AudioInfo {
+    if (detectAudioFormat(buffer) !== 'webm') {
+        throw new Error('Missing EBML header');
+    }
+
+    let timecodeScale = 1000000;
+    let durationTicks: number | null = null;
+    let codecId: string | null = null;
+    let sampleRate: number | null = null;
+    let channels: number | null = null;
+
+    const walk = (start: number, end: number): boolean => {
+        let offset = start;
+        while (offset < end) {
+            const id = readVint(buffer, offset, true);
+            const size = readVint(buffer, offset + id.length, false);
+            const dataStart = offset + id.length + size.length;
+            const dataEnd = size.unknown ? end : Math.min(dataStart + size.value, end);
+
+            if (id.value === EBML_CLUSTER_ID) {
+                // Media data follows; everything we need comes before it
+                return false;
+            }
+
+            if (EBML_MASTER_IDS.has(id.value)) {
+                if (!walk(dataStart, dataEnd)) {
+                    return false;
+                }
+            } else {
+                switch (id.value) {
+                    case 0x2AD7B1: timecodeScale = readEbmlUint(buffer, dataStart, size.value); break;
+                    case 0x4489: durationTicks = readEbmlFloat(buffer, dataStart, size.value); break;
+                    case 0x86: codecId = codecId || buffer.toString('ascii', dataStart, dataEnd).replace(/\0+$/, ''); break;
+                    case 0xB5: sampleRate = sampleRate || readEbmlFloat(buffer, dataStart, size.value); break;
+                    case 0x9F: channels = channels || readEbmlUint(buffer, dataStart, size.value); break;
+                }
+            }
+
+            offset = dataEnd;
+        }
+        return true;
+    };
+
+    walk(0, buffer.length);
+
+    // MediaRecorder output has no Duration element, so fall back to the last cluster
+    const ticks = durationTicks ?? lastClusterTime(buffer);
+    const duration = ticks !== null ? round((ticks * timecodeScale) / 1e9, 3) : null;
+    const codec = codecId ? (codecId as string).replace(/^A_/, '').toLowerCase() : 'unknown';
+
+    return {
+        format: 'webm',
+        codec,
+        sampleRate: sampleRate ? Math.round(sampleRate) : null,
+        channels,
+        duration,
+        bitRate: duration ? Math.round((buffer.length * 8) / duration) : null,
+    };
+}
+
+/**
+ * Parse the container headers of an audio file
+ */
+export function parseAudioInfo(buffer: Buffer): AudioInfo {
+    switch (detectAudioFormat(buffer)) {
+        case 'wav': {
+            const { format, codec, sampleRate, channels, duration, bitRate } = parseWav(buffer);
+            return { format, codec, sampleRate, channels, duration, bitRate };
+        }
+        case 'webm': return parseWebm(buffer);
+        case 'ogg': return parseOgg(buffer);
+        case 'mp3': return parseMp3(buffer);
+        default: throw new Error('Unrecognized audio format');
+    }
+}
+
+export interface AnalyzeOptions {
+    silenceThresholdDbfs: number;
+    silentRatio: number;
+}
+
+/**
+ * Analyze an audio file: headers, duration and, for PCM WAV, loudness and silence.
+ * Corrupted files fail header parsing; silent files have no window above the threshold.
+ */
+export function analyzeAudio(buffer: Buffer, options: AnalyzeOptions): AudioAnalysis {
+    const analysis: AudioAnalysis = {
+        format: detectAudioFormat(buffer),
+        codec: 'unknown',
+        sampleRate: null,
+        channels: null,
+        duration: null,
+        bitRate: null,
+        size: buffer.length,
+        status: 'ok',
+        loudness: null,
+        issues: [],
+    };
+
+    if (buffer.length === 0) {
+        return { ...analysis, status: 'corrupted', issues: ['Audio file is empty'] };
+    }
+
+    try {
+        Object.assign(analysis, parseAudioInfo(buffer));
+    } catch (error) {
+        return { ...analysis, status: 'corrupted', issues: [(error as Error).message] };
+    }
+
+    if (analysis.format === 'wav') {
+        const info = parseWav(buffer);
+        if (info.truncated) {
+            analysis.issues.push('WAV data chunk is shorter than declared');
+        }
+
+        const samples = decodeWavSamples(buffer, info);
+        if (samples) {
+            analysis.loudness = measureLoudness(samples, info.sampleRate ?? 0, info.channels ?? 1, options.silenceThresholdDbfs);
+        } else {
+            analysis.issues.push(`Loudness not measured for ${analysis.codec}`);
+        }
+    }
+
+    if (analysis.duration === 0) {
+        analysis.status = 'silent';
+        analysis.issues.push('Recording contains no audio');
+    } else if (analysis.loudness && analysis.loudness.silenceRatio >= options.silentRatio) {
+        analysis.status = 'silent';
+        analysis.issues.push(`${Math.round(analysis.loudness.silenceRatio * 100)}% of the recording is below ${options.silenceThresholdDbfs} dBFS`);
+    }
+
+    return analysis;
+}
@@ -0,0 +1,38 @@
+// Languages offered by the widget (SUPPORTED_LANGUAGES), by code, with their English names for prompts
+export const LANGUAGE_NAMES: Record<string, string> = {
+    en: 'English',
+    hi: 'Hindi',
+    es: 'Spanish',
+    fr: 'French',
+    de: 'German',
+    it: 'Italian',
+    pt: 'Portuguese',
+    ru: 'Russian',
+    ja: 'Japanese',
+    ko: 'Korean',
+    zh: 'Chinese',
+    ar: 'Arabic',
+};
+
+const RTL_LANGUAGES = ['ar', 'he'];
+
+/**
+ * Check whether a value is the code of a language the widget supports
+ */
+export function isSupportedLanguage(value: unknown): value is string {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGE_NAMES, value);
+}
+
+/**
+ * English name of a language, or its code when unknown
+ */
+export function getLanguageName(code: string): string {
+    return LANGUAGE_NAMES[code] || code;
+}
+
+/**
+ * Whether a language is written right to left
+ */
+export function isRightToLeft(code: string): boolean {
+    return RTL_LANGUAGES.includes(code);
+}
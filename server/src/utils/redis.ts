@@ -0,0 +1,45 @@
+import Redis, { RedisOptions } from 'ioredis';
+import { logger } from './logger';
+
+/**
+ * Build Redis connection options from environment variables
+ */
+export function getRedisOptions(): string | RedisOptions {
+    // Prefer REDIS_URL when available, otherwise use individual components
+    if (process.env['REDIS_URL']) {
+        return process.env['REDIS_URL'];
+    }
+
+    const options: RedisOptions = {
+        host: process.env['REDIS_HOST'] || 'localhost',
+        port: parseInt(process.env['REDIS_PORT'] || '6379'),
+        db: parseInt(process.env['REDIS_DB'] || '0'),
+        maxRetriesPerRequest: parseInt(process.env['REDIS_MAX_RETRIES'] || '3'),
+        enableReadyCheck: true,
+        lazyConnect: true,
+    };
+
+    if (process.env['REDIS_PASSWORD']) {
+        options.password = process.env['REDIS_PASSWORD'];
+    }
+
+    return options;
+}
+
+/**
+ * Create a Redis client for the given purpose
+ */
+export function createRedisClient(name: string): Redis {
+    const options = getRedisOptions();
+    const client = typeof options === 'string' ? new Redis(options) : new Redis(options);
+
+    client.on('error', (error) => {
+        logger.error(`Redis (${name}) error:`, error);
+    });
+
+    client.on('close', () => {
+        logger.warn(`Redis (${name}) connection closed`);
+    });
+
+    return client;
+}
@@ -0,0 +1,111 @@
+import { SpeakerTurn, TranscriptSegment } from '../types';
+
+/**
+ * Turn a Speechmatics speaker label (S1, S2, UU) into a display label
+ */
+export function formatSpeakerLabel(speaker: string): string {
+    if (speaker === 'UU') {
+        return 'Unknown speaker';
+    }
+
+    const match = /^S(\d+)$/.exec(speaker);
+    return match ? `Speaker ${match[1]}` : speaker;
+}
+
+/**
+ * Merge consecutive segments from the same speaker into turns; unlabelled segments count as unknown
+ */
+export function buildSpeakerTurns(segments: TranscriptSegment[]): SpeakerTurn[] {
+    const turns: SpeakerTurn[] = [];
+
+    for (const segment of [...segments].sort((a, b) => a.seq - b.seq)) {
+        const speaker = segment.speaker || 'UU';
+        const last = turns[turns.length - 1];
+        if (last && last.speaker === speaker) {
+            last.transcript = `${last.transcript} ${segment.transcript}`;
+            if (segment.end_time !== undefined) {
+                last.end_time = segment.end_time;
+            }
+            continue;
+        }
+
+        const turn: SpeakerTurn = { speaker, transcript: segment.transcript };
+        if (segment.start_time !== undefined) {
+            turn.start_time = segment.start_time;
+        }
+        if (segment.end_time !== undefined) {
+            turn.end_time = segment.end_time;
+        }
+        turns.push(turn);
+    }
+
+    return turns;
+}
+
+/**
+ * Render speaker turns as a plain-text transcript, one turn per line
+ */
+export function formatSpeakerTranscript(turns: SpeakerTurn[]): string {
+    return turns.map(turn => `${formatSpeakerLabel(turn.speaker)}: ${turn.transcript}`).join('\n');
+}
+
+/**
+ * Escape text for inclusion in an HTML template
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render speaker turns as HTML blocks for reports and emails
+ */
+export function renderSpeakerTurnsHtml(turns: SpeakerTurn[]): string {
+    return turns.map(turn => `
+                <div class="speaker-turn">
+                    <div class="speaker-label">${escapeHtml(formatSpeakerLabel(turn.speaker))}</div>
+                    <div class="speaker-text">${escapeHtml(turn.transcript)}</div>
+                </div>`).join('');
+}
+
+/**
+ * Pair the lines of a transcript with those of its translation; when the line counts differ,
+ * the whole texts form a single pair
+ */
+function pairTranscriptLines(original: string, translation: string): Array<[string, string]> {
+    const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+    const left = lines(original);
+    const right = lines(translation);
+
+    return left.length === right.length
+        ? left.map((line, index): [string, string] => [line, right[index] as string])
+        : [[left.join('\n'), right.join('\n')]];
+}
+
+/**
+ * Render a transcript with its translation as plain text, each turn followed by its translation
+ */
+export function formatParallelTranscript(original: string, translation: string): string {
+    return pairTranscriptLines(original, translation)
+        .map(([source, target]) => `${source}\n  > ${target.replace(/\n/g, '\n  > ')}`)
+        .join('\n');
+}
+
+/**
+ * Render a transcript next to its translation, row by row when both have one line per speaker turn
+ */
+export function renderParallelTranscriptHtml(original: string, translation: string, headings: [string, string]): string {
+    const rows = pairTranscriptLines(original, translation);
+
+    return `
+                <table class="parallel-transcript">
+                    <thead><tr><th>${escapeHtml(headings[0])}</th><th>${escapeHtml(headings[1])}</th></tr></thead>
+                    <tbody>${rows.map(([source, target]) => `
+                        <tr><td dir="auto">${escapeHtml(source)}</td><td dir="auto">${escapeHtml(target)}</td></tr>`).join('')}
+                    </tbody>
+                </table>`;
+}
@@ -0,0 +1,505 @@
+// Conversation summary schema, shared by the summary worker, the PDF and email workers and the
+// generate-summary edge function. supabase/functions/_shared/summarySchema.ts is a verbatim copy
+// for Deno; keep both identical and free of imports.
+
+export const SUMMARY_SCHEMA_VERSION = 1;
+
+export type SummarySentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+export type SummaryEntityType = 'person' | 'organization' | 'location' | 'date' | 'vehicle' | 'reference' | 'other';
+
+export interface SummaryActionItem {
+    description: string;
+    owner: string | null;
+    // ISO 8601 date (YYYY-MM-DD)
+    dueDate: string | null;
+}
+
+export interface SummaryEntity {
+    name: string;
+    type: SummaryEntityType;
+}
+
+export interface StructuredSummary {
+    schemaVersion: typeof SUMMARY_SCHEMA_VERSION;
+    overview: string;
+    keyPoints: string[];
+    decisions: string[];
+    actionItems: SummaryActionItem[];
+    entities: SummaryEntity[];
+    sentiment: {
+        overall: SummarySentiment;
+        rationale: string | null;
+    };
+    followUps: string[];
+    // Fields defined by the summary template's output schema, e.g. the parts of an incident report
+    details?: Record<string, unknown>;
+}
+
+// Sections of the base schema a summary template can require to be non-empty
+export type SummarySection = 'overview' | 'keyPoints' | 'decisions' | 'actionItems' | 'entities' | 'followUps';
+
+export const SUMMARY_SECTIONS: SummarySection[] = ['overview', 'keyPoints', 'decisions', 'actionItems', 'entities', 'followUps'];
+
+// What a summary template asks for on top of the base schema
+export interface SummaryRequirements {
+    requiredSections: SummarySection[];
+    // JSON Schema of the `details` object, null when the template has no fields of its own
+    detailsSchema: Record<string, unknown> | null;
+}
+
+export type SummaryValidation =
+    | { ok: true; summary: StructuredSummary }
+    | { ok: false; errors: string[] };
+
+const SENTIMENTS: SummarySentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+const ENTITY_TYPES: SummaryEntityType[] = ['person', 'organization', 'location', 'date', 'vehicle', 'reference', 'other'];
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+/**
+ * JSON Schema for StructuredSummary, in the strict subset accepted by OpenAI structured outputs and tools
+ */
+export const SUMMARY_JSON_SCHEMA = {
+    type: 'object',
+    additionalProperties: false,
+    required: ['schemaVersion', 'overview', 'keyPoints', 'decisions', 'actionItems', 'entities', 'sentiment', 'followUps'],
+    properties: {
+        schemaVersion: { type: 'integer', enum: [SUMMARY_SCHEMA_VERSION] },
+        overview: { type: 'string', description: 'A few sentences describing the whole conversation' },
+        keyPoints: stringList,
+        decisions: stringList,
+        actionItems: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['description', 'owner', 'dueDate'],
+                properties: {
+                    description: { type: 'string' },
+                    owner: { type: ['string', 'null'], description: 'Who is responsible, if stated' },
+                    dueDate: { type: ['string', 'null'], description: 'Due date as YYYY-MM-DD, if stated' },
+                },
+            },
+        },
+        entities: {
+            type: 'array',
+            items: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['name', 'type'],
+                properties: {
+                    name: { type: 'string' },
+                    type: { type: 'string', enum: ENTITY_TYPES },
+                },
+            },
+        },
+        sentiment: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['overall', 'rationale'],
+            properties: {
+                overall: { type: 'string', enum: SENTIMENTS },
+                rationale: { type: ['string', 'null'] },
+            },
+        },
+        followUps: { ...stringList, description: 'Open questions or things to check after the conversation' },
+    },
+};
+
+const DETAIL_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'object', 'array'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schemaTypes(schema: Record<string, unknown>): string[] {
+    const type = schema['type'];
+    return Array.isArray(type) ? type.filter((item): item is string => typeof item === 'string') : (typeof type === 'string' ? [type] : []);
+}
+
+/**
+ * Check that a template's details schema describes an object and only uses the JSON Schema keywords
+ * summaries are validated with: type, properties, required, items, enum and description
+ */
+export function checkDetailsSchema(schema: unknown): string[] {
+    if (isRecord(schema) && !schemaTypes(schema).includes('object')) {
+        return ['outputSchema must describe an object'];
+    }
+    return checkSchemaNode(schema, 'outputSchema');
+}
+
+function checkSchemaNode(schema: unknown, path: string): string[] {
+    if (!isRecord(schema)) {
+        return [`${path} must be an object`];
+    }
+
+    const errors: string[] = [];
+    const types = schemaTypes(schema);
+    if (types.length === 0 || types.some(type => !DETAIL_TYPES.includes(type))) {
+        errors.push(`${path}.type must be one or more of ${DETAIL_TYPES.join(', ')}`);
+    }
+    if (schema['enum'] !== undefined && !Array.isArray(schema['enum'])) {
+        errors.push(`${path}.enum must be an array`);
+    }
+
+    if (types.includes('object')) {
+        const properties = schema['properties'];
+        if (!isRecord(properties) || Object.keys(properties).length === 0) {
+            errors.push(`${path}.properties must list at least one property`);
+        } else {
+            for (const [name, property] of Object.entries(properties)) {
+                errors.push(...checkSchemaNode(property, `${path}.properties.${name}`));
+            }
+            const required = schema['required'];
+            if (required !== undefined && (!Array.isArray(required) || required.some(name => typeof name !== 'string' || !(name in properties)))) {
+                errors.push(`${path}.required must list names of its properties`);
+            }
+        }
+    }
+    if (types.includes('array')) {
+        errors.push(...checkSchemaNode(schema['items'], `${path}.items`));
+    }
+
+    return errors;
+}
+
+/**
+ * Convert a details schema to the strict form of OpenAI structured outputs: every property is
+ * required and closed to others, and properties that were optional may be null instead
+ */
+export function toStrictSchema(schema: Record<string, unknown>): Record<string, unknown> {
+    const strict: Record<string, unknown> = { ...schema };
+    const properties = schema['properties'];
+    const items = schema['items'];
+
+    if (isRecord(properties)) {
+        const required = Array.isArray(schema['required']) ? schema['required'] : [];
+        strict['properties'] = Object.fromEntries(Object.entries(properties).map(([name, property]) => {
+            const converted = toStrictSchema(isRecord(property) ? property : {});
+            const types = schemaTypes(converted);
+            if (!required.includes(name) && types.length > 0 && !types.includes('null')) {
+                converted['type'] = [...types, 'null'];
+                if (Array.isArray(converted['enum'])) {
+                    converted['enum'] = [...converted['enum'], null];
+                }
+            }
+            return [name, converted];
+        }));
+        strict['required'] = Object.keys(properties);
+        strict['additionalProperties'] = false;
+    }
+    if (isRecord(items)) {
+        strict['items'] = toStrictSchema(items);
+    }
+
+    return strict;
+}
+
+/**
+ * The summary JSON Schema with a template's details object added
+ */
+export function buildSummaryJsonSchema(detailsSchema: Record<string, unknown> | null): Record<string, unknown> {
+    if (!detailsSchema) {
+        return SUMMARY_JSON_SCHEMA;
+    }
+
+    return {
+        ...SUMMARY_JSON_SCHEMA,
+        required: [...SUMMARY_JSON_SCHEMA.required, 'details'],
+        properties: { ...SUMMARY_JSON_SCHEMA.properties, details: toStrictSchema(detailsSchema) },
+    };
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'null':
+            return value === null;
+        case 'object':
+            return isRecord(value);
+        case 'array':
+            return Array.isArray(value);
+        default:
+            return false;
+    }
+}
+
+function checkSchemaValue(value: unknown, schema: Record<string, unknown>, path: string, errors: string[]): void {
+    const types = schemaTypes(schema);
+    if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+        errors.push(`${path} must be ${types.join(' or ')}`);
+        return;
+    }
+    if (Array.isArray(schema['enum']) && !schema['enum'].includes(value)) {
+        errors.push(`${path} must be one of ${schema['enum'].map(String).join(', ')}`);
+    }
+
+    const properties = schema['properties'];
+    if (isRecord(value) && isRecord(properties)) {
+        const required = Array.isArray(schema['required']) ? schema['required'] : [];
+        for (const [name, property] of Object.entries(properties)) {
+            if (value[name] === undefined) {
+                if (required.includes(name)) {
+                    errors.push(`${path}.${name} is required`);
+                }
+            } else if (isRecord(property)) {
+                checkSchemaValue(value[name], property, `${path}.${name}`, errors);
+            }
+        }
+    }
+
+    const items = schema['items'];
+    if (Array.isArray(value) && isRecord(items)) {
+        value.forEach((item, index) => checkSchemaValue(item, items, `${path}[${index}]`, errors));
+    }
+}
+
+function checkStringList(value: unknown, path: string, errors: string[]): void {
+    if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array of strings`);
+        return;
+    }
+    value.forEach((item, index) => {
+        if (typeof item !== 'string') {
+            errors.push(`${path}[${index}] must be a string`);
+        }
+    });
+}
+
+function checkNullableString(value: unknown, path: string, errors: string[]): void {
+    if (value !== null && typeof value !== 'string') {
+        errors.push(`${path} must be a string or null`);
+    }
+}
+
+/**
+ * Check a parsed value against the summary schema, and a template's requirements when given,
+ * listing every problem found
+ */
+export function validateSummary(value: unknown, requirements?: SummaryRequirements): SummaryValidation {
+    const errors: string[] = [];
+
+    if (!isRecord(value)) {
+        return { ok: false, errors: ['summary must be an object'] };
+    }
+
+    if (value['schemaVersion'] !== SUMMARY_SCHEMA_VERSION) {
+        errors.push(`schemaVersion must be ${SUMMARY_SCHEMA_VERSION}`);
+    }
+    if (typeof value['overview'] !== 'string' || value['overview'].trim().length === 0) {
+        errors.push('overview must be a non-empty string');
+    }
+    checkStringList(value['keyPoints'], 'keyPoints', errors);
+    checkStringList(value['decisions'], 'decisions', errors);
+    checkStringList(value['followUps'], 'followUps', errors);
+
+    const actionItems = value['actionItems'];
+    if (!Array.isArray(actionItems)) {
+        errors.push('actionItems must be an array');
+    } else {
+        actionItems.forEach((item, index) => {
+            const path = `actionItems[${index}]`;
+            if (!isRecord(item)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            if (typeof item['description'] !== 'string' || item['description'].trim().length === 0) {
+                errors.push(`${path}.description must be a non-empty string`);
+            }
+            checkNullableString(item['owner'], `${path}.owner`, errors);
+            checkNullableString(item['dueDate'], `${path}.dueDate`, errors);
+            if (typeof item['dueDate'] === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(item['dueDate'])) {
+                errors.push(`${path}.dueDate must be formatted as YYYY-MM-DD`);
+            }
+        });
+    }
+
+    const entities = value['entities'];
+    if (!Array.isArray(entities)) {
+        errors.push('entities must be an array');
+    } else {
+        entities.forEach((entity, index) => {
+            const path = `entities[${index}]`;
+            if (!isRecord(entity)) {
+                errors.push(`${path} must be an object`);
+                return;
+            }
+            if (typeof entity['name'] !== 'string' || entity['name'].trim().length === 0) {
+                errors.push(`${path}.name must be a non-empty string`);
+            }
+            if (!(ENTITY_TYPES as unknown[]).includes(entity['type'])) {
+                errors.push(`${path}.type must be one of ${ENTITY_TYPES.join(', ')}`);
+            }
+        });
+    }
+
+    const sentiment = value['sentiment'];
+    if (!isRecord(sentiment)) {
+        errors.push('sentiment must be an object');
+    } else {
+        if (!(SENTIMENTS as unknown[]).includes(sentiment['overall'])) {
+            errors.push(`sentiment.overall must be one of ${SENTIMENTS.join(', ')}`);
+        }
+        checkNullableString(sentiment['rationale'], 'sentiment.rationale', errors);
+    }
+
+    const details = value['details'];
+    if (requirements) {
+        for (const section of requirements.requiredSections) {
+            if (section !== 'overview' && Array.isArray(value[section]) && (value[section] as unknown[]).length === 0) {
+                errors.push(`${section} must not be empty`);
+            }
+        }
+        if (requirements.detailsSchema) {
+            checkSchemaValue(details, toStrictSchema(requirements.detailsSchema), 'details', errors);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    // Rebuild from the checked fields so unknown properties are dropped
+    const summary: StructuredSummary = {
+        schemaVersion: SUMMARY_SCHEMA_VERSION,
+        overview: (value['overview'] as string).trim(),
+        keyPoints: value['keyPoints'] as string[],
+        decisions: value['decisions'] as string[],
+        actionItems: (actionItems as Record<string, unknown>[]).map(item => ({
+            description: item['description'] as string,
+            owner: item['owner'] as string | null,
+            dueDate: item['dueDate'] as string | null,
+        })),
+        entities: (entities as Record<string, unknown>[]).map(entity => ({
+            name: entity['name'] as string,
+            type: entity['type'] as SummaryEntityType,
+        })),
+        sentiment: {
+            overall: (sentiment as Record<string, unknown>)['overall'] as SummarySentiment,
+            rationale: (sentiment as Record<string, unknown>)['rationale'] as string | null,
+        },
+        followUps: value['followUps'] as string[],
+    };
+    if (isRecord(details)) {
+        summary.details = details;
+    }
+    return { ok: true, summary };
+}
+
+/**
+ * Parse model output as a summary, tolerating a Markdown code fence around the JSON
+ */
+export function parseSummaryJson(text: string, requirements?: SummaryRequirements): SummaryValidation {
+    const fenced = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/.exec(text);
+    try {
+        return validateSummary(JSON.parse(fenced ? fenced[1] as string : text), requirements);
+    } catch (error) {
+        return { ok: false, errors: [`output is not valid JSON: ${(error as Error).message}`] };
+    }
+}
+
+/**
+ * Read a stored summary, upgrading the unversioned shape written before the schema existed
+ * (string action items, importantDetails); returns null when nothing usable is stored
+ */
+export function readSummary(value: unknown): StructuredSummary | null {
+    const validation = validateSummary(value);
+    if (validation.ok) {
+        return validation.summary;
+    }
+    if (!isRecord(value) || value['schemaVersion'] !== undefined) {
+        return null;
+    }
+
+    const strings = (list: unknown): string[] => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+    const overview = typeof value['overview'] === 'string' && value['overview'].trim()
+        ? value['overview'].trim()
+        : (typeof value['fullSummary'] === 'string' ? value['fullSummary'].trim() : '');
+    if (!overview) {
+        return null;
+    }
+
+    return {
+        schemaVersion: SUMMARY_SCHEMA_VERSION,
+        overview,
+        keyPoints: [...strings(value['keyPoints']), ...strings(value['importantDetails'])],
+        decisions: strings(value['decisions']),
+        actionItems: strings(value['actionItems']).map(description => ({ description, owner: null, dueDate: null })),
+        entities: [],
+        sentiment: { overall: 'neutral', rationale: null },
+        followUps: [],
+    };
+}
+
+/**
+ * Render a summary as plain text, for the `summary` column and plain-text email
+ */
+export function formatSummaryText(summary: StructuredSummary): string {
+    const sections: string[] = [summary.overview];
+    const list = (title: string, items: string[]) => {
+        if (items.length > 0) {
+            sections.push(`${title}:\n${items.map(item => `- ${item}`).join('\n')}`);
+        }
+    };
+
+    list('Details', formatSummaryDetails(summary.details).map(({ label, value }) => `${label}: ${value}`));
+    list('Key points', summary.keyPoints);
+    list('Decisions', summary.decisions);
+    list('Action items', summary.actionItems.map(formatActionItem));
+    list('Follow-ups', summary.followUps);
+
+    return sections.join('\n\n');
+}
+
+/**
+ * Describe an action item with its owner and due date when known
+ */
+export function formatActionItem(item: SummaryActionItem): string {
+    const details = [item.owner ? `owner: ${item.owner}` : '', item.dueDate ? `due ${item.dueDate}` : ''].filter(Boolean);
+    return details.length > 0 ? `${item.description} (${details.join(', ')})` : item.description;
+}
+
+/**
+ * Turn a property name such as `incidentLocation` or `incident_location` into a label
+ */
+function toLabel(name: string): string {
+    const words = name.replace(/[_-]+/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').trim().toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatDetailValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(formatDetailValue).filter(Boolean).join('; ');
+    }
+    if (isRecord(value)) {
+        return Object.entries(value)
+            .map(([name, item]) => {
+                const text = formatDetailValue(item);
+                return text ? `${toLabel(name)}: ${text}` : '';
+            })
+            .filter(Boolean)
+            .join(', ');
+    }
+    return String(value);
+}
+
+/**
+ * List a summary's template details as labelled text, skipping empty fields
+ */
+export function formatSummaryDetails(details: Record<string, unknown> | undefined): Array<{ label: string; value: string }> {
+    return Object.entries(details || {})
+        .map(([name, value]) => ({ label: toLabel(name), value: formatDetailValue(value) }))
+        .filter(detail => detail.value.length > 0);
+}
@@ -0,0 +1,166 @@
+import fs from 'fs';
+import path from 'path';
+import { Context, ROOT_CONTEXT, Span, SpanOptions, SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ConsoleSpanExporter, ReadableSpan, SimpleSpanProcessor, SpanExporter, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { logger } from './logger';
+
+const TRACER_NAME = 'voice-chat-server';
+
+// W3C trace context headers, as carried in session records and job metadata
+export type TraceCarrier = Record<string, string>;
+
+export interface SpanRunOptions extends SpanOptions {
+    // Parent to use instead of the active context, e.g. one extracted from a job
+    parent?: Context;
+}
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Writes finished spans as JSON lines, for following a conversation locally without a collector
+ */
+class FileSpanExporter implements SpanExporter {
+    constructor(private filePath: string) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+        const lines = spans.map(span => JSON.stringify({
+            traceId: span.spanContext().traceId,
+            spanId: span.spanContext().spanId,
+            parentSpanId: span.parentSpanContext?.spanId,
+            name: span.name,
+            kind: span.kind,
+            startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+            durationMs: hrTimeToMilliseconds(span.duration),
+            status: span.status,
+            attributes: span.attributes,
+            events: span.events.map(event => ({ name: event.name, attributes: event.attributes })),
+        }));
+
+        fs.appendFile(this.filePath, lines.join('\n') + '\n', (error) => {
+            resultCallback(error ? { code: ExportResultCode.FAILED, error } : { code: ExportResultCode.SUCCESS });
+        });
+    }
+
+    async shutdown(): Promise<void> {}
+}
+
+function hrTimeToMilliseconds([seconds, nanoseconds]: [number, number]): number {
+    return seconds * 1000 + nanoseconds / 1e6;
+}
+
+/**
+ * Build the span processor for the exporter named in OTEL_TRACES_EXPORTER, or null when tracing is off
+ */
+function createSpanProcessor(): SpanProcessor | null {
+    const exporter = (process.env['OTEL_TRACES_EXPORTER'] || 'none').toLowerCase();
+
+    switch (exporter) {
+        case 'otlp':
+            // Endpoint and headers come from the standard OTEL_EXPORTER_OTLP_* variables
+            return new BatchSpanProcessor(new OTLPTraceExporter());
+        case 'console':
+            return new SimpleSpanProcessor(new ConsoleSpanExporter());
+        case 'file':
+            return new SimpleSpanProcessor(new FileSpanExporter(process.env['OTEL_TRACES_FILE_PATH'] || './logs/traces.jsonl'));
+        case 'none':
+            return null;
+        default:
+            logger.warn(`Unknown OTEL_TRACES_EXPORTER "${exporter}", tracing disabled`);
+            return null;
+    }
+}
+
+/**
+ * Register the tracer provider; spans are no-ops until this runs or when no exporter is configured
+ */
+export function initTracing(): void {
+    if (provider) {
+        return;
+    }
+
+    const spanProcessor = createSpanProcessor();
+    if (!spanProcessor) {
+        return;
+    }
+
+    provider = new NodeTracerProvider({
+        resource: resourceFromAttributes({
+            'service.name': process.env['OTEL_SERVICE_NAME'] || 'voice-chat-server',
+            'service.version': process.env['npm_package_version'] || '1.0.0',
+        }),
+        spanProcessors: [spanProcessor],
+    });
+    provider.register();
+
+    logger.info(`Tracing enabled with ${process.env['OTEL_TRACES_EXPORTER']} exporter`);
+}
+
+/**
+ * Flush pending spans and stop tracing
+ */
+export async function shutdownTracing(): Promise<void> {
+    if (!provider) {
+        return;
+    }
+
+    try {
+        await provider.shutdown();
+    } catch (error) {
+        logger.error('Error shutting down tracing:', error);
+    }
+    provider = null;
+}
+
+/**
+ * Run a function inside a new active span, recording a thrown error on it before rethrowing
+ */
+export async function withSpan<T>(name: string, options: SpanRunOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const { parent, ...spanOptions } = options;
+
+    return trace.getTracer(TRACER_NAME).startActiveSpan(name, spanOptions, parent ?? context.active(), async (span) => {
+        try {
+            return await fn(span);
+        } catch (error) {
+            recordSpanError(error, span);
+            throw error;
+        } finally {
+            span.end();
+        }
+    });
+}
+
+/**
+ * Mark a span, by default the active one, as failed
+ */
+export function recordSpanError(error: unknown, span: Span | undefined = trace.getActiveSpan()): void {
+    if (!span) {
+        return;
+    }
+
+    const exception = error instanceof Error ? error : new Error(String(error));
+    span.recordException(exception);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+}
+
+/**
+ * Serialize a context, by default the active one, so it can cross Redis and the queues.
+ * Returns undefined when there is nothing to carry, e.g. with tracing off.
+ */
+export function injectTraceContext(ctx: Context = context.active()): TraceCarrier | undefined {
+    const carrier: TraceCarrier = {};
+    propagation.inject(ctx, carrier);
+    return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
+
+/**
+ * Restore a context serialized by injectTraceContext; without one, spans start a new trace
+ */
+export function extractTraceContext(carrier: TraceCarrier | undefined): Context {
+    return carrier ? propagation.extract(ROOT_CONTEXT, carrier) : ROOT_CONTEXT;
+}
@@ -0,0 +1,86 @@
+// Rough characters per token for English-like text; close enough to budget prompts without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate how many model tokens a text takes
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a transcript into chunks of at most `maxTokens`, breaking between speaker
+ * turns (one per line) where possible, then between sentences, then between words
+ */
+export function chunkTranscript(transcript: string, maxTokens: number): string[] {
+    const units = transcript
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .flatMap(line => splitUnit(line, maxTokens));
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const unit of units) {
+        const tokens = estimateTokens(unit) + 1;
+        if (current.length > 0 && currentTokens + tokens > maxTokens) {
+            chunks.push(current.join('\n'));
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(unit);
+        currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+        chunks.push(current.join('\n'));
+    }
+
+    return chunks;
+}
+
+/**
+ * Break a turn that does not fit in a chunk into sentence-sized, then word-sized, pieces.
+ * Pieces of a labelled turn keep the speaker label so each chunk stays attributable.
+ */
+function splitUnit(line: string, maxTokens: number): string[] {
+    if (estimateTokens(line) <= maxTokens) {
+        return [line];
+    }
+
+    const label = /^([^:]{1,40}):\s/.exec(line);
+    const prefix = label ? `${label[1]}: ` : '';
+    const body = label ? line.slice(label[0].length) : line;
+    const budget = Math.max(maxTokens - estimateTokens(prefix), 1);
+
+    const pieces = packPieces(body.split(/(?<=[.!?])\s+/), budget, ' ')
+        .flatMap(piece => estimateTokens(piece) <= budget ? [piece] : packPieces(piece.split(/\s+/), budget, ' '));
+
+    return pieces.map(piece => prefix + piece);
+}
+
+/**
+ * Join consecutive parts while they fit the budget; a single oversized part is kept as is
+ */
+function packPieces(parts: string[], maxTokens: number, separator: string): string[] {
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const part of parts.filter(Boolean)) {
+        const candidate = current ? `${current}${separator}${part}` : part;
+        if (current && estimateTokens(candidate) > maxTokens) {
+            pieces.push(current);
+            current = part;
+        } else {
+            current = candidate;
+        }
+    }
+
+    if (current) {
+        pieces.push(current);
+    }
+
+    return pieces;
+}
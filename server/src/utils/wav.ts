@@ -0,0 +1,60 @@
+export interface WavFormat {
+    sampleRate: number;
+    channels: number;
+    encoding: string;
+}
+
+export const WAV_HEADER_SIZE = 44;
+
+interface WavEncoding {
+    formatTag: number;
+    bitsPerSample: number;
+}
+
+// WAVE format tag and sample width for each streamed encoding
+const WAV_ENCODINGS: Record<string, WavEncoding> = {
+    pcm_s16le: { formatTag: 1, bitsPerSample: 16 },
+    pcm_f32le: { formatTag: 3, bitsPerSample: 32 },
+    mulaw: { formatTag: 7, bitsPerSample: 8 },
+};
+
+const DEFAULT_ENCODING: WavEncoding = { formatTag: 3, bitsPerSample: 32 };
+
+/**
+ * Look up the WAVE encoding for a stream encoding, defaulting to 32-bit float
+ */
+function getWavEncoding(encoding: string): WavEncoding {
+    return WAV_ENCODINGS[encoding] || DEFAULT_ENCODING;
+}
+
+/**
+ * Get the number of bytes per second of audio for a format
+ */
+export function getByteRate(format: WavFormat): number {
+    return format.sampleRate * format.channels * (getWavEncoding(format.encoding).bitsPerSample / 8);
+}
+
+/**
+ * Build a canonical 44-byte RIFF/WAVE header for raw audio of the given length
+ */
+export function createWavHeader(format: WavFormat, dataLength: number): Buffer {
+    const { formatTag, bitsPerSample } = getWavEncoding(format.encoding);
+    const blockAlign = format.channels * (bitsPerSample / 8);
+    const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+    header.write('RIFF', 0, 'ascii');
+    header.writeUInt32LE(36 + dataLength, 4);
+    header.write('WAVE', 8, 'ascii');
+    header.write('fmt ', 12, 'ascii');
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(formatTag, 20);
+    header.writeUInt16LE(format.channels, 22);
+    header.writeUInt32LE(format.sampleRate, 24);
+    header.writeUInt32LE(getByteRate(format), 28);
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(bitsPerSample, 34);
+    header.write('data', 36, 'ascii');
+    header.writeUInt32LE(dataLength, 40);
+
+    return header;
+}
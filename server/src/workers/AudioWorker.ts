@@ -3,9 +3,18 @@ import { BaseWorker } from './BaseWorker';
 import { logger } from '../utils/logger';
 import { createClient } from '@supabase/supabase-js';
 import axios from 'axios';
+import { spawn } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import {
+    analyzeAudio,
+    AudioAnalysis,
+    ARCHIVAL_FORMAT,
+    decodeWavSamples,
+    encodeWav16,
+    parseWav,
+} from '../utils/audioAnalysis';
 
 export class AudioWorker extends BaseWorker {
     private supabase: any;
@@ -34,22 +43,35 @@ export class AudioWorker extends BaseWorker {
      */
     protected async processJob(job: QueueJob): Promise<any> {
         try {
-            const { sessionId, audioUrl, metadata } = job.data;
+            const { sessionId, conversationId, audioUrl, metadata } = job.data;
 
             logger.info(`Processing audio job for session: ${sessionId}`);
 
-            // Download audio from Speechmatics
+            // Download the session recording
             if (!audioUrl) {
                 throw new Error('Audio URL is required for processing');
             }
             const audioBuffer = await this.downloadAudio(audioUrl);
+            await this.reportProgress(job, 30);
 
-            // Upload to Supabase Storage
-            const storageUrl = await this.uploadToStorage(sessionId, audioBuffer, metadata);
+            // Analyze the recording and normalize it to the archival format
+            const analysis = this.analyze(audioBuffer);
+            const archival = analysis.status === 'corrupted' ? null : await this.normalize(audioBuffer, analysis);
+            await this.reportProgress(job, 60);
+
+            // Upload the archival copy to Supabase Storage
+            const storageUrl = archival ? await this.uploadToStorage(sessionId, archival, metadata) : null;
+            await this.reportProgress(job, 90);
 
-            // Update conversation record
-            await this.updateConversationRecord(sessionId, storageUrl, metadata);
+            // Record the analysis so downstream jobs can skip corrupted or silent audio
+            await this.saveAnalysis(sessionId, conversationId, analysis, storageUrl);
+            if (storageUrl) {
+                await this.updateConversationRecord(sessionId, storageUrl, metadata);
+            }
 
+            if (analysis.status !== 'ok') {
+                logger.warn(`Audio for session ${sessionId} flagged as ${analysis.status}: ${analysis.issues.join('; ')}`);
+            }
             logger.info(`Audio processing completed for session: ${sessionId}`);
 
             return {
@@ -57,6 +79,11 @@ export class AudioWorker extends BaseWorker {
                 originalUrl: audioUrl,
                 storageUrl,
                 size: audioBuffer.length,
+                status: analysis.status,
+                format: analysis.format,
+                duration: analysis.duration,
+                loudness: analysis.loudness,
+                issues: analysis.issues,
                 processedAt: new Date().toISOString(),
             };
         } catch (error) {
@@ -66,7 +93,7 @@ export class AudioWorker extends BaseWorker {
     }
 
     /**
-     * Download audio from Speechmatics
+     * Download the session recording
      */
     private async downloadAudio(audioUrl: string): Promise<Buffer> {
         try {
@@ -129,7 +156,140 @@ export class AudioWorker extends BaseWorker {
     }
 
     /**
-     * Update conversation record with audio URL
+     * Analyze a recording with the configured silence thresholds
+     */
+    private analyze(audioBuffer: Buffer): AudioAnalysis {
+        return analyzeAudio(audioBuffer, {
+            silenceThresholdDbfs: parseFloat(process.env['AUDIO_SILENCE_THRESHOLD_DBFS'] || '-50'),
+            silentRatio: parseFloat(process.env['AUDIO_SILENT_RATIO'] || '0.98'),
+        });
+    }
+
+    /**
+     * Convert a recording to 16-bit PCM WAV, natively for PCM WAV and through ffmpeg otherwise.
+     * Compressed input is also measured after decoding, since only PCM can be analyzed directly.
+     */
+    private async normalize(audioBuffer: Buffer, analysis: AudioAnalysis): Promise<Buffer | null> {
+        if (analysis.format === 'wav') {
+            const info = parseWav(audioBuffer);
+            const samples = decodeWavSamples(audioBuffer, info);
+            if (samples && info.sampleRate && info.channels) {
+                return encodeWav16(samples, info.sampleRate, info.channels);
+            }
+        }
+
+        try {
+            const archival = await this.transcodeWithFfmpeg(audioBuffer);
+            const decoded = this.analyze(archival);
+            if (!analysis.loudness && decoded.loudness) {
+                analysis.loudness = decoded.loudness;
+                analysis.duration = analysis.duration ?? decoded.duration;
+                if (decoded.status === 'silent') {
+                    analysis.status = 'silent';
+                    analysis.issues.push(...decoded.issues);
+                }
+            }
+            return archival;
+        } catch (error) {
+            logger.warn(`Could not normalize ${analysis.format} audio, keeping the original:`, error);
+            analysis.issues.push(`Not normalized: ${(error as Error).message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Decode any container ffmpeg understands to 16-bit PCM WAV
+     */
+    private transcodeWithFfmpeg(audioBuffer: Buffer): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const ffmpeg = spawn(process.env['FFMPEG_PATH'] || 'ffmpeg', [
+                '-hide_banner', '-loglevel', 'error',
+                '-i', 'pipe:0',
+                '-f', 'wav', '-acodec', ARCHIVAL_FORMAT.codec,
+                'pipe:1',
+            ]);
+            const chunks: Buffer[] = [];
+            let stderr = '';
+
+            ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+            ffmpeg.stderr.on('data', (chunk: Buffer) => {
+                stderr += chunk.toString();
+            });
+            ffmpeg.on('error', (error) => reject(new Error(`ffmpeg unavailable: ${error.message}`)));
+            ffmpeg.on('close', (code) => {
+                if (code === 0) {
+                    resolve(Buffer.concat(chunks));
+                } else {
+                    reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+                }
+            });
+
+            ffmpeg.stdin.on('error', () => undefined);
+            ffmpeg.stdin.end(audioBuffer);
+        });
+    }
+
+    /**
+     * Write the analysis to the recording's audio_files row, creating one if the recorder did not
+     */
+    private async saveAnalysis(sessionId: string, conversationId: string | undefined, analysis: AudioAnalysis, archivalUrl: string | null): Promise<void> {
+        const fields: Record<string, any> = {
+            format: analysis.format,
+            codec: analysis.codec,
+            status: analysis.status,
+            rms_dbfs: analysis.loudness?.rmsDbfs ?? null,
+            peak_dbfs: analysis.loudness?.peakDbfs ?? null,
+            silence_ratio: analysis.loudness?.silenceRatio ?? null,
+            issues: analysis.issues,
+            archival_url: archivalUrl,
+            archival_format: archivalUrl ? `${ARCHIVAL_FORMAT.format}/${ARCHIVAL_FORMAT.codec}` : null,
+            analyzed_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        };
+
+        // Keep the recorder's values when the header could not be read
+        if (analysis.duration !== null) {
+            fields['duration'] = Math.round(analysis.duration);
+        }
+        if (analysis.sampleRate !== null) {
+            fields['sample_rate'] = analysis.sampleRate;
+        }
+        if (analysis.channels !== null) {
+            fields['channels'] = analysis.channels;
+        }
+        if (analysis.bitRate !== null) {
+            fields['bit_rate'] = analysis.bitRate;
+        }
+
+        const query = this.supabase.from('audio_files').update(fields);
+        const { data, error } = await (conversationId ? query.eq('conversation_id', conversationId) : query.eq('session_id', sessionId))
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to save audio analysis: ${error.message}`);
+        }
+        if (data && data.length > 0) {
+            return;
+        }
+
+        const { error: insertError } = await this.supabase.from('audio_files').insert({
+            ...fields,
+            session_id: sessionId,
+            conversation_id: conversationId ?? null,
+            filename: `${sessionId}.${analysis.format}`,
+            file_size: analysis.size,
+            mime_type: archivalUrl ? ARCHIVAL_FORMAT.mimeType : null,
+            storage_path: archivalUrl || '',
+            storage_provider: 'supabase',
+        });
+
+        if (insertError) {
+            throw new Error(`Failed to save audio analysis: ${insertError.message}`);
+        }
+    }
+
+    /**
+     * Update conversation record with the archival audio URL
      */
     private async updateConversationRecord(sessionId: string, audioUrl: string, metadata?: any): Promise<void> {
         try {
@@ -138,9 +298,7 @@ export class AudioWorker extends BaseWorker {
             const { error } = await this.supabase
                 .from('conversations')
                 .update({
-                    audio_file_url: audioUrl,
-                    audio_processed_at: new Date().toISOString(),
-                    audio_file_size: metadata?.size || 0,
+                    audio_url: audioUrl,
                     updated_at: new Date().toISOString(),
                 })
                 .eq('session_id', sessionId);
@@ -169,53 +327,4 @@ export class AudioWorker extends BaseWorker {
             logger.warn(`Failed to clean up temporary file ${filePath}:`, error);
         }
     }
-
-    /**
-     * Validate audio file
-     */
-    private validateAudioFile(audioBuffer: Buffer): boolean {
-        try {
-            // Basic validation - check if it's a valid audio file
-            if (audioBuffer.length === 0) {
-                throw new Error('Audio file is empty');
-            }
-
-            // Check for common audio file headers
-            const header = audioBuffer.slice(0, 12);
-            const headerString = header.toString('ascii');
-
-            // Check for WAV header
-            if (headerString.startsWith('RIFF') && headerString.includes('WAVE')) {
-                return true;
-            }
-
-            // Check for other audio formats if needed
-            logger.warn('Audio file format validation failed - proceeding anyway');
-            return true;
-        } catch (error) {
-            logger.error('Audio file validation failed:', error);
-            return false;
-        }
-    }
-
-    /**
-     * Get audio file metadata
-     */
-    private getAudioMetadata(audioBuffer: Buffer): any {
-        try {
-            return {
-                size: audioBuffer.length,
-                format: 'wav', // Assuming WAV format from Speechmatics
-                duration: null, // Would need audio analysis library to determine
-                channels: 1, // Assuming mono from Speechmatics
-                sampleRate: 16000, // Assuming 16kHz from Speechmatics
-            };
-        } catch (error) {
-            logger.error('Failed to get audio metadata:', error);
-            return {
-                size: audioBuffer.length,
-                format: 'unknown',
-            };
-        }
-    }
-}
\ No newline at end of file
+}
@@ -1,7 +1,10 @@
 import Bull from 'bull';
 import { EventEmitter } from 'events';
+import { SpanKind } from '@opentelemetry/api';
 import { logger } from '../utils/logger';
+import { extractTraceContext, withSpan } from '../utils/tracing';
 import { QueueService, JobData, QueueJob } from '../services/QueueService';
+import { metrics } from '../services/MetricsService';
 
 export interface WorkerConfig {
     concurrency: number;
@@ -76,9 +79,29 @@ export abstract class BaseWorker extends EventEmitter {
                 },
             });
 
-            // Set up job processing
+            // Set up job processing, continuing the trace of whatever queued the job
             this.worker.process(async (job: Bull.Job<JobData>) => {
-                return this.processJob(job as QueueJob);
+                return withSpan(`${this.workerName} process`, {
+                    kind: SpanKind.CONSUMER,
+                    parent: extractTraceContext(job.data.metadata?.['traceContext']),
+                    attributes: {
+                        'messaging.destination.name': this.queueName,
+                        'messaging.message.id': String(job.id),
+                        'job.attempt': job.attemptsMade + 1,
+                        'session.id': job.data.sessionId,
+                        ...(job.data.conversationId ? { 'conversation.id': job.data.conversationId } : {}),
+                    },
+                }, async () => {
+                    const startedAt = Date.now();
+                    try {
+                        const result = await this.processJob(job as QueueJob);
+                        metrics.observeJob(this.workerName, 'completed', (Date.now() - startedAt) / 1000);
+                        return result;
+                    } catch (error) {
+                        metrics.observeJob(this.workerName, 'failed', (Date.now() - startedAt) / 1000);
+                        throw error;
+                    }
+                });
             });
 
             // Set up worker event handlers
@@ -244,6 +267,18 @@ export abstract class BaseWorker extends EventEmitter {
      */
     protected abstract processJob(job: QueueJob): Promise<any>;
 
+    /**
+     * Record how far a job has got (0-100) so it can be shown while the job runs
+     */
+    protected async reportProgress(job: QueueJob, percent: number): Promise<void> {
+        try {
+            await job.progress(percent);
+        } catch (error) {
+            logger.warn(`Failed to record progress for job ${job.id} in worker ${this.workerName}:`, error);
+        }
+        this.emit('jobProgress', { workerName: this.workerName, job, progress: percent });
+    }
+
     /**
      * Get worker status
      */
@@ -1,9 +1,13 @@
 import { QueueJob } from '../services/QueueService';
 import { BaseWorker } from './BaseWorker';
 import { logger } from '../utils/logger';
+import { metrics } from '../services/MetricsService';
 import { createClient } from '@supabase/supabase-js';
 import nodemailer from 'nodemailer';
 import axios from 'axios';
+import { escapeHtml, formatParallelTranscript, formatSpeakerTranscript, renderParallelTranscriptHtml, renderSpeakerTurnsHtml } from '../utils/speakers';
+import { getLanguageName, isRightToLeft } from '../utils/languages';
+import { formatActionItem, formatSummaryDetails, formatSummaryText, readSummary } from '../utils/summarySchema';
 
 export class EmailWorker extends BaseWorker {
     private supabase: any;
@@ -81,12 +85,14 @@ export class EmailWorker extends BaseWorker {
 
             // Prepare email content
             const emailContent = await this.prepareEmailContent(conversation, metadata);
+            await this.reportProgress(job, 40);
 
             // Send email
             if (!sessionId) {
                 throw new Error('Session ID is required for email delivery');
             }
             const emailResult = await this.sendEmail(conversation, emailContent, metadata);
+            await this.reportProgress(job, 90);
 
             // Update conversation record
             await this.updateConversationRecord(conversationId, emailResult, metadata);
@@ -132,8 +138,9 @@ export class EmailWorker extends BaseWorker {
      */
     private async prepareEmailContent(conversation: any, metadata?: any): Promise<any> {
         try {
-            const language = metadata?.language || 'en';
-            const isRTL = language === 'ar' || language === 'he';
+            // Labels follow the report language, which may differ from the conversation's
+            const language = conversation.report_language || metadata?.language || 'en';
+            const isRTL = isRightToLeft(language);
 
             // Generate email subject
             const subject = this.generateEmailSubject(conversation, language);
@@ -181,6 +188,7 @@ export class EmailWorker extends BaseWorker {
     private generateEmailHtml(conversation: any, language: string, isRTL: boolean): string {
         const direction = isRTL ? 'rtl' : 'ltr';
         const textAlign = isRTL ? 'right' : 'left';
+        const summary = readSummary(conversation.summary_data);
 
         return `
         <!DOCTYPE html>
@@ -239,6 +247,32 @@ export class EmailWorker extends BaseWorker {
                     border-left: 4px solid #007bff;
                     margin-bottom: 20px;
                 }
+                .speaker-turn {
+                    margin-bottom: 10px;
+                }
+                .speaker-label {
+                    font-weight: bold;
+                    color: #007bff;
+                    font-size: 13px;
+                }
+                .speaker-text {
+                    color: #212529;
+                }
+                .parallel-transcript {
+                    width: 100%;
+                    border-collapse: collapse;
+                }
+                .parallel-transcript th {
+                    text-align: start;
+                    border-bottom: 2px solid #dee2e6;
+                    padding: 6px;
+                }
+                .parallel-transcript td {
+                    width: 50%;
+                    vertical-align: top;
+                    border-bottom: 1px solid #dee2e6;
+                    padding: 6px;
+                }
                 .footer {
                     margin-top: 30px;
                     text-align: center;
@@ -283,13 +317,48 @@ export class EmailWorker extends BaseWorker {
                     </div>
                 </div>
 
-                ${conversation.summary ? `
+                ${summary ? `
+                <div class="summary">
+                    <h3>${language === 'ar' ? 'ملخص المحادثة:' : language === 'he' ? 'סיכום השיחה:' : 'Conversation Summary:'}</h3>
+                    <p>${escapeHtml(summary.overview)}</p>
+                    ${formatSummaryDetails(summary.details).length > 0 ? `
+                    <ul>${formatSummaryDetails(summary.details).map(({ label, value }) => `<li><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</li>`).join('')}</ul>
+                    ` : ''}
+                    ${summary.keyPoints.length > 0 ? `
+                    <h4>${language === 'ar' ? 'النقاط الرئيسية:' : language === 'he' ? 'נקודות עיקריות:' : 'Key Points:'}</h4>
+                    <ul>${summary.keyPoints.map(point => `<li>${escapeHtml(point)}</li>`).join('')}</ul>
+                    ` : ''}
+                    ${summary.actionItems.length > 0 ? `
+                    <h4>${language === 'ar' ? 'الإجراءات المطلوبة:' : language === 'he' ? 'משימות לביצוע:' : 'Action Items:'}</h4>
+                    <ul>${summary.actionItems.map(item => `<li>${escapeHtml(formatActionItem(item))}</li>`).join('')}</ul>
+                    ` : ''}
+                    ${summary.followUps.length > 0 ? `
+                    <h4>${language === 'ar' ? 'للمتابعة:' : language === 'he' ? 'למעקב:' : 'Follow-ups:'}</h4>
+                    <ul>${summary.followUps.map(followUp => `<li>${escapeHtml(followUp)}</li>`).join('')}</ul>
+                    ` : ''}
+                </div>
+                ` : conversation.summary ? `
                 <div class="summary">
                     <h3>${language === 'ar' ? 'ملخص المحادثة:' : language === 'he' ? 'סיכום השיחה:' : 'Conversation Summary:'}</h3>
                     <p>${conversation.summary}</p>
                 </div>
                 ` : ''}
 
+                ${conversation.transcript_translation && conversation.transcript ? `
+                <div class="info-section">
+                    <h3>${language === 'ar' ? 'المحادثة:' : language === 'he' ? 'השיחה:' : 'Conversation:'}</h3>
+                    ${renderParallelTranscriptHtml(conversation.transcript, conversation.transcript_translation, [
+                        getLanguageName(conversation.language || 'en'),
+                        getLanguageName(conversation.transcript_translation_language || language),
+                    ])}
+                </div>
+                ` : conversation.speaker_turns && conversation.speaker_turns.length > 0 ? `
+                <div class="info-section">
+                    <h3>${language === 'ar' ? 'المحادثة:' : language === 'he' ? 'השיחה:' : 'Conversation:'}</h3>
+                    ${renderSpeakerTurnsHtml(conversation.speaker_turns)}
+                </div>
+                ` : ''}
+
                 ${conversation.pdf_report_url ? `
                 <div style="text-align: center; margin: 20px 0;">
                     <a href="${conversation.pdf_report_url}" class="button">
@@ -312,8 +381,14 @@ export class EmailWorker extends BaseWorker {
      * Generate email text content
      */
     private generateEmailText(conversation: any, language: string): string {
-        const summary = conversation.summary || 'No summary available';
+        const structured = readSummary(conversation.summary_data);
+        const summary = structured ? formatSummaryText(structured) : conversation.summary || 'No summary available';
         const date = new Date(conversation.created_at).toLocaleDateString();
+        const turns = conversation.transcript_translation && conversation.transcript
+            ? formatParallelTranscript(conversation.transcript, conversation.transcript_translation)
+            : conversation.speaker_turns && conversation.speaker_turns.length > 0
+                ? formatSpeakerTranscript(conversation.speaker_turns)
+                : '';
 
         if (language === 'ar') {
             return `
@@ -326,7 +401,10 @@ export class EmailWorker extends BaseWorker {
 
 ملخص المحادثة:
 ${summary}
-
+${turns ? `
+المحادثة:
+${turns}
+` : ''}
 تم إنشاء هذا التقرير تلقائياً بواسطة نظام Voice Chat Widget.
 معرف التقرير: ${conversation.id}
             `;
@@ -341,7 +419,10 @@ ${summary}
 
 סיכום השיחה:
 ${summary}
-
+${turns ? `
+השיחה:
+${turns}
+` : ''}
 דוח זה נוצר אוטומטית על ידי מערכת Voice Chat Widget.
 מזהה דוח: ${conversation.id}
             `;
@@ -356,7 +437,10 @@ Language: ${conversation.language || 'English'}
 
 Conversation Summary:
 ${summary}
-
+${turns ? `
+Conversation:
+${turns}
+` : ''}
 This report was generated automatically by the Voice Chat Widget system.
 Report ID: ${conversation.id}
             `;
@@ -418,7 +502,8 @@ Report ID: ${conversation.id}
      */
     private async sendEmail(conversation: any, emailContent: any, metadata?: any): Promise<any> {
         try {
-            const officerEmail = conversation.officer_email;
+            // Pipelines fan email out per recipient; otherwise the report goes to the officer
+            const officerEmail = metadata?.recipient || conversation.officer_email;
             if (!officerEmail) {
                 throw new Error('Officer email not found');
             }
@@ -432,7 +517,7 @@ Report ID: ${conversation.id}
                 attachments: emailContent.attachments,
             };
 
-            const result = await this.transporter.sendMail(mailOptions);
+            const result = await metrics.trackExternalCall('smtp', () => this.transporter.sendMail(mailOptions));
 
             logger.info(`Email sent successfully to ${officerEmail}:`, result.messageId);
 
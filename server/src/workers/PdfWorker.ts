@@ -1,11 +1,15 @@
 import { QueueJob } from '../services/QueueService';
 import { BaseWorker } from './BaseWorker';
 import { logger } from '../utils/logger';
+import { metrics } from '../services/MetricsService';
 import { createClient } from '@supabase/supabase-js';
 import puppeteer from 'puppeteer';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { escapeHtml, renderParallelTranscriptHtml, renderSpeakerTurnsHtml } from '../utils/speakers';
+import { getLanguageName, isRightToLeft } from '../utils/languages';
+import { StructuredSummary, formatActionItem, formatSummaryDetails, readSummary } from '../utils/summarySchema';
 
 export class PdfWorker extends BaseWorker {
     private supabase: any;
@@ -49,13 +53,16 @@ export class PdfWorker extends BaseWorker {
             }
 
             // Generate PDF
+            await this.reportProgress(job, 20);
             const pdfBuffer = await this.generatePdf(conversation, metadata);
+            await this.reportProgress(job, 60);
 
             // Upload PDF to storage
             if (!sessionId) {
                 throw new Error('Session ID is required for PDF upload');
             }
             const pdfUrl = await this.uploadPdfToStorage(sessionId, pdfBuffer, metadata);
+            await this.reportProgress(job, 90);
 
             // Update conversation record
             await this.updateConversationRecord(conversationId, pdfUrl, metadata);
@@ -106,30 +113,32 @@ export class PdfWorker extends BaseWorker {
         try {
             logger.info('Generating PDF...');
 
-            // Launch browser
-            browser = await puppeteer.launch({
-                headless: true,
-                args: ['--no-sandbox', '--disable-setuid-sandbox'],
-            });
-
-            const page = await browser.newPage();
-
             // Generate HTML content
             const htmlContent = this.generateHtmlContent(conversation, metadata);
 
-            // Set content
-            await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+            const pdfBuffer: Buffer = await metrics.trackExternalCall('puppeteer', async () => {
+                // Launch browser
+                browser = await puppeteer.launch({
+                    headless: true,
+                    args: ['--no-sandbox', '--disable-setuid-sandbox'],
+                });
 
-            // Generate PDF
-            const pdfBuffer = await page.pdf({
-                format: 'A4',
-                printBackground: true,
-                margin: {
-                    top: '20mm',
-                    right: '20mm',
-                    bottom: '20mm',
-                    left: '20mm',
-                },
+                const page = await browser.newPage();
+
+                // Set content
+                await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+                // Generate PDF
+                return page.pdf({
+                    format: 'A4',
+                    printBackground: true,
+                    margin: {
+                        top: '20mm',
+                        right: '20mm',
+                        bottom: '20mm',
+                        left: '20mm',
+                    },
+                });
             });
 
             logger.info('PDF generated successfully');
@@ -148,8 +157,10 @@ export class PdfWorker extends BaseWorker {
      * Generate HTML content for PDF
      */
     private generateHtmlContent(conversation: any, metadata?: any): string {
-        const language = metadata?.language || 'en';
-        const isRTL = language === 'ar' || language === 'he';
+        const language = conversation.report_language || metadata?.language || 'en';
+        const isRTL = isRightToLeft(language);
+        const summary = readSummary(conversation.summary_data);
+        const sourceLanguage = conversation.language || metadata?.language || 'en';
 
         return `
         <!DOCTYPE html>
@@ -224,6 +235,39 @@ export class PdfWorker extends BaseWorker {
                     font-size: 14px;
                     line-height: 1.5;
                 }
+                .speaker-turn {
+                    margin-bottom: 12px;
+                    page-break-inside: avoid;
+                }
+                .speaker-label {
+                    font-weight: bold;
+                    color: #007bff;
+                    font-size: 13px;
+                    margin-bottom: 2px;
+                }
+                .speaker-text {
+                    color: #212529;
+                    font-size: 14px;
+                }
+                .parallel-transcript {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 13px;
+                }
+                .parallel-transcript th {
+                    text-align: start;
+                    color: #007bff;
+                    border-bottom: 2px solid #dee2e6;
+                    padding: 6px 8px;
+                }
+                .parallel-transcript td {
+                    width: 50%;
+                    vertical-align: top;
+                    white-space: pre-wrap;
+                    border-bottom: 1px solid #dee2e6;
+                    padding: 6px 8px;
+                    page-break-inside: avoid;
+                }
                 .summary {
                     background: #e7f3ff;
                     padding: 20px;
@@ -281,6 +325,16 @@ export class PdfWorker extends BaseWorker {
                         <div class="info-label">Language:</div>
                         <div class="info-value">${conversation.language || 'English'}</div>
                     </div>
+                    ${conversation.report_language && conversation.report_language !== sourceLanguage ? `
+                    <div class="info-item">
+                        <div class="info-label">Report Language:</div>
+                        <div class="info-value">${getLanguageName(conversation.report_language)}</div>
+                    </div>` : ''}
+                    ${conversation.redaction_policy && conversation.redaction_policy !== 'none' ? `
+                    <div class="info-item">
+                        <div class="info-label">Personal Data:</div>
+                        <div class="info-value">Redacted (${conversation.redaction_policy})</div>
+                    </div>` : ''}
                     <div class="info-item">
                         <div class="info-label">Officer Email:</div>
                         <div class="info-value">${conversation.officer_email || 'N/A'}</div>
@@ -292,42 +346,33 @@ export class PdfWorker extends BaseWorker {
                 </div>
             </div>
 
-            ${conversation.transcript ? `
+            ${conversation.transcript_translation && conversation.transcript ? `
+            <div class="section">
+                <h2>Transcript</h2>
+                ${renderParallelTranscriptHtml(conversation.transcript, conversation.transcript_translation, [
+                    `Original (${getLanguageName(sourceLanguage)})`,
+                    getLanguageName(conversation.transcript_translation_language || language),
+                ])}
+            </div>
+            ` : conversation.speaker_turns && conversation.speaker_turns.length > 0 ? `
+            <div class="section">
+                <h2>Transcript</h2>
+                ${renderSpeakerTurnsHtml(conversation.speaker_turns)}
+            </div>
+            ` : conversation.transcript ? `
             <div class="section">
                 <h2>Transcript</h2>
                 <div class="transcript">${conversation.transcript}</div>
             </div>
             ` : ''}
 
-            ${conversation.summary ? `
+            ${summary ? this.renderSummaryHtml(summary) : conversation.summary ? `
             <div class="section">
                 <h2>Summary</h2>
                 <div class="summary">${conversation.summary}</div>
             </div>
             ` : ''}
 
-            ${conversation.summary_data ? `
-            <div class="section">
-                <h2>Detailed Analysis</h2>
-                <div class="summary">
-                    ${conversation.summary_data.keyPoints && conversation.summary_data.keyPoints.length > 0 ? `
-                    <h3>Key Points:</h3>
-                    ${conversation.summary_data.keyPoints.map((point: string) => `<div class="summary-item">${point}</div>`).join('')}
-                    ` : ''}
-                    
-                    ${conversation.summary_data.decisions && conversation.summary_data.decisions.length > 0 ? `
-                    <h3>Decisions Made:</h3>
-                    ${conversation.summary_data.decisions.map((decision: string) => `<div class="summary-item">${decision}</div>`).join('')}
-                    ` : ''}
-                    
-                    ${conversation.summary_data.actionItems && conversation.summary_data.actionItems.length > 0 ? `
-                    <h3>Action Items:</h3>
-                    ${conversation.summary_data.actionItems.map((item: string) => `<div class="summary-item">${item}</div>`).join('')}
-                    ` : ''}
-                </div>
-            </div>
-            ` : ''}
-
             <div class="footer">
                 <p>This report was generated automatically by the Voice Chat Widget system.</p>
                 <p>Report ID: ${conversation.id} | Generated: ${new Date().toISOString()}</p>
@@ -337,6 +382,43 @@ export class PdfWorker extends BaseWorker {
         `;
     }
 
+    /**
+     * Render the structured summary sections, leaving out empty ones
+     */
+    private renderSummaryHtml(summary: StructuredSummary): string {
+        const list = (title: string, items: string[]) => items.length > 0 ? `
+                    <h3>${title}:</h3>
+                    ${items.map(item => `<div class="summary-item">${escapeHtml(item)}</div>`).join('')}` : '';
+        const details = formatSummaryDetails(summary.details);
+
+        return `
+            <div class="section">
+                <h2>Summary</h2>
+                <div class="summary">${escapeHtml(summary.overview)}</div>
+            </div>
+            ${details.length > 0 ? `
+            <div class="section">
+                <h2>Report Details</h2>
+                <div class="summary">
+                    ${details.map(({ label, value }) => `<div class="summary-item"><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</div>`).join('')}
+                </div>
+            </div>` : ''}
+
+            <div class="section">
+                <h2>Detailed Analysis</h2>
+                <div class="summary">
+                    ${list('Key Points', summary.keyPoints)}
+                    ${list('Decisions Made', summary.decisions)}
+                    ${list('Action Items', summary.actionItems.map(formatActionItem))}
+                    ${list('Follow-ups', summary.followUps)}
+                    ${list('People, Places and References', summary.entities.map(entity => `${entity.name} (${entity.type})`))}
+                    <h3>Sentiment:</h3>
+                    <div class="summary-item">${escapeHtml(summary.sentiment.overall)}${summary.sentiment.rationale ? ` &mdash; ${escapeHtml(summary.sentiment.rationale)}` : ''}</div>
+                </div>
+            </div>
+        `;
+    }
+
     /**
      * Upload PDF to storage
      */
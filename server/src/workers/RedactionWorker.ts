@@ -0,0 +1,233 @@
+import { QueueJob } from '../services/QueueService';
+import { BaseWorker } from './BaseWorker';
+import { logger } from '../utils/logger';
+import { AppRegistrationService } from '../services/AppRegistrationService';
+import { ConversationOriginalService } from '../services/ConversationOriginalService';
+import { Redactor, createPiiDetectors } from '../services/PiiRedactor';
+import { ConversationOriginal, PiiType, RedactedConversation, RedactionPolicy } from '../types';
+import { createClient } from '@supabase/supabase-js';
+
+export class RedactionWorker extends BaseWorker {
+    private supabase: any;
+    private appRegistrationService!: AppRegistrationService;
+    private originalService!: ConversationOriginalService;
+
+    constructor(queueService: any) {
+        super('pii-redaction', 'redaction-worker', queueService);
+        this.initializeServices();
+    }
+
+    /**
+     * Initialize services
+     */
+    private initializeServices(): void {
+        // Conversations and segments are overwritten with redacted text, which needs the service role
+        const supabaseUrl = process.env['SUPABASE_URL'];
+        const supabaseKey = process.env['SUPABASE_SERVICE_ROLE_KEY'] || process.env['SUPABASE_ANON_KEY'];
+
+        if (!supabaseUrl || !supabaseKey) {
+            throw new Error('Supabase configuration missing');
+        }
+
+        this.supabase = createClient(supabaseUrl, supabaseKey);
+        this.appRegistrationService = new AppRegistrationService();
+        this.originalService = new ConversationOriginalService(this.supabase);
+    }
+
+    /**
+     * Process redaction job
+     */
+    protected async processJob(job: QueueJob): Promise<any> {
+        try {
+            const { sessionId, conversationId, metadata } = job.data;
+
+            logger.info(`Processing redaction job for session: ${sessionId}`);
+
+            if (!conversationId) {
+                throw new Error('Conversation ID is required for redaction');
+            }
+
+            const settings = await this.appRegistrationService.getRedactionSettings(metadata?.appName);
+            const hashSecret = process.env['REDACTION_HASH_SECRET'];
+            let policy: RedactionPolicy = settings.policy;
+            if (policy === 'hash' && !hashSecret) {
+                logger.warn(`REDACTION_HASH_SECRET is not set, masking personal data of session ${sessionId} instead of hashing it`);
+                policy = 'mask';
+            }
+
+            if (policy === 'none') {
+                return {
+                    sessionId,
+                    policy,
+                    entityCount: 0,
+                    processedAt: new Date().toISOString(),
+                };
+            }
+
+            // A retried job starts over from the originals its first attempt saved
+            const original = await this.loadOriginal(conversationId, metadata?.appName);
+            const sessionTranscript = await this.loadSessionTranscript(sessionId);
+            await this.reportProgress(job, 30);
+
+            // One redactor for the whole conversation, so each value keeps its replacement everywhere
+            const redactor = new Redactor(createPiiDetectors(settings.names), policy, hashSecret);
+            const redactedTranscript = redactor.redact(original.transcript || '');
+            // On a retry the session row may already hold redacted text, which redacting again leaves as it is
+            const redactedSessionTranscript = sessionTranscript === null ? null : redactor.redact(sessionTranscript);
+            const speakerTurns = original.speaker_turns?.map(turn => ({ ...turn, transcript: redactor.redact(turn.transcript) })) || null;
+            const segments = original.segments
+                .map(segment => ({ seq: segment.seq, transcript: redactor.redact(segment.transcript), original: segment.transcript }))
+                .filter(segment => segment.transcript !== segment.original);
+            const entities = redactor.getEntities();
+            await this.reportProgress(job, 60);
+
+            // Keep the originals before overwriting anything with redacted text
+            if (entities.length > 0) {
+                await this.originalService.save({ ...original, policy, entities });
+            }
+            await this.updateConversationRecord(conversationId, redactedTranscript, speakerTurns, policy);
+            await this.updateSegments(conversationId, segments);
+            if (redactedSessionTranscript !== null) {
+                await this.updateSessionTranscript(sessionId, redactedSessionTranscript);
+            }
+
+            const entityTypes: Partial<Record<PiiType, number>> = {};
+            entities.forEach(entity => {
+                entityTypes[entity.type] = (entityTypes[entity.type] || 0) + 1;
+            });
+
+            logger.info(`Redaction completed for session: ${sessionId} (${entities.length} value(s) replaced)`);
+
+            // Applied to the session store's copies by the node that ran the job
+            const redacted: RedactedConversation = {
+                conversation_id: conversationId,
+                session_id: sessionId,
+                transcript: redactedTranscript,
+                session_transcript: redactedSessionTranscript,
+                speaker_turns: speakerTurns,
+                segments: segments.map(({ seq, transcript }) => ({ seq, transcript })),
+            };
+
+            return {
+                sessionId,
+                policy,
+                redacted,
+                entityCount: entities.length,
+                entityTypes,
+                processedAt: new Date().toISOString(),
+            };
+        } catch (error) {
+            logger.error(`Redaction failed for session ${job.data.sessionId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * The conversation's content before redaction: the saved originals, or the stored conversation
+     */
+    private async loadOriginal(conversationId: string, appName: string | undefined): Promise<ConversationOriginal> {
+        const saved = await this.originalService.get(conversationId);
+        if (saved) {
+            return saved;
+        }
+
+        const { data: conversation, error } = await this.supabase
+            .from('conversations')
+            .select('app_name, transcript, speaker_turns')
+            .eq('id', conversationId)
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to get conversation data: ${error.message}`);
+        }
+
+        const { data: segments, error: segmentsError } = await this.supabase
+            .from('transcript_segments')
+            .select('seq, transcript, words')
+            .eq('conversation_id', conversationId)
+            .order('seq', { ascending: true });
+
+        if (segmentsError) {
+            throw new Error(`Failed to load transcript segments of conversation ${conversationId}: ${segmentsError.message}`);
+        }
+
+        return {
+            conversation_id: conversationId,
+            app_name: conversation.app_name || appName || '',
+            policy: 'none',
+            transcript: conversation.transcript ?? null,
+            speaker_turns: conversation.speaker_turns ?? null,
+            segments: segments || [],
+            entities: [],
+        };
+    }
+
+    /**
+     * The transcript stored on the session row, if there is one
+     */
+    private async loadSessionTranscript(sessionId: string): Promise<string | null> {
+        const { data, error } = await this.supabase
+            .from('sessions')
+            .select('transcript')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to get session ${sessionId}: ${error.message}`);
+        }
+
+        return data?.transcript ?? null;
+    }
+
+    /**
+     * Replace the session row's transcript with its redacted text
+     */
+    private async updateSessionTranscript(sessionId: string, transcript: string): Promise<void> {
+        const { error } = await this.supabase
+            .from('sessions')
+            .update({ transcript, updated_at: new Date().toISOString() })
+            .eq('id', sessionId);
+
+        if (error) {
+            throw new Error(`Failed to redact session ${sessionId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Replace the conversation's transcript and speaker turns with their redacted text
+     */
+    private async updateConversationRecord(conversationId: string, transcript: string, speakerTurns: ConversationOriginal['speaker_turns'], policy: RedactionPolicy): Promise<void> {
+        const now = new Date().toISOString();
+        const { error } = await this.supabase
+            .from('conversations')
+            .update({
+                transcript,
+                speaker_turns: speakerTurns,
+                redaction_policy: policy,
+                redacted_at: now,
+                updated_at: now,
+            })
+            .eq('id', conversationId);
+
+        if (error) {
+            throw new Error(`Failed to update conversation record: ${error.message}`);
+        }
+    }
+
+    /**
+     * Replace the text of segments that contained personal data; their word timings carry the same words, so they are dropped
+     */
+    private async updateSegments(conversationId: string, segments: Array<{ seq: number; transcript: string }>): Promise<void> {
+        for (const segment of segments) {
+            const { error } = await this.supabase
+                .from('transcript_segments')
+                .update({ transcript: segment.transcript, words: [] })
+                .eq('conversation_id', conversationId)
+                .eq('seq', segment.seq);
+
+            if (error) {
+                throw new Error(`Failed to redact transcript segment ${conversationId}#${segment.seq}: ${error.message}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { QueueJob } from '../services/QueueService';
+import { BaseWorker } from './BaseWorker';
+import { logger } from '../utils/logger';
+import { AppRegistrationService } from '../services/AppRegistrationService';
+import { MinIOInitializer } from '../services/MinIOInitializer';
+import { RetentionService } from '../services/RetentionService';
+
+export class RetentionWorker extends BaseWorker {
+    private retentionService!: RetentionService;
+
+    constructor(queueService: any) {
+        super('retention-purge', 'retention-worker', queueService);
+        this.initializeServices();
+    }
+
+    /**
+     * Initialize services
+     */
+    private initializeServices(): void {
+        // Recordings live in MinIO; without credentials only database rows and Supabase Storage are purged
+        const minio = process.env['MINIO_ACCESS_KEY'] && process.env['MINIO_SECRET_KEY']
+            ? new MinIOInitializer({
+                endPoint: process.env['MINIO_ENDPOINT'] || 'localhost',
+                port: parseInt(process.env['MINIO_PORT'] || '9000'),
+                useSSL: process.env['MINIO_USE_SSL'] === 'true',
+                accessKey: process.env['MINIO_ACCESS_KEY'],
+                secretKey: process.env['MINIO_SECRET_KEY'],
+                region: process.env['MINIO_REGION'] || 'us-east-1',
+            })
+            : null;
+
+        this.retentionService = new RetentionService(minio, new AppRegistrationService());
+    }
+
+    /**
+     * Process retention purge job
+     */
+    protected async processJob(job: QueueJob): Promise<any> {
+        try {
+            const { metadata } = job.data;
+
+            logger.info(`Processing retention purge job ${job.id}`);
+
+            const report = await this.retentionService.run({
+                dryRun: metadata?.['dryRun'] === true,
+                ...(metadata?.['appName'] ? { appName: metadata['appName'] } : {}),
+            });
+            await this.reportProgress(job, 100);
+
+            return {
+                runId: report.runId,
+                dryRun: report.dryRun,
+                actionCount: report.actions.length,
+                heldApps: report.heldApps,
+                errors: report.errors,
+                processedAt: report.finishedAt,
+            };
+        } catch (error) {
+            logger.error(`Retention purge job ${job.id} failed:`, error);
+            throw error;
+        }
+    }
+}
@@ -1,12 +1,46 @@
 import { QueueJob } from '../services/QueueService';
 import { BaseWorker } from './BaseWorker';
 import { logger } from '../utils/logger';
+import { AppRegistrationService, SummarySettings } from '../services/AppRegistrationService';
+import { SummaryCompletion, SummaryProvider, SummaryRequest, createSummaryProvider, isSummaryProviderName } from '../services/SummaryProvider';
+import { DEFAULT_SUMMARY_TEMPLATE, SummaryTemplateService } from '../services/SummaryTemplateService';
+import { SummaryProviderName, SummaryTemplate } from '../types';
+import { chunkTranscript, estimateTokens } from '../utils/transcriptChunks';
+import { getLanguageName } from '../utils/languages';
+import {
+    SUMMARY_SCHEMA_VERSION,
+    StructuredSummary,
+    SummaryRequirements,
+    buildSummaryJsonSchema,
+    formatSummaryText,
+    parseSummaryJson,
+} from '../utils/summarySchema';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+
+// Provider state for one summary; once the app's provider fails, the rest of the summary uses the fallback
+interface SummaryRun {
+    settings: SummarySettings;
+    fallbackReason?: string;
+    // Template requirements the fallback's summary did not meet
+    templateErrors?: string[];
+}
+
+// Told to models reading a redacted transcript, so the placeholders survive into the summary and translation
+const REDACTED_TRANSCRIPT_NOTE = 'Bracketed placeholders such as [PHONE] or [NAME_1] stand for personal data that was redacted: copy them exactly and never guess what they replace.';
+
+interface TranscriptTranslation {
+    text: string;
+    language: string;
+    provider: SummaryProviderName;
+    model: string;
+}
 
 export class SummaryWorker extends BaseWorker {
     private supabase: any;
-    private openai!: OpenAI;
+    private appRegistrationService!: AppRegistrationService;
+    private templateService!: SummaryTemplateService;
+    private providers: Map<SummaryProviderName, SummaryProvider> = new Map();
+    private fallbackProvider: SummaryProviderName | null = null;
 
     constructor(queueService: any) {
         super('summary-generation', 'summary-worker', queueService);
@@ -26,16 +60,12 @@ export class SummaryWorker extends BaseWorker {
         }
 
         this.supabase = createClient(supabaseUrl, supabaseKey);
+        this.appRegistrationService = new AppRegistrationService();
+        this.templateService = new SummaryTemplateService();
 
-        // Initialize OpenAI
-        const openaiApiKey = process.env['OPENAI_API_KEY'];
-        if (!openaiApiKey) {
-            throw new Error('OpenAI API key missing');
-        }
-
-        this.openai = new OpenAI({
-            apiKey: openaiApiKey,
-        });
+        // Used whenever an app's provider fails; "none" lets the job fail and retry instead
+        const fallback = process.env['SUMMARY_FALLBACK_PROVIDER'] || 'extractive';
+        this.fallbackProvider = isSummaryProviderName(fallback) ? fallback : null;
     }
 
     /**
@@ -43,24 +73,39 @@ export class SummaryWorker extends BaseWorker {
      */
     protected async processJob(job: QueueJob): Promise<any> {
         try {
-            const { sessionId, transcript, metadata } = job.data;
+            const { sessionId, metadata } = job.data;
 
             logger.info(`Processing summary job for session: ${sessionId}`);
 
+            // Pipeline jobs carry no transcript and read the stored one, which redaction has already replaced
+            const transcript = job.data.transcript || (await this.getConversationContext(sessionId))?.transcript;
+
             // Generate AI summary
             if (!transcript) {
                 throw new Error('Transcript is required for summary generation');
             }
-            const summary = await this.generateSummary(transcript, metadata);
+            const language = metadata?.language || 'en';
+            const report = await this.appRegistrationService.getReportSettings(metadata?.appName, metadata?.officerEmail);
+            const reportLanguage = report.language || language;
+
+            const summary = await this.generateSummary(transcript, metadata, reportLanguage, (percent) => this.reportProgress(job, percent));
+
+            // The full transcript in the report language, when the officer reads another language than was spoken
+            let translation: TranscriptTranslation | null = null;
+            if (report.translateTranscript && reportLanguage !== language) {
+                translation = await this.translateTranscript(transcript, language, reportLanguage, metadata?.appName, summary.metadata);
+            }
+            await this.reportProgress(job, 80);
 
             // Update conversation record
-            await this.updateConversationRecord(sessionId, summary, metadata);
+            await this.updateConversationRecord(sessionId, summary, reportLanguage, translation);
 
             logger.info(`Summary generation completed for session: ${sessionId}`);
 
             return {
                 sessionId,
                 summary,
+                translated: !!translation,
                 processedAt: new Date().toISOString(),
             };
         } catch (error) {
@@ -70,42 +115,110 @@ export class SummaryWorker extends BaseWorker {
     }
 
     /**
-     * Generate AI summary using OpenAI
+     * Generate a summary in the report language with the app's provider, summarizing long transcripts
+     * chunk by chunk and merging the partial summaries. Progress runs from 0 to 70 percent.
      */
-    private async generateSummary(transcript: string, metadata?: any): Promise<any> {
+    private async generateSummary(
+        transcript: string,
+        metadata: any,
+        reportLanguage: string,
+        onProgress: (percent: number) => Promise<void>
+    ): Promise<StructuredSummary & { metadata: Record<string, any> }> {
         try {
             logger.info('Generating AI summary...');
 
             const language = metadata?.language || 'en';
             const conversationType = metadata?.conversationType || 'general';
+            const run: SummaryRun = { settings: await this.appRegistrationService.getSummarySettings(metadata?.appName) };
+            const template = await this.getTemplate(metadata?.appName, conversationType);
+            const redactionPolicy = metadata?.redactionPolicy || 'none';
+            const systemPrompt = this.createSystemPrompt(template, language, reportLanguage, redactionPolicy !== 'none');
+            const chunkTokens = parseInt(process.env['SUMMARY_CHUNK_TOKENS'] || '6000');
+            const maxTokens = parseInt(process.env['OPENAI_MAX_TOKENS'] || '1000');
+
+            const chunks = chunkTranscript(transcript, chunkTokens);
+            let result: { summary: StructuredSummary; completion: SummaryCompletion };
+
+            if (chunks.length <= 1) {
+                result = await this.completeSummary(run, template, {
+                    systemPrompt,
+                    userPrompt: this.createUserPrompt(transcript, template),
+                    transcript,
+                    maxTokens,
+                });
+            } else {
+                logger.info(`Transcript of ~${estimateTokens(transcript)} tokens split into ${chunks.length} chunks`);
+
+                // Map: summarize each chunk on its own
+                const chunkMaxTokens = parseInt(process.env['SUMMARY_CHUNK_MAX_TOKENS'] || '500');
+                let partials: string[] = [];
+                for (const [index, chunk] of chunks.entries()) {
+                    const partial = await this.complete(run, {
+                        systemPrompt,
+                        userPrompt: this.createChunkPrompt(chunk, index, chunks.length),
+                        transcript: chunk,
+                        maxTokens: chunkMaxTokens,
+                    });
+                    partials.push(partial.text);
+                    await onProgress(Math.round(((index + 1) / chunks.length) * 60));
+                }
 
-            // Create system prompt based on conversation type
-            const systemPrompt = this.createSystemPrompt(conversationType, language);
-
-            // Create user prompt
-            const userPrompt = this.createUserPrompt(transcript, language);
-
-            // Call OpenAI API
-            const response = await this.openai.chat.completions.create({
-                model: process.env['OPENAI_MODEL'] || 'gpt-4',
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt },
-                ],
-                temperature: 0.7,
-                max_tokens: 1000,
-            });
-
-            const summaryText = response.choices[0]?.message?.content;
-            if (!summaryText) {
-                throw new Error('No summary generated from OpenAI');
-            }
+                // Reduce: merge the partial summaries, in rounds when they are still too long for one prompt
+                while (estimateTokens(partials.join('\n\n')) > chunkTokens && partials.length > 1) {
+                    const groups = chunkTranscript(partials.map(partial => partial.replace(/\n+/g, ' ')).join('\n'), chunkTokens);
+                    if (groups.length >= partials.length) {
+                        break;
+                    }
 
-            // Parse and structure the summary
-            const summary = this.parseSummary(summaryText, transcript, metadata);
+                    partials = [];
+                    for (const group of groups) {
+                        const merged = await this.complete(run, {
+                            systemPrompt,
+                            userPrompt: this.createMergePrompt(group.split('\n'), reportLanguage, null),
+                            transcript: group,
+                            maxTokens: chunkMaxTokens,
+                        });
+                        partials.push(merged.text);
+                    }
+                }
+
+                result = await this.completeSummary(run, template, {
+                    systemPrompt,
+                    userPrompt: this.createMergePrompt(partials, reportLanguage, template),
+                    transcript: partials.join('\n'),
+                    maxTokens,
+                });
+            }
+            await onProgress(70);
+
+            const { summary, completion } = result;
+            const generation: Record<string, any> = {
+                language,
+                reportLanguage,
+                conversationType,
+                provider: completion.provider,
+                model: completion.model,
+                template: {
+                    id: template.id,
+                    name: template.name,
+                    version: template.version,
+                    conversationType: template.conversation_type,
+                },
+                chunkCount: chunks.length,
+                redactionPolicy,
+                transcriptLength: transcript.length,
+                generatedAt: new Date().toISOString(),
+            };
+            if (run.fallbackReason) {
+                generation['fallbackFrom'] = run.settings.provider;
+                generation['fallbackReason'] = run.fallbackReason;
+            }
+            if (run.templateErrors) {
+                generation['templateErrors'] = run.templateErrors;
+            }
 
-            logger.info('AI summary generated successfully');
-            return summary;
+            logger.info(`AI summary generated successfully with ${completion.provider} (${completion.model})`);
+            return { ...summary, metadata: generation };
         } catch (error) {
             logger.error('Failed to generate AI summary:', error);
             throw new Error(`Summary generation failed: ${(error as Error).message}`);
@@ -113,130 +226,293 @@ export class SummaryWorker extends BaseWorker {
     }
 
     /**
-     * Create system prompt based on conversation type
+     * Run one completion with the run's provider, switching the run to the fallback when it fails
+     */
+    private async complete(
+        run: SummaryRun,
+        request: Omit<SummaryRequest, 'temperature' | 'model'> & Partial<Pick<SummaryRequest, 'temperature'>>
+    ): Promise<SummaryCompletion> {
+        const temperature = request.temperature ?? parseFloat(process.env['OPENAI_TEMPERATURE'] || '0.7');
+
+        if (!run.fallbackReason) {
+            try {
+                return await this.getProvider(run.settings.provider).summarize({
+                    ...request,
+                    temperature,
+                    ...(run.settings.model ? { model: run.settings.model } : {}),
+                });
+            } catch (error) {
+                if (!this.fallbackProvider || this.fallbackProvider === run.settings.provider) {
+                    throw error;
+                }
+
+                run.fallbackReason = (error as Error).message;
+                logger.warn(`Summary provider ${run.settings.provider} failed, falling back to ${this.fallbackProvider}: ${run.fallbackReason}`);
+            }
+        }
+
+        // The app's model belongs to its own provider
+        return this.getProvider(this.fallbackProvider!).summarize({ ...request, temperature });
+    }
+
+    /**
+     * Request a summary conforming to the schema and the template, feeding validation errors back to
+     * the model for repair. When the run's provider cannot produce a valid summary, the fallback provider gets
+     * one try, and its summary is kept if it only misses the template's requirements.
+     */
+    private async completeSummary(
+        run: SummaryRun,
+        template: SummaryTemplate,
+        request: Omit<SummaryRequest, 'temperature' | 'model' | 'responseSchema'>
+    ): Promise<{ summary: StructuredSummary; completion: SummaryCompletion }> {
+        const attempts = parseInt(process.env['SUMMARY_REPAIR_ATTEMPTS'] || '2') + 1;
+        const requirements: SummaryRequirements = {
+            requiredSections: template.required_sections,
+            detailsSchema: template.output_schema,
+        };
+        const structuredRequest = {
+            ...request,
+            responseSchema: {
+                name: 'conversation_summary',
+                description: `Structured summary of a conversation: ${template.name}`,
+                schema: buildSummaryJsonSchema(requirements.detailsSchema),
+            },
+        };
+
+        let userPrompt = request.userPrompt;
+        let errors: string[] = [];
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            const usingFallback = !!run.fallbackReason;
+            const completion = await this.complete(run, { ...structuredRequest, userPrompt });
+            const validation = parseSummaryJson(completion.text, requirements);
+            if (validation.ok) {
+                return { summary: validation.summary, completion };
+            }
+
+            errors = validation.errors;
+            logger.warn(`Summary from ${completion.provider} failed validation (attempt ${attempt}/${attempts}): ${errors.join('; ')}`);
+            if (usingFallback !== !!run.fallbackReason) {
+                // The provider switched mid-loop; give the fallback a clean prompt
+                userPrompt = request.userPrompt;
+                continue;
+            }
+            userPrompt = `${request.userPrompt}
+
+        Your previous response was:
+        ${completion.text}
+
+        It did not match the required schema: ${errors.join('; ')}.
+        Respond again with corrected JSON only.`;
+        }
+
+        if (!run.fallbackReason && this.fallbackProvider && this.fallbackProvider !== run.settings.provider) {
+            run.fallbackReason = `invalid summary after ${attempts} attempts: ${errors.join('; ')}`;
+            const completion = await this.complete(run, structuredRequest);
+            const validation = parseSummaryJson(completion.text, requirements);
+            if (validation.ok) {
+                return { summary: validation.summary, completion };
+            }
+
+            // A summary without the template's sections still beats none, e.g. from the extractive fallback
+            const base = parseSummaryJson(completion.text);
+            if (base.ok) {
+                logger.warn(`Fallback summary kept without the requirements of template ${template.name}: ${validation.errors.join('; ')}`);
+                run.templateErrors = validation.errors;
+                return { summary: base.summary, completion };
+            }
+            errors = base.errors;
+        }
+
+        throw new Error(`Summary did not match the schema: ${errors.join('; ')}`);
+    }
+
+    /**
+     * Get a provider, creating it on first use so unused providers need no configuration
+     */
+    private getProvider(name: SummaryProviderName): SummaryProvider {
+        let provider = this.providers.get(name);
+        if (!provider) {
+            provider = createSummaryProvider(name);
+            this.providers.set(name, provider);
+        }
+        return provider;
+    }
+
+    /**
+     * Get the app's template for a conversation type, or the default template when there is none
      */
-    private createSystemPrompt(conversationType: string, language: string): string {
-        const basePrompt = `You are an AI assistant that creates comprehensive summaries of conversations. 
-        The conversation is in ${language === 'en' ? 'English' : language}. 
-        Create a detailed summary that captures the key points, decisions, and outcomes.`;
-
-        switch (conversationType) {
-            case 'customer_service':
-                return `${basePrompt} Focus on the customer's issue, the resolution provided, and any follow-up actions needed.`;
-            case 'business_meeting':
-                return `${basePrompt} Focus on decisions made, action items assigned, and key discussion points.`;
-            case 'interview':
-                return `${basePrompt} Focus on the candidate's qualifications, responses to questions, and overall assessment.`;
-            case 'medical_consultation':
-                return `${basePrompt} Focus on symptoms discussed, diagnosis, treatment plan, and follow-up instructions.`;
-            default:
-                return basePrompt;
+    private async getTemplate(appName: string | undefined, conversationType: string): Promise<SummaryTemplate> {
+        try {
+            const template = await this.templateService.getTemplate(appName, conversationType);
+            if (template) {
+                return template;
+            }
+            logger.warn(`No summary template for conversation type ${conversationType}${appName ? ` of ${appName}` : ''}, using the default`);
+        } catch (error) {
+            logger.warn(`Could not load summary template ${conversationType}, using the default:`, error);
         }
+
+        return DEFAULT_SUMMARY_TEMPLATE;
+    }
+
+    /**
+     * Translate a transcript chunk by chunk, keeping one line per speaker turn. Translation is optional,
+     * so failures are recorded in the summary metadata instead of failing the job.
+     */
+    private async translateTranscript(
+        transcript: string,
+        language: string,
+        reportLanguage: string,
+        appName: string | undefined,
+        generation: Record<string, any>
+    ): Promise<TranscriptTranslation | null> {
+        const run: SummaryRun = { settings: await this.appRegistrationService.getSummarySettings(appName) };
+        const chunkTokens = parseInt(process.env['TRANSLATION_CHUNK_TOKENS'] || '1500');
+        const translated: string[] = [];
+        let completion: SummaryCompletion | null = null;
+
+        try {
+            for (const chunk of chunkTranscript(transcript, chunkTokens)) {
+                completion = await this.complete(run, {
+                    systemPrompt: this.createTranslationPrompt(language, reportLanguage, generation['redactionPolicy'] !== 'none'),
+                    userPrompt: chunk,
+                    transcript: chunk,
+                    temperature: 0,
+                    // Translations can run longer than the source, notably from CJK scripts
+                    maxTokens: estimateTokens(chunk) * 3,
+                });
+                // The extractive provider picks sentences and cannot translate
+                if (completion.provider === 'extractive') {
+                    throw new Error(`${run.fallbackReason ? `${run.fallbackReason}; ` : ''}the extractive provider cannot translate`);
+                }
+                translated.push(completion.text.trim());
+            }
+        } catch (error) {
+            logger.warn(`Transcript translation into ${reportLanguage} failed, keeping the original only:`, error);
+            generation['translationError'] = (error as Error).message;
+            return null;
+        }
+
+        if (!completion) {
+            return null;
+        }
+        generation['translation'] = { language: reportLanguage, provider: completion.provider, model: completion.model };
+        return { text: translated.join('\n'), language: reportLanguage, provider: completion.provider, model: completion.model };
+    }
+
+    /**
+     * Create the system prompt from the template, asking for the summary in the report language
+     */
+    private createSystemPrompt(template: SummaryTemplate, language: string, reportLanguage: string, redacted: boolean): string {
+        const translate = reportLanguage !== language
+            ? ` Write every part of the summary in ${getLanguageName(reportLanguage)}, keeping names of people and places as spoken.`
+            : '';
+
+        return `${template.system_prompt}
+        The conversation is in ${getLanguageName(language)}.${translate}${redacted ? ` ${REDACTED_TRANSCRIPT_NOTE}` : ''}`;
+    }
+
+    /**
+     * Create the system prompt for translating a transcript
+     */
+    private createTranslationPrompt(language: string, reportLanguage: string, redacted: boolean): string {
+        return `You translate conversation transcripts from ${getLanguageName(language)} into ${getLanguageName(reportLanguage)} for official reports.
+        Each line is one speaker turn, starting with the speaker's label. Translate every line faithfully and completely,
+        keeping the same number of lines in the same order, the speaker labels unchanged, and names of people and places as spoken.
+        Do not summarize, explain or add anything. Respond with the translated lines only.${redacted ? ` ${REDACTED_TRANSCRIPT_NOTE}` : ''}`;
     }
 
     /**
      * Create user prompt
      */
-    private createUserPrompt(transcript: string, language: string): string {
+    private createUserPrompt(transcript: string, template: SummaryTemplate): string {
         return `Please analyze the following conversation transcript and provide a comprehensive summary:
 
         Transcript:
         ${transcript}
 
-        Please provide:
-        1. A brief overview of the conversation
-        2. Key points discussed
-        3. Decisions made or conclusions reached
-        4. Action items or next steps
-        5. Any important details or context
+${this.createSchemaInstructions(template)}`;
+    }
 
-        Format the response as a structured summary with clear sections.`;
+    /**
+     * Describe the fields of the structured summary, and those the template adds, for the model
+     */
+    private createSchemaInstructions(template: SummaryTemplate): string {
+        const required = template.required_sections.filter(section => section !== 'overview');
+        const details = template.output_schema
+            ? `\n        - details: ${template.name} fields, as a JSON object matching this JSON Schema: ${JSON.stringify(template.output_schema)}`
+            : '';
+
+        return `Respond with a JSON object containing:
+        - overview: a few sentences describing the whole conversation
+        - keyPoints: the key points discussed
+        - decisions: decisions made or conclusions reached
+        - actionItems: action items, each with description, owner (or null) and dueDate as YYYY-MM-DD (or null)
+        - entities: people, organizations, locations, dates, vehicles and references mentioned, each with name and type
+        - sentiment: overall (positive, neutral, negative or mixed) and a short rationale (or null)
+        - followUps: open questions or things to check afterwards${details}
+        - schemaVersion: ${SUMMARY_SCHEMA_VERSION}
+
+        ${required.length > 0 ? `These lists must not be empty: ${required.join(', ')}. ` : ''}Use empty lists when there is nothing to report${template.output_schema ? ' and null for unknown details' : ''}. Only include facts stated in the conversation.`;
     }
 
     /**
-     * Parse and structure the summary
+     * Create the prompt for one chunk of a long transcript
      */
-    private parseSummary(summaryText: string, transcript: string, metadata?: any): any {
-        try {
-            // Extract key information from the summary
-            const lines = summaryText.split('\n').filter(line => line.trim());
-            
-            const summary = {
-                overview: '',
-                keyPoints: [],
-                decisions: [],
-                actionItems: [],
-                importantDetails: [],
-                fullSummary: summaryText,
-                metadata: {
-                    language: metadata?.language || 'en',
-                    conversationType: metadata?.conversationType || 'general',
-                    transcriptLength: transcript.length,
-                    summaryLength: summaryText.length,
-                    generatedAt: new Date().toISOString(),
-                },
-            };
+    private createChunkPrompt(chunk: string, index: number, total: number): string {
+        return `The following is part ${index + 1} of ${total} of a conversation transcript.
+        Summarize this part only, keeping names, facts, decisions and action items. Do not speculate about the other parts.
 
-            // Parse structured sections
-            let currentSection = 'overview';
-            for (const line of lines) {
-                const trimmedLine = line.trim();
-                
-                if (trimmedLine.toLowerCase().includes('overview') || trimmedLine.toLowerCase().includes('summary')) {
-                    currentSection = 'overview';
-                } else if (trimmedLine.toLowerCase().includes('key points') || trimmedLine.toLowerCase().includes('main points')) {
-                    currentSection = 'keyPoints';
-                } else if (trimmedLine.toLowerCase().includes('decisions') || trimmedLine.toLowerCase().includes('conclusions')) {
-                    currentSection = 'decisions';
-                } else if (trimmedLine.toLowerCase().includes('action items') || trimmedLine.toLowerCase().includes('next steps')) {
-                    currentSection = 'actionItems';
-                } else if (trimmedLine.toLowerCase().includes('important') || trimmedLine.toLowerCase().includes('details')) {
-                    currentSection = 'importantDetails';
-                } else if (trimmedLine.startsWith('-') || trimmedLine.startsWith('•') || trimmedLine.match(/^\d+\./)) {
-                    // This is a list item
-                    const item = trimmedLine.replace(/^[-•]\s*/, '').replace(/^\d+\.\s*/, '');
-                    if (item.trim()) {
-                        (summary as any)[currentSection].push(item);
-                    }
-                } else if (trimmedLine && currentSection === 'overview') {
-                    summary.overview += (summary.overview ? ' ' : '') + trimmedLine;
-                }
-            }
+        Transcript part ${index + 1}:
+        ${chunk}
 
-            return summary;
-        } catch (error) {
-            logger.error('Failed to parse summary:', error);
-            return {
-                overview: summaryText,
-                keyPoints: [],
-                decisions: [],
-                actionItems: [],
-                importantDetails: [],
-                fullSummary: summaryText,
-                metadata: {
-                    language: metadata?.language || 'en',
-                    conversationType: metadata?.conversationType || 'general',
-                    transcriptLength: transcript.length,
-                    summaryLength: summaryText.length,
-                    generatedAt: new Date().toISOString(),
-                },
-            };
+        Respond with a concise bullet list.`;
+    }
+
+    /**
+     * Create the prompt that merges partial summaries, either into the final structured summary following
+     * the template or, without one, into a shorter partial
+     */
+    private createMergePrompt(partials: string[], language: string, template: SummaryTemplate | null): string {
+        const sections = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n');
+
+        if (!template) {
+            return `The following are summaries of consecutive parts of one conversation.
+        Combine them into a single concise bullet list, keeping names, facts, decisions and action items.
+
+        ${sections}`;
         }
+
+        return `The following are summaries of consecutive parts of one conversation, in order.
+        Combine them into a comprehensive summary of the whole conversation in ${getLanguageName(language)}:
+
+        ${sections}
+
+${this.createSchemaInstructions(template)}`;
     }
 
     /**
      * Update conversation record with summary
      */
-    private async updateConversationRecord(sessionId: string, summary: any, metadata?: any): Promise<void> {
+    private async updateConversationRecord(
+        sessionId: string,
+        summary: StructuredSummary & { metadata: Record<string, any> },
+        reportLanguage: string,
+        translation: TranscriptTranslation | null
+    ): Promise<void> {
         try {
             logger.info(`Updating conversation record with summary for session: ${sessionId}`);
 
             const { error } = await this.supabase
                 .from('conversations')
                 .update({
-                    summary: summary.fullSummary,
+                    summary: formatSummaryText(summary),
                     summary_data: summary,
+                    summary_schema_version: summary.schemaVersion,
                     summary_generated_at: new Date().toISOString(),
+                    report_language: reportLanguage,
+                    transcript_translation: translation?.text ?? null,
+                    transcript_translation_language: translation?.language ?? null,
                     updated_at: new Date().toISOString(),
                 })
                 .eq('session_id', sessionId);
@@ -3,9 +3,11 @@ import { logger } from '../utils/logger';
 import { QueueService } from '../services/QueueService';
 import { BaseWorker, WorkerStatus } from './BaseWorker';
 import { AudioWorker } from './AudioWorker';
+import { RedactionWorker } from './RedactionWorker';
 import { SummaryWorker } from './SummaryWorker';
 import { PdfWorker } from './PdfWorker';
 import { EmailWorker } from './EmailWorker';
+import { RetentionWorker } from './RetentionWorker';
 
 export interface WorkerPoolConfig {
     maxWorkers: number;
@@ -77,6 +79,10 @@ export class WorkerManager extends EventEmitter {
         const audioWorker = new AudioWorker(this.queueService);
         this.workers.set('audio-worker', audioWorker);
 
+        // PII redaction worker
+        const redactionWorker = new RedactionWorker(this.queueService);
+        this.workers.set('redaction-worker', redactionWorker);
+
         // Summary generation worker
         const summaryWorker = new SummaryWorker(this.queueService);
         this.workers.set('summary-worker', summaryWorker);
@@ -89,6 +95,10 @@ export class WorkerManager extends EventEmitter {
         const emailWorker = new EmailWorker(this.queueService);
         this.workers.set('email-worker', emailWorker);
 
+        // Retention purge worker
+        const retentionWorker = new RetentionWorker(this.queueService);
+        this.workers.set('retention-worker', retentionWorker);
+
         logger.info(`Registered ${this.workers.size} worker types`);
     }
 
@@ -229,6 +239,14 @@ export class WorkerManager extends EventEmitter {
             this.emit('jobCompleted', { workerName, job: data.job, result: data.result });
         });
 
+        worker.on('jobActive', (data) => {
+            this.emit('jobActive', { workerName, job: data.job });
+        });
+
+        worker.on('jobProgress', (data) => {
+            this.emit('jobProgress', { workerName, job: data.job, progress: data.progress });
+        });
+
         worker.on('healthCheck', (data) => {
             if (!data.isHealthy) {
                 logger.warn(`Worker ${workerName} health check failed`);
@@ -4,16 +4,29 @@ import { createError, log } from '../utils';
 
 export interface VoiceServiceConfig {
     serverUrl: string;
-    apiKey: string;
+    // Long-lived app key; only for trusted clients, never ship it to browsers
+    apiKey?: string;
+    // Short-lived session token minted by the host backend
+    token?: string;
+    // Fetches a fresh session token from the host backend before the current one expires
+    getToken?: () => Promise<string>;
     debug?: boolean;
     logLevel?: string;
 }
 
+// Refresh this long before the session token expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Audio held while the server applies backpressure (~16s of 4096-sample chunks); the oldest is dropped beyond this
+const MAX_HELD_AUDIO_CHUNKS = 64;
+
 export class VoiceService {
     private socket: Socket | null = null;
     private config: VoiceServiceConfig;
     private isConnected = false;
     private currentSession: VoiceSession | null = null;
+    private resumeToken: string | null = null;
+    private lastSegmentSeq = 0;
     private mediaStream: MediaStream | null = null;
     private audioContext: AudioContext | null = null;
     private processor: ScriptProcessorNode | null = null;
@@ -21,9 +34,16 @@ export class VoiceService {
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000;
     private eventListeners: { [key: string]: Function[] } = {};
+    private token: string | null = null;
+    private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private audioPaused = false;
+    private heldAudio: any[] = [];
+    // Session whose conversation is still being summarized, emailed and archived after it ended
+    private processingSessionId: string | null = null;
 
     constructor(config: VoiceServiceConfig) {
         this.config = config;
+        this.token = config.token || null;
     }
 
     // Simple event emitter implementation
@@ -54,31 +74,63 @@ export class VoiceService {
      * Connect to the voice server
      */
     async connect(): Promise<void> {
+        if (this.isConnected) {
+            return;
+        }
+
+        // Each (re)connection authenticates with a token that is not about to expire
+        let auth: { token: string } | { apiKey: string | undefined };
+        try {
+            auth = this.usesSessionToken()
+                ? { token: await this.getValidToken() }
+                : { apiKey: this.config.apiKey };
+        } catch (error) {
+            const authError = createError('UNAUTHORIZED', 'Failed to obtain a session token', { originalError: error });
+            this.emit('error', authError);
+            throw authError;
+        }
+
         return new Promise((resolve, reject) => {
             try {
-                if (this.isConnected) {
-                    resolve();
-                    return;
-                }
-
                 log('Connecting to voice server...', this.config.debug);
 
                 this.socket = io(this.config.serverUrl, {
                     transports: ['websocket'],
                     timeout: 10000,
                     forceNew: true,
+                    auth,
                 });
 
                 this.socket.on('connect', () => {
                     log('Connected to voice server', this.config.debug);
                     this.isConnected = true;
                     this.reconnectAttempts = 0;
+                    this.scheduleTokenRefresh();
                     this.emit('connected');
+
+                    // Pick the interrupted session back up after a reconnect
+                    if (this.currentSession && this.resumeToken) {
+                        this.resumeSession();
+                    }
+
                     resolve();
                 });
 
                 this.socket.on('connect_error', (error) => {
                     log('Connection error:', error, this.config.debug);
+
+                    // The server rejected the API key or this page's origin; retrying won't help
+                    const authCode = (error as Error & { data?: { code?: string } }).data?.code;
+                    if (authCode) {
+                        this.emit('error', {
+                            code: 'UNAUTHORIZED',
+                            message: 'Voice server rejected the API key for this site',
+                            details: { reason: authCode }
+                        });
+                        reject(error);
+                        return;
+                    }
+
                     this.emit('error', {
                         code: 'CONNECTION_ERROR',
                         message: 'Failed to connect to voice server',
@@ -90,6 +142,7 @@ export class VoiceService {
                 this.socket.on('disconnect', (reason) => {
                     log('Disconnected from voice server:', reason, this.config.debug);
                     this.isConnected = false;
+                    this.clearTokenRefresh();
                     this.emit('disconnected', reason);
                     
                     if (reason === 'io server disconnect') {
@@ -120,9 +173,82 @@ export class VoiceService {
     }
 
     /**
-     * Start a voice session
+     * Whether this client authenticates with session tokens rather than an API key
+     */
+    private usesSessionToken(): boolean {
+        return !!(this.config.token || this.config.getToken);
+    }
+
+    /**
+     * Return the current session token, fetching a new one when it is missing or about to expire
      */
-    async startSession(officerEmail: string, appName: string, language: string = 'en'): Promise<void> {
+    private async getValidToken(): Promise<string> {
+        const expiresAt = this.token ? this.getTokenExpiry(this.token) : 0;
+        if (this.token && expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+            return this.token;
+        }
+
+        if (!this.config.getToken) {
+            if (this.token && expiresAt > Date.now()) {
+                return this.token;
+            }
+            throw new Error('Session token expired and no getToken callback is configured');
+        }
+
+        this.token = await this.config.getToken();
+        return this.token;
+    }
+
+    /**
+     * Read a JWT's expiry in milliseconds without verifying it; the server does that
+     */
+    private getTokenExpiry(token: string): number {
+        try {
+            const payload = token.split('.')[1] || '';
+            const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+            return typeof claims.exp === 'number' ? claims.exp * 1000 : 0;
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Refresh the session token shortly before it expires and hand the new one to the server
+     */
+    private scheduleTokenRefresh(): void {
+        this.clearTokenRefresh();
+        if (!this.token || !this.config.getToken) {
+            return;
+        }
+
+        const delay = Math.max(this.getTokenExpiry(this.token) - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+        this.tokenRefreshTimer = setTimeout(async () => {
+            try {
+                this.token = await this.config.getToken!();
+                this.socket?.emit('refreshToken', { token: this.token });
+                log('Session token refreshed', this.config.debug);
+                this.scheduleTokenRefresh();
+            } catch (error) {
+                log('Session token refresh failed:', error, this.config.debug);
+                this.emit('error', createError('UNAUTHORIZED', 'Failed to refresh session token', { originalError: error }));
+            }
+        }, delay);
+    }
+
+    /**
+     * Stop refreshing the session token
+     */
+    private clearTokenRefresh(): void {
+        if (this.tokenRefreshTimer) {
+            clearTimeout(this.tokenRefreshTimer);
+            this.tokenRefreshTimer = null;
+        }
+    }
+
+    /**
+     * Start a voice session; the conversation type selects the app's summary template, e.g. incident_report
+     */
+    async startSession(officerEmail: string, appName: string, language: string = 'en', conversationType?: string): Promise<void> {
         if (!this.isConnected) {
             throw createError('NOT_CONNECTED', 'Not connected to voice server');
         }
@@ -158,7 +284,8 @@ export class VoiceService {
                     this.socket?.emit('startSession', {
                         officerEmail,
                         appName,
-                        language
+                        language,
+                        ...(conversationType ? { conversationType } : {})
                     });
                 })
                 .catch((error) => {
@@ -186,6 +313,7 @@ export class VoiceService {
             const onSessionEnded = (conversation: VoiceConversation) => {
                 clearTimeout(timeout);
                 this.currentSession = null;
+                this.resumeToken = null;
                 this.emit('sessionEnded', conversation);
                 resolve(conversation);
             };
@@ -204,6 +332,21 @@ export class VoiceService {
         });
     }
 
+    /**
+     * Resume the current session on a new connection
+     */
+    private resumeSession(): void {
+        if (!this.currentSession || !this.resumeToken) return;
+
+        log(`Resuming session ${this.currentSession.id} after seq ${this.lastSegmentSeq}`, this.config.debug);
+
+        this.socket?.emit('resumeSession', {
+            sessionId: this.currentSession.id,
+            resumeToken: this.resumeToken,
+            lastSeq: this.lastSegmentSeq
+        });
+    }
+
     /**
      * Request microphone access
      */
@@ -249,15 +392,26 @@ export class VoiceService {
                     const view = new Float32Array(audioBuffer);
                     view.set(audioData);
                     
+                    const audioChunk = {
+                        data: Array.from(new Uint8Array(audioBuffer)),
+                        timestamp: Date.now(),
+                        sampleRate: 16000,
+                        channels: 1
+                    };
+
+                    // Hold audio while the server is backed up rather than piling more onto its buffer
+                    if (this.audioPaused) {
+                        this.heldAudio.push(audioChunk);
+                        if (this.heldAudio.length > MAX_HELD_AUDIO_CHUNKS) {
+                            this.heldAudio.shift();
+                        }
+                        return;
+                    }
+
                     // Send audio data to server
                     this.socket?.emit('audioData', {
                         sessionId: this.currentSession.id,
-                        audioChunk: {
-                            data: Array.from(new Uint8Array(audioBuffer)),
-                            timestamp: Date.now(),
-                            sampleRate: 16000,
-                            channels: 1
-                        }
+                        audioChunk
                     });
                 }
             };
@@ -283,22 +437,89 @@ export class VoiceService {
         });
 
         this.socket.on('finalTranscript', (data) => {
+            if (typeof data.seq === 'number') {
+                this.lastSegmentSeq = Math.max(this.lastSegmentSeq, data.seq);
+            }
             this.emit('finalTranscript', data);
         });
 
         this.socket.on('sessionStarted', (data) => {
+            this.resumeToken = data.resumeToken || null;
+            this.lastSegmentSeq = 0;
+            this.audioPaused = false;
+            this.heldAudio = [];
             this.emit('sessionStarted', data);
         });
 
+        this.socket.on('sessionResumed', (data) => {
+            log(`Session resumed, replaying ${data.missedSegments?.length || 0} missed segments`, this.config.debug);
+            this.resumeToken = data.resumeToken || this.resumeToken;
+
+            // Deliver the final segments produced while we were offline
+            (data.missedSegments || []).forEach((segment: any) => {
+                this.lastSegmentSeq = Math.max(this.lastSegmentSeq, segment.seq);
+                this.emit('finalTranscript', segment);
+            });
+
+            // Backpressure belonged to the lost connection; the server repeats it if its buffer is still full
+            this.audioPaused = false;
+            this.flushHeldAudio();
+
+            this.emit('sessionResumed', data.session);
+        });
+
         this.socket.on('sessionEnded', (data) => {
+            this.audioPaused = false;
+            this.heldAudio = [];
+            this.processingSessionId = data?.session_id || this.currentSession?.id || null;
             this.emit('sessionEnded', data);
         });
 
+        this.socket.on('processingProgress', (data) => {
+            if (!data?.sessionId || (data.sessionId !== this.currentSession?.id && data.sessionId !== this.processingSessionId)) return;
+
+            log(`Processing ${data.stage} ${data.status}${typeof data.percent === 'number' ? ` (${data.percent}%)` : ''}`, this.config.debug);
+            this.emit('processingProgress', data);
+        });
+
+        this.socket.on('audioBackpressure', (data) => {
+            if (data?.sessionId !== this.currentSession?.id) return;
+
+            log(`Audio backpressure ${data.paused ? 'on' : 'off'} (${data.bufferedBytes}/${data.maxBytes} bytes buffered)`, this.config.debug);
+            this.audioPaused = !!data.paused;
+            if (!this.audioPaused) {
+                this.flushHeldAudio();
+            }
+            this.emit('backpressure', data);
+        });
+
         this.socket.on('error', (error) => {
+            if (error?.code === 'RESUME_FAILED') {
+                // The grace window has passed or the token was rejected; the session is gone
+                this.currentSession = null;
+                this.resumeToken = null;
+            }
             this.emit('error', error);
         });
     }
 
+    /**
+     * Send the audio held during backpressure, oldest first
+     */
+    private flushHeldAudio(): void {
+        const heldAudio = this.heldAudio;
+        this.heldAudio = [];
+
+        if (!this.currentSession) return;
+
+        heldAudio.forEach((audioChunk) => {
+            this.socket?.emit('audioData', {
+                sessionId: this.currentSession!.id,
+                audioChunk
+            });
+        });
+    }
+
     /**
      * Handle reconnection
      */
@@ -318,6 +539,13 @@ export class VoiceService {
         log(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`, this.config.debug);
         
         setTimeout(() => {
+            // Drop the stale socket so only the new connection resumes the session
+            if (this.socket) {
+                this.socket.removeAllListeners();
+                this.socket.disconnect();
+                this.socket = null;
+            }
+
             this.connect().catch((error) => {
                 log('Reconnection failed:', error, this.config.debug);
             });
@@ -328,6 +556,8 @@ export class VoiceService {
      * Disconnect from the voice server
      */
     disconnect(): void {
+        this.clearTokenRefresh();
+
         if (this.socket) {
             this.socket.disconnect();
             this.socket = null;
@@ -350,6 +580,10 @@ export class VoiceService {
         
         this.isConnected = false;
         this.currentSession = null;
+        this.resumeToken = null;
+        this.lastSegmentSeq = 0;
+        this.audioPaused = false;
+        this.heldAudio = [];
         this.emit('disconnected');
     }
 
@@ -25,6 +25,10 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
                 return '📡';
             case 'API_ERROR':
                 return '🔌';
+            case 'UNAUTHORIZED':
+                return '🔒';
+            case 'QUOTA_EXCEEDED':
+                return '⏳';
             default:
                 return '⚠️';
         }
@@ -42,6 +46,10 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
                 return 'API Error';
             case 'INVALID_PROPS':
                 return 'Configuration Error';
+            case 'UNAUTHORIZED':
+                return 'Not Authorized';
+            case 'QUOTA_EXCEEDED':
+                return 'Usage Limit Reached';
             default:
                 return 'Error';
         }
@@ -59,6 +67,10 @@ export const ErrorDisplay: React.FC<ErrorDisplayProps> = ({
                 return 'There was an error connecting to the voice service.';
             case 'INVALID_PROPS':
                 return 'The widget configuration is invalid.';
+            case 'UNAUTHORIZED':
+                return 'This site is not authorized to use voice chat, or its session token has expired.';
+            case 'QUOTA_EXCEEDED':
+                return 'Voice chat usage for this app has reached its limit. Please try again later.';
             default:
                 return 'An unexpected error occurred.';
         }
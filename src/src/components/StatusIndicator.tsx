@@ -1,23 +1,80 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Wifi, WifiOff, Mic, MicOff, Loader, CheckCircle, XCircle } from 'lucide-react';
+import { Wifi, WifiOff, Mic, MicOff, Loader, CheckCircle, XCircle, Clock, Download } from 'lucide-react';
 import { cn } from '../utils';
+import { ProcessingStageState, ProcessingState } from '../types';
 
 interface StatusIndicatorProps {
     isConnected: boolean;
     isRecording: boolean;
     isProcessing: boolean;
     language: string;
+    processing?: ProcessingState | null;
 }
 
+const STAGE_LABELS: Record<string, string> = {
+    audio: 'Audio recording',
+    summary: 'Summary',
+    pdf: 'PDF report',
+    email: 'Email',
+};
+
+const ProcessingStage: React.FC<{ name: string; stage: ProcessingStageState }> = ({ name, stage }) => {
+    const label = STAGE_LABELS[name] || name;
+
+    const getStageInfo = () => {
+        switch (stage.status) {
+            case 'running':
+                return { icon: Loader, color: 'text-yellow-600', text: typeof stage.percent === 'number' ? `${stage.percent}%` : 'Running', animate: true };
+            case 'completed':
+                return { icon: CheckCircle, color: 'text-green-600', text: 'Done', animate: false };
+            case 'failed':
+                return { icon: XCircle, color: 'text-red-600', text: 'Failed', animate: false };
+            case 'skipped':
+            case 'cancelled':
+                return { icon: XCircle, color: 'text-gray-400', text: stage.status === 'skipped' ? 'Skipped' : 'Cancelled', animate: false };
+            case 'queued':
+                return { icon: Clock, color: 'text-gray-600', text: 'Queued', animate: false };
+            default:
+                return { icon: Clock, color: 'text-gray-400', text: 'Waiting', animate: false };
+        }
+    };
+
+    const stageInfo = getStageInfo();
+    const IconComponent = stageInfo.icon;
+
+    return (
+        <li className="text-xs" title={stage.error}>
+            <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                    <motion.div
+                        animate={stageInfo.animate ? { rotate: 360 } : {}}
+                        transition={stageInfo.animate ? { duration: 2, repeat: Infinity, ease: 'linear' } : {}}
+                    >
+                        <IconComponent className={cn('w-3 h-3', stageInfo.color)} />
+                    </motion.div>
+                    <span className="text-gray-700">{label}</span>
+                </div>
+                <span className={stageInfo.color}>{stageInfo.text}</span>
+            </div>
+            {stage.status === 'running' && typeof stage.percent === 'number' && (
+                <div className="mt-1 h-1 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-500 transition-all" style={{ width: `${stage.percent}%` }} />
+                </div>
+            )}
+        </li>
+    );
+};
+
 export const StatusIndicator: React.FC<StatusIndicatorProps> = ({
     isConnected,
     isRecording,
     isProcessing,
     language,
+    processing,
 }) => {
     const getStatusInfo = () => {
-        if (isProcessing) {
+        if (isProcessing || processing?.pipelineStatus === 'running') {
             return {
                 icon: Loader,
                 text: 'Processing',
@@ -59,7 +116,7 @@ export const StatusIndicator: React.FC<StatusIndicatorProps> = ({
     const statusInfo = getStatusInfo();
     const IconComponent = statusInfo.icon;
 
-    return (
+    const indicator = (
         <motion.div
             initial={{ opacity: 0, x: -10 }}
             animate={{ opacity: 1, x: 0 }}
@@ -98,4 +155,50 @@ export const StatusIndicator: React.FC<StatusIndicatorProps> = ({
             </div>
         </motion.div>
     );
+
+    if (!processing) {
+        return indicator;
+    }
+
+    return (
+        <div className="space-y-2">
+            {indicator}
+
+            {/* Post-processing of the ended session */}
+            <div className="p-3 bg-gray-50 rounded-lg">
+                <ul className="space-y-2">
+                    {Object.entries(processing.stages).map(([name, stage]) => (
+                        <ProcessingStage key={name} name={name} stage={stage} />
+                    ))}
+                </ul>
+
+                {(processing.artifacts.pdfUrl || processing.artifacts.audioUrl) && (
+                    <div className="flex items-center space-x-3 mt-3">
+                        {processing.artifacts.pdfUrl && (
+                            <a
+                                href={processing.artifacts.pdfUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center space-x-1 text-xs text-blue-600 hover:underline"
+                            >
+                                <Download className="w-3 h-3" />
+                                <span>PDF report</span>
+                            </a>
+                        )}
+                        {processing.artifacts.audioUrl && (
+                            <a
+                                href={processing.artifacts.audioUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center space-x-1 text-xs text-blue-600 hover:underline"
+                            >
+                                <Download className="w-3 h-3" />
+                                <span>Audio</span>
+                            </a>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
 };
\ No newline at end of file
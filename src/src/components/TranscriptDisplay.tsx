@@ -1,20 +1,24 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { FileText, Clock } from 'lucide-react';
-import { cn } from '../utils';
+import { TranscriptTurn } from '../types';
+import { cn, formatSpeakerLabel } from '../utils';
 
 interface TranscriptDisplayProps {
     transcript: string;
     partialTranscript: string;
+    turns?: TranscriptTurn[];
     language: string;
 }
 
 export const TranscriptDisplay: React.FC<TranscriptDisplayProps> = ({
     transcript,
     partialTranscript,
+    turns = [],
     language,
 }) => {
     const hasContent = transcript || partialTranscript;
+    const hasSpeakers = turns.some(turn => turn.speaker);
 
     if (!hasContent) {
         return null;
@@ -35,8 +39,19 @@ export const TranscriptDisplay: React.FC<TranscriptDisplayProps> = ({
 
             {/* Transcript Content */}
             <div className="bg-gray-50 rounded-lg p-3 max-h-32 overflow-y-auto">
-                {/* Final transcript */}
-                {transcript && (
+                {/* Final transcript, attributed to speakers when diarization is on */}
+                {hasSpeakers ? (
+                    <div className="space-y-2">
+                        {turns.map((turn, index) => (
+                            <div key={index} className="text-sm leading-relaxed">
+                                <span className="font-medium text-primary-600 mr-1">
+                                    {formatSpeakerLabel(turn.speaker || 'UU')}:
+                                </span>
+                                <span className="text-gray-800">{turn.text}</span>
+                            </div>
+                        ))}
+                    </div>
+                ) : transcript && (
                     <div className="text-sm text-gray-800 leading-relaxed">
                         {transcript}
                     </div>
@@ -1,15 +1,17 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Phone, X, Mic, MicOff, Settings, Globe } from 'lucide-react';
-import { VoiceChatWidgetProps, WidgetState, LanguageOption, VoiceChatError } from '../types';
-import { cn, getPositionClasses, createError, log } from '../utils';
+import { VoiceChatWidgetProps, WidgetState, LanguageOption, VoiceChatError, ProcessingProgress } from '../types';
+import { cn, getPositionClasses, createError, log, applyProcessingProgress } from '../utils';
 import { LanguageSelector } from './LanguageSelector';
 import { VoiceControls } from './VoiceControls';
 import { TranscriptDisplay } from './TranscriptDisplay';
 import { StatusIndicator } from './StatusIndicator';
 import { ErrorDisplay } from './ErrorDisplay';
-import { WebRTCService, WebRTCConfig } from '../services/WebRTCService';
-import { SpeechmaticsService, SpeechmaticsConfig } from '../services/SpeechmaticsService';
+import { WebRTCService, WebRTCConfig, AudioBackpressure } from '../services/WebRTCService';
+import { SpeechmaticsConfig, TranscriptData } from '../services/SpeechmaticsService';
+import { TranscriptionProvider, createTranscriptionProvider, resolveTranscriptionProvider } from '../services/TranscriptionProvider';
+import { VoiceServerProvider, VOICE_SERVER_SAMPLE_RATE } from '../services/VoiceServerProvider';
 import '../styles/index.css';
 
 const SUPPORTED_LANGUAGES: LanguageOption[] = [
@@ -29,15 +31,21 @@ const SUPPORTED_LANGUAGES: LanguageOption[] = [
 
 export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
     apiKey,
+    token,
+    getToken,
     officerEmail,
     appName,
     language = 'en',
+    conversationType,
     position = 'bottom-right',
     theme = 'light',
     customStyles = {},
     onConversationStart,
     onConversationEnd,
     onError,
+    enableDiarization = false,
+    transcriptionProvider,
+    serverUrl,
     debug = false,
     logLevel = 'info',
 }) => {
@@ -49,9 +57,11 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
         currentLanguage: language,
         transcript: '',
         partialTranscript: '',
+        turns: [],
         error: null,
         session: null,
         conversation: null,
+        processing: null,
     });
 
     const [showSettings, setShowSettings] = useState(false);
@@ -59,13 +69,18 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
     const audioContextRef = useRef<AudioContext | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
     const webRTCServiceRef = useRef<WebRTCService | null>(null);
-    const speechmaticsServiceRef = useRef<SpeechmaticsService | null>(null);
+    const transcriptionProviderRef = useRef<TranscriptionProvider | null>(null);
+    // The ended session's voice server connection, kept open while its conversation is post-processed
+    const processingProviderRef = useRef<TranscriptionProvider | null>(null);
+
+    // A session token is only valid against the voice server, so token configs stream through it
+    const usesVoiceServer = !!(token || getToken);
 
     // Initialize widget
     useEffect(() => {
         if (debug) {
             log(logLevel, 'VoiceChatWidget initialized', {
-                apiKey: apiKey.substring(0, 8) + '...',
+                auth: apiKey ? `apiKey ${apiKey.substring(0, 8)}...` : 'session token',
                 officerEmail,
                 appName,
                 language,
@@ -75,10 +90,20 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
         }
 
         // Validate required props
-        if (!apiKey || !officerEmail || !appName) {
+        if (!(apiKey || token || getToken) || !officerEmail || !appName) {
+            const error = createError(
+                'INVALID_PROPS',
+                'Missing required props: apiKey or token, officerEmail, or appName'
+            );
+            setWidgetState(prev => ({ ...prev, error }));
+            onError?.(error);
+            return;
+        }
+
+        if (usesVoiceServer && !serverUrl) {
             const error = createError(
                 'INVALID_PROPS',
-                'Missing required props: apiKey, officerEmail, or appName'
+                'A session token requires serverUrl'
             );
             setWidgetState(prev => ({ ...prev, error }));
             onError?.(error);
@@ -109,14 +134,17 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
             if (webRTCServiceRef.current) {
                 webRTCServiceRef.current.disconnect();
             }
-            if (speechmaticsServiceRef.current) {
-                speechmaticsServiceRef.current.disconnect();
+            if (transcriptionProviderRef.current) {
+                transcriptionProviderRef.current.disconnect();
+            }
+            if (processingProviderRef.current) {
+                processingProviderRef.current.disconnect();
             }
             if (mediaStreamRef.current) {
                 mediaStreamRef.current.getTracks().forEach(track => track.stop());
             }
         };
-    }, [apiKey, officerEmail, appName, language, position, theme, debug, logLevel, onError]);
+    }, [apiKey, token, getToken, usesVoiceServer, serverUrl, officerEmail, appName, language, position, theme, debug, logLevel, onError]);
 
     // Handle widget toggle
     const toggleWidget = useCallback(() => {
@@ -144,6 +172,8 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 error: null,
             }));
 
+            const sampleRate = usesVoiceServer ? VOICE_SERVER_SAMPLE_RATE : 44100;
+
             // Initialize WebRTC service
             const webRTCConfig: WebRTCConfig = {
                 iceServers: [
@@ -155,11 +185,11 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                         echoCancellation: true,
                         noiseSuppression: true,
                         autoGainControl: true,
-                        sampleRate: 44100,
+                        sampleRate,
                         channelCount: 1,
                     },
                 },
-                sampleRate: 44100,
+                sampleRate,
                 channels: 1,
             };
 
@@ -174,9 +204,9 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
             });
 
             webRTCService.on('audioChunk', (audioChunk) => {
-                // Send audio to Speechmatics
-                if (speechmaticsServiceRef.current) {
-                    speechmaticsServiceRef.current.sendAudio(audioChunk.data);
+                // Send audio to the transcription provider
+                if (transcriptionProviderRef.current) {
+                    transcriptionProviderRef.current.sendAudio(audioChunk.data);
                 }
             });
 
@@ -190,50 +220,88 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 onError?.(voiceError);
             });
 
-            // Initialize Speechmatics service
+            // Initialize the transcription provider registered for this app
             const speechmaticsConfig: SpeechmaticsConfig = {
                 language: widgetState.currentLanguage,
                 enablePartials: true,
                 punctuationPermitted: true,
-                sampleRate: 44100,
+                sampleRate,
                 encoding: 'pcm_f32le',
+                diarization: enableDiarization ? 'speaker' : 'none',
             };
 
-            const speechmaticsService = new SpeechmaticsService(speechmaticsConfig);
-            speechmaticsServiceRef.current = speechmaticsService;
+            let provider: TranscriptionProvider;
+            if (usesVoiceServer) {
+                provider = new VoiceServerProvider({
+                    serverUrl: serverUrl!,
+                    officerEmail,
+                    appName,
+                    language: widgetState.currentLanguage,
+                    ...(conversationType ? { conversationType } : {}),
+                    sampleRate,
+                    channels: 1,
+                    ...(getToken ? { getToken } : {}),
+                });
+            } else {
+                const providerName = transcriptionProvider
+                    || (serverUrl ? await resolveTranscriptionProvider(serverUrl, appName) : 'speechmatics');
+                provider = createTranscriptionProvider(providerName, speechmaticsConfig);
+            }
+            transcriptionProviderRef.current = provider;
 
-            // Set up Speechmatics event handlers
-            speechmaticsService.on('connected', () => {
+            // Set up transcription event handlers
+            provider.on('connected', () => {
                 if (debug) {
-                    log(logLevel, 'Speechmatics connected');
+                    log(logLevel, `Transcription connected (${provider.name})`);
                 }
             });
 
-            speechmaticsService.on('recognitionStarted', () => {
+            provider.on('recognitionStarted', () => {
                 if (debug) {
-                    log(logLevel, 'Speechmatics recognition started');
+                    log(logLevel, 'Transcription recognition started');
                 }
             });
 
-            speechmaticsService.on('partialTranscript', (transcriptData) => {
+            provider.on('partialTranscript', (transcriptData: TranscriptData) => {
                 setWidgetState(prev => ({
                     ...prev,
                     partialTranscript: transcriptData.transcript,
                 }));
             });
 
-            speechmaticsService.on('finalTranscript', (transcriptData) => {
+            provider.on('finalTranscript', (transcriptData: TranscriptData) => {
+                setWidgetState(prev => {
+                    // Extend the current turn while the same speaker keeps talking
+                    const lastTurn = prev.turns[prev.turns.length - 1];
+                    const turns = lastTurn && lastTurn.speaker === transcriptData.speaker
+                        ? [...prev.turns.slice(0, -1), { ...lastTurn, text: `${lastTurn.text} ${transcriptData.transcript}` }]
+                        : [...prev.turns, { speaker: transcriptData.speaker, text: transcriptData.transcript }];
+
+                    return {
+                        ...prev,
+                        transcript: prev.transcript + ' ' + transcriptData.transcript,
+                        partialTranscript: '',
+                        turns,
+                    };
+                });
+            });
+
+            provider.on('audioBackpressure', (backpressure: AudioBackpressure) => {
+                webRTCService.applyBackpressure(backpressure);
+            });
+
+            provider.on('processingProgress', (progress: ProcessingProgress) => {
                 setWidgetState(prev => ({
                     ...prev,
-                    transcript: prev.transcript + ' ' + transcriptData.transcript,
-                    partialTranscript: '',
+                    processing: applyProcessingProgress(prev.processing, progress),
                 }));
             });
 
-            speechmaticsService.on('error', (error) => {
-                const voiceError = createError(
+            provider.on('error', (error) => {
+                // The voice server reports its own codes, e.g. UNAUTHORIZED once the session token is rejected
+                const voiceError = provider.name === 'server' ? error : createError(
                     'SPEECHMATICS_ERROR',
-                    'Speechmatics error',
+                    'Transcription error',
                     { originalError: error }
                 );
                 setWidgetState(prev => ({ ...prev, error: voiceError }));
@@ -242,7 +310,8 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
 
             // Connect to services
             await webRTCService.initialize();
-            await speechmaticsService.connect(apiKey);
+            // Without a token the voice server provider fetches one through getToken
+            await provider.connect((usesVoiceServer ? token : apiKey) || '');
 
             // Start streaming
             webRTCService.startStreaming();
@@ -253,6 +322,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 officerEmail,
                 appName,
                 language: widgetState.currentLanguage,
+                ...(conversationType ? { conversationType } : {}),
                 startTime: new Date(),
                 status: 'active' as const,
             };
@@ -263,15 +333,17 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 isRecording: true,
                 isProcessing: false,
                 isConnected: true,
+                processing: null,
             }));
 
             onConversationStart?.(session);
 
             if (debug) {
-                log(logLevel, 'Conversation started with WebRTC and Speechmatics', session);
+                log(logLevel, `Conversation started with WebRTC and ${provider.name}`, session);
             }
         } catch (error) {
-            const voiceError = createError(
+            // Keep a rejected session token visible rather than reporting a generic failure
+            const voiceError = (error as VoiceChatError)?.code === 'UNAUTHORIZED' ? error as VoiceChatError : createError(
                 'CONVERSATION_START_FAILED',
                 'Failed to start conversation',
                 { originalError: error }
@@ -283,7 +355,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
             }));
             onError?.(voiceError);
         }
-    }, [apiKey, officerEmail, appName, widgetState.currentLanguage, onConversationStart, onError, debug, logLevel]);
+    }, [apiKey, token, getToken, usesVoiceServer, officerEmail, appName, conversationType, widgetState.currentLanguage, enableDiarization, transcriptionProvider, serverUrl, onConversationStart, onError, debug, logLevel]);
 
     // Handle conversation end
     const handleEndConversation = useCallback(async () => {
@@ -300,11 +372,16 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 webRTCServiceRef.current = null;
             }
 
-            // End Speechmatics stream and disconnect
-            if (speechmaticsServiceRef.current) {
-                speechmaticsServiceRef.current.endStream();
-                speechmaticsServiceRef.current.disconnect();
-                speechmaticsServiceRef.current = null;
+            // End the transcription stream and disconnect; the voice server connection stays open to report post-processing
+            if (transcriptionProviderRef.current) {
+                transcriptionProviderRef.current.endStream();
+                if (transcriptionProviderRef.current.name === 'server') {
+                    processingProviderRef.current?.disconnect();
+                    processingProviderRef.current = transcriptionProviderRef.current;
+                } else {
+                    transcriptionProviderRef.current.disconnect();
+                }
+                transcriptionProviderRef.current = null;
             }
 
             // Stop media stream
@@ -324,6 +401,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 duration: widgetState.session ?
                     Math.floor((new Date().getTime() - widgetState.session.startTime.getTime()) / 1000) : 0,
                 language: widgetState.currentLanguage,
+                ...(conversationType ? { conversationType } : {}),
                 status: 'processing' as const,
                 transcript: widgetState.transcript,
             };
@@ -337,6 +415,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                 session: null,
                 transcript: '',
                 partialTranscript: '',
+                turns: [],
             }));
 
             onConversationEnd?.(conversation);
@@ -357,7 +436,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
             }));
             onError?.(voiceError);
         }
-    }, [officerEmail, appName, widgetState.session, widgetState.currentLanguage, widgetState.transcript, onConversationEnd, onError, debug, logLevel]);
+    }, [officerEmail, appName, conversationType, widgetState.session, widgetState.currentLanguage, widgetState.transcript, onConversationEnd, onError, debug, logLevel]);
 
     // Handle error dismissal
     const handleDismissError = useCallback(() => {
@@ -473,6 +552,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                                 isRecording={widgetState.isRecording}
                                 isProcessing={widgetState.isProcessing}
                                 language={widgetState.currentLanguage}
+                                processing={widgetState.processing}
                             />
 
                             {/* Error Display */}
@@ -488,6 +568,7 @@ export const VoiceChatWidget: React.FC<VoiceChatWidgetProps> = ({
                                 <TranscriptDisplay
                                     transcript={widgetState.transcript}
                                     partialTranscript={widgetState.partialTranscript}
+                                    turns={widgetState.turns}
                                     language={widgetState.currentLanguage}
                                 />
                             )}
@@ -5,6 +5,11 @@ export { TranscriptDisplay } from './components/TranscriptDisplay';
 export { StatusIndicator } from './components/StatusIndicator';
 export { ErrorDisplay } from './components/ErrorDisplay';
 
+export { MockTranscriptionProvider } from './services/MockTranscriptionProvider';
+export { VoiceServerProvider } from './services/VoiceServerProvider';
+export { createTranscriptionProvider } from './services/TranscriptionProvider';
+export type { TranscriptionProvider, TranscriptionProviderName } from './services/TranscriptionProvider';
+
 export type {
     VoiceChatWidgetProps,
     CustomStyles,
@@ -16,6 +21,7 @@ export type {
     VoiceChatError,
     LanguageOption,
     WidgetState,
+    TranscriptTurn,
     AudioSettings,
     TranscriptionSettings,
     WidgetConfig,
@@ -25,6 +31,11 @@ export type {
     ConnectionStatus,
     RecordingStatus,
     ProcessingStatus,
+    ProcessingStageStatus,
+    ProcessingProgress,
+    ProcessingArtifacts,
+    ProcessingStageState,
+    ProcessingState,
 } from './types';
 
 export {
@@ -32,6 +43,7 @@ export {
     formatDuration,
     formatFileSize,
     formatCost,
+    formatSpeakerLabel,
     generateId,
     debounce,
     throttle,
@@ -49,4 +61,5 @@ export {
     supportsWebRTC,
     supportsWebSocket,
     getAudioContext,
+    applyProcessingProgress,
 } from './utils';
\ No newline at end of file
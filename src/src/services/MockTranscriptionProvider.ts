@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { SpeechmaticsConfig, TranscriptData } from './SpeechmaticsService';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+export interface MockScriptLine {
+    transcript: string;
+    speaker?: string;
+    confidence?: number;
+}
+
+const DEFAULT_SCRIPT: MockScriptLine[] = [
+    { speaker: 'S1', transcript: 'Good afternoon, this is the front desk. How can I help you today?' },
+    { speaker: 'S2', transcript: 'Hello, I would like to report that my bicycle was stolen last night.' },
+    { speaker: 'S1', transcript: 'I am sorry to hear that. Where was the bicycle parked?' },
+    { speaker: 'S2', transcript: 'Outside the train station on Main Street, locked to the railing.' },
+    { speaker: 'S1', transcript: 'Thank you. I will file a report and send you a reference number by email.' },
+];
+
+const BYTES_PER_SAMPLE: Record<string, number> = {
+    pcm_f32le: 4,
+    pcm_s16le: 2,
+    mulaw: 1,
+};
+
+/**
+ * Offline transcription provider that replays a scripted conversation.
+ *
+ * Every `chunksPerSegment` audio chunks produce the next scripted line, with a
+ * partial half way through, so demos and tests run without network access.
+ */
+export class MockTranscriptionProvider extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'mock' as const;
+    private config: SpeechmaticsConfig;
+    private script: MockScriptLine[];
+    private chunksPerSegment: number;
+    private isConnected = false;
+    private chunksReceived = 0;
+    private bytesReceived = 0;
+    private lineIndex = 0;
+    private segmentStartTime = 0;
+
+    constructor(config: SpeechmaticsConfig, script: MockScriptLine[] = DEFAULT_SCRIPT, chunksPerSegment = 10) {
+        super();
+        this.config = config;
+        this.script = script;
+        this.chunksPerSegment = Math.max(2, chunksPerSegment);
+    }
+
+    /**
+     * Start the mock recognition; the API key is ignored
+     */
+    async connect(_apiKey: string): Promise<void> {
+        if (this.isConnected) {
+            return;
+        }
+
+        this.isConnected = true;
+        this.emit('connected');
+        this.emit('recognitionStarted', { id: 'mock' });
+    }
+
+    /**
+     * Consume an audio chunk and emit scripted transcripts at fixed chunk counts
+     */
+    sendAudio(audioData: ArrayBuffer): void {
+        if (!this.isConnected) {
+            console.warn('Cannot send audio: mock transcription not connected');
+            return;
+        }
+
+        this.chunksReceived++;
+        this.bytesReceived += audioData.byteLength;
+
+        const line = this.script[this.lineIndex];
+        if (!line) {
+            return;
+        }
+
+        const position = this.chunksReceived % this.chunksPerSegment;
+
+        if (position === Math.floor(this.chunksPerSegment / 2) && this.config.enablePartials) {
+            const words = line.transcript.split(' ');
+            this.emit('partialTranscript', this.buildTranscript(words.slice(0, Math.ceil(words.length / 2)).join(' '), line, true));
+        } else if (position === 0) {
+            const transcriptData = this.buildTranscript(line.transcript, line, false);
+            this.segmentStartTime = transcriptData.endTime ?? this.segmentStartTime;
+            this.lineIndex++;
+            this.emit('finalTranscript', transcriptData);
+        }
+    }
+
+    /**
+     * Signal the end of the audio stream
+     */
+    endStream(): void {
+        if (!this.isConnected) {
+            return;
+        }
+        this.emit('endOfTranscript', { message: 'EndOfTranscript' });
+    }
+
+    /**
+     * Stop the mock recognition
+     */
+    disconnect(): void {
+        if (!this.isConnected) {
+            return;
+        }
+
+        this.isConnected = false;
+        this.emit('disconnected');
+    }
+
+    /**
+     * Build transcript data for a scripted line at the current audio position
+     */
+    private buildTranscript(transcript: string, line: MockScriptLine, isPartial: boolean): TranscriptData {
+        const bytesPerSecond = this.config.sampleRate * (BYTES_PER_SAMPLE[this.config.encoding] || 4);
+        const transcriptData: TranscriptData = {
+            transcript,
+            confidence: line.confidence ?? 0.95,
+            isPartial,
+            timestamp: Date.now(),
+            startTime: this.segmentStartTime,
+            endTime: Math.round((this.bytesReceived / bytesPerSecond) * 1000) / 1000,
+        };
+
+        if (line.speaker && this.config.diarization === 'speaker') {
+            transcriptData.speaker = line.speaker;
+        }
+
+        return transcriptData;
+    }
+}
@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import type { TranscriptionProvider } from './TranscriptionProvider';
 
 export interface SpeechmaticsConfig {
     language: string;
@@ -6,6 +7,8 @@ export interface SpeechmaticsConfig {
     punctuationPermitted: boolean;
     sampleRate: number;
     encoding: 'pcm_f32le' | 'pcm_s16le' | 'mulaw';
+    diarization?: 'none' | 'speaker';
+    maxSpeakers?: number;
 }
 
 export interface TranscriptData {
@@ -15,9 +18,28 @@ export interface TranscriptData {
     timestamp: number;
     startTime?: number;
     endTime?: number;
+    speaker?: string;
 }
 
-export class SpeechmaticsService extends EventEmitter {
+// Audio kept until Speechmatics acknowledges it, so it can be replayed into a new recognition
+interface RetainedAudio {
+    data: ArrayBuffer;
+    duration: number;
+    // Sequence number in the current recognition; null until sent
+    seqNo: number | null;
+}
+
+const BYTES_PER_SAMPLE: Record<SpeechmaticsConfig['encoding'], number> = {
+    pcm_f32le: 4,
+    pcm_s16le: 2,
+    mulaw: 1,
+};
+
+// Unacknowledged audio kept for replay; the oldest is dropped beyond this
+const MAX_RETAINED_SECONDS = 30;
+
+export class SpeechmaticsService extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'speechmatics' as const;
     private ws: WebSocket | null = null;
     private config: SpeechmaticsConfig;
     private isConnected = false;
@@ -28,6 +50,14 @@ export class SpeechmaticsService extends EventEmitter {
     private reconnectAttempts = 0;
     private maxReconnectAttempts = 5;
     private reconnectDelay = 1000;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private isReconnecting = false;
+    private apiKey = '';
+    private retainedAudio: RetainedAudio[] = [];
+    private retainedSeconds = 0;
+    // Seconds of audio before the current recognition's first chunk; added to its transcript timings
+    private acknowledgedSeconds = 0;
+    private timeOffset = 0;
 
     constructor(config: SpeechmaticsConfig) {
         super();
@@ -43,6 +73,8 @@ export class SpeechmaticsService extends EventEmitter {
         }
 
         this.isConnecting = true;
+        // Kept so a dropped connection can be re-established
+        this.apiKey = apiKey;
 
         try {
             // Use temporary key for browser-based transcription
@@ -91,11 +123,19 @@ export class SpeechmaticsService extends EventEmitter {
      * Disconnect from Speechmatics
      */
     disconnect(): void {
-        if (!this.isConnected) {
+        if (!this.isConnected && !this.isReconnecting) {
             return;
         }
 
         this.isConnected = false;
+        this.isRecognitionStarted = false;
+        this.isReconnecting = false;
+        this.clearRetainedAudio();
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
 
         if (this.ws) {
             this.ws.close();
@@ -110,24 +150,66 @@ export class SpeechmaticsService extends EventEmitter {
      */
     sendAudio(audioData: ArrayBuffer): void {
         if (!this.isConnected || !this.ws || !this.isRecognitionStarted) {
+            // Keep audio that arrives mid-reconnect for the next recognition
+            if (this.isReconnecting) {
+                this.retainAudio(audioData);
+                return;
+            }
             console.warn('Cannot send audio: not connected to Speechmatics or recognition not started');
             return;
         }
 
         try {
-            // Increment sequence number
-            this.audioSequenceNumber++;
-
-            // Send as binary data (AddAudio message)
-            this.ws.send(audioData);
-
-            console.debug(`Sent audio chunk to Speechmatics: ${audioData.byteLength} bytes, seq: ${this.audioSequenceNumber}`);
+            this.transmitAudio(this.retainAudio(audioData));
         } catch (error) {
             console.error('Error sending audio to Speechmatics:', error);
             this.emit('error', error);
         }
     }
 
+    /**
+     * Send retained audio as the next chunk of the current recognition
+     */
+    private transmitAudio(entry: RetainedAudio): void {
+        if (!this.ws) {
+            return;
+        }
+
+        // Increment sequence number
+        this.audioSequenceNumber++;
+        entry.seqNo = this.audioSequenceNumber;
+
+        // Send as binary data (AddAudio message)
+        this.ws.send(entry.data);
+
+        console.debug(`Sent audio chunk to Speechmatics: ${entry.data.byteLength} bytes, seq: ${this.audioSequenceNumber}`);
+    }
+
+    /**
+     * Hold audio until it is acknowledged, dropping the oldest beyond the retention limit
+     */
+    private retainAudio(data: ArrayBuffer): RetainedAudio {
+        const byteRate = this.config.sampleRate * BYTES_PER_SAMPLE[this.config.encoding];
+        const entry: RetainedAudio = { data, duration: data.byteLength / byteRate, seqNo: null };
+        this.retainedAudio.push(entry);
+        this.retainedSeconds += entry.duration;
+
+        while (this.retainedSeconds > MAX_RETAINED_SECONDS && this.retainedAudio.length > 1) {
+            const dropped = this.retainedAudio.shift()!;
+            this.retainedSeconds -= dropped.duration;
+            // Dropped audio still advances the timeline, leaving a gap rather than shifting later words
+            this.acknowledgedSeconds += dropped.duration;
+            console.warn(`Dropped ${dropped.data.byteLength} bytes of unacknowledged audio`);
+        }
+
+        return entry;
+    }
+
+    private clearRetainedAudio(): void {
+        this.retainedAudio = [];
+        this.retainedSeconds = 0;
+    }
+
     /**
      * Send end of stream signal
      */
@@ -204,14 +286,26 @@ export class SpeechmaticsService extends EventEmitter {
             this.emit('error', error);
         };
 
+        const ws = this.ws;
         this.ws.onclose = (event) => {
             console.warn(`Speechmatics WebSocket closed: ${event.code} ${event.reason}`);
+
+            // disconnect() already tore this socket down; it must not trigger a reconnect
+            if (ws !== this.ws) {
+                return;
+            }
+
             this.isConnected = false;
+            this.isRecognitionStarted = false;
             this.emit('disconnected');
 
             // Attempt to reconnect if not intentionally closed
             if (event.code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
+                this.isReconnecting = true;
                 this.attemptReconnect();
+            } else {
+                this.isReconnecting = false;
+                this.clearRetainedAudio();
             }
         };
     }
@@ -264,15 +358,34 @@ export class SpeechmaticsService extends EventEmitter {
     private handleRecognitionStarted(message: any): void {
         this.recognitionId = message.id;
         this.isRecognitionStarted = true;
-        console.info('Speechmatics recognition started', { id: message.id });
+        this.isReconnecting = false;
+
+        // A new recognition numbers its audio from 1 and times it from 0
+        this.audioSequenceNumber = 0;
+        this.timeOffset = this.acknowledgedSeconds;
+        console.info('Speechmatics recognition started', { id: message.id, time_offset: this.timeOffset });
+
+        // Replay what the previous recognition never acknowledged before any new audio
+        if (this.retainedAudio.length > 0) {
+            console.info(`Replaying ${this.retainedAudio.length} unacknowledged audio chunks`);
+            this.retainedAudio.forEach(entry => this.transmitAudio(entry));
+        }
+
         this.emit('recognitionStarted', message);
     }
 
     /**
-     * Handle audio added confirmation
+     * Handle audio added confirmation, releasing the audio it covers
      */
     private handleAudioAdded(message: any): void {
         console.debug('Audio chunk confirmed by Speechmatics', { seq_no: message.seq_no });
+
+        while (this.retainedAudio[0] && this.retainedAudio[0].seqNo !== null && this.retainedAudio[0].seqNo <= message.seq_no) {
+            const acknowledged = this.retainedAudio.shift()!;
+            this.retainedSeconds -= acknowledged.duration;
+            this.acknowledgedSeconds += acknowledged.duration;
+        }
+
         this.emit('audioAdded', message);
     }
 
@@ -280,34 +393,90 @@ export class SpeechmaticsService extends EventEmitter {
      * Handle final transcript
      */
     private handleTranscript(message: any): void {
-        const transcriptData: TranscriptData = {
-            transcript: message.transcript.alternatives[0]?.content || '',
-            confidence: message.transcript.alternatives[0]?.confidence || 0,
-            isPartial: false,
-            timestamp: Date.now(),
-            startTime: message.transcript.start_time,
-            endTime: message.transcript.end_time,
-        };
-
-        console.debug(`Final transcript: ${transcriptData.transcript}`);
-        this.emit('finalTranscript', transcriptData);
+        // With diarization on, a single message can span several speakers; emit one transcript per turn
+        for (const transcriptData of this.buildTranscripts(message, false)) {
+            console.debug(`Final transcript: ${transcriptData.transcript}`);
+            this.emit('finalTranscript', transcriptData);
+        }
     }
 
     /**
      * Handle partial transcript
      */
     private handlePartialTranscript(message: any): void {
-        const transcriptData: TranscriptData = {
-            transcript: message.transcript.alternatives[0]?.content || '',
-            confidence: message.transcript.alternatives[0]?.confidence || 0,
-            isPartial: true,
-            timestamp: Date.now(),
-            startTime: message.transcript.start_time,
-            endTime: message.transcript.end_time,
+        for (const transcriptData of this.buildTranscripts(message, true)) {
+            console.debug(`Partial transcript: ${transcriptData.transcript}`);
+            this.emit('partialTranscript', transcriptData);
+        }
+    }
+
+    /**
+     * Build transcripts from a transcript message, split into runs of the same speaker
+     */
+    private buildTranscripts(message: any, isPartial: boolean): TranscriptData[] {
+        const results: any[] = message.results || [];
+
+        if (results.length === 0) {
+            return [{
+                transcript: message.transcript?.alternatives?.[0]?.content || message.metadata?.transcript || '',
+                confidence: message.transcript?.alternatives?.[0]?.confidence || 0,
+                isPartial,
+                timestamp: Date.now(),
+                startTime: this.offsetTime(message.transcript?.start_time ?? message.metadata?.start_time),
+                endTime: this.offsetTime(message.transcript?.end_time ?? message.metadata?.end_time),
+            }];
+        }
+
+        const transcripts: TranscriptData[] = [];
+        let current: TranscriptData | null = null;
+        let confidences: number[] = [];
+
+        const finishTurn = () => {
+            if (current) {
+                current.confidence = confidences.length > 0
+                    ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+                    : 0;
+            }
         };
 
-        console.debug(`Partial transcript: ${transcriptData.transcript}`);
-        this.emit('partialTranscript', transcriptData);
+        for (const result of results) {
+            const alternative = result.alternatives?.[0];
+            if (!alternative) continue;
+
+            // Punctuation stays with the word it attaches to, whatever its speaker label
+            if (!current || (result.type === 'word' && alternative.speaker !== current.speaker)) {
+                finishTurn();
+                current = {
+                    transcript: alternative.content,
+                    confidence: 0,
+                    isPartial,
+                    timestamp: Date.now(),
+                    startTime: this.offsetTime(result.start_time),
+                    endTime: this.offsetTime(result.end_time),
+                    speaker: alternative.speaker,
+                };
+                confidences = [];
+                transcripts.push(current);
+            } else {
+                const separator = result.attaches_to === 'previous' || result.attaches_to === 'both' ? '' : ' ';
+                current.transcript += `${separator}${alternative.content}`;
+                current.endTime = this.offsetTime(result.end_time);
+            }
+
+            if (result.type === 'word') {
+                confidences.push(alternative.confidence);
+            }
+        }
+        finishTurn();
+
+        return transcripts;
+    }
+
+    /**
+     * Shift a time in the current recognition onto the session's timeline
+     */
+    private offsetTime(time: number | undefined): number | undefined {
+        return time === undefined ? undefined : time + this.timeOffset;
     }
 
     /**
@@ -362,7 +531,13 @@ export class SpeechmaticsService extends EventEmitter {
                 max_delay: 4,
                 max_delay_mode: 'flexible',
                 operating_point: 'standard',
-                diarization: 'none',
+                diarization: this.config.diarization || 'none',
+                ...(this.config.diarization === 'speaker' ? {
+                    speaker_diarization_config: {
+                        max_speakers: this.config.maxSpeakers || 2,
+                        prefer_current_speaker: true,
+                    },
+                } : {}),
             },
         };
 
@@ -376,6 +551,8 @@ export class SpeechmaticsService extends EventEmitter {
     private async attemptReconnect(): Promise<void> {
         if (this.reconnectAttempts >= this.maxReconnectAttempts) {
             console.error('Max reconnection attempts reached');
+            this.isReconnecting = false;
+            this.clearRetainedAudio();
             this.emit('maxReconnectAttemptsReached');
             return;
         }
@@ -385,11 +562,10 @@ export class SpeechmaticsService extends EventEmitter {
 
         console.info(`Attempting to reconnect to Speechmatics (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts}) in ${delay}ms`);
 
-        setTimeout(async () => {
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
             try {
-                // Note: We need the API key to reconnect, but it's not stored
-                // This is a limitation of the current implementation
-                console.warn('Reconnection not implemented - need API key');
+                await this.connect(this.apiKey);
             } catch (error) {
                 console.error(`Reconnection attempt ${this.reconnectAttempts} failed:`, error);
             }
@@ -0,0 +1,60 @@
+import { EventEmitter } from 'events';
+import { SpeechmaticsService, SpeechmaticsConfig } from './SpeechmaticsService';
+import { MockTranscriptionProvider } from './MockTranscriptionProvider';
+
+export type TranscriptionProviderName = 'speechmatics' | 'mock' | 'server';
+
+/**
+ * A streaming speech-to-text engine used by the widget.
+ *
+ * Providers emit `partialTranscript` and `finalTranscript` with TranscriptData,
+ * plus `connected`, `recognitionStarted`, `disconnected` and `error`. The voice
+ * server provider also emits `audioBackpressure` when the server's buffer fills
+ * and `processingProgress` while an ended conversation is post-processed.
+ */
+export interface TranscriptionProvider extends EventEmitter {
+    readonly name: TranscriptionProviderName;
+
+    // The engine's API key, or the session token for the voice server
+    connect(credential: string): Promise<void>;
+    sendAudio(audioData: ArrayBuffer): void;
+    endStream(): void;
+    disconnect(): void;
+}
+
+/**
+ * Create a transcription provider by name
+ */
+export function createTranscriptionProvider(
+    name: TranscriptionProviderName,
+    config: SpeechmaticsConfig
+): TranscriptionProvider {
+    switch (name) {
+        case 'mock':
+            return new MockTranscriptionProvider(config);
+        case 'speechmatics':
+        default:
+            return new SpeechmaticsService(config);
+    }
+}
+
+/**
+ * Ask the server which transcription provider is registered for an app
+ */
+export async function resolveTranscriptionProvider(
+    serverUrl: string,
+    appName: string
+): Promise<TranscriptionProviderName> {
+    try {
+        const response = await fetch(`${serverUrl}/api/apps/${encodeURIComponent(appName)}/transcription`);
+        if (!response.ok) {
+            throw new Error(`Failed to resolve transcription provider: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        return data.provider === 'mock' ? 'mock' : 'speechmatics';
+    } catch (error) {
+        console.warn('Falling back to Speechmatics transcription:', error);
+        return 'speechmatics';
+    }
+}
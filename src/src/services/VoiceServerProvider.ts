@@ -0,0 +1,363 @@
+import { EventEmitter } from 'events';
+import { io, Socket } from 'socket.io-client';
+import { TranscriptData } from './SpeechmaticsService';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+import type { AudioBackpressure } from './WebRTCService';
+import { ProcessingProgress, VoiceChatError } from '../types';
+import { createError } from '../utils';
+
+export interface VoiceServerConfig {
+    serverUrl: string;
+    officerEmail: string;
+    appName: string;
+    language: string;
+    conversationType?: string;
+    sampleRate: number;
+    channels: number;
+    // Fetches a fresh session token from the host backend before the current one expires
+    getToken?: () => Promise<string>;
+}
+
+// The voice server transcribes 16 kHz audio
+export const VOICE_SERVER_SAMPLE_RATE = 16000;
+
+// Refresh this long before the session token expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// How long the server has to accept the connection and start the session
+const START_TIMEOUT_MS = 10000;
+
+// How long an ended session's connection waits for the next progress event before closing
+const PROCESSING_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Server error codes that mean the session token is no longer accepted
+const TOKEN_ERROR_CODES = ['TOKEN_EXPIRED', 'TOKEN_REVOKED', 'INVALID_TOKEN'];
+
+/**
+ * Transcription through the voice server, for widgets given a session token instead of an API key.
+ *
+ * The server verifies the token, runs the app's registered engine and relays its transcripts over
+ * Socket.IO. The token is refreshed through `getToken` before it expires and on every reconnect.
+ * After the session ends the connection stays open to relay `processingProgress` until the
+ * conversation's pipeline finishes.
+ */
+export class VoiceServerProvider extends EventEmitter implements TranscriptionProvider {
+    public readonly name = 'server' as const;
+    private config: VoiceServerConfig;
+    private socket: Socket | null = null;
+    private token = '';
+    private tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private sessionId: string | null = null;
+    private resumeToken: string | null = null;
+    private lastSeq = 0;
+    private processingTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(config: VoiceServerConfig) {
+        super();
+        this.config = config;
+    }
+
+    /**
+     * Connect with a session token and start a session; without a token one is fetched through getToken
+     */
+    async connect(token: string): Promise<void> {
+        if (this.socket) {
+            return;
+        }
+
+        this.token = token;
+        try {
+            this.token = await this.getValidToken();
+        } catch (error) {
+            throw createError('UNAUTHORIZED', 'Failed to obtain a session token', { originalError: error });
+        }
+
+        const socket = io(this.config.serverUrl, {
+            transports: ['websocket'],
+            timeout: START_TIMEOUT_MS,
+            forceNew: true,
+            // Evaluated on every (re)connection, so a reconnect never presents an expired token
+            auth: (callback) => {
+                this.getValidToken()
+                    .catch(() => this.token)
+                    .then(validToken => callback({ token: validToken }));
+            },
+        });
+        this.socket = socket;
+        this.setupSocketHandlers(socket);
+
+        try {
+            await this.waitForSession(socket);
+        } catch (error) {
+            this.disconnect();
+            throw error;
+        }
+
+        this.scheduleTokenRefresh();
+        this.emit('connected');
+        this.emit('recognitionStarted', { id: this.sessionId });
+    }
+
+    /**
+     * Stream an audio chunk to the session
+     */
+    sendAudio(audioData: ArrayBuffer): void {
+        if (!this.socket || !this.sessionId) {
+            console.warn('Cannot send audio: voice server session not started');
+            return;
+        }
+
+        this.socket.emit('audioData', {
+            sessionId: this.sessionId,
+            audioChunk: {
+                data: audioData,
+                timestamp: Date.now(),
+                sampleRate: this.config.sampleRate,
+                channels: this.config.channels,
+            },
+        });
+    }
+
+    /**
+     * End the session; the connection closes itself once the server has post-processed the conversation
+     */
+    endStream(): void {
+        if (!this.socket || !this.sessionId) {
+            return;
+        }
+        this.socket.emit('endSession', { sessionId: this.sessionId });
+    }
+
+    /**
+     * Close the connection to the voice server
+     */
+    disconnect(): void {
+        this.clearTokenRefresh();
+        this.clearProcessingTimer();
+
+        if (!this.socket) {
+            return;
+        }
+
+        this.socket.removeAllListeners();
+        this.socket.disconnect();
+        this.socket = null;
+        this.sessionId = null;
+        this.resumeToken = null;
+        this.lastSeq = 0;
+        this.emit('disconnected');
+    }
+
+    /**
+     * Relay the server's session events
+     */
+    private setupSocketHandlers(socket: Socket): void {
+        socket.on('connect', () => {
+            // Pick the session back up after a dropped connection; a fresh connection starts one
+            if (this.sessionId && this.resumeToken) {
+                socket.emit('resumeSession', { sessionId: this.sessionId, resumeToken: this.resumeToken, lastSeq: this.lastSeq });
+                return;
+            }
+
+            socket.emit('startSession', {
+                officerEmail: this.config.officerEmail,
+                appName: this.config.appName,
+                language: this.config.language,
+                ...(this.config.conversationType ? { conversationType: this.config.conversationType } : {}),
+            });
+        });
+
+        socket.on('sessionStarted', (data) => {
+            this.sessionId = data.id;
+            this.resumeToken = data.resumeToken || null;
+            this.lastSeq = 0;
+        });
+
+        socket.on('sessionResumed', (data) => {
+            this.resumeToken = data.resumeToken || this.resumeToken;
+
+            // Deliver the final segments produced while we were offline
+            (data.missedSegments || []).forEach((segment: TranscriptData & { seq: number }) => {
+                this.lastSeq = Math.max(this.lastSeq, segment.seq);
+                this.emit('finalTranscript', segment);
+            });
+        });
+
+        socket.on('partialTranscript', (transcriptData: TranscriptData) => {
+            this.emit('partialTranscript', transcriptData);
+        });
+
+        socket.on('finalTranscript', (transcriptData: TranscriptData & { seq?: number }) => {
+            if (typeof transcriptData.seq === 'number') {
+                this.lastSeq = Math.max(this.lastSeq, transcriptData.seq);
+            }
+            this.emit('finalTranscript', transcriptData);
+        });
+
+        // The server's audio buffer for the session filled up or drained; WebRTCService pauses or resumes capture
+        socket.on('audioBackpressure', (backpressure: AudioBackpressure & { sessionId: string }) => {
+            if (backpressure.sessionId === this.sessionId) {
+                this.emit('audioBackpressure', backpressure);
+            }
+        });
+
+        socket.on('sessionEnded', (conversation) => {
+            this.emit('sessionEnded', conversation);
+            // Stay connected to report the conversation's summary, report and email
+            this.watchProcessing();
+        });
+
+        socket.on('processingProgress', (progress: ProcessingProgress) => {
+            if (progress.sessionId !== this.sessionId) {
+                return;
+            }
+
+            this.emit('processingProgress', progress);
+            if (!this.processingTimer) {
+                return;
+            }
+            if (progress.pipelineStatus === 'running') {
+                this.watchProcessing();
+            } else {
+                this.disconnect();
+            }
+        });
+
+        socket.on('error', (error) => {
+            // Errors before the session starts reject connect() instead
+            if (this.sessionId) {
+                this.emit('error', this.toVoiceChatError(error));
+            }
+        });
+    }
+
+    /**
+     * Wait for the server to accept the connection and start the session
+     */
+    private waitForSession(socket: Socket): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const settle = (error?: VoiceChatError) => {
+                clearTimeout(timeout);
+                socket.off('sessionStarted', onStarted);
+                socket.off('connect_error', onFailed);
+                socket.off('error', onFailed);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+            const onStarted = () => settle();
+            const onFailed = (error: unknown) => settle(this.toVoiceChatError(error));
+            const timeout = setTimeout(() => {
+                settle(createError('NETWORK_ERROR', 'Voice server did not start the session in time'));
+            }, START_TIMEOUT_MS);
+
+            socket.on('sessionStarted', onStarted);
+            socket.on('connect_error', onFailed);
+            socket.on('error', onFailed);
+        });
+    }
+
+    /**
+     * Map a handshake rejection or server error event to a widget error
+     */
+    private toVoiceChatError(error: any): VoiceChatError {
+        // The handshake was rejected for the token or this page's origin; retrying won't help
+        const handshakeCode = error instanceof Error ? (error as Error & { data?: { code?: string } }).data?.code : undefined;
+        if (handshakeCode) {
+            return createError('UNAUTHORIZED', 'Voice server rejected the session token', { reason: handshakeCode });
+        }
+        if (error instanceof Error) {
+            return createError('NETWORK_ERROR', 'Failed to connect to voice server', { originalError: error });
+        }
+
+        if (TOKEN_ERROR_CODES.includes(error?.code)) {
+            return createError('UNAUTHORIZED', error.message || 'Session token rejected', { reason: error.code });
+        }
+        return createError(error?.code || 'API_ERROR', error?.message || 'Voice server error', error?.details);
+    }
+
+    /**
+     * Return the current session token, fetching a new one when it is missing or about to expire
+     */
+    private async getValidToken(): Promise<string> {
+        const expiresAt = this.token ? this.getTokenExpiry(this.token) : 0;
+        if (this.token && expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+            return this.token;
+        }
+
+        if (!this.config.getToken) {
+            if (this.token && expiresAt > Date.now()) {
+                return this.token;
+            }
+            throw new Error('Session token expired and no getToken callback is configured');
+        }
+
+        this.token = await this.config.getToken();
+        return this.token;
+    }
+
+    /**
+     * Read a JWT's expiry in milliseconds without verifying it; the server does that
+     */
+    private getTokenExpiry(token: string): number {
+        try {
+            const payload = token.split('.')[1] || '';
+            const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+            return typeof claims.exp === 'number' ? claims.exp * 1000 : 0;
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Refresh the session token shortly before it expires and hand the new one to the server
+     */
+    private scheduleTokenRefresh(): void {
+        this.clearTokenRefresh();
+        const expiresAt = this.getTokenExpiry(this.token);
+        if (!this.config.getToken || !expiresAt) {
+            return;
+        }
+
+        const delay = Math.max(expiresAt - Date.now() - TOKEN_REFRESH_MARGIN_MS, 0);
+        this.tokenRefreshTimer = setTimeout(async () => {
+            try {
+                this.token = await this.config.getToken!();
+                this.socket?.emit('refreshToken', { token: this.token });
+                this.scheduleTokenRefresh();
+            } catch (error) {
+                this.emit('error', createError('UNAUTHORIZED', 'Failed to refresh session token', { originalError: error }));
+            }
+        }, delay);
+    }
+
+    /**
+     * Close the connection if post-processing goes quiet
+     */
+    private watchProcessing(): void {
+        this.clearProcessingTimer();
+        this.processingTimer = setTimeout(() => this.disconnect(), PROCESSING_IDLE_TIMEOUT_MS);
+    }
+
+    /**
+     * Stop waiting for post-processing
+     */
+    private clearProcessingTimer(): void {
+        if (this.processingTimer) {
+            clearTimeout(this.processingTimer);
+            this.processingTimer = null;
+        }
+    }
+
+    /**
+     * Stop refreshing the session token
+     */
+    private clearTokenRefresh(): void {
+        if (this.tokenRefreshTimer) {
+            clearTimeout(this.tokenRefreshTimer);
+            this.tokenRefreshTimer = null;
+        }
+    }
+}
@@ -5,6 +5,15 @@ export interface WebRTCConfig {
     audioConstraints: MediaStreamConstraints;
     sampleRate: number;
     channels: number;
+    // Chunks held while the server applies backpressure; the oldest are dropped beyond this
+    maxHeldChunks?: number;
+}
+
+// Flow control signal from the voice server's per-session audio buffer
+export interface AudioBackpressure {
+    paused: boolean;
+    bufferedBytes?: number;
+    maxBytes?: number;
 }
 
 export interface AudioChunk {
@@ -26,6 +35,8 @@ export class WebRTCService extends EventEmitter {
     private audioSequenceNumber = 0;
     private audioChunkSize = 4096; // 4KB chunks
     private audioChunkInterval: number | null = null;
+    private isPaused = false;
+    private heldChunks: AudioChunk[] = [];
 
     constructor(config: WebRTCConfig) {
         super();
@@ -96,11 +107,32 @@ export class WebRTCService extends EventEmitter {
         this.emit('streamingStopped');
     }
 
+    /**
+     * Pause or resume audio in response to backpressure from the voice server.
+     * Audio captured while paused is held and sent as one coalesced chunk on resume.
+     */
+    applyBackpressure(backpressure: AudioBackpressure): void {
+        if (backpressure.paused === this.isPaused) {
+            return;
+        }
+
+        this.isPaused = backpressure.paused;
+        if (this.isPaused) {
+            this.emit('audioPaused', backpressure);
+            return;
+        }
+
+        this.flushHeldChunks();
+        this.emit('audioResumed', backpressure);
+    }
+
     /**
      * Disconnect WebRTC
      */
     disconnect(): void {
         this.stopStreaming();
+        this.isPaused = false;
+        this.heldChunks = [];
 
         if (this.audioWorkletNode) {
             this.audioWorkletNode.disconnect();
@@ -232,9 +264,42 @@ export class WebRTCService extends EventEmitter {
             channels: this.config.channels,
         };
 
+        if (this.isPaused) {
+            this.heldChunks.push(audioChunk);
+            if (this.heldChunks.length > (this.config.maxHeldChunks ?? 50)) {
+                this.heldChunks.shift();
+            }
+            return;
+        }
+
         this.emit('audioChunk', audioChunk);
     }
 
+    /**
+     * Emit the audio held during backpressure as a single chunk, so resuming costs one message
+     */
+    private flushHeldChunks(): void {
+        const held = this.heldChunks;
+        this.heldChunks = [];
+
+        const first = held[0];
+        if (!first) {
+            return;
+        }
+
+        const data = new Uint8Array(held.reduce((total, chunk) => total + chunk.data.byteLength, 0));
+        let offset = 0;
+        held.forEach(chunk => {
+            data.set(new Uint8Array(chunk.data), offset);
+            offset += chunk.data.byteLength;
+        });
+
+        this.emit('audioChunk', {
+            ...first,
+            data: data.buffer,
+        });
+    }
+
     /**
      * Process audio chunk for streaming
      */
@@ -1,14 +1,22 @@
 export interface VoiceChatWidgetProps {
-    apiKey: string;
+    // Pass a session token (or getToken) in production; an API key in the page is visible to every visitor
+    apiKey?: string;
+    token?: string;
+    getToken?: () => Promise<string>;
     officerEmail: string;
     appName: string;
     language?: string;
+    // Selects the app's summary template, e.g. incident_report or witness_statement
+    conversationType?: string;
     position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
     theme?: 'light' | 'dark' | 'auto';
     customStyles?: CustomStyles;
     onConversationStart?: (session: VoiceSession) => void;
     onConversationEnd?: (conversation: VoiceConversation) => void;
     onError?: (error: VoiceChatError) => void;
+    enableDiarization?: boolean;
+    transcriptionProvider?: 'speechmatics' | 'mock';
+    serverUrl?: string;
     debug?: boolean;
     logLevel?: 'error' | 'warn' | 'info' | 'debug' | 'verbose';
 }
@@ -27,8 +35,10 @@ export interface VoiceSession {
     officerEmail: string;
     appName: string;
     language: string;
+    conversationType?: string;
     startTime: Date;
     status: 'active' | 'ended' | 'failed';
+    resumeToken?: string;
     speechmaticsConfig?: SpeechmaticsConfig;
     webrtcConfig?: WebRTCConfig;
 }
@@ -42,6 +52,7 @@ export interface VoiceConversation {
     endTime?: Date;
     duration?: number;
     language: string;
+    conversationType?: string;
     status: 'processing' | 'completed' | 'failed';
     totalCost?: number;
     costBreakdown?: CostBreakdown;
@@ -92,9 +103,17 @@ export interface WidgetState {
     currentLanguage: string;
     transcript: string;
     partialTranscript: string;
+    turns: TranscriptTurn[];
     error: VoiceChatError | null;
     session: VoiceSession | null;
     conversation: VoiceConversation | null;
+    // Post-processing of the last ended conversation, built from processingProgress events
+    processing: ProcessingState | null;
+}
+
+export interface TranscriptTurn {
+    speaker?: string;
+    text: string;
 }
 
 export interface AudioSettings {
@@ -126,4 +145,39 @@ export type WidgetTheme = 'light' | 'dark' | 'auto';
 export type WidgetSize = 'small' | 'medium' | 'large';
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 export type RecordingStatus = 'idle' | 'recording' | 'processing' | 'error';
-export type ProcessingStatus = 'idle' | 'processing' | 'completed' | 'failed';
\ No newline at end of file
+export type ProcessingStatus = 'idle' | 'processing' | 'completed' | 'failed';
+export type ProcessingStageStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+// A `processingProgress` event, pushed by the server as an ended session's conversation is post-processed
+export interface ProcessingProgress {
+    sessionId: string;
+    conversationId: string;
+    pipeline: string;
+    stage: string;
+    status: ProcessingStageStatus;
+    percent?: number;
+    error?: string;
+    stages: Record<string, ProcessingStageStatus>;
+    pipelineStatus: 'running' | 'completed' | 'failed';
+    artifacts: ProcessingArtifacts;
+    timestamp: string;
+}
+
+export interface ProcessingArtifacts {
+    audioUrl?: string;
+    pdfUrl?: string;
+}
+
+export interface ProcessingStageState {
+    status: ProcessingStageStatus;
+    percent?: number;
+    error?: string;
+}
+
+// Post-processing progress accumulated from `processingProgress` events
+export interface ProcessingState {
+    conversationId: string;
+    pipelineStatus: ProcessingProgress['pipelineStatus'];
+    stages: Record<string, ProcessingStageState>;
+    artifacts: ProcessingArtifacts;
+}
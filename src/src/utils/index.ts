@@ -1,4 +1,5 @@
 import { clsx, type ClassValue } from 'clsx';
+import type { ProcessingProgress, ProcessingState } from '../types';
 
 export function cn(...inputs: ClassValue[]) {
     return clsx(inputs);
@@ -31,6 +32,12 @@ export function formatCost(cost: number, currency: string = 'USD'): string {
     }).format(cost);
 }
 
+export function formatSpeakerLabel(speaker: string): string {
+    if (speaker === 'UU') return 'Unknown speaker';
+    const match = /^S(\d+)$/.exec(speaker);
+    return match ? `Speaker ${match[1]}` : speaker;
+}
+
 export function generateId(): string {
     return Math.random().toString(36).substr(2, 9);
 }
@@ -66,7 +73,7 @@ export function isValidEmail(email: string): boolean {
 }
 
 export function isValidApiKey(apiKey: string): boolean {
-    return apiKey && apiKey.length >= 32;
+    return !!apiKey && apiKey.length >= 32;
 }
 
 export function getPositionClasses(position: string): string {
@@ -184,4 +191,27 @@ export function supportsWebSocket(): boolean {
 export function getAudioContext(): AudioContext | null {
     const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
     return AudioContext ? new AudioContext() : null;
-}
\ No newline at end of file
+}
+export function applyProcessingProgress(state: ProcessingState | null, progress: ProcessingProgress): ProcessingState {
+    // Events for a newer conversation start over
+    const previous = state && state.conversationId === progress.conversationId ? state : null;
+
+    const stages: ProcessingState['stages'] = {};
+    Object.entries(progress.stages).forEach(([name, status]) => {
+        const stage = previous?.stages[name];
+        // Keep a stage's percent and error only while it stays in the same status
+        stages[name] = stage && stage.status === status ? { ...stage } : { status };
+    });
+    stages[progress.stage] = {
+        status: progress.status,
+        ...(typeof progress.percent === 'number' ? { percent: progress.percent } : {}),
+        ...(progress.error ? { error: progress.error } : {}),
+    };
+
+    return {
+        conversationId: progress.conversationId,
+        pipelineStatus: progress.pipelineStatus,
+        stages,
+        artifacts: { ...previous?.artifacts, ...progress.artifacts },
+    };
+}
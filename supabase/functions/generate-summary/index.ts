@@ -1,5 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  SUMMARY_SCHEMA_VERSION,
+  StructuredSummary,
+  SummaryRequirements,
+  buildSummaryJsonSchema,
+  formatSummaryText,
+  parseSummaryJson,
+} from '../_shared/summarySchema.ts'
+
+// Repair prompts sent after the first response fails validation
+const REPAIR_ATTEMPTS = 2
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a professional assistant that creates accurate and helpful summaries of conversations. Focus on key information, decisions, and actionable items. Only include facts stated in the conversation.'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,9 +28,9 @@ interface SummaryRequest {
 
 interface SummaryResponse {
   success: boolean;
+  // Plain-text rendering of summaryData
   summary?: string;
-  actionItems?: string[];
-  keyPoints?: string[];
+  summaryData?: StructuredSummary;
   error?: string;
 }
 
@@ -76,66 +89,141 @@ serve(async (req) => {
       )
     }
 
-    // Create prompt based on summary type
-    let prompt = ''
+    // The app's template for the conversation type, else the global one, else the default prompt
+    const conversationType = conversation.conversation_type || 'general'
+    let template = null
+    for (const appName of [conversation.app_name, null]) {
+      const query = supabaseClient
+        .from('summary_templates')
+        .select('*')
+        .eq('conversation_type', conversationType)
+        .eq('is_active', true)
+      const { data } = await (appName ? query.eq('app_name', appName) : query.is('app_name', null))
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      if (data) {
+        template = data
+        break
+      }
+    }
+    const requirements: SummaryRequirements = {
+      requiredSections: template?.required_sections || [],
+      detailsSchema: template?.output_schema || null,
+    }
+
+    // Create prompt based on summary type; every type fills the same schema
+    let focus = ''
     switch (summaryType) {
       case 'brief':
-        prompt = `Provide a brief summary (2-3 sentences) of this conversation in ${language}:\n\n${transcript}`
+        focus = 'Keep the overview to 2-3 sentences and the lists short.'
         break
       case 'action_items':
-        prompt = `Extract action items and key decisions from this conversation in ${language}. Format as a bulleted list:\n\n${transcript}`
+        focus = 'Concentrate on action items and decisions, with owners and due dates where stated.'
         break
       case 'detailed':
       default:
-        prompt = `Provide a detailed summary of this conversation in ${language}. Include key points, decisions made, and any action items:\n\n${transcript}`
+        focus = 'Be thorough: include key points, decisions made and any action items.'
         break
     }
+    const prompt = `Summarize this conversation in ${language}. ${focus}
 
-    // Call OpenAI API
-    const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a professional assistant that creates accurate and helpful summaries of conversations. Focus on key information, decisions, and actionable items.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.3,
-        top_p: 1,
-        frequency_penalty: 0,
-        presence_penalty: 0
+Fill in the conversation_summary function with schemaVersion ${SUMMARY_SCHEMA_VERSION}. Use empty lists when there is nothing to report, null for unknown owners, due dates and details, and YYYY-MM-DD for dates.${requirements.requiredSections.length > 0 ? ` These must not be empty: ${requirements.requiredSections.join(', ')}.` : ''}
+
+${transcript}`
+
+    // Call OpenAI, forcing the summary function so the output is JSON, and repair invalid output
+    let userPrompt = prompt
+    let summaryData: StructuredSummary | null = null
+    let errors: string[] = []
+    let inputTokens = 0
+    let outputTokens = 0
+
+    for (let attempt = 0; attempt <= REPAIR_ATTEMPTS && !summaryData; attempt++) {
+      const openaiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${openaiApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: 'gpt-4',
+          messages: [
+            {
+              role: 'system',
+              content: template?.system_prompt || DEFAULT_SYSTEM_PROMPT
+            },
+            {
+              role: 'user',
+              content: userPrompt
+            }
+          ],
+          tools: [
+            {
+              type: 'function',
+              function: {
+                name: 'conversation_summary',
+                description: template ? `Structured summary of a conversation: ${template.name}` : 'Structured summary of a conversation',
+                parameters: buildSummaryJsonSchema(requirements.detailsSchema)
+              }
+            }
+          ],
+          tool_choice: { type: 'function', function: { name: 'conversation_summary' } },
+          max_tokens: 1000,
+          temperature: 0.3,
+          top_p: 1,
+          frequency_penalty: 0,
+          presence_penalty: 0
+        })
       })
-    })
 
-    if (!openaiResponse.ok) {
-      const errorData = await openaiResponse.json()
-      console.error('OpenAI API error:', errorData)
+      if (!openaiResponse.ok) {
+        const errorData = await openaiResponse.json()
+        console.error('OpenAI API error:', errorData)
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to generate summary' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const openaiData = await openaiResponse.json()
+      inputTokens += openaiData.usage?.prompt_tokens || 0
+      outputTokens += openaiData.usage?.completion_tokens || 0
+
+      const output = openaiData.choices[0]?.message?.tool_calls?.[0]?.function?.arguments
+        || openaiData.choices[0]?.message?.content
+        || ''
+      const validation = parseSummaryJson(output, requirements)
+      if (validation.ok) {
+        summaryData = validation.summary
+      } else {
+        errors = validation.errors
+        console.warn(`Summary failed validation (attempt ${attempt + 1}):`, errors)
+        userPrompt = `${prompt}
+
+Your previous response was:
+${output}
+
+It did not match the required schema: ${errors.join('; ')}. Call conversation_summary again with corrected arguments.`
+      }
+    }
+
+    if (!summaryData) {
       return new Response(
-        JSON.stringify({ success: false, error: 'Failed to generate summary' }),
+        JSON.stringify({ success: false, error: 'Generated summary did not match the schema', details: errors }),
         { 
-          status: 500, 
+          status: 502, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    const openaiData = await openaiResponse.json()
-    const summary = openaiData.choices[0]?.message?.content || ''
+    const summary = formatSummaryText(summaryData)
 
-    // Calculate cost
-    const inputTokens = openaiData.usage?.prompt_tokens || 0
-    const outputTokens = openaiData.usage?.completion_tokens || 0
+    // Calculate cost, including any repair attempts
     const totalTokens = inputTokens + outputTokens
     
     // OpenAI pricing (approximate)
@@ -148,6 +236,11 @@ serve(async (req) => {
       .from('conversations')
       .update({ 
         summary: summary,
+        summary_data: template
+          ? { ...summaryData, metadata: { template: { id: template.id, name: template.name, version: template.version, conversationType } } }
+          : summaryData,
+        summary_schema_version: SUMMARY_SCHEMA_VERSION,
+        summary_generated_at: new Date().toISOString(),
         cost_breakdown: {
           ...conversation.cost_breakdown,
           openai: {
@@ -198,27 +291,10 @@ serve(async (req) => {
         }
       })
 
-    // Parse action items if summary type is action_items
-    let actionItems: string[] = []
-    let keyPoints: string[] = []
-    
-    if (summaryType === 'action_items') {
-      actionItems = summary.split('\n')
-        .filter(line => line.trim().startsWith('-') || line.trim().startsWith('•'))
-        .map(line => line.replace(/^[-•]\s*/, '').trim())
-        .filter(item => item.length > 0)
-    } else {
-      // Extract key points from detailed summary
-      keyPoints = summary.split('\n')
-        .filter(line => line.trim().length > 0)
-        .slice(0, 5) // Take first 5 points
-    }
-
     const response: SummaryResponse = {
       success: true,
       summary: summary,
-      actionItems: actionItems.length > 0 ? actionItems : undefined,
-      keyPoints: keyPoints.length > 0 ? keyPoints : undefined
+      summaryData: summaryData
     }
 
     return new Response(
@@ -0,0 +1,23 @@
+-- =============================================================================
+-- SESSION RESUME: RESUME TOKENS AND REPLAYABLE TRANSCRIPT SEGMENTS
+-- =============================================================================
+
+-- Track resume tokens and when the client dropped
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS resume_token_hash TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS disconnected_at TIMESTAMP WITH TIME ZONE;
+
+-- Final transcript segments, replayed to clients that resume a session
+CREATE TABLE IF NOT EXISTS transcript_segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    transcript TEXT NOT NULL,
+    confidence DECIMAL(5,4),
+    start_time DOUBLE PRECISION,
+    end_time DOUBLE PRECISION,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (session_id, seq)
+);
+
+-- Create indexes if they don't exist
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_session_id ON transcript_segments(session_id);
@@ -0,0 +1,9 @@
+-- =============================================================================
+-- SPEAKER DIARIZATION: SPEAKER LABELS ON SEGMENTS AND CONVERSATIONS
+-- =============================================================================
+
+-- Speechmatics speaker label (S1, S2, ... or UU for unknown)
+ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS speaker VARCHAR(16);
+
+-- Speaker-attributed turns used by the PDF report and email
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS speaker_turns JSONB;
@@ -0,0 +1,23 @@
+-- =============================================================================
+-- APP REGISTRATIONS: PER-APP TRANSCRIPTION PROVIDER
+-- =============================================================================
+
+-- Apps allowed to embed the widget
+CREATE TABLE IF NOT EXISTS app_registrations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    domain VARCHAR(255),
+    api_key VARCHAR(255) UNIQUE,
+    status VARCHAR(20) NOT NULL DEFAULT 'active',
+    permissions JSONB DEFAULT '[]',
+    rate_limit INTEGER NOT NULL DEFAULT 1000,
+    metadata JSONB DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Speech-to-text engine used for the app's sessions (speechmatics or mock)
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS transcription_provider VARCHAR(50) NOT NULL DEFAULT 'speechmatics';
+
+CREATE INDEX IF NOT EXISTS idx_app_registrations_api_key ON app_registrations(api_key);
@@ -0,0 +1,15 @@
+-- =============================================================================
+-- TRANSCRIPT SEGMENTS: WORD TIMINGS, REVISIONS AND CONVERSATION LINK
+-- =============================================================================
+
+-- Word-level results: content, type, start/end time, confidence and speaker
+ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS words JSONB NOT NULL DEFAULT '[]';
+
+-- Number of hypotheses (partials plus the final) produced before the segment was final
+ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+-- Set when the session ends and its conversation is created
+ALTER TABLE transcript_segments ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE SET NULL;
+
+-- Create indexes if they don't exist
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_conversation_id ON transcript_segments(conversation_id);
@@ -0,0 +1,24 @@
+-- =============================================================================
+-- AUDIO ANALYSIS: CONTAINER, LOUDNESS AND QUALITY FLAGS ON AUDIO FILES
+-- =============================================================================
+
+-- Parsed container and codec (wav/pcm_f32le, webm/opus, ...)
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS format VARCHAR(20);
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS codec VARCHAR(50);
+
+-- ok, silent or corrupted; downstream jobs check this before summarizing
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS status VARCHAR(20);
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS issues JSONB DEFAULT '[]';
+
+-- Loudness in dBFS and the share of 20 ms windows below the silence threshold
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS rms_dbfs DECIMAL(6,2);
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS peak_dbfs DECIMAL(6,2);
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS silence_ratio DECIMAL(5,4);
+
+-- Normalized 16-bit PCM WAV copy
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS archival_url TEXT;
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS archival_format VARCHAR(50);
+ALTER TABLE audio_files ADD COLUMN IF NOT EXISTS analyzed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes if they don't exist
+CREATE INDEX IF NOT EXISTS idx_audio_files_status ON audio_files(status);
@@ -0,0 +1,6 @@
+-- =============================================================================
+-- SESSION TOKENS: PER-APP REVOCATION
+-- =============================================================================
+
+-- Session tokens minted for an app before this time are rejected
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS tokens_revoked_at TIMESTAMPTZ;
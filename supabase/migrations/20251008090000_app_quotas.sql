@@ -0,0 +1,8 @@
+-- =============================================================================
+-- APP REGISTRATIONS: QUOTAS
+-- =============================================================================
+
+-- Per-app quota overrides (concurrent_sessions, audio_minutes_per_day, audio_minutes_per_month,
+-- officer_audio_minutes_per_day, officer_audio_minutes_per_month); omitted keys use the server defaults.
+-- Session starts per minute are limited by rate_limit.
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS quotas JSONB NOT NULL DEFAULT '{}';
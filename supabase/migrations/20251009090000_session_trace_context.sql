@@ -0,0 +1,6 @@
+-- =============================================================================
+-- SESSION TRACE CONTEXT: TIE A CONVERSATION'S STEPS INTO ONE TRACE
+-- =============================================================================
+
+-- W3C trace context of the span that started the session
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS trace_context JSONB;
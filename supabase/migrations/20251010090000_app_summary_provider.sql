@@ -0,0 +1,8 @@
+-- =============================================================================
+-- APP REGISTRATIONS: SUMMARY PROVIDER
+-- =============================================================================
+
+-- Summary backend for the app's conversations (openai, azure-openai, openai-compatible or extractive)
+-- and its model or Azure deployment; NULL uses SUMMARY_PROVIDER and the provider's default model.
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS summary_provider VARCHAR(50);
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS summary_model VARCHAR(255);
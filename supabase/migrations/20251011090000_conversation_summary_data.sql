@@ -0,0 +1,9 @@
+-- =============================================================================
+-- CONVERSATIONS: STRUCTURED SUMMARY
+-- =============================================================================
+
+-- Structured summary (overview, key points, decisions, action items, entities, sentiment, follow-ups)
+-- written by the summary worker and the generate-summary function; `summary` keeps its plain-text rendering.
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_data JSONB;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_schema_version INTEGER;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_generated_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,107 @@
+-- =============================================================================
+-- SUMMARY TEMPLATES: PER-APP, VERSIONED SUMMARY FORMATS
+-- =============================================================================
+
+-- How conversations of a type are summarized. Rows without an app are the global templates every app
+-- inherits until it saves its own; saving adds a version and deactivates the previous ones.
+CREATE TABLE IF NOT EXISTS summary_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    app_name VARCHAR(255) REFERENCES app_registrations(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    conversation_type VARCHAR(64) NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    system_prompt TEXT NOT NULL,
+    -- Sections of the base summary that must not be empty, e.g. ["overview", "actionItems"]
+    required_sections JSONB NOT NULL DEFAULT '["overview"]',
+    -- JSON Schema of the summary's `details` object, for fields of the template's own
+    output_schema JSONB,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (app_name, conversation_type, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_summary_templates_lookup ON summary_templates(conversation_type, app_name) WHERE is_active;
+
+DO $$ BEGIN
+    CREATE TRIGGER update_summary_templates_updated_at BEFORE UPDATE ON summary_templates
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE summary_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage summary templates" ON summary_templates;
+CREATE POLICY "Service role can manage summary templates" ON summary_templates
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Conversation type chosen by the widget, selecting the summary template
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS conversation_type VARCHAR(64);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS conversation_type VARCHAR(64);
+
+-- Global templates: the formats the summary worker used to hard-code, plus the emergency-services reports
+INSERT INTO summary_templates (app_name, conversation_type, version, name, description, system_prompt, required_sections, output_schema)
+VALUES
+    (NULL, 'general', 1, 'General conversation', 'Key points, decisions and outcomes of any conversation',
+     'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes.',
+     '["overview"]', NULL),
+    (NULL, 'customer_service', 1, 'Customer service call', 'The customer''s issue, its resolution and follow-up actions',
+     'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes. Focus on the customer''s issue, the resolution provided, and any follow-up actions needed.',
+     '["overview", "keyPoints"]', NULL),
+    (NULL, 'business_meeting', 1, 'Business meeting', 'Decisions, assigned action items and discussion points',
+     'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes. Focus on decisions made, action items assigned, and key discussion points.',
+     '["overview", "keyPoints"]', NULL),
+    (NULL, 'interview', 1, 'Interview', 'The candidate''s qualifications, answers and overall assessment',
+     'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes. Focus on the candidate''s qualifications, responses to questions, and overall assessment.',
+     '["overview", "keyPoints"]', NULL),
+    (NULL, 'medical_consultation', 1, 'Medical consultation', 'Symptoms, diagnosis, treatment plan and follow-up instructions',
+     'You are an AI assistant that creates comprehensive summaries of conversations. Create a detailed summary that captures the key points, decisions, and outcomes. Focus on symptoms discussed, diagnosis, treatment plan, and follow-up instructions.',
+     '["overview", "keyPoints"]', NULL),
+    (NULL, 'incident_report', 1, 'Incident report', 'What happened, where and when, who was involved and what was done',
+     'You are an assistant that writes incident reports for police and emergency services from recorded conversations. Write in a neutral, factual register. Record only what was said: never infer guilt, motive or facts that were not stated, and mark uncertain details as such.',
+     '["overview", "entities"]',
+     '{
+        "type": "object",
+        "required": ["incidentType", "occurredAt", "location", "narrative"],
+        "properties": {
+            "incidentType": { "type": "string", "description": "Kind of incident, e.g. burglary, traffic collision, medical emergency" },
+            "occurredAt": { "type": "string", "description": "When it happened, as stated, ISO 8601 where possible" },
+            "location": { "type": "string", "description": "Where it happened, as precisely as stated" },
+            "narrative": { "type": "string", "description": "Chronological account of the incident" },
+            "involvedParties": {
+                "type": "array",
+                "items": {
+                    "type": "object",
+                    "required": ["name", "role"],
+                    "properties": {
+                        "name": { "type": "string" },
+                        "role": { "type": "string", "enum": ["victim", "suspect", "witness", "reporting_party", "responder", "other"] },
+                        "description": { "type": "string" }
+                    }
+                }
+            },
+            "injuries": { "type": "string" },
+            "propertyDamage": { "type": "string" },
+            "actionsTaken": { "type": "array", "items": { "type": "string" } }
+        }
+    }'),
+    (NULL, 'witness_statement', 1, 'Witness statement', 'A witness''s first-hand account in their own words',
+     'You are an assistant that prepares witness statements for police from recorded interviews. Preserve the witness''s own account and wording where possible, keep it in the first person, and distinguish what the witness saw or heard themselves from what they were told by others. Never add facts that were not stated.',
+     '["overview"]',
+     '{
+        "type": "object",
+        "required": ["witnessName", "account"],
+        "properties": {
+            "witnessName": { "type": "string" },
+            "contactDetails": { "type": "string" },
+            "relationshipToIncident": { "type": "string", "description": "How the witness came to see or hear the events" },
+            "observedAt": { "type": "string", "description": "When the witness observed the events, as stated" },
+            "location": { "type": "string" },
+            "account": { "type": "string", "description": "First-person account in the witness''s words" },
+            "descriptions": { "type": "array", "items": { "type": "string" }, "description": "Descriptions of people or vehicles the witness gave" },
+            "hearsay": { "type": "array", "items": { "type": "string" }, "description": "What the witness was told by others rather than observed" }
+        }
+    }')
+ON CONFLICT (app_name, conversation_type, version) DO NOTHING;
@@ -0,0 +1,38 @@
+-- =============================================================================
+-- REPORT LANGUAGE AND TRANSCRIPT TRANSLATION
+-- =============================================================================
+
+-- Language summaries and reports are written in (a widget language code such as 'en'); NULL uses the
+-- conversation's language. translate_transcript also stores the full transcript in that language.
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS report_language VARCHAR(10);
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS translate_transcript BOOLEAN;
+
+-- Officers' overrides of their app's report settings; NULL columns inherit the app's
+CREATE TABLE IF NOT EXISTS officer_settings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    app_name VARCHAR(255) NOT NULL REFERENCES app_registrations(name) ON UPDATE CASCADE ON DELETE CASCADE,
+    officer_email VARCHAR(255) NOT NULL,
+    report_language VARCHAR(10),
+    translate_transcript BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (app_name, officer_email)
+);
+
+DO $$ BEGIN
+    CREATE TRIGGER update_officer_settings_updated_at BEFORE UPDATE ON officer_settings
+        FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE officer_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage officer settings" ON officer_settings;
+CREATE POLICY "Service role can manage officer settings" ON officer_settings
+    FOR ALL USING (auth.role() = 'service_role');
+
+-- Language the summary was written in, and the transcript translated into it
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS report_language VARCHAR(10);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS transcript_translation TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS transcript_translation_language VARCHAR(10);
@@ -0,0 +1,31 @@
+-- =============================================================================
+-- PII REDACTION: PER-APP POLICIES AND ACCESS-CONTROLLED ORIGINALS
+-- =============================================================================
+
+-- How personal data is replaced before transcripts are summarized or sent: 'none', 'mask', 'hash' or
+-- 'tokenize'; NULL uses REDACTION_POLICY. Names are redacted wherever they occur.
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS redaction_policy VARCHAR(20);
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS redaction_names TEXT[];
+
+-- Set once the redaction stage has replaced the conversation's transcript with redacted text
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS redaction_policy VARCHAR(20);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS redacted_at TIMESTAMP WITH TIME ZONE;
+
+-- Transcripts, speaker turns and segments as transcribed, with the values that were replaced in them.
+-- Only the service role may read them; the API serves them to apps with the pii:read permission.
+CREATE TABLE IF NOT EXISTS conversation_originals (
+    conversation_id UUID PRIMARY KEY REFERENCES conversations(id) ON DELETE CASCADE,
+    app_name VARCHAR(255) NOT NULL,
+    policy VARCHAR(20) NOT NULL,
+    transcript TEXT,
+    speaker_turns JSONB,
+    segments JSONB NOT NULL DEFAULT '[]',
+    entities JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE conversation_originals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage conversation originals" ON conversation_originals;
+CREATE POLICY "Service role can manage conversation originals" ON conversation_originals
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,44 @@
+-- =============================================================================
+-- DATA RETENTION: PER-APP RULES, LEGAL HOLDS AND PURGE AUDIT LOG
+-- =============================================================================
+
+-- Days audio, transcripts and reports are kept after a conversation ends, e.g.
+-- {"audio_days": 30, "transcript_days": 365, "report_days": 2555}; missing keys use the
+-- RETENTION_*_DAYS defaults and 0 keeps the category forever. A legal hold on the app skips it entirely.
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS retention JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE app_registrations ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Conversations on legal hold are never purged
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS legal_hold BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS legal_hold_reason TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS legal_hold_at TIMESTAMP WITH TIME ZONE;
+
+-- Set when the purge removed a category; once all three are set the conversation itself is deleted
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS audio_purged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS transcript_purged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS report_purged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_app_name_end_time ON conversations(app_name, end_time);
+
+-- One row per purge and legal hold change. Conversation IDs are kept without a foreign key,
+-- so entries outlive the conversations they record.
+CREATE TABLE IF NOT EXISTS retention_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID,
+    action VARCHAR(30) NOT NULL,
+    category VARCHAR(20),
+    app_name VARCHAR(255),
+    conversation_id UUID,
+    targets JSONB NOT NULL DEFAULT '[]',
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_audit_log_conversation_id ON retention_audit_log(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_retention_audit_log_created_at ON retention_audit_log(created_at);
+
+ALTER TABLE retention_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage retention audit log" ON retention_audit_log;
+CREATE POLICY "Service role can manage retention audit log" ON retention_audit_log
+    FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,2 @@
+// Stylesheets imported by widget components have no meaning under Jest
+module.exports = {};
@@ -1,5 +1,4 @@
 // Test setup file for Jest
-import '@testing-library/jest-dom';
 
 // Mock WebSocket for tests
 const mockWebSocket = {
@@ -13,44 +12,49 @@ const mockWebSocket = {
     CLOSED: 3,
 };
 
-// Mock MediaDevices for tests
-Object.defineProperty(navigator, 'mediaDevices', {
-    writable: true,
-    value: {
-        getUserMedia: jest.fn().mockResolvedValue({
-            getTracks: () => [
-                {
-                    kind: 'audio',
-                    stop: jest.fn(),
-                },
-            ],
-        }),
-    },
-});
+// Browser APIs only exist in the jsdom environment; server suites run under node
+if (typeof window !== 'undefined') {
+    require('@testing-library/jest-dom');
 
-// Mock AudioContext for tests
-const mockAudioContext = {
-    createMediaStreamSource: jest.fn().mockReturnValue({
-        connect: jest.fn(),
-    }),
-    createScriptProcessor: jest.fn().mockReturnValue({
-        connect: jest.fn(),
-        disconnect: jest.fn(),
-        onaudioprocess: null,
-    }),
-    close: jest.fn(),
-    destination: {},
-};
+    // Mock MediaDevices for tests
+    Object.defineProperty(navigator, 'mediaDevices', {
+        writable: true,
+        value: {
+            getUserMedia: jest.fn().mockResolvedValue({
+                getTracks: () => [
+                    {
+                        kind: 'audio',
+                        stop: jest.fn(),
+                    },
+                ],
+            }),
+        },
+    });
 
-Object.defineProperty(window, 'AudioContext', {
-    writable: true,
-    value: jest.fn().mockImplementation(() => mockAudioContext),
-});
+    // Mock AudioContext for tests
+    const mockAudioContext = {
+        createMediaStreamSource: jest.fn().mockReturnValue({
+            connect: jest.fn(),
+        }),
+        createScriptProcessor: jest.fn().mockReturnValue({
+            connect: jest.fn(),
+            disconnect: jest.fn(),
+            onaudioprocess: null,
+        }),
+        close: jest.fn(),
+        destination: {},
+    };
 
-Object.defineProperty(window, 'webkitAudioContext', {
-    writable: true,
-    value: jest.fn().mockImplementation(() => mockAudioContext),
-});
+    Object.defineProperty(window, 'AudioContext', {
+        writable: true,
+        value: jest.fn().mockImplementation(() => mockAudioContext),
+    });
+
+    Object.defineProperty(window, 'webkitAudioContext', {
+        writable: true,
+        value: jest.fn().mockImplementation(() => mockAudioContext),
+    });
+}
 
 // Mock WebSocket for tests
 Object.defineProperty(global, 'WebSocket', {
@@ -78,7 +82,7 @@ jest.setTimeout(30000);
 // Mock environment variables
 process.env.SPEECHMATICS_API_KEY = 'test-api-key';
 process.env.OPENAI_API_KEY = 'test-openai-key';
-process.env.NODE_ENV = 'test';
+Object.assign(process.env, { NODE_ENV: 'test' });
 process.env.APP_PORT = '3001';
 process.env.APP_HOST = '0.0.0.0';
 process.env.CORS_ORIGIN = 'http://localhost:3000';
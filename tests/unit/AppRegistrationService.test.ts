@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+import { AppRegistrationService } from '../../server/src/services/AppRegistrationService';
+import { AppRegistration, OfficerSettings } from '../../server/src/types';
+
+describe('AppRegistrationService', () => {
+    let registrations: AppRegistration[];
+    let officers: OfficerSettings[];
+    let queries: number;
+    let service: AppRegistrationService;
+
+    const registration = (overrides: Partial<AppRegistration> = {}): AppRegistration => ({
+        id: 'app-1',
+        name: 'intake',
+        domain: 'https://intake.example.com',
+        api_key: 'key-intake',
+        status: 'active',
+        permissions: ['basic'],
+        rate_limit: 1000,
+        transcription_provider: 'speechmatics',
+        metadata: {},
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        registrations = [registration()];
+        officers = [];
+        queries = 0;
+
+        const supabase: any = {
+            from: (table: string) => ({
+                select: () => {
+                    const filters: Array<[string, unknown]> = [];
+                    const builder = {
+                        eq: (column: string, value: unknown) => {
+                            filters.push([column, value]);
+                            return builder;
+                        },
+                        maybeSingle: async () => {
+                            queries++;
+                            const rows: any[] = table === 'officer_settings' ? officers : registrations;
+                            return { data: rows.find(row => filters.every(([column, value]) => row[column] === value)) || null, error: null };
+                        },
+                    };
+                    return builder;
+                },
+            }),
+        };
+
+        service = new AppRegistrationService(supabase);
+    });
+
+    describe('authenticate', () => {
+        it('should accept a valid key from the registered origin', async () => {
+            const result = await service.authenticate('key-intake', 'https://intake.example.com');
+
+            expect(result.ok).toBe(true);
+            expect(result.ok && result.registration.name).toBe('intake');
+        });
+
+        it('should reject missing and unknown keys', async () => {
+            expect(await service.authenticate(undefined, 'https://intake.example.com')).toEqual({ ok: false, code: 'MISSING_API_KEY' });
+            expect(await service.authenticate('key-unknown', 'https://intake.example.com')).toEqual({ ok: false, code: 'INVALID_API_KEY' });
+        });
+
+        it('should reject inactive apps', async () => {
+            registrations = [registration({ status: 'suspended' })];
+
+            expect(await service.authenticate('key-intake', 'https://intake.example.com')).toEqual({ ok: false, code: 'APP_INACTIVE' });
+        });
+
+        it('should reject other origins', async () => {
+            expect(await service.authenticate('key-intake', 'https://evil.example.net')).toEqual({ ok: false, code: 'ORIGIN_NOT_ALLOWED' });
+            expect(await service.authenticate('key-intake', undefined)).toEqual({ ok: false, code: 'ORIGIN_NOT_ALLOWED' });
+        });
+
+        it('should cache key lookups, including unknown keys', async () => {
+            await service.authenticate('key-intake', 'https://intake.example.com');
+            await service.authenticate('key-intake', 'https://intake.example.com');
+            await service.authenticate('key-unknown', 'https://intake.example.com');
+            await service.authenticate('key-unknown', 'https://intake.example.com');
+
+            expect(queries).toBe(2);
+
+            service.invalidate('intake');
+            await service.authenticate('key-intake', 'https://intake.example.com');
+            expect(queries).toBe(3);
+        });
+    });
+
+    describe('isOriginAllowed', () => {
+        it('should allow any origin when no domain is registered', () => {
+            const withoutDomain = registration();
+            delete withoutDomain.domain;
+
+            expect(service.isOriginAllowed(withoutDomain, 'https://anywhere.example.org')).toBe(true);
+            expect(service.isOriginAllowed(withoutDomain, undefined)).toBe(true);
+        });
+
+        it('should compare full origins including scheme and port', () => {
+            const app = registration({ domain: 'http://localhost:3000' });
+
+            expect(service.isOriginAllowed(app, 'http://localhost:3000')).toBe(true);
+            expect(service.isOriginAllowed(app, 'http://localhost:3001')).toBe(false);
+            expect(service.isOriginAllowed(app, 'https://localhost:3000')).toBe(false);
+        });
+
+        it('should match bare hostnames, wildcards and lists', () => {
+            const app = registration({ domain: 'example.com, *.intake.example.org' });
+
+            expect(service.isOriginAllowed(app, 'https://example.com')).toBe(true);
+            expect(service.isOriginAllowed(app, 'https://www.example.com')).toBe(false);
+            expect(service.isOriginAllowed(app, 'https://eu.intake.example.org')).toBe(true);
+            expect(service.isOriginAllowed(app, 'https://intake.example.org')).toBe(false);
+            expect(service.isOriginAllowed(app, 'https://eu.intake.example.org.evil.net')).toBe(false);
+        });
+
+        it('should reject malformed origins', () => {
+            expect(service.isOriginAllowed(registration(), 'null')).toBe(false);
+        });
+    });
+
+    describe('getSummarySettings', () => {
+        const originalProvider = process.env['SUMMARY_PROVIDER'];
+
+        afterEach(() => {
+            if (originalProvider === undefined) {
+                delete process.env['SUMMARY_PROVIDER'];
+            } else {
+                process.env['SUMMARY_PROVIDER'] = originalProvider;
+            }
+        });
+
+        it('should use the provider and model registered for the app', async () => {
+            registrations = [registration({ summary_provider: 'azure-openai', summary_model: 'gpt-4o-reports' })];
+
+            expect(await service.getSummarySettings('intake')).toEqual({ provider: 'azure-openai', model: 'gpt-4o-reports' });
+        });
+
+        it('should fall back to SUMMARY_PROVIDER for unknown apps and unknown providers', async () => {
+            process.env['SUMMARY_PROVIDER'] = 'openai-compatible';
+            registrations = [registration({ summary_provider: 'gemini' as any })];
+
+            expect(await service.getSummarySettings('intake')).toEqual({ provider: 'openai-compatible' });
+            expect(await service.getSummarySettings('unknown')).toEqual({ provider: 'openai-compatible' });
+            expect(await service.getSummarySettings(undefined)).toEqual({ provider: 'openai-compatible' });
+        });
+    });
+
+    describe('getReportSettings', () => {
+        const originalLanguage = process.env['REPORT_LANGUAGE'];
+        const originalTranslate = process.env['TRANSLATE_TRANSCRIPTS'];
+
+        const officer = (overrides: Partial<OfficerSettings> = {}): OfficerSettings => ({
+            app_name: 'intake',
+            officer_email: 'officer@example.com',
+            report_language: null,
+            translate_transcript: null,
+            ...overrides,
+        });
+
+        afterEach(() => {
+            for (const [name, value] of [['REPORT_LANGUAGE', originalLanguage], ['TRANSLATE_TRANSCRIPTS', originalTranslate]] as const) {
+                if (value === undefined) {
+                    delete process.env[name];
+                } else {
+                    process.env[name] = value;
+                }
+            }
+        });
+
+        it('should default to the conversation language without translation', async () => {
+            delete process.env['REPORT_LANGUAGE'];
+            delete process.env['TRANSLATE_TRANSCRIPTS'];
+
+            expect(await service.getReportSettings('intake', 'officer@example.com')).toEqual({ language: null, translateTranscript: false });
+        });
+
+        it('should let the app override the defaults and the officer override the app', async () => {
+            process.env['REPORT_LANGUAGE'] = 'fr';
+            registrations = [registration({ report_language: 'en', translate_transcript: true })];
+            officers = [officer({ report_language: 'es' }), officer({ officer_email: 'other@example.com', translate_transcript: false })];
+
+            expect(await service.getReportSettings('intake', 'Officer@Example.com')).toEqual({ language: 'es', translateTranscript: true });
+            expect(await service.getReportSettings('intake', 'other@example.com')).toEqual({ language: 'en', translateTranscript: false });
+            expect(await service.getReportSettings('unknown', 'officer@example.com')).toEqual({ language: 'fr', translateTranscript: false });
+        });
+
+        it('should ignore unsupported languages', async () => {
+            delete process.env['REPORT_LANGUAGE'];
+            registrations = [registration({ report_language: 'klingon' })];
+
+            expect((await service.getReportSettings('intake', undefined)).language).toBeNull();
+        });
+    });
+
+    describe('getRedactionSettings', () => {
+        const originalPolicy = process.env['REDACTION_POLICY'];
+        const originalNames = process.env['REDACTION_NAMES'];
+
+        afterEach(() => {
+            for (const [name, value] of [['REDACTION_POLICY', originalPolicy], ['REDACTION_NAMES', originalNames]] as const) {
+                if (value === undefined) {
+                    delete process.env[name];
+                } else {
+                    process.env[name] = value;
+                }
+            }
+        });
+
+        it('should mask by default and let the app choose its policy and add names', async () => {
+            delete process.env['REDACTION_POLICY'];
+            process.env['REDACTION_NAMES'] = 'Jane Doe, John Roe';
+            registrations = [registration({ redaction_policy: 'tokenize', redaction_names: ['Ann Example'] })];
+
+            expect(await service.getRedactionSettings(undefined)).toEqual({ policy: 'mask', names: ['Jane Doe', 'John Roe'] });
+            expect(await service.getRedactionSettings('intake')).toEqual({ policy: 'tokenize', names: ['Jane Doe', 'John Roe', 'Ann Example'] });
+        });
+
+        it('should fall back to REDACTION_POLICY when the app has none or an unknown one', async () => {
+            process.env['REDACTION_POLICY'] = 'hash';
+            registrations = [registration({ redaction_policy: 'encrypt' as any })];
+
+            expect((await service.getRedactionSettings('intake')).policy).toBe('hash');
+        });
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import { AudioFlowService } from '../../server/src/services/AudioFlowService';
+import { AudioChunk } from '../../server/src/types';
+
+class FakeProvider extends EventEmitter {
+    readonly name = 'mock' as const;
+    ready = true;
+    sent: AudioChunk[] = [];
+
+    async connect() {}
+    isReady() {
+        return this.ready;
+    }
+    sendAudio(audioChunk: AudioChunk) {
+        this.sent.push(audioChunk);
+    }
+    endStream() {}
+    disconnect() {}
+}
+
+describe('AudioFlowService', () => {
+    let flow: AudioFlowService;
+    let provider: FakeProvider;
+    let sequence: number;
+
+    const chunk = (bytes = 100): AudioChunk => ({ data: Buffer.alloc(bytes), timestamp: Date.now(), sequence: sequence++ });
+
+    beforeEach(() => {
+        sequence = 0;
+        flow = new AudioFlowService({ maxBytes: 1000, highWatermark: 700, lowWatermark: 200 });
+        provider = new FakeProvider();
+        flow.attach('session-1', provider as any);
+    });
+
+    it('should forward audio straight through while the provider is ready', () => {
+        expect(flow.push('session-1', chunk())).toBe(true);
+        expect(flow.push('session-1', chunk())).toBe(true);
+
+        expect(provider.sent.map(sent => sent.sequence)).toEqual([0, 1]);
+        expect(flow.getStats().bufferedBytes).toBe(0);
+    });
+
+    it('should not accept audio for sessions it does not buffer', () => {
+        expect(flow.push('session-2', chunk())).toBe(false);
+    });
+
+    it('should queue while the provider is not ready and drain in order when it is', () => {
+        provider.ready = false;
+        flow.push('session-1', chunk());
+        flow.push('session-1', chunk());
+        expect(provider.sent).toHaveLength(0);
+        expect(flow.getStats().sessions[0]).toMatchObject({ bufferedBytes: 200, bufferedChunks: 2 });
+
+        provider.ready = true;
+        provider.emit('ready');
+
+        expect(provider.sent.map(sent => sent.sequence)).toEqual([0, 1]);
+        expect(flow.getStats().bufferedBytes).toBe(0);
+    });
+
+    it('should signal backpressure at the high watermark and release it at the low watermark', () => {
+        const signals: boolean[] = [];
+        flow.on('backpressure', backpressure => signals.push(backpressure.paused));
+
+        provider.ready = false;
+        for (let i = 0; i < 7; i++) {
+            flow.push('session-1', chunk());
+        }
+        expect(signals).toEqual([true]);
+        expect(flow.getBackpressure('session-1')).toMatchObject({ paused: true, bufferedBytes: 700, maxBytes: 1000 });
+
+        // Draining part of the way is not enough to resume
+        let budget = 3;
+        provider.isReady = () => budget-- > 0;
+        provider.emit('ready');
+        expect(signals).toEqual([true]);
+
+        provider.isReady = () => true;
+        provider.emit('ready');
+        expect(signals).toEqual([true, false]);
+        expect(flow.getBackpressure('session-1')).toBeNull();
+    });
+
+    it('should drop the oldest audio when full', () => {
+        provider.ready = false;
+        for (let i = 0; i < 12; i++) {
+            flow.push('session-1', chunk());
+        }
+
+        expect(flow.getStats().sessions[0]).toMatchObject({ bufferedBytes: 1000, droppedChunks: 2, droppedBytes: 200 });
+
+        provider.ready = true;
+        provider.emit('ready');
+        expect(provider.sent[0]?.sequence).toBe(2);
+    });
+
+    it('should stop listening to the provider on detach', () => {
+        provider.ready = false;
+        flow.push('session-1', chunk());
+        flow.detach('session-1');
+
+        provider.ready = true;
+        provider.emit('ready');
+
+        expect(provider.sent).toHaveLength(0);
+        expect(provider.listenerCount('ready')).toBe(0);
+        expect(flow.getStats()).toMatchObject({ sessions: [], droppedBytes: 100 });
+    });
+});
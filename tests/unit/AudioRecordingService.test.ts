@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { AudioRecordingService, AUDIO_BUCKET } from '../../server/src/services/AudioRecordingService';
+
+describe('AudioRecordingService', () => {
+    let spoolDir: string;
+    let uploads: Map<string, Buffer>;
+    let inserted: any[];
+    let service: AudioRecordingService;
+
+    const readStream = async (stream: Readable): Promise<Buffer> => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream) {
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    };
+
+    beforeEach(() => {
+        spoolDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vcw-test-'));
+        process.env['AUDIO_RECORDING_SPOOL_DIR'] = spoolDir;
+        uploads = new Map();
+        inserted = [];
+
+        const minio: any = {
+            uploadStream: async (bucket: string, objectName: string, stream: Readable) => {
+                uploads.set(`${bucket}/${objectName}`, await readStream(stream));
+            },
+            createSignedUrl: async (bucket: string, objectName: string) => `https://minio.local/${bucket}/${objectName}?signed`,
+        };
+        const supabase: any = {
+            from: () => ({
+                insert: async (row: any) => {
+                    inserted.push(row);
+                    return { error: null };
+                },
+                update: (values: any) => ({
+                    eq: (column: string, value: unknown) => ({
+                        is: async (nullColumn: string) => {
+                            inserted
+                                .filter(row => row[column] === value && (row[nullColumn] ?? null) === null)
+                                .forEach(row => Object.assign(row, values));
+                            return { error: null };
+                        },
+                    }),
+                }),
+            }),
+        };
+
+        service = new AudioRecordingService(minio, supabase);
+    });
+
+    afterEach(() => {
+        delete process.env['AUDIO_RECORDING_SPOOL_DIR'];
+        fs.rmSync(spoolDir, { recursive: true, force: true });
+    });
+
+    it('should upload a WAV and record it in audio_files on finalize', async () => {
+        service.start('session-1', { sampleRate: 16000, channels: 1, encoding: 'pcm_f32le' });
+        // One second of 32-bit float mono audio
+        service.write('session-1', { data: Buffer.alloc(32000, 1), timestamp: 0, sequence: 1 });
+        service.write('session-1', { data: Buffer.alloc(32000, 2), timestamp: 1, sequence: 2 });
+
+        const result = await service.finalize('session-1', 'conversation-1');
+
+        expect(result).not.toBeNull();
+        const wav = uploads.get(`${AUDIO_BUCKET}/${result!.objectName}`)!;
+        expect(wav.length).toBe(44 + 64000);
+        expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+        expect(wav.readUInt16LE(20)).toBe(3);
+        expect(wav.readUInt32LE(24)).toBe(16000);
+        expect(wav.readUInt32LE(40)).toBe(64000);
+
+        expect(result!.duration).toBe(1);
+        expect(result!.checksum).toBe(crypto.createHash('sha256').update(wav).digest('hex'));
+        expect(inserted).toEqual([expect.objectContaining({
+            session_id: 'session-1',
+            conversation_id: 'conversation-1',
+            file_size: 44 + 64000,
+            storage_path: `${AUDIO_BUCKET}/${result!.objectName}`,
+            checksum: result!.checksum,
+            duration: 1,
+            sample_rate: 16000,
+            channels: 1,
+        })]);
+        expect(fs.readdirSync(spoolDir)).toHaveLength(0);
+    });
+
+    it('should link the part recorded before a handoff to the conversation', async () => {
+        service.start('session-1', { sampleRate: 16000, channels: 1, encoding: 'pcm_f32le' });
+        service.write('session-1', { data: Buffer.alloc(32000, 1), timestamp: 0, sequence: 1 });
+        await service.finalize('session-1');
+
+        service.start('session-1', { sampleRate: 16000, channels: 1, encoding: 'pcm_f32le' });
+        service.write('session-1', { data: Buffer.alloc(32000, 2), timestamp: 1, sequence: 2 });
+        await service.finalize('session-1', 'conversation-1');
+
+        expect(inserted).toHaveLength(2);
+        expect(inserted.map(row => row.conversation_id)).toEqual(['conversation-1', 'conversation-1']);
+    });
+
+    it('should skip sessions without audio', async () => {
+        service.start('session-2', { sampleRate: 16000, channels: 1, encoding: 'pcm_s16le' });
+
+        await expect(service.finalize('session-2')).resolves.toBeNull();
+        await expect(service.finalize('unknown')).resolves.toBeNull();
+        expect(inserted).toHaveLength(0);
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ */
+import { MetricsService } from '../../server/src/services/MetricsService';
+
+describe('MetricsService', () => {
+    let service: MetricsService;
+
+    beforeEach(() => {
+        service = new MetricsService({ defaultMetrics: false });
+    });
+
+    it('should read gauges from their sources on each scrape', async () => {
+        let sessions = 2;
+        service.setSources({
+            activeSessions: () => sessions,
+            socketConnections: () => 3,
+            audioBuffers: () => ({ sessions: [], bufferedBytes: 4096, pausedSessions: 1, droppedBytes: 0, maxBytes: 8192 }),
+        });
+
+        expect(await service.getMetrics()).toContain('vcw_active_sessions 2');
+
+        sessions = 5;
+        const output = await service.getMetrics();
+        expect(output).toContain('vcw_active_sessions 5');
+        expect(output).toContain('vcw_socket_connections 3');
+        expect(output).toContain('vcw_audio_buffered_bytes 4096');
+        expect(output).toContain('vcw_audio_paused_sessions 1');
+    });
+
+    it('should expose per-queue job counts by state', async () => {
+        service.setSources({
+            queueStats: async () => [
+                { queueName: 'summary-generation', waiting: 4, active: 1, completed: 10, failed: 2, delayed: 0, deadLettered: 1 },
+            ],
+        });
+
+        const output = await service.getMetrics();
+
+        expect(output).toContain('vcw_queue_jobs{queue="summary-generation",state="waiting"} 4');
+        expect(output).toContain('vcw_queue_jobs{queue="summary-generation",state="failed"} 2');
+        expect(output).toContain('vcw_queue_jobs{queue="summary-generation",state="deadLettered"} 1');
+    });
+
+    it('should still render when queue stats are unavailable', async () => {
+        service.setSources({
+            activeSessions: () => 1,
+            queueStats: async () => {
+                throw new Error('Connection is closed.');
+            },
+        });
+
+        expect(await service.getMetrics()).toContain('vcw_active_sessions 1');
+    });
+
+    it('should record audio, latency, reconnects and job durations', async () => {
+        service.recordAudioIn(640);
+        service.recordAudioIn(360);
+        service.observeTranscriptLatency('speechmatics', 0.8);
+        service.recordReconnect('speechmatics');
+        service.observeJob('pdf-worker', 'completed', 3);
+
+        const output = await service.getMetrics();
+
+        expect(output).toContain('vcw_audio_in_bytes_total 1000');
+        expect(output).toContain('vcw_transcript_final_latency_seconds_bucket{le="1",provider="speechmatics"} 1');
+        expect(output).toContain('vcw_transcription_reconnects_total{provider="speechmatics"} 1');
+        expect(output).toContain('vcw_job_duration_seconds_count{worker="pdf-worker",outcome="completed"} 1');
+    });
+
+    it('should count external call outcomes and rethrow failures', async () => {
+        await expect(service.trackExternalCall('smtp', async () => 'sent')).resolves.toBe('sent');
+        await expect(service.trackExternalCall('openai', async () => {
+            throw new Error('rate limited');
+        })).rejects.toThrow('rate limited');
+
+        const output = await service.getMetrics();
+
+        expect(output).toContain('vcw_external_calls_total{service="smtp",outcome="success"} 1');
+        expect(output).toContain('vcw_external_calls_total{service="openai",outcome="error"} 1');
+    });
+});
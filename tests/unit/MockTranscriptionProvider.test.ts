@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { MockTranscriptionProvider } from '../../server/src/services/MockTranscriptionProvider';
+import { createTranscriptionProvider } from '../../server/src/services/TranscriptionProvider';
+
+describe('MockTranscriptionProvider', () => {
+    const config = {
+        language: 'en',
+        enablePartials: true,
+        punctuationPermitted: true,
+        sampleRate: 16000,
+        encoding: 'pcm_s16le' as const,
+        diarization: 'speaker' as const,
+    };
+
+    const script = [
+        { speaker: 'S1', transcript: 'How can I help you?' },
+        { speaker: 'S2', transcript: 'I lost my wallet.' },
+    ];
+
+    const sendChunks = (provider: MockTranscriptionProvider, count: number) => {
+        for (let i = 0; i < count; i++) {
+            provider.sendAudio({ data: Buffer.alloc(3200), timestamp: i, sequence: i });
+        }
+    };
+
+    beforeEach(() => {
+        process.env['MOCK_TRANSCRIPTION_CHUNKS_PER_SEGMENT'] = '4';
+    });
+
+    afterEach(() => {
+        delete process.env['MOCK_TRANSCRIPTION_CHUNKS_PER_SEGMENT'];
+    });
+
+    it('should replay the script as partial and final transcripts', async () => {
+        const provider = new MockTranscriptionProvider(config, 'session-1', script);
+        const partials: any[] = [];
+        const finals: any[] = [];
+        provider.on('partialTranscript', data => partials.push(data));
+        provider.on('finalTranscript', data => finals.push(data));
+
+        await provider.connect();
+        sendChunks(provider, 12);
+        provider.disconnect();
+
+        expect(partials.map(p => p.transcript)).toEqual(['How can I', 'I lost']);
+        expect(finals).toHaveLength(2);
+        expect(finals[0]).toMatchObject({ transcript: 'How can I help you?', speaker: 'S1', startTime: 0, endTime: 0.4 });
+        expect(finals[1]).toMatchObject({ transcript: 'I lost my wallet.', speaker: 'S2', startTime: 0.4, endTime: 0.8 });
+        expect(finals[1].words.map((word: any) => [word.content, word.type, word.start_time])).toEqual([
+            ['I', 'word', 0.4],
+            ['lost', 'word', 0.5],
+            ['my', 'word', 0.6],
+            ['wallet', 'word', 0.7],
+            ['.', 'punctuation', 0.8],
+        ]);
+    });
+
+    it('should ignore audio before connecting', () => {
+        const provider = new MockTranscriptionProvider(config, 'session-1', script);
+        const finals: any[] = [];
+        provider.on('finalTranscript', data => finals.push(data));
+
+        sendChunks(provider, 4);
+
+        expect(finals).toHaveLength(0);
+    });
+
+    it('should be created by name', () => {
+        const provider = createTranscriptionProvider('mock', config, 'session-1');
+        expect(provider.name).toBe('mock');
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+import { NameDictionaryDetector, Redactor, createPiiDetectors, isRedactionPolicy } from '../../server/src/services/PiiRedactor';
+
+describe('PiiRedactor', () => {
+    const redact = (text: string, names: string[] = []) => new Redactor(createPiiDetectors(names), 'mask').redact(text);
+
+    describe('detectors', () => {
+        it('should find emails, phone numbers and national IDs', () => {
+            expect(redact('Write to jane.doe@example.com or call +44 161 496 0000.'))
+                .toBe('Write to [EMAIL] or call [PHONE].');
+            expect(redact('My social security number is 123-45-6789 and my NI number is AB 12 34 56 C.'))
+                .toBe('My social security number is [NATIONAL_ID] and my NI number is [NATIONAL_ID].');
+        });
+
+        it('should only take card numbers that pass the Luhn check', () => {
+            expect(redact('The card was 4111 1111 1111 1111.')).toBe('The card was [CARD_NUMBER].');
+            expect(redact('Reference 4111 1111 1111 1112.')).toBe('Reference 4111 1111 1111 1112.');
+        });
+
+        it('should leave dates, times and short numbers alone', () => {
+            expect(redact('On 2025-10-13 at 10:30 we saw 3 cars and 42 people.'))
+                .toBe('On 2025-10-13 at 10:30 we saw 3 cars and 42 people.');
+        });
+
+        it('should match dictionary names as whole words, ignoring case', () => {
+            const detector = new NameDictionaryDetector(['John Smith', 'Ann']);
+
+            expect(detector.detect('I met JOHN  SMITH and Ann, not Anna.').map(match => match.value)).toEqual(['JOHN  SMITH', 'Ann']);
+            expect(new NameDictionaryDetector([]).detect('Anyone')).toEqual([]);
+        });
+    });
+
+    describe('policies', () => {
+        const text = 'Ann called 555-0100 and then Ann called 555 0100 again from ann@example.com.';
+
+        it('should give each value the same token throughout a conversation', () => {
+            const redactor = new Redactor(createPiiDetectors(['Ann']), 'tokenize');
+
+            expect(redactor.redact(text)).toBe('[NAME_1] called [PHONE_1] and then [NAME_1] called [PHONE_1] again from [EMAIL_1].');
+            expect(redactor.redact('Bob? No, Ann.')).toBe('Bob? No, [NAME_1].');
+            expect(redactor.getEntities()).toEqual([
+                { type: 'name', value: 'Ann', replacement: '[NAME_1]', occurrences: 3 },
+                { type: 'phone', value: '555-0100', replacement: '[PHONE_1]', occurrences: 2 },
+                { type: 'email', value: 'ann@example.com', replacement: '[EMAIL_1]', occurrences: 1 },
+            ]);
+        });
+
+        it('should hash values with the secret so they match across conversations only under the same key', () => {
+            const hashed = (secret: string) => new Redactor(createPiiDetectors(), 'hash', secret).redact('Call 555-0100.');
+
+            expect(hashed('key-1')).toMatch(/^Call \[PHONE:[0-9a-f]{12}\]\.$/);
+            expect(hashed('key-1')).toBe(hashed('key-1'));
+            expect(hashed('key-1')).not.toBe(hashed('key-2'));
+            expect(() => new Redactor(createPiiDetectors(), 'hash')).toThrow('requires a secret');
+        });
+
+        it('should leave text untouched under the none policy', () => {
+            expect(new Redactor(createPiiDetectors(['Ann']), 'none').redact(text)).toBe(text);
+            expect(isRedactionPolicy('tokenize')).toBe(true);
+            expect(isRedactionPolicy('encrypt')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+import { EventEmitter } from 'events';
+import { ProcessingProgress, ProcessingProgressService } from '../../server/src/services/ProcessingProgressService';
+import { PipelineStageState, PipelineState, QueueService } from '../../server/src/services/QueueService';
+
+const stage = (status: PipelineStageState['status'], results: any[] = [], error?: string): PipelineStageState => ({
+    status,
+    jobIds: [],
+    results,
+    ...(error ? { error } : {}),
+});
+
+describe('ProcessingProgressService', () => {
+    let queueService: EventEmitter & { getPipelineState: jest.Mock };
+    let workers: EventEmitter;
+    let events: ProcessingProgress[];
+    let state: PipelineState;
+
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        state = {
+            pipeline: 'conversation',
+            conversationId: 'conversation-1',
+            sessionId: 'session-1',
+            status: 'running',
+            stages: {
+                audio: stage('completed', [{ storageUrl: 'https://storage.example/audio.wav' }]),
+                summary: stage('queued'),
+                pdf: stage('pending'),
+                email: stage('pending'),
+            },
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString(),
+        };
+
+        queueService = Object.assign(new EventEmitter(), {
+            getPipelineState: jest.fn(async () => state),
+        });
+        workers = new EventEmitter();
+        events = [];
+
+        const service = new ProcessingProgressService(queueService as unknown as QueueService, workers);
+        service.on('progress', (progress: ProcessingProgress) => events.push(progress));
+    });
+
+    it('should publish stage changes with a snapshot of the pipeline', async () => {
+        queueService.emit('pipelineStageChanged', { pipeline: 'conversation', conversationId: 'conversation-1', stage: 'summary', status: 'queued' });
+        await flush();
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({
+            sessionId: 'session-1',
+            conversationId: 'conversation-1',
+            stage: 'summary',
+            status: 'queued',
+            stages: { audio: 'completed', summary: 'queued', pdf: 'pending', email: 'pending' },
+            pipelineStatus: 'running',
+            artifacts: { audioUrl: 'https://storage.example/audio.wav' },
+        });
+    });
+
+    it('should report running pipeline jobs with their percent', async () => {
+        const job = { data: { pipeline: { name: 'conversation', conversationId: 'conversation-1', stage: 'summary', index: 1 } } };
+
+        workers.emit('jobActive', { workerName: 'summary-worker', job });
+        workers.emit('jobProgress', { workerName: 'summary-worker', job, progress: 80 });
+        await flush();
+
+        expect(events.map(event => [event.status, event.percent, event.stages['summary']])).toEqual([
+            ['running', 0, 'running'],
+            ['running', 80, 'running'],
+        ]);
+    });
+
+    it('should ignore jobs outside a pipeline and progress for finished stages', async () => {
+        workers.emit('jobProgress', { workerName: 'email-worker', job: { data: { type: 'email' } }, progress: 50 });
+        workers.emit('jobProgress', {
+            workerName: 'audio-worker',
+            job: { data: { pipeline: { name: 'conversation', conversationId: 'conversation-1', stage: 'audio', index: 0 } } },
+            progress: 90,
+        });
+        await flush();
+
+        expect(events).toHaveLength(0);
+    });
+
+    it('should include the error of a failed stage and offer the PDF once ready', async () => {
+        state.status = 'failed';
+        state.stages['summary'] = stage('completed');
+        state.stages['pdf'] = stage('completed', [{ pdfUrl: 'https://storage.example/report.pdf' }]);
+        state.stages['email'] = stage('failed', [], 'SMTP connection refused');
+
+        queueService.emit('pipelineStageChanged', { pipeline: 'conversation', conversationId: 'conversation-1', stage: 'email', status: 'failed' });
+        await flush();
+
+        expect(events[0]).toMatchObject({
+            stage: 'email',
+            status: 'failed',
+            error: 'SMTP connection refused',
+            pipelineStatus: 'failed',
+            artifacts: { audioUrl: 'https://storage.example/audio.wav', pdfUrl: 'https://storage.example/report.pdf' },
+        });
+    });
+});
@@ -0,0 +1,475 @@
+/**
+ * @jest-environment node
+ */
+import { context, propagation, trace } from '@opentelemetry/api';
+import { InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { QueueService, JobData } from '../../server/src/services/QueueService';
+import { withSpan } from '../../server/src/utils/tracing';
+import { CONVERSATION_PIPELINE, CONVERSATION_PIPELINE_NAME, applyRedactionsToSessions } from '../../server/src/services/ConversationPipeline';
+import { SessionManager } from '../../server/src/services/SessionManager';
+import { InMemorySessionStore } from '../../server/src/stores';
+
+const mockQueues = new Map<string, any>();
+
+jest.mock('bull', () => ({
+    __esModule: true,
+    default: class {
+        listeners = new Map<string, (...args: any[]) => void>();
+        added: Array<{ data: any; opts: any }> = [];
+        jobs = new Map<string, any>();
+
+        constructor(public name: string) {
+            mockQueues.set(name, this);
+        }
+
+        on(event: string, callback: (...args: any[]) => void) {
+            this.listeners.set(event, callback);
+            return this;
+        }
+
+        async add(data: any, opts: any) {
+            const id = opts?.jobId || String(this.added.length + 1);
+            if (this.jobs.has(id)) {
+                return this.jobs.get(id);
+            }
+
+            this.added.push({ data, opts });
+            const job = {
+                id,
+                data,
+                timestamp: Date.now(),
+                update: async (update: any) => {
+                    job.data = update;
+                },
+                remove: async () => {
+                    this.jobs.delete(id);
+                },
+            };
+            this.jobs.set(id, job);
+            return job;
+        }
+
+        async getJob(id: string) {
+            return this.jobs.get(id) || null;
+        }
+
+        async getWaiting(start: number, end: number) {
+            return Array.from(this.jobs.values()).slice(start, end + 1);
+        }
+
+        async getWaitingCount() {
+            return this.jobs.size;
+        }
+
+        getActive = async () => [];
+        getCompleted = async () => [];
+        getFailed = async () => [];
+        getDelayed = async () => [];
+
+        async close() {}
+    },
+}));
+
+jest.mock('ioredis', () => ({
+    __esModule: true,
+    default: class {
+        status = 'ready';
+        strings = new Map<string, string>();
+        hashes = new Map<string, Map<string, string>>();
+
+        on() {
+            return this;
+        }
+
+        private hash(key: string) {
+            if (!this.hashes.has(key)) {
+                this.hashes.set(key, new Map());
+            }
+            return this.hashes.get(key)!;
+        }
+
+        async hsetnx(key: string, field: string, value: string) {
+            const hash = this.hash(key);
+            if (hash.has(field)) {
+                return 0;
+            }
+            hash.set(field, value);
+            return 1;
+        }
+
+        async hset(key: string, ...args: any[]) {
+            const entries = typeof args[0] === 'object' ? Object.entries(args[0]) : [[args[0], args[1]]];
+            for (const [field, value] of entries) {
+                this.hash(key).set(field, String(value));
+            }
+            return entries.length;
+        }
+
+        async hget(key: string, field: string) {
+            return this.hashes.get(key)?.get(field) ?? null;
+        }
+
+        async hgetall(key: string) {
+            return Object.fromEntries(this.hashes.get(key) || []);
+        }
+
+        async hincrby(key: string, field: string, increment: number) {
+            const value = parseInt(this.hash(key).get(field) || '0') + increment;
+            this.hash(key).set(field, String(value));
+            return value;
+        }
+
+        async set(key: string, value: string) {
+            this.strings.set(key, value);
+            return 'OK';
+        }
+
+        async get(key: string) {
+            return this.strings.get(key) ?? null;
+        }
+
+        async del(key: string) {
+            return this.strings.delete(key) ? 1 : 0;
+        }
+
+        async hdel(key: string, field: string) {
+            return this.hashes.get(key)?.delete(field) ? 1 : 0;
+        }
+
+        async expire() {
+            return 1;
+        }
+
+        async quit() {}
+    },
+}));
+
+describe('QueueService pipelines', () => {
+    let queueService: QueueService;
+
+    const jobData: JobData = {
+        sessionId: 'session-1',
+        conversationId: 'conversation-1',
+        audioUrl: 'https://minio.local/recording.wav',
+        metadata: { officerEmail: 'officer@example.com', hasTranscript: true },
+    };
+
+    // Pipeline handlers run off Bull events; the fakes never do I/O, so one macrotask drains them
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+
+    const added = (queueName: string) => mockQueues.get(queueName).added as Array<{ data: JobData; opts: any }>;
+
+    const complete = async (queueName: string, jobId: string, result: any = {}) => {
+        mockQueues.get(queueName).listeners.get('global:completed')(jobId, JSON.stringify(result));
+        await flush();
+    };
+
+    // Bull records one stack per failed attempt before publishing the final failure
+    const fail = async (queueName: string, jobId: string, reason: string, attempts: number = 1) => {
+        const job = mockQueues.get(queueName).jobs.get(jobId);
+        job.attemptsMade = attempts;
+        job.failedReason = reason;
+        job.stacktrace = Array.from({ length: attempts }, () => `Error: ${reason}\n    at processJob`);
+        job.finishedOn = Date.now();
+        mockQueues.get(queueName).listeners.get('global:failed')(jobId, reason);
+        await flush();
+    };
+
+    beforeEach(async () => {
+        mockQueues.clear();
+        queueService = new QueueService();
+        queueService.registerPipeline(CONVERSATION_PIPELINE);
+        await queueService.initialize();
+    });
+
+    it('should reject definitions with unknown dependencies or cycles', () => {
+        expect(() => queueService.registerPipeline({
+            name: 'broken',
+            stages: [{ name: 'pdf', queue: QueueService.PDF_QUEUE, dependsOn: ['summary'] }],
+        })).toThrow('depends on unknown stage summary');
+
+        expect(() => queueService.registerPipeline({
+            name: 'cyclic',
+            stages: [
+                { name: 'a', queue: QueueService.PDF_QUEUE, dependsOn: ['b'] },
+                { name: 'b', queue: QueueService.PDF_QUEUE, dependsOn: ['a'] },
+            ],
+        })).toThrow('dependency cycle');
+    });
+
+    it('should start each stage only after its parent completes', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+
+        expect(added(QueueService.AUDIO_QUEUE)).toHaveLength(1);
+        expect(added(QueueService.SUMMARY_QUEUE)).toHaveLength(0);
+
+        const audioJobId = added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId;
+        await complete(QueueService.AUDIO_QUEUE, audioJobId, { status: 'ok' });
+        expect(added(QueueService.SUMMARY_QUEUE)).toHaveLength(0);
+
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId, { policy: 'mask' });
+
+        const summaryJobs = added(QueueService.SUMMARY_QUEUE);
+        expect(summaryJobs).toHaveLength(1);
+        expect(summaryJobs[0]!.data.pipeline).toEqual({
+            name: CONVERSATION_PIPELINE_NAME,
+            conversationId: 'conversation-1',
+            stage: 'summary',
+            index: 0,
+        });
+
+        const state = await queueService.getPipelineState('conversation-1');
+        expect(state!.status).toBe('running');
+        expect(state!.stages['audio']!.status).toBe('completed');
+        expect(state!.stages['audio']!.results).toEqual([{ status: 'ok' }]);
+        expect(state!.stages['summary']!.status).toBe('queued');
+        expect(state!.stages['pdf']!.status).toBe('pending');
+    });
+
+    it('should skip stages whose condition fails without blocking dependents', async () => {
+        const withoutAudio = { ...jobData };
+        delete withoutAudio.audioUrl;
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, withoutAudio);
+
+        expect(added(QueueService.AUDIO_QUEUE)).toHaveLength(0);
+        expect(added(QueueService.REDACTION_QUEUE)).toHaveLength(1);
+
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId, { policy: 'none' });
+        expect(added(QueueService.SUMMARY_QUEUE)).toHaveLength(1);
+
+        const state = await queueService.getPipelineState('conversation-1');
+        expect(state!.stages['audio']!.status).toBe('skipped');
+    });
+
+    it('should fan out email and complete the pipeline once every job is done', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, {
+            ...jobData,
+            metadata: { ...jobData.metadata, recipients: ['a@example.com', 'b@example.com'] },
+        });
+
+        await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId);
+        await complete(QueueService.SUMMARY_QUEUE, added(QueueService.SUMMARY_QUEUE)[0]!.opts.jobId);
+        await complete(QueueService.PDF_QUEUE, added(QueueService.PDF_QUEUE)[0]!.opts.jobId, { pdfUrl: 'report.pdf' });
+
+        const emailJobs = added(QueueService.EMAIL_QUEUE);
+        expect(emailJobs.map(job => job.data.metadata!['recipient'])).toEqual(['a@example.com', 'b@example.com']);
+
+        const completed = jest.fn();
+        queueService.on('pipelineCompleted', completed);
+
+        await complete(QueueService.EMAIL_QUEUE, emailJobs[0]!.opts.jobId, { recipient: 'a@example.com' });
+        expect((await queueService.getPipelineState('conversation-1'))!.stages['email']!.status).toBe('queued');
+
+        await complete(QueueService.EMAIL_QUEUE, emailJobs[1]!.opts.jobId, { recipient: 'b@example.com' });
+        const state = await queueService.getPipelineState('conversation-1');
+        expect(state!.status).toBe('completed');
+        expect(state!.stages['email']!.results).toEqual([{ recipient: 'a@example.com' }, { recipient: 'b@example.com' }]);
+        expect(completed).toHaveBeenCalledWith({ pipeline: CONVERSATION_PIPELINE_NAME, conversationId: 'conversation-1' });
+    });
+
+    it('should fail the pipeline and cancel downstream stages when a stage fails', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+        await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId);
+        await fail(QueueService.SUMMARY_QUEUE, added(QueueService.SUMMARY_QUEUE)[0]!.opts.jobId, 'OpenAI unavailable');
+
+        const state = await queueService.getPipelineState('conversation-1');
+        expect(state!.status).toBe('failed');
+        expect(state!.stages['summary']).toMatchObject({ status: 'failed', error: 'OpenAI unavailable' });
+        expect(state!.stages['pdf']!.status).toBe('cancelled');
+        expect(state!.stages['email']!.status).toBe('cancelled');
+        expect(added(QueueService.PDF_QUEUE)).toHaveLength(0);
+    });
+
+    it('should advance a pipeline once when a job event is seen twice', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+        const audioJobId = added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId;
+
+        await complete(QueueService.AUDIO_QUEUE, audioJobId);
+        await complete(QueueService.AUDIO_QUEUE, audioJobId);
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId);
+
+        expect(added(QueueService.SUMMARY_QUEUE)).toHaveLength(1);
+    });
+
+    it('should pass the redaction policy to the summary without carrying any transcript', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+        await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId, { policy: 'tokenize' });
+
+        const summaryJob = added(QueueService.SUMMARY_QUEUE)[0]!;
+        expect(summaryJob.data.transcript).toBeUndefined();
+        expect(summaryJob.data.metadata!['redactionPolicy']).toBe('tokenize');
+        expect(added(QueueService.REDACTION_QUEUE)[0]!.data.transcript).toBeUndefined();
+    });
+
+    it('should redact the session store copies when another node completes the redaction job', async () => {
+        const store = new InMemorySessionStore();
+        const sessionManager = new SessionManager(store);
+        applyRedactionsToSessions(queueService, sessionManager);
+        const session = await sessionManager.startSession({ officer_email: 'officer@example.com', app_name: 'police', client_id: 'client-1' });
+        sessionManager.updateSessionTranscript(session.id, 'Call me on 0161 496 0000.');
+        const conversation = await sessionManager.endSession(session.id);
+
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, { ...jobData, sessionId: session.id, conversationId: conversation.id });
+        await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId, {
+            policy: 'mask',
+            redacted: {
+                conversation_id: conversation.id,
+                session_id: session.id,
+                transcript: 'Call me on [PHONE].',
+                session_transcript: 'Call me on [PHONE].',
+                speaker_turns: null,
+                segments: [],
+            },
+        });
+        await flush();
+
+        expect((await store.getConversation(conversation.id))!.transcript).toBe('Call me on [PHONE].');
+        expect((await store.getSession(session.id))!.transcript).toBe('Call me on [PHONE].');
+        expect(sessionManager.getConversation(conversation.id)!.transcript).toBe('Call me on [PHONE].');
+        sessionManager.clear();
+    });
+
+    it('should skip redaction and the summary for a conversation without a transcript', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, { ...jobData, metadata: { officerEmail: 'officer@example.com' } });
+        await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+
+        expect(added(QueueService.REDACTION_QUEUE)).toHaveLength(0);
+        expect(added(QueueService.SUMMARY_QUEUE)).toHaveLength(0);
+        const state = await queueService.getPipelineState('conversation-1');
+        expect(state!.stages['redaction']!.status).toBe('skipped');
+        expect(state!.stages['summary']!.status).toBe('skipped');
+    });
+
+    it('should start a conversation pipeline only once', async () => {
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+        await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+
+        expect(added(QueueService.AUDIO_QUEUE)).toHaveLength(1);
+        expect(await queueService.getPipelineState('conversation-2')).toBeNull();
+    });
+
+    describe('dead-letter queues', () => {
+        const deadLetterQueue = (queueName: string) => `${queueName}-dead-letter`;
+
+        it('should capture the failure reason and attempt history of exhausted jobs', async () => {
+            const job = await queueService.addJob(QueueService.PDF_QUEUE, { sessionId: 'session-1', conversationId: 'conversation-1' });
+            await fail(QueueService.PDF_QUEUE, String(job.id), 'Puppeteer crashed', 3);
+
+            const { jobs, total } = await queueService.listDeadLetters(QueueService.PDF_QUEUE);
+            expect(total).toBe(1);
+            expect(jobs[0]).toMatchObject({
+                id: String(job.id),
+                queueName: QueueService.PDF_QUEUE,
+                jobId: String(job.id),
+                data: { sessionId: 'session-1', conversationId: 'conversation-1' },
+                failedReason: 'Puppeteer crashed',
+                attemptsMade: 3,
+            });
+            expect(jobs[0]!.attempts).toHaveLength(3);
+            expect(jobs[0]!.attempts[2]).toMatchObject({ attempt: 3, error: 'Error: Puppeteer crashed' });
+
+            const stats = await queueService.getQueueStats(QueueService.PDF_QUEUE);
+            expect(stats.deadLettered).toBe(1);
+        });
+
+        it('should dead-letter a job once when several nodes see the failure', async () => {
+            const job = await queueService.addJob(QueueService.EMAIL_QUEUE, { sessionId: 'session-1' });
+            await fail(QueueService.EMAIL_QUEUE, String(job.id), 'SMTP timeout');
+            await fail(QueueService.EMAIL_QUEUE, String(job.id), 'SMTP timeout');
+
+            expect((await queueService.listDeadLetters(QueueService.EMAIL_QUEUE)).total).toBe(1);
+        });
+
+        it('should replay an edited payload and remove it from the dead-letter queue', async () => {
+            const job = await queueService.addJob(QueueService.EMAIL_QUEUE, { sessionId: 'session-1', metadata: { recipient: 'typo@exmaple.com' } });
+            await fail(QueueService.EMAIL_QUEUE, String(job.id), 'Mailbox unavailable');
+
+            const edited = await queueService.updateDeadLetter(QueueService.EMAIL_QUEUE, String(job.id), {
+                sessionId: 'session-1',
+                metadata: { recipient: 'officer@example.com' },
+            });
+            expect(edited!.editedAt).toBeDefined();
+
+            const replayed = await queueService.replayDeadLetter(QueueService.EMAIL_QUEUE, String(job.id));
+
+            expect(replayed!.data.metadata).toEqual({ recipient: 'officer@example.com' });
+            expect(await queueService.getDeadLetter(QueueService.EMAIL_QUEUE, String(job.id))).toBeNull();
+            expect(mockQueues.get(deadLetterQueue(QueueService.EMAIL_QUEUE)).jobs.size).toBe(0);
+        });
+
+        it('should return null for unknown dead-lettered jobs', async () => {
+            expect(await queueService.getDeadLetter(QueueService.AUDIO_QUEUE, 'missing')).toBeNull();
+            expect(await queueService.replayDeadLetter(QueueService.AUDIO_QUEUE, 'missing')).toBeNull();
+        });
+
+        it('should reopen a failed pipeline stage when its job is replayed', async () => {
+            await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+            await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+            await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId);
+            const summaryJobId = added(QueueService.SUMMARY_QUEUE)[0]!.opts.jobId;
+            await fail(QueueService.SUMMARY_QUEUE, summaryJobId, 'OpenAI unavailable', 3);
+
+            const replayed = await queueService.replayDeadLetter(QueueService.SUMMARY_QUEUE, summaryJobId);
+
+            let state = await queueService.getPipelineState('conversation-1');
+            expect(state!.status).toBe('running');
+            expect(state!.stages['summary']).toMatchObject({ status: 'queued', jobIds: [String(replayed!.id)] });
+            expect(state!.stages['pdf']!.status).toBe('pending');
+
+            await complete(QueueService.SUMMARY_QUEUE, String(replayed!.id), { fullSummary: 'Summary' });
+
+            state = await queueService.getPipelineState('conversation-1');
+            expect(state!.stages['summary']!.status).toBe('completed');
+            expect(state!.stages['pdf']!.status).toBe('queued');
+        });
+    });
+
+    describe('trace context', () => {
+        const exporter = new InMemorySpanExporter();
+        const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+
+        beforeAll(() => {
+            provider.register();
+        });
+
+        afterAll(async () => {
+            await provider.shutdown();
+            trace.disable();
+            context.disable();
+            propagation.disable();
+        });
+
+        const traceId = (job: { data: JobData }) => job.data.metadata!['traceContext'].traceparent.split('-')[1];
+
+        it('should carry the queueing span into job metadata', async () => {
+            const sessionTraceId = await withSpan('session.end', {}, async (span) => {
+                await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+                return span.spanContext().traceId;
+            });
+
+            const audioJob = added(QueueService.AUDIO_QUEUE)[0]!;
+            expect(traceId(audioJob)).toBe(sessionTraceId);
+            expect(audioJob.data.metadata!['officerEmail']).toBe('officer@example.com');
+
+            const producer = exporter.getFinishedSpans().find(span => span.name === `queue.add ${QueueService.AUDIO_QUEUE}`);
+            expect(producer!.spanContext().traceId).toBe(sessionTraceId);
+        });
+
+        it('should keep later stages in the trace the pipeline started in', async () => {
+            const sessionTraceId = await withSpan('session.end', {}, async (span) => {
+                await queueService.startPipeline(CONVERSATION_PIPELINE_NAME, jobData);
+                return span.spanContext().traceId;
+            });
+
+            // Job events arrive outside any span
+            await complete(QueueService.AUDIO_QUEUE, added(QueueService.AUDIO_QUEUE)[0]!.opts.jobId);
+            await complete(QueueService.REDACTION_QUEUE, added(QueueService.REDACTION_QUEUE)[0]!.opts.jobId);
+
+            expect(traceId(added(QueueService.SUMMARY_QUEUE)[0]!)).toBe(sessionTraceId);
+        });
+    });
+});
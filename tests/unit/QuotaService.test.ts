@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+import { QuotaService } from '../../server/src/services/QuotaService';
+import { AppRegistration } from '../../server/src/types';
+
+// Just enough of ioredis for the quota counters
+class FakeRedis {
+    strings: Map<string, string> = new Map();
+    hashes: Map<string, Map<string, string>> = new Map();
+    sets: Map<string, Map<string, number>> = new Map();
+
+    async get(key: string) {
+        return this.strings.get(key) ?? null;
+    }
+
+    async incr(key: string) {
+        const value = parseInt(this.strings.get(key) || '0') + 1;
+        this.strings.set(key, String(value));
+        return value;
+    }
+
+    async incrbyfloat(key: string, increment: number) {
+        const value = parseFloat(this.strings.get(key) || '0') + increment;
+        this.strings.set(key, String(value));
+        return String(value);
+    }
+
+    async expire() {
+        return 1;
+    }
+
+    async hget(key: string, field: string) {
+        return this.hashes.get(key)?.get(field) ?? null;
+    }
+
+    async hgetall(key: string) {
+        return Object.fromEntries(this.hashes.get(key) || []);
+    }
+
+    async hincrbyfloat(key: string, field: string, increment: number) {
+        const hash = this.hashes.get(key) || new Map<string, string>();
+        const value = parseFloat(hash.get(field) || '0') + increment;
+        hash.set(field, String(value));
+        this.hashes.set(key, hash);
+        return String(value);
+    }
+
+    async zadd(key: string, ...args: any[]) {
+        const onlyExisting = args[0] === 'XX';
+        const [score, member] = onlyExisting ? args.slice(1) : args;
+        const set = this.sets.get(key) || new Map<string, number>();
+        if (!onlyExisting || set.has(member)) {
+            set.set(member, Number(score));
+        }
+        this.sets.set(key, set);
+        return 1;
+    }
+
+    async zrem(key: string, member: string) {
+        return this.sets.get(key)?.delete(member) ? 1 : 0;
+    }
+
+    async zcard(key: string) {
+        return this.sets.get(key)?.size || 0;
+    }
+
+    async zcount(key: string, min: number) {
+        return Array.from(this.sets.get(key)?.values() || []).filter(score => score >= min).length;
+    }
+
+    async zremrangebyscore(key: string, min: number, max: number) {
+        const set = this.sets.get(key);
+        let removed = 0;
+        set?.forEach((score, member) => {
+            if (score >= min && score <= max) {
+                set.delete(member);
+                removed++;
+            }
+        });
+        return removed;
+    }
+
+    async quit() {
+        return 'OK';
+    }
+}
+
+describe('QuotaService', () => {
+    let registration: AppRegistration;
+    let redis: FakeRedis;
+    let service: QuotaService;
+
+    const session = (sessionId: string, officerEmail = 'officer@example.com') => ({ sessionId, appName: 'intake', officerEmail });
+
+    beforeEach(() => {
+        registration = {
+            id: 'app-1',
+            name: 'intake',
+            status: 'active',
+            permissions: ['basic'],
+            rate_limit: 1000,
+            transcription_provider: 'speechmatics',
+            quotas: {},
+            metadata: {},
+        };
+        redis = new FakeRedis();
+
+        const appRegistrationService: any = {
+            getByName: async (name: string) => (name === registration.name ? registration : null),
+        };
+        service = new QuotaService(appRegistrationService, redis as any);
+    });
+
+    it('should limit session starts per minute by the app rate limit', async () => {
+        registration.rate_limit = 2;
+
+        expect((await service.acquireSession(session('s1'))).ok).toBe(true);
+        expect((await service.acquireSession(session('s2'))).ok).toBe(true);
+        expect(await service.acquireSession(session('s3'))).toEqual({ ok: false, code: 'QUOTA_EXCEEDED', quota: 'sessionsPerMinute', limit: 2 });
+    });
+
+    it('should limit concurrent sessions and free slots on release', async () => {
+        registration.quotas = { concurrent_sessions: 1 };
+
+        expect((await service.acquireSession(session('s1'))).ok).toBe(true);
+        expect(await service.acquireSession(session('s2'))).toEqual({ ok: false, code: 'QUOTA_EXCEEDED', quota: 'concurrentSessions', limit: 1 });
+
+        await service.releaseSession('s1', 'intake');
+        expect((await service.acquireSession(session('s3'))).ok).toBe(true);
+    });
+
+    it('should stop counting stale sessions as concurrent', async () => {
+        registration.quotas = { concurrent_sessions: 1 };
+        await redis.zadd('vcw:quota:active:intake', Date.now() - 60 * 60 * 1000, 'crashed');
+
+        expect((await service.acquireSession(session('s1'))).ok).toBe(true);
+    });
+
+    it('should report an exhausted daily allowance once metered audio is flushed', async () => {
+        registration.quotas = { audio_minutes_per_day: 1 };
+        await service.acquireSession(session('s1'));
+
+        expect((await service.recordAudio('s1', 10)).ok).toBe(true);
+        expect((await service.recordAudio('s1', 40)).ok).toBe(true);
+        expect(await service.recordAudio('s1', 15)).toEqual({ ok: false, code: 'QUOTA_EXCEEDED', quota: 'audioMinutesPerDay', limit: 1 });
+
+        // Reported once per session
+        expect((await service.recordAudio('s1', 30)).ok).toBe(true);
+
+        expect(await service.acquireSession(session('s2'))).toEqual({ ok: false, code: 'QUOTA_EXCEEDED', quota: 'audioMinutesPerDay', limit: 1 });
+    });
+
+    it('should track officer allowances separately', async () => {
+        registration.quotas = { officer_audio_minutes_per_month: 1 };
+        await service.acquireSession(session('s1', 'a@example.com'));
+        await service.recordAudio('s1', 30);
+        await service.releaseSession('s1', 'intake');
+
+        expect((await service.acquireSession(session('s2', 'a@example.com'))).ok).toBe(true);
+        await service.recordAudio('s2', 30);
+        await service.releaseSession('s2', 'intake');
+
+        expect(await service.acquireSession(session('s3', 'a@example.com'))).toEqual({ ok: false, code: 'QUOTA_EXCEEDED', quota: 'officerAudioMinutesPerMonth', limit: 1 });
+        expect((await service.acquireSession(session('s4', 'b@example.com'))).ok).toBe(true);
+    });
+
+    it('should report usage per app and officer', async () => {
+        await service.acquireSession(session('s1', 'a@example.com'));
+        await service.acquireSession(session('s2', 'b@example.com'));
+        await service.recordAudio('s1', 90);
+        await service.releaseSession('s2', 'intake');
+
+        const usage = await service.getUsage('intake');
+
+        expect(usage).toMatchObject({
+            appName: 'intake',
+            limits: { sessionsPerMinute: 1000, concurrentSessions: 0 },
+            sessionsThisMinute: 2,
+            concurrentSessions: 1,
+            audio: { minutesToday: 1.5, minutesThisMonth: 1.5 },
+            officers: { 'a@example.com': { minutesToday: 1.5, minutesThisMonth: 1.5 } },
+        });
+        expect(await service.getUsage('unknown')).toBeNull();
+    });
+
+    it('should allow sessions when Redis is unavailable', async () => {
+        registration.rate_limit = 1;
+        redis.incr = async () => {
+            throw new Error('Connection is closed.');
+        };
+
+        expect((await service.acquireSession(session('s1'))).ok).toBe(true);
+    });
+});
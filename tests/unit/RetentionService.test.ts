@@ -0,0 +1,259 @@
+/**
+ * @jest-environment node
+ */
+import { RetentionService, TEMP_BUCKET, parseStorageUrl, resolveRetentionRules } from '../../server/src/services/RetentionService';
+
+type Row = Record<string, any>;
+
+/**
+ * In-memory stand-in for the tables and storage buckets a purge touches, covering the query builder calls the service makes
+ */
+function createFakeSupabase(tables: Record<string, Row[]>, removed: string[]) {
+    const query = (table: string) => {
+        const rows = tables[table] || (tables[table] = []);
+        const filters: Array<(row: Row) => boolean> = [];
+        let action: { type: 'select' } | { type: 'insert'; row: Row } | { type: 'update'; values: Row } | { type: 'delete' } = { type: 'select' };
+        let order: string | null = null;
+        let limit = Infinity;
+
+        const run = () => {
+            if (action.type === 'insert') {
+                rows.push(action.row);
+                return [action.row];
+            }
+            const matches = rows
+                .filter(row => filters.every(filter => filter(row)))
+                .sort((a, b) => order ? String(a[order]).localeCompare(String(b[order])) : 0)
+                .slice(0, limit);
+            if (action.type === 'update') {
+                matches.forEach(row => Object.assign(row, (action as { values: Row }).values));
+            }
+            if (action.type === 'delete') {
+                tables[table] = rows.filter(row => !matches.includes(row));
+            }
+            return matches;
+        };
+
+        const builder: any = {
+            select: () => builder,
+            insert: (row: Row) => {
+                action = { type: 'insert', row };
+                return builder;
+            },
+            update: (values: Row) => {
+                action = { type: 'update', values };
+                return builder;
+            },
+            delete: () => {
+                action = { type: 'delete' };
+                return builder;
+            },
+            eq: (column: string, value: unknown) => {
+                filters.push(row => row[column] === value);
+                return builder;
+            },
+            is: (column: string, value: unknown) => {
+                filters.push(row => (row[column] ?? null) === value);
+                return builder;
+            },
+            not: (column: string, _operator: 'is', value: unknown) => {
+                filters.push(row => (row[column] ?? null) !== value);
+                return builder;
+            },
+            lt: (column: string, value: string) => {
+                filters.push(row => row[column] < value);
+                return builder;
+            },
+            order: (column: string) => {
+                order = column;
+                return builder;
+            },
+            limit: (count: number) => {
+                limit = count;
+                return builder;
+            },
+            then: (resolve: (result: any) => void, reject: (error: unknown) => void) => {
+                try {
+                    resolve({ data: run(), error: null });
+                } catch (error) {
+                    reject(error);
+                }
+            },
+        };
+        return builder;
+    };
+
+    return {
+        from: (table: string) => query(table),
+        storage: {
+            from: (bucket: string) => ({
+                remove: async (paths: string[]) => {
+                    removed.push(...paths.map(path => `${bucket}/${path}`));
+                    return { data: [], error: null };
+                },
+            }),
+        },
+    } as any;
+}
+
+describe('RetentionService', () => {
+    const now = new Date('2025-10-15T03:00:00.000Z');
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+    const storageUrl = (bucket: string, path: string) => `https://project.supabase.co/storage/v1/object/public/${bucket}/${path}`;
+
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        delete process.env['RETENTION_AUDIO_DAYS'];
+        delete process.env['RETENTION_TRANSCRIPT_DAYS'];
+        delete process.env['RETENTION_REPORT_DAYS'];
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+    });
+
+    describe('resolveRetentionRules', () => {
+        it('should apply app overrides over the environment defaults, keeping unset categories forever', () => {
+            process.env['RETENTION_AUDIO_DAYS'] = '30';
+            process.env['RETENTION_TRANSCRIPT_DAYS'] = '365';
+
+            expect(resolveRetentionRules(undefined)).toEqual({ audio: 30, transcript: 365, report: null });
+            expect(resolveRetentionRules({ audio_days: 7, transcript_days: 0, report_days: 2555 }))
+                .toEqual({ audio: 7, transcript: null, report: 2555 });
+        });
+    });
+
+    describe('parseStorageUrl', () => {
+        it('should split public and signed Supabase Storage URLs', () => {
+            expect(parseStorageUrl(storageUrl('voice-chat-reports', 'reports/a%20b.pdf')))
+                .toEqual({ bucket: 'voice-chat-reports', path: 'reports/a b.pdf' });
+            expect(parseStorageUrl('https://project.supabase.co/storage/v1/object/sign/audio/s1.wav?token=abc'))
+                .toEqual({ bucket: 'audio', path: 's1.wav' });
+            expect(parseStorageUrl('https://example.com/s1.wav')).toBeNull();
+            expect(parseStorageUrl(null)).toBeNull();
+        });
+    });
+
+    describe('run', () => {
+        let tables: Record<string, Row[]>;
+        let removed: string[];
+        let minio: { deleteFile: jest.Mock; listFiles: jest.Mock };
+        let registrations: Record<string, Row>;
+        let service: RetentionService;
+
+        const conversation = (id: string, endedDaysAgo: number, overrides: Row = {}): Row => ({
+            id,
+            session_id: `session-${id}`,
+            app_name: 'police',
+            end_time: daysAgo(endedDaysAgo),
+            legal_hold: false,
+            transcript: 'transcript',
+            summary: 'summary',
+            audio_url: storageUrl('audio', `${id}.wav`),
+            pdf_url: storageUrl('voice-chat-reports', `${id}.pdf`),
+            ...overrides,
+        });
+
+        beforeEach(() => {
+            registrations = {
+                police: { name: 'police', retention: { audio_days: 30, transcript_days: 365, report_days: 2555 } },
+                courts: { name: 'courts', retention: { audio_days: 1 }, legal_hold: true },
+            };
+            tables = {
+                app_registrations: Object.values(registrations),
+                sessions: [{ id: 'session-old' }, { id: 'session-recent' }, { id: 'session-held' }, { id: 'session-ancient' }],
+                conversations: [
+                    conversation('old', 60),
+                    conversation('recent', 5),
+                    conversation('held', 60, { legal_hold: true, legal_hold_reason: 'Case 42' }),
+                    conversation('ancient', 3000),
+                    conversation('courts', 60, { app_name: 'courts' }),
+                ],
+                audio_files: [
+                    { session_id: 'session-old', storage_provider: 'minio', storage_path: 'voice-chat-audio/old.wav', archival_url: null },
+                    { session_id: 'session-held', storage_provider: 'minio', storage_path: 'voice-chat-audio/held.wav', archival_url: null },
+                ],
+                transcript_segments: [{ session_id: 'session-ancient', seq: 1 }],
+                retention_audit_log: [],
+            };
+            removed = [];
+            minio = {
+                deleteFile: jest.fn(async () => undefined),
+                listFiles: jest.fn(async () => [
+                    { name: 'chunk-old', lastModified: new Date(now.getTime() - 48 * 60 * 60 * 1000) },
+                    { name: 'chunk-new', lastModified: new Date(now.getTime() - 60 * 60 * 1000) },
+                ]),
+            };
+            const appRegistrationService = { getByName: async (name: string) => registrations[name] || null } as any;
+            service = new RetentionService(minio as any, appRegistrationService, createFakeSupabase(tables, removed));
+        });
+
+        const actionsOf = (report: { actions: Array<{ category: string; conversationId: string | null }> }) =>
+            report.actions.map(action => `${action.category}:${action.conversationId}`);
+
+        it('should report what would be deleted without deleting anything on a dry run', async () => {
+            const report = await service.run({ dryRun: true, now });
+
+            expect(actionsOf(report)).toEqual([
+                'audio:ancient',
+                'audio:old',
+                'transcript:ancient',
+                'report:ancient',
+                'conversation:ancient',
+                'temp:null',
+            ]);
+            expect(report.heldApps).toEqual(['courts']);
+            expect(report.errors).toEqual([]);
+            expect(report.actions[1]!.targets).toEqual(expect.arrayContaining(['minio:voice-chat-audio/old.wav', 'storage:audio/old.wav']));
+            expect(report.actions[5]!.targets).toEqual([`minio:${TEMP_BUCKET}/chunk-old`]);
+
+            expect(minio.deleteFile).not.toHaveBeenCalled();
+            expect(removed).toEqual([]);
+            expect(tables['conversations']).toHaveLength(5);
+            expect(tables['audio_files']).toHaveLength(2);
+            expect(tables['retention_audit_log']).toEqual([]);
+        });
+
+        it('should purge expired categories, delete fully purged conversations and audit each action', async () => {
+            const report = await service.run({ dryRun: false, appName: 'police', now });
+
+            expect(report.errors).toEqual([]);
+            expect(minio.deleteFile).toHaveBeenCalledWith('voice-chat-audio', 'old.wav');
+            expect(minio.deleteFile).not.toHaveBeenCalledWith('voice-chat-audio', 'held.wav');
+            expect(minio.listFiles).not.toHaveBeenCalled();
+            expect(removed).toEqual(expect.arrayContaining(['audio/old.wav', 'audio/ancient.wav', 'voice-chat-reports/ancient.pdf']));
+
+            const old = tables['conversations']!.find(row => row['id'] === 'old')!;
+            expect(old).toMatchObject({ audio_url: null, audio_purged_at: now.toISOString(), transcript: 'transcript', summary: 'summary' });
+            expect(tables['audio_files']!.map(row => row['session_id'])).toEqual(['session-held']);
+            expect(tables['transcript_segments']).toEqual([]);
+            expect(tables['sessions']!.map(row => row['id'])).toEqual(['session-old', 'session-recent', 'session-held']);
+
+            expect(tables['retention_audit_log']!.map(entry => `${entry['category']}:${entry['conversation_id']}`)).toEqual(actionsOf(report));
+            expect(tables['retention_audit_log']!.every(entry => entry['run_id'] === report.runId)).toBe(true);
+        });
+
+        it('should keep conversations whose categories are not all set to expire', async () => {
+            registrations['police']!['retention'] = { audio_days: 30 };
+
+            const report = await service.run({ dryRun: false, appName: 'police', now });
+
+            expect(actionsOf(report)).toEqual(['audio:ancient', 'audio:old']);
+            expect(tables['sessions']).toHaveLength(4);
+            expect(tables['conversations']!.find(row => row['id'] === 'ancient')).toMatchObject({ transcript: 'transcript', audio_url: null });
+        });
+
+        it('should audit legal hold changes', async () => {
+            await service.setLegalHold('recent', 'police', true, 'Subpoena 7');
+
+            expect(tables['conversations']!.find(row => row['id'] === 'recent')).toMatchObject({ legal_hold: true, legal_hold_reason: 'Subpoena 7' });
+            expect(tables['retention_audit_log']).toEqual([expect.objectContaining({
+                action: 'legal_hold_set',
+                conversation_id: 'recent',
+                reason: 'Subpoena 7',
+            })]);
+        });
+    });
+});
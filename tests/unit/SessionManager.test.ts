@@ -1,4 +1,8 @@
+/**
+ * @jest-environment node
+ */
 import { SessionManager } from '../../server/src/services/SessionManager';
+import { InMemorySessionStore } from '../../server/src/stores';
 import { SessionStartData } from '../../server/src/types';
 
 describe('SessionManager', () => {
@@ -15,29 +19,29 @@ describe('SessionManager', () => {
     describe('startSession', () => {
         it('should create a new session with valid data', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
                 language: 'en',
-                clientId: 'client-123',
+                client_id: 'client-123',
             };
 
             const session = await sessionManager.startSession(sessionData);
 
             expect(session).toBeDefined();
             expect(session.id).toBeDefined();
-            expect(session.officerEmail).toBe(sessionData.officerEmail);
-            expect(session.appName).toBe(sessionData.appName);
+            expect(session.officer_email).toBe(sessionData.officer_email);
+            expect(session.app_name).toBe(sessionData.app_name);
             expect(session.language).toBe(sessionData.language);
-            expect(session.clientId).toBe(sessionData.clientId);
+            expect(session.client_id).toBe(sessionData.client_id);
             expect(session.status).toBe('active');
-            expect(session.startTime).toBeInstanceOf(Date);
+            expect(session.start_time).toBeInstanceOf(Date);
         });
 
         it('should use default language when not provided', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
-                clientId: 'client-123',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
             };
 
             const session = await sessionManager.startSession(sessionData);
@@ -47,77 +51,314 @@ describe('SessionManager', () => {
 
         it('should track client sessions', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
-                clientId: 'client-123',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
             };
 
             await sessionManager.startSession(sessionData);
             const clientSessions = sessionManager.getSessionsByClientId('client-123');
 
             expect(clientSessions).toHaveLength(1);
-            expect(clientSessions[0].clientId).toBe('client-123');
+            expect(clientSessions[0].client_id).toBe('client-123');
         });
     });
 
     describe('endSession', () => {
         it('should end a session and create conversation', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
-                clientId: 'client-123',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
             };
 
             const session = await sessionManager.startSession(sessionData);
             const conversation = await sessionManager.endSession(session.id);
 
             expect(conversation).toBeDefined();
-            expect(conversation.sessionId).toBe(session.id);
-            expect(conversation.officerEmail).toBe(session.officerEmail);
-            expect(conversation.appName).toBe(session.appName);
+            expect(conversation.session_id).toBe(session.id);
+            expect(conversation.officer_email).toBe(session.officer_email);
+            expect(conversation.app_name).toBe(session.app_name);
             expect(conversation.status).toBe('processing');
-            expect(conversation.startTime).toEqual(session.startTime);
-            expect(conversation.endTime).toBeInstanceOf(Date);
+            expect(conversation.start_time).toEqual(session.start_time);
+            expect(conversation.end_time).toBeInstanceOf(Date);
             expect(conversation.duration).toBeGreaterThanOrEqual(0);
         });
 
+        it('should reject ending a session that has already ended', async () => {
+            const store = new InMemorySessionStore();
+            const manager = new SessionManager(store);
+            const session = await manager.startSession({
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            });
+
+            const saveConversation = jest.spyOn(store, 'saveConversation');
+
+            const results = await Promise.allSettled([manager.endSession(session.id), manager.endSession(session.id)]);
+
+            expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+            await expect(manager.endSession(session.id)).rejects.toThrow('already ended');
+            expect(saveConversation).toHaveBeenCalledTimes(1);
+            manager.clear();
+        });
+
+        it('should attribute the transcript to speakers when segments are diarized', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            await sessionManager.prepareTranscript(session.id);
+            sessionManager.addFinalSegment(session.id, { transcript: 'How can I help?', confidence: 0.9, isPartial: false, timestamp: Date.now(), speaker: 'S1' });
+            sessionManager.addFinalSegment(session.id, { transcript: 'My car was stolen.', confidence: 0.9, isPartial: false, timestamp: Date.now(), speaker: 'S2' });
+            sessionManager.addFinalSegment(session.id, { transcript: 'Last night.', confidence: 0.9, isPartial: false, timestamp: Date.now(), speaker: 'S2' });
+
+            const conversation = await sessionManager.endSession(session.id);
+
+            expect(conversation.speaker_turns).toEqual([
+                { speaker: 'S1', transcript: 'How can I help?' },
+                { speaker: 'S2', transcript: 'My car was stolen. Last night.' },
+            ]);
+            expect(conversation.transcript).toBe('Speaker 1: How can I help?\nSpeaker 2: My car was stolen. Last night.');
+        });
+
+        it('should save word-level segments with revisions against the conversation', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+            const words = [
+                { content: 'Hello', type: 'word' as const, start_time: 0.1, end_time: 0.5, confidence: 0.98 },
+                { content: '.', type: 'punctuation' as const, start_time: 0.5, end_time: 0.5, confidence: 1 },
+            ];
+
+            const session = await sessionManager.startSession(sessionData);
+            await sessionManager.prepareTranscript(session.id);
+            sessionManager.recordPartial(session.id);
+            sessionManager.recordPartial(session.id);
+            sessionManager.addFinalSegment(session.id, { transcript: 'Hello.', confidence: 0.98, isPartial: false, timestamp: Date.now(), startTime: 0.1, endTime: 0.5, words });
+            sessionManager.addFinalSegment(session.id, { transcript: 'Bye.', confidence: 0.9, isPartial: false, timestamp: Date.now() });
+
+            const conversation = await sessionManager.endSession(session.id);
+            const segments = await sessionManager.getConversationSegments(conversation.id);
+
+            expect(segments).toHaveLength(2);
+            expect(segments![0]).toMatchObject({ seq: 1, conversation_id: conversation.id, revision: 3, start_time: 0.1, end_time: 0.5, words });
+            expect(segments![1]).toMatchObject({ seq: 2, conversation_id: conversation.id, revision: 1, words: [] });
+        });
+
+        it('should copy the ended session and its conversation to the record store', async () => {
+            const records = new InMemorySessionStore();
+            const manager = new SessionManager(new InMemorySessionStore(), records);
+            const session = await manager.startSession({ officer_email: 'test@example.com', app_name: 'test-app', client_id: 'client-123' });
+            await manager.prepareTranscript(session.id);
+            manager.addFinalSegment(session.id, { transcript: 'Hello.', confidence: 0.9, isPartial: false, timestamp: Date.now() });
+
+            const conversation = await manager.endSession(session.id);
+
+            expect(await records.getConversation(conversation.id)).toMatchObject({ id: conversation.id, transcript: 'Hello.' });
+            expect(await records.getSession(session.id)).toMatchObject({ status: 'ended', conversation_id: conversation.id });
+            expect(await records.getTranscriptSegments(session.id)).toEqual([expect.objectContaining({ seq: 1, conversation_id: conversation.id })]);
+            manager.clear();
+        });
+
         it('should throw error for non-existent session', async () => {
             await expect(sessionManager.endSession('non-existent')).rejects.toThrow('Session non-existent not found');
         });
     });
 
+    describe('applyRedaction', () => {
+        it('should replace the transcripts kept in the store with their redacted text', async () => {
+            const store = new InMemorySessionStore();
+            const manager = new SessionManager(store);
+            const session = await manager.startSession({ officer_email: 'test@example.com', app_name: 'test-app', client_id: 'client-123' });
+            await manager.prepareTranscript(session.id);
+            manager.addFinalSegment(session.id, { transcript: 'Call me on 0161 496 0000.', confidence: 0.9, isPartial: false, timestamp: Date.now() });
+            manager.addFinalSegment(session.id, { transcript: 'Thanks.', confidence: 0.9, isPartial: false, timestamp: Date.now() });
+            const conversation = await manager.endSession(session.id);
+
+            await manager.applyRedaction({
+                conversation_id: conversation.id,
+                session_id: session.id,
+                transcript: 'Call me on [PHONE]. Thanks.',
+                session_transcript: 'Call me on [PHONE]. Thanks.',
+                speaker_turns: null,
+                segments: [{ seq: 1, transcript: 'Call me on [PHONE].' }],
+            });
+
+            expect((await store.getConversation(conversation.id))!.transcript).toBe('Call me on [PHONE]. Thanks.');
+            expect((await store.getSession(session.id))!.transcript).toBe('Call me on [PHONE]. Thanks.');
+            expect((await store.getTranscriptSegments(session.id)).map(segment => segment.transcript)).toEqual(['Call me on [PHONE].', 'Thanks.']);
+            manager.clear();
+        });
+    });
+
     describe('getSession', () => {
         it('should return session by ID', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
-                clientId: 'client-123',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
             };
 
             const session = await sessionManager.startSession(sessionData);
-            const retrievedSession = sessionManager.getSession(session.id);
+            const retrievedSession = await sessionManager.getSession(session.id);
 
             expect(retrievedSession).toEqual(session);
         });
 
-        it('should return null for non-existent session', () => {
-            const session = sessionManager.getSession('non-existent');
+        it('should return null for non-existent session', async () => {
+            const session = await sessionManager.getSession('non-existent');
             expect(session).toBeNull();
         });
     });
 
+    describe('rehydrate', () => {
+        it('should restore active sessions from the store', async () => {
+            const store = new InMemorySessionStore();
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await new SessionManager(store).startSession(sessionData);
+
+            const restartedManager = new SessionManager(store);
+            const restored = await restartedManager.rehydrate(60000);
+
+            expect(restored).toHaveLength(1);
+            expect(restartedManager.getAllSessions()).toHaveLength(1);
+            expect((await restartedManager.getSession(session.id))?.start_time).toBeInstanceOf(Date);
+            restartedManager.clear();
+        });
+
+        it('should end restored sessions that no client resumes within the grace window', async () => {
+            const store = new InMemorySessionStore();
+            const session = await new SessionManager(store).startSession({ officer_email: 'test@example.com', app_name: 'test-app', client_id: 'client-123' });
+
+            const restartedManager = new SessionManager(store);
+            const expired = new Promise(resolve => restartedManager.once('resumeWindowExpired', resolve));
+            await restartedManager.rehydrate(10);
+
+            expect(restartedManager.getSessionsByClientId('client-123')).toHaveLength(0);
+            await expect(expired).resolves.toMatchObject({ id: session.id });
+            restartedManager.clear();
+        });
+
+        it('should leave sessions served by another live node alone', async () => {
+            const store = new InMemorySessionStore();
+            await new SessionManager(store).startSession({ officer_email: 'test@example.com', app_name: 'test-app', client_id: 'client-123' });
+
+            const restartedManager = new SessionManager(store);
+            const restored = await restartedManager.rehydrate(60000, async () => true);
+
+            expect(restored).toEqual([]);
+            expect(restartedManager.getAllSessions()).toEqual([]);
+        });
+    });
+
+    describe('resumeSession', () => {
+        it('should rebind an active session to a new client', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            const resumeToken = await sessionManager.issueResumeToken(session.id);
+            const resumed = await sessionManager.resumeSession(session.id, 'client-456', resumeToken);
+
+            expect(resumed.client_id).toBe('client-456');
+            expect(sessionManager.getSessionsByClientId('client-123')).toHaveLength(0);
+            expect(sessionManager.getSessionsByClientId('client-456')).toHaveLength(1);
+        });
+
+        it('should reject ended sessions', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            const resumeToken = await sessionManager.issueResumeToken(session.id);
+            await sessionManager.endSession(session.id);
+
+            await expect(sessionManager.resumeSession(session.id, 'client-456', resumeToken)).rejects.toThrow();
+        });
+
+        it('should reject an invalid resume token', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            await sessionManager.issueResumeToken(session.id);
+
+            await expect(sessionManager.resumeSession(session.id, 'client-456', 'not-the-token'))
+                .rejects.toThrow('Invalid resume token');
+        });
+
+        it('should return final segments missed while disconnected', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            const resumeToken = await sessionManager.issueResumeToken(session.id);
+            await sessionManager.prepareTranscript(session.id);
+
+            sessionManager.addFinalSegment(session.id, { transcript: 'Hello', confidence: 0.9, isPartial: false, timestamp: Date.now() });
+            sessionManager.suspendSession(session.id, 60000);
+            sessionManager.addFinalSegment(session.id, { transcript: 'world', confidence: 0.8, isPartial: false, timestamp: Date.now() });
+
+            const resumed = await sessionManager.resumeSession(session.id, 'client-456', resumeToken);
+            const missed = await sessionManager.getMissedSegments(session.id, 1);
+
+            expect(resumed.disconnected_at).toBeUndefined();
+            expect(missed.map(segment => segment.transcript)).toEqual(['world']);
+            expect(resumed.transcript).toBe('Hello world');
+        });
+
+        it('should expire sessions that are not resumed within the grace window', async () => {
+            const sessionData: SessionStartData = {
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
+            };
+
+            const session = await sessionManager.startSession(sessionData);
+            const expired = new Promise(resolve => sessionManager.once('resumeWindowExpired', resolve));
+
+            sessionManager.suspendSession(session.id, 10);
+
+            await expect(expired).resolves.toMatchObject({ id: session.id });
+        });
+    });
+
     describe('getAllSessions', () => {
         it('should return all sessions', async () => {
             const sessionData1: SessionStartData = {
-                officerEmail: 'test1@example.com',
-                appName: 'test-app',
-                clientId: 'client-1',
+                officer_email: 'test1@example.com',
+                app_name: 'test-app',
+                client_id: 'client-1',
             };
 
             const sessionData2: SessionStartData = {
-                officerEmail: 'test2@example.com',
-                appName: 'test-app',
-                clientId: 'client-2',
+                officer_email: 'test2@example.com',
+                app_name: 'test-app',
+                client_id: 'client-2',
             };
 
             await sessionManager.startSession(sessionData1);
@@ -131,9 +372,9 @@ describe('SessionManager', () => {
     describe('updateSessionTranscript', () => {
         it('should update session transcript', async () => {
             const sessionData: SessionStartData = {
-                officerEmail: 'test@example.com',
-                appName: 'test-app',
-                clientId: 'client-123',
+                officer_email: 'test@example.com',
+                app_name: 'test-app',
+                client_id: 'client-123',
             };
 
             const session = await sessionManager.startSession(sessionData);
@@ -141,7 +382,7 @@ describe('SessionManager', () => {
 
             expect(success).toBe(true);
             
-            const updatedSession = sessionManager.getSession(session.id);
+            const updatedSession = await sessionManager.getSession(session.id);
             expect(updatedSession?.transcript).toBe('Hello world');
         });
 
@@ -154,16 +395,16 @@ describe('SessionManager', () => {
     describe('getSessionStats', () => {
         it('should return correct statistics', async () => {
             const sessionData1: SessionStartData = {
-                officerEmail: 'test1@example.com',
-                appName: 'app1',
-                clientId: 'client-1',
+                officer_email: 'test1@example.com',
+                app_name: 'app1',
+                client_id: 'client-1',
                 language: 'en',
             };
 
             const sessionData2: SessionStartData = {
-                officerEmail: 'test2@example.com',
-                appName: 'app2',
-                clientId: 'client-2',
+                officer_email: 'test2@example.com',
+                app_name: 'app2',
+                client_id: 'client-2',
                 language: 'es',
             };
 
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import jwt from 'jsonwebtoken';
+import { SessionTokenService } from '../../server/src/services/SessionTokenService';
+import { AppRegistration } from '../../server/src/types';
+
+describe('SessionTokenService', () => {
+    const secret = 'test-secret-with-at-least-32-characters';
+    let registration: AppRegistration;
+    let service: SessionTokenService;
+
+    beforeEach(() => {
+        registration = {
+            id: 'app-1',
+            name: 'intake',
+            domain: 'https://intake.example.com',
+            status: 'active',
+            permissions: ['basic'],
+            rate_limit: 1000,
+            transcription_provider: 'speechmatics',
+            metadata: {},
+        };
+
+        const appRegistrationService: any = {
+            getByName: async (name: string) => (name === registration.name ? registration : null),
+        };
+        service = new SessionTokenService(appRegistrationService, secret);
+    });
+
+    it('should mint a token scoped to an officer and languages', async () => {
+        const minted = service.mint(registration, { officerEmail: 'officer@example.com', languages: ['en', 'es'], ttlSeconds: 300 });
+
+        expect(minted.expiresIn).toBe(300);
+
+        const result = await service.verify(minted.token);
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.registration.name).toBe('intake');
+            expect(result.scope.officerEmail).toBe('officer@example.com');
+            expect(result.scope.languages).toEqual(['en', 'es']);
+            expect(result.scope.expiresAt).toBeGreaterThan(Date.now());
+        }
+    });
+
+    it('should clamp the lifetime to the configured bounds', () => {
+        expect(service.mint(registration, { officerEmail: 'officer@example.com', ttlSeconds: 86400 }).expiresIn).toBe(3600);
+        expect(service.mint(registration, { officerEmail: 'officer@example.com', ttlSeconds: 5 }).expiresIn).toBe(60);
+        expect(service.mint(registration, { officerEmail: 'officer@example.com' }).expiresIn).toBe(900);
+    });
+
+    it('should reject tampered, foreign and expired tokens', async () => {
+        const { token } = service.mint(registration, { officerEmail: 'officer@example.com' });
+        const forged = jwt.sign({ app: 'intake', langs: [] }, 'another-secret', {
+            subject: 'officer@example.com',
+            issuer: 'voice-chat-server',
+            audience: 'voice-chat-widget',
+        });
+        const expired = jwt.sign({ app: 'intake', langs: [], exp: Math.floor(Date.now() / 1000) - 10 }, secret, {
+            subject: 'officer@example.com',
+            issuer: 'voice-chat-server',
+            audience: 'voice-chat-widget',
+        });
+
+        expect(await service.verify(`${token}x`)).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+        expect(await service.verify(forged)).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+        expect(await service.verify(expired)).toEqual({ ok: false, code: 'TOKEN_EXPIRED' });
+        expect(await service.verify(undefined)).toEqual({ ok: false, code: 'INVALID_TOKEN' });
+    });
+
+    it('should reject tokens minted before the app revoked them', async () => {
+        const { token } = service.mint(registration, { officerEmail: 'officer@example.com' });
+        registration.tokens_revoked_at = new Date(Date.now() + 1000).toISOString();
+
+        expect(await service.verify(token)).toEqual({ ok: false, code: 'TOKEN_REVOKED' });
+    });
+
+    it('should accept tokens minted after a revocation', async () => {
+        registration.tokens_revoked_at = new Date(Date.now() - 5000).toISOString();
+        const { token } = service.mint(registration, { officerEmail: 'officer@example.com' });
+
+        expect((await service.verify(token)).ok).toBe(true);
+    });
+
+    it('should reject tokens for inactive apps', async () => {
+        const { token } = service.mint(registration, { officerEmail: 'officer@example.com' });
+        registration.status = 'suspended';
+
+        expect(await service.verify(token)).toEqual({ ok: false, code: 'APP_INACTIVE' });
+    });
+});
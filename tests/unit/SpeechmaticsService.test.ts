@@ -69,6 +69,81 @@ describe('SpeechmaticsService', () => {
         });
     });
 
+    describe('reconnection', () => {
+        // 0.1s of 44.1kHz float audio
+        const chunk = () => new ArrayBuffer(17640);
+
+        const attachSocket = () => {
+            const ws: any = { send: jest.fn(), close: jest.fn() };
+            const service = speechmaticsService as any;
+            service.ws = ws;
+            service.isConnected = true;
+            service.setupWebSocketHandlers();
+            return ws;
+        };
+
+        const receive = (message: any) => (speechmaticsService as any).handleMessage(message);
+
+        beforeEach(() => {
+            jest.spyOn(speechmaticsService as any, 'attemptReconnect').mockImplementation(() => undefined);
+        });
+
+        it('should replay unacknowledged and mid-reconnect audio into the new recognition', () => {
+            const first = attachSocket();
+            receive({ message: 'RecognitionStarted', id: 'r1' });
+
+            const chunks = [chunk(), chunk(), chunk(), chunk()];
+            speechmaticsService.sendAudio(chunks[0]!);
+            speechmaticsService.sendAudio(chunks[1]!);
+            speechmaticsService.sendAudio(chunks[2]!);
+            receive({ message: 'AudioAdded', seq_no: 1 });
+
+            first.onclose({ code: 1006, reason: '' });
+            speechmaticsService.sendAudio(chunks[3]!);
+
+            const second = attachSocket();
+            receive({ message: 'RecognitionStarted', id: 'r2' });
+
+            expect(second.send.mock.calls.map((call: any[]) => call[0])).toEqual([chunks[1], chunks[2], chunks[3]]);
+
+            // Sequence numbers restart with the new recognition
+            receive({ message: 'AudioAdded', seq_no: 3 });
+            speechmaticsService.endStream();
+            expect(JSON.parse(second.send.mock.calls[3][0])).toEqual({ message: 'EndOfStream', last_seq_no: 3 });
+        });
+
+        it('should offset timings of the new recognition by the audio acknowledged before it', (done) => {
+            const first = attachSocket();
+            receive({ message: 'RecognitionStarted', id: 'r1' });
+            speechmaticsService.sendAudio(chunk());
+            speechmaticsService.sendAudio(chunk());
+            receive({ message: 'AudioAdded', seq_no: 2 });
+            first.onclose({ code: 1006, reason: '' });
+
+            attachSocket();
+            receive({ message: 'RecognitionStarted', id: 'r2' });
+
+            speechmaticsService.on('finalTranscript', (transcript) => {
+                expect(transcript.startTime).toBeCloseTo(0.3);
+                expect(transcript.endTime).toBeCloseTo(0.5);
+                done();
+            });
+
+            receive({
+                message: 'AddTranscript',
+                results: [{ type: 'word', start_time: 0.1, end_time: 0.3, alternatives: [{ content: 'hello', confidence: 0.9 }] }],
+            });
+        });
+
+        it('should not reconnect after an intentional disconnect', () => {
+            const ws = attachSocket();
+            speechmaticsService.disconnect();
+            ws.onclose({ code: 1005, reason: '' });
+
+            expect((speechmaticsService as any).attemptReconnect).not.toHaveBeenCalled();
+        });
+    });
+
     describe('event handling', () => {
         it('should emit connected events', (done) => {
             speechmaticsService.on('connected', () => {
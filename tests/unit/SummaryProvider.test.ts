@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import { ChatCompletionSummaryProvider, ExtractiveSummaryProvider, createSummaryProvider, isSummaryProviderName } from '../../server/src/services/SummaryProvider';
+import { SUMMARY_JSON_SCHEMA, validateSummary } from '../../server/src/utils/summarySchema';
+
+describe('SummaryProvider', () => {
+    const request = {
+        systemPrompt: 'Summarize the conversation.',
+        userPrompt: 'Transcript: ...',
+        transcript: [
+            'The caller reported a burglary at the warehouse on Friday night.',
+            'Um, okay.',
+            'The warehouse alarm did not trigger during the burglary.',
+            'The officer will request the warehouse camera footage from Friday.',
+            'The weather was cold.',
+        ].join(' '),
+        temperature: 0.7,
+        maxTokens: 1000,
+    };
+
+    const responseSchema = { name: 'conversation_summary', description: 'Structured summary', schema: SUMMARY_JSON_SCHEMA };
+
+    describe('ExtractiveSummaryProvider', () => {
+        it('should pick the most representative sentences in transcript order', async () => {
+            const provider = new ExtractiveSummaryProvider(2, 1);
+
+            const completion = await provider.summarize(request);
+
+            expect(completion).toEqual({
+                provider: 'extractive',
+                model: 'extractive',
+                text: [
+                    'Overview:',
+                    'The caller reported a burglary at the warehouse on Friday night. The warehouse alarm did not trigger during the burglary.',
+                    '',
+                    'Key Points:',
+                    '- The officer will request the warehouse camera footage from Friday.',
+                ].join('\n'),
+            });
+        });
+
+        it('should be deterministic', async () => {
+            const provider = new ExtractiveSummaryProvider();
+
+            expect(await provider.summarize(request)).toEqual(await provider.summarize(request));
+        });
+
+        it('should produce a valid structured summary when a schema is requested', async () => {
+            const completion = await new ExtractiveSummaryProvider(2, 1).summarize({ ...request, responseSchema });
+
+            const validation = validateSummary(JSON.parse(completion.text));
+            expect(validation.ok).toBe(true);
+            expect(validation.ok && validation.summary.keyPoints).toEqual(['The officer will request the warehouse camera footage from Friday.']);
+        });
+
+        it('should reject an empty transcript', async () => {
+            await expect(new ExtractiveSummaryProvider().summarize({ ...request, transcript: '  ' })).rejects.toThrow('no sentences');
+        });
+    });
+
+    describe('ChatCompletionSummaryProvider', () => {
+        it('should send the prompts with the requested model', async () => {
+            const create = jest.fn(async () => ({ choices: [{ message: { content: 'Overview: a burglary.' } }] }));
+            const provider = new ChatCompletionSummaryProvider('openai-compatible', { chat: { completions: { create } } } as any, 'llama3.1', 'openai-compatible');
+
+            const completion = await provider.summarize({ ...request, model: 'qwen2.5' });
+
+            expect(completion).toEqual({ text: 'Overview: a burglary.', provider: 'openai-compatible', model: 'qwen2.5' });
+            expect(create).toHaveBeenCalledWith(expect.objectContaining({
+                model: 'qwen2.5',
+                messages: [
+                    { role: 'system', content: request.systemPrompt },
+                    { role: 'user', content: request.userPrompt },
+                ],
+            }));
+        });
+
+        it('should force a function call for structured output and return its arguments', async () => {
+            const create = jest.fn(async () => ({
+                choices: [{ message: { content: null, tool_calls: [{ type: 'function', function: { name: 'conversation_summary', arguments: '{"overview":"x"}' } }] } }],
+            }));
+            const provider = new ChatCompletionSummaryProvider('openai', { chat: { completions: { create } } } as any, 'gpt-4', 'openai', 'tools');
+
+            const completion = await provider.summarize({ ...request, responseSchema });
+
+            expect(completion.text).toBe('{"overview":"x"}');
+            expect(create).toHaveBeenCalledWith(expect.objectContaining({
+                tools: [{ type: 'function', function: { name: 'conversation_summary', description: 'Structured summary', parameters: SUMMARY_JSON_SCHEMA } }],
+                tool_choice: { type: 'function', function: { name: 'conversation_summary' } },
+            }));
+        });
+
+        it('should request strict JSON schema output', async () => {
+            const create = jest.fn(async () => ({ choices: [{ message: { content: '{}' } }] }));
+            const provider = new ChatCompletionSummaryProvider('azure-openai', { chat: { completions: { create } } } as any, 'gpt-4o', 'azure-openai', 'json_schema');
+
+            await provider.summarize({ ...request, responseSchema });
+
+            expect(create).toHaveBeenCalledWith(expect.objectContaining({
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'conversation_summary', description: 'Structured summary', schema: SUMMARY_JSON_SCHEMA, strict: true },
+                },
+            }));
+        });
+
+        it('should fail when the model returns nothing', async () => {
+            const create = jest.fn(async () => ({ choices: [] }));
+            const provider = new ChatCompletionSummaryProvider('openai', { chat: { completions: { create } } } as any, 'gpt-4', 'openai');
+
+            await expect(provider.summarize(request)).rejects.toThrow('No summary generated by openai');
+        });
+    });
+
+    describe('createSummaryProvider', () => {
+        const originalEnv = { ...process.env };
+
+        afterEach(() => {
+            process.env = { ...originalEnv };
+        });
+
+        it('should require each provider\'s configuration', () => {
+            delete process.env['OPENAI_API_KEY'];
+            delete process.env['AZURE_OPENAI_ENDPOINT'];
+            delete process.env['SUMMARY_LLM_BASE_URL'];
+
+            expect(() => createSummaryProvider('openai')).toThrow('OpenAI API key missing');
+            expect(() => createSummaryProvider('azure-openai')).toThrow('Azure OpenAI configuration missing');
+            expect(() => createSummaryProvider('openai-compatible')).toThrow('SUMMARY_LLM_BASE_URL');
+            expect(createSummaryProvider('extractive').name).toBe('extractive');
+        });
+
+        it('should create a self-hosted provider from its base URL', () => {
+            process.env['SUMMARY_LLM_BASE_URL'] = 'http://localhost:11434/v1';
+
+            expect(createSummaryProvider('openai-compatible').name).toBe('openai-compatible');
+        });
+
+        it('should recognise provider names', () => {
+            expect(isSummaryProviderName('azure-openai')).toBe(true);
+            expect(isSummaryProviderName('gemini')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+import { SummaryTemplateService, isConversationType, validateTemplateInput } from '../../server/src/services/SummaryTemplateService';
+import { SummaryTemplate } from '../../server/src/types';
+
+/**
+ * In-memory stand-in for the summary_templates table, covering the query builder calls the service makes
+ */
+function createFakeSupabase(rows: SummaryTemplate[]) {
+    let nextId = rows.length + 1;
+
+    const query = () => {
+        const filters: Array<(row: SummaryTemplate) => boolean> = [];
+        let action: { type: 'select' } | { type: 'insert'; row: any } | { type: 'update'; values: Partial<SummaryTemplate> } = { type: 'select' };
+        let limit = Infinity;
+
+        const run = () => {
+            if (action.type === 'insert') {
+                const row = { ...action.row, id: `template-${nextId++}` };
+                rows.push(row);
+                return [row];
+            }
+            const matches = rows
+                .filter(row => filters.every(filter => filter(row)))
+                .sort((a, b) => b.version - a.version)
+                .slice(0, limit);
+            if (action.type === 'update') {
+                matches.forEach(row => Object.assign(row, (action as { values: Partial<SummaryTemplate> }).values));
+            }
+            return matches;
+        };
+
+        const builder: any = {
+            select: () => builder,
+            insert: (row: any) => {
+                action = { type: 'insert', row };
+                return builder;
+            },
+            update: (values: Partial<SummaryTemplate>) => {
+                action = { type: 'update', values };
+                return builder;
+            },
+            eq: (column: keyof SummaryTemplate, value: unknown) => {
+                filters.push(row => row[column] === value);
+                return builder;
+            },
+            neq: (column: keyof SummaryTemplate, value: unknown) => {
+                filters.push(row => row[column] !== value);
+                return builder;
+            },
+            is: (column: keyof SummaryTemplate, value: unknown) => {
+                filters.push(row => row[column] === value);
+                return builder;
+            },
+            order: () => builder,
+            limit: (count: number) => {
+                limit = count;
+                return builder;
+            },
+            maybeSingle: async () => ({ data: run()[0] || null, error: null }),
+            single: async () => ({ data: run()[0], error: null }),
+            then: (resolve: (result: any) => void, reject: (error: unknown) => void) => {
+                try {
+                    resolve({ data: run(), error: null });
+                } catch (error) {
+                    reject(error);
+                }
+            },
+        };
+        return builder;
+    };
+
+    return { from: () => query() } as any;
+}
+
+describe('SummaryTemplateService', () => {
+    let rows: SummaryTemplate[];
+    let service: SummaryTemplateService;
+
+    const template = (overrides: Partial<SummaryTemplate> = {}): SummaryTemplate => ({
+        id: 'template-global',
+        app_name: null,
+        conversation_type: 'incident_report',
+        version: 1,
+        name: 'Incident report',
+        system_prompt: 'Write an incident report.',
+        required_sections: ['overview'],
+        output_schema: { type: 'object', properties: { location: { type: 'string' } } },
+        is_active: true,
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        rows = [template(), template({ id: 'template-interview', conversation_type: 'interview', name: 'Interview', output_schema: null })];
+        service = new SummaryTemplateService(createFakeSupabase(rows));
+    });
+
+    it('should fall back to the global template until the app saves its own', async () => {
+        expect((await service.getTemplate('police', 'incident_report'))?.id).toBe('template-global');
+        expect(await service.getTemplate('police', 'witness_statement')).toBeNull();
+
+        const saved = await service.saveTemplate('police', 'incident_report', {
+            name: 'Police incident report',
+            systemPrompt: 'Write a police incident report.',
+            requiredSections: ['overview', 'entities'],
+            outputSchema: null,
+        });
+
+        expect(saved).toMatchObject({ app_name: 'police', version: 1, is_active: true });
+        expect((await service.getTemplate('police', 'incident_report'))?.name).toBe('Police incident report');
+        expect((await service.getTemplate('fire', 'incident_report'))?.id).toBe('template-global');
+    });
+
+    it('should version saved templates and keep only the newest active', async () => {
+        const input = { name: 'Police incident report', systemPrompt: 'v1', requiredSections: [], outputSchema: null };
+        await service.saveTemplate('police', 'incident_report', input);
+        const second = await service.saveTemplate('police', 'incident_report', { ...input, systemPrompt: 'v2' });
+
+        const versions = await service.getVersions('police', 'incident_report');
+        expect(second.version).toBe(2);
+        expect(versions.map(version => [version.version, version.is_active])).toEqual([[2, true], [1, false]]);
+        expect((await service.getTemplate('police', 'incident_report'))?.system_prompt).toBe('v2');
+    });
+
+    it('should list the app templates over the global ones and restore the global one on deactivation', async () => {
+        await service.saveTemplate('police', 'interview', { name: 'Suspect interview', systemPrompt: 'Summarize the interview.', requiredSections: [], outputSchema: null });
+
+        const listed = await service.listTemplates('police');
+        expect(listed.map(item => [item.conversation_type, item.app_name])).toEqual([['incident_report', null], ['interview', 'police']]);
+
+        expect(await service.deactivateTemplate('police', 'interview')).toBe(true);
+        expect(await service.deactivateTemplate('police', 'interview')).toBe(false);
+        expect((await service.getTemplate('police', 'interview'))?.id).toBe('template-interview');
+    });
+
+    describe('validateTemplateInput', () => {
+        it('should accept a template and fill in defaults', () => {
+            const result = validateTemplateInput({ name: ' Witness statement ', systemPrompt: 'Prepare a witness statement.' });
+
+            expect(result).toEqual({
+                ok: true,
+                input: { name: 'Witness statement', description: null, systemPrompt: 'Prepare a witness statement.', requiredSections: [], outputSchema: null },
+            });
+        });
+
+        it('should list every problem, including unsupported output schemas', () => {
+            const result = validateTemplateInput({
+                name: '',
+                systemPrompt: 'ok',
+                requiredSections: ['overview', 'summary'],
+                outputSchema: { type: 'object', properties: { location: { type: 'date' } }, required: ['time'] },
+            });
+
+            expect(result.ok).toBe(false);
+            expect(!result.ok && result.errors).toEqual([
+                'name must be a non-empty string of at most 100 characters',
+                'requiredSections must only contain overview, keyPoints, decisions, actionItems, entities, followUps',
+                'outputSchema.properties.location.type must be one or more of string, number, integer, boolean, null, object, array',
+                'outputSchema.required must list names of its properties',
+            ]);
+        });
+
+        it('should only allow simple conversation type names', () => {
+            expect(isConversationType('incident_report')).toBe(true);
+            expect(isConversationType('Incident Report')).toBe(false);
+            expect(isConversationType('')).toBe(false);
+        });
+    });
+});
@@ -1,7 +1,51 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EventEmitter } from 'events';
+import '@testing-library/jest-dom';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { io } from 'socket.io-client';
 import { VoiceChatWidget } from '../../src/src/components/VoiceChatWidget';
-import { VoiceChatWidgetProps } from '../../src/src/types';
+import { WebRTCService } from '../../src/src/services/WebRTCService';
+import { CustomStyles, VoiceChatWidgetProps } from '../../src/src/types';
+
+jest.mock('socket.io-client', () => ({ io: jest.fn() }));
+
+// Stands in for the voice server connection: emit() records what the widget sends, receive() plays the server
+class FakeSocket {
+    public sent: Array<[string, any]> = [];
+    public disconnect = jest.fn();
+    private handlers = new EventEmitter();
+
+    constructor(public options: any) {}
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.handlers.on(event, listener);
+        return this;
+    }
+
+    off(event: string, listener: (...args: any[]) => void) {
+        this.handlers.off(event, listener);
+        return this;
+    }
+
+    emit(event: string, data?: any) {
+        this.sent.push([event, data]);
+        return this;
+    }
+
+    removeAllListeners() {
+        this.handlers.removeAllListeners();
+        return this;
+    }
+
+    receive(event: string, ...args: any[]) {
+        this.handlers.emit(event, ...args);
+    }
+
+    // The auth payload the socket would present on its next handshake
+    handshake(): Promise<any> {
+        return new Promise(resolve => this.options.auth(resolve));
+    }
+}
 
 // Mock framer-motion
 jest.mock('framer-motion', () => ({
@@ -20,6 +64,20 @@ jest.mock('lucide-react', () => ({
     MicOff: () => <div data-testid="mic-off-icon" />,
     Settings: () => <div data-testid="settings-icon" />,
     Globe: () => <div data-testid="globe-icon" />,
+    Check: () => <div data-testid="check-icon" />,
+    Wifi: () => <div data-testid="wifi-icon" />,
+    WifiOff: () => <div data-testid="wifi-off-icon" />,
+    Loader: () => <div data-testid="loader-icon" />,
+    CheckCircle: () => <div data-testid="check-circle-icon" />,
+    XCircle: () => <div data-testid="x-circle-icon" />,
+    Clock: () => <div data-testid="clock-icon" />,
+    Download: () => <div data-testid="download-icon" />,
+    AlertTriangle: () => <div data-testid="alert-triangle-icon" />,
+    RefreshCw: () => <div data-testid="refresh-icon" />,
+    FileText: () => <div data-testid="file-text-icon" />,
+    Square: () => <div data-testid="square-icon" />,
+    Play: () => <div data-testid="play-icon" />,
+    Pause: () => <div data-testid="pause-icon" />,
 }));
 
 // Mock navigator.mediaDevices
@@ -44,6 +102,15 @@ Object.defineProperty(window, 'AudioContext', {
     value: jest.fn(() => mockAudioContext),
 });
 
+// Mock RTCPeerConnection, which jsdom does not provide
+Object.defineProperty(window, 'RTCPeerConnection', {
+    writable: true,
+    value: jest.fn(() => ({
+        addTrack: jest.fn(),
+        close: jest.fn(),
+    })),
+});
+
 describe('VoiceChatWidget', () => {
     const defaultProps: VoiceChatWidgetProps = {
         apiKey: 'test-api-key',
@@ -106,7 +173,7 @@ describe('VoiceChatWidget', () => {
 
         // Should show language selector
         await waitFor(() => {
-            expect(screen.getByText('English')).toBeInTheDocument();
+            expect(screen.getByText('Hindi')).toBeInTheDocument();
         });
     });
 
@@ -123,7 +190,7 @@ describe('VoiceChatWidget', () => {
         });
 
         // Click start conversation button
-        const startButton = screen.getByRole('button', { name: /start conversation/i });
+        const startButton = screen.getByRole('button', { name: /start recording/i });
         fireEvent.click(startButton);
 
         await waitFor(() => {
@@ -153,7 +220,7 @@ describe('VoiceChatWidget', () => {
         fireEvent.click(button);
 
         await waitFor(() => {
-            expect(screen.getByText('Español')).toBeInTheDocument();
+            expect(screen.getByText(/Español/)).toBeInTheDocument();
         });
     });
 
@@ -169,7 +236,7 @@ describe('VoiceChatWidget', () => {
         });
 
         // Click close button
-        const closeButton = screen.getByRole('button', { name: /close/i });
+        const closeButton = screen.getByRole('button', { name: 'Close' });
         fireEvent.click(closeButton);
 
         // Widget should be closed
@@ -193,7 +260,7 @@ describe('VoiceChatWidget', () => {
         });
 
         // Click start conversation button
-        const startButton = screen.getByRole('button', { name: /start conversation/i });
+        const startButton = screen.getByRole('button', { name: /start recording/i });
         fireEvent.click(startButton);
 
         await waitFor(() => {
@@ -207,11 +274,11 @@ describe('VoiceChatWidget', () => {
             color: 'white',
         };
 
-        render(<VoiceChatWidget {...defaultProps} customStyles={customStyles} />);
+        render(<VoiceChatWidget {...defaultProps} customStyles={customStyles as CustomStyles} />);
         
         const container = screen.getByRole('button').closest('.voice-widget-container');
-        expect(container).toHaveStyle('background-color: red');
-        expect(container).toHaveStyle('color: white');
+        expect(container).toHaveStyle({ backgroundColor: 'rgb(255, 0, 0)' });
+        expect(container).toHaveStyle({ color: 'rgb(255, 255, 255)' });
     });
 
     it('should support dark theme', () => {
@@ -220,4 +287,140 @@ describe('VoiceChatWidget', () => {
         const container = screen.getByRole('button').closest('.voice-widget-container');
         expect(container).toHaveClass('dark');
     });
+
+    describe('with a session token', () => {
+        let socket: FakeSocket;
+
+        // An unsigned JWT valid for an hour; the widget only reads the expiry
+        const token = `header.${btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + 3600 }))}.signature`;
+        const tokenProps: VoiceChatWidgetProps = {
+            token,
+            officerEmail: 'test@example.com',
+            appName: 'test-app',
+            serverUrl: 'https://voice.example.com',
+        };
+
+        const startRecording = async () => {
+            fireEvent.click(screen.getByRole('button', { name: /open voice chat/i }));
+            fireEvent.click(await screen.findByRole('button', { name: /start recording/i }));
+            await waitFor(() => expect(io).toHaveBeenCalled());
+        };
+
+        beforeEach(() => {
+            Object.defineProperty(navigator, 'mediaDevices', {
+                writable: true,
+                value: { getUserMedia: mockGetUserMedia },
+            });
+            jest.spyOn(WebRTCService.prototype, 'initialize').mockResolvedValue();
+            jest.spyOn(WebRTCService.prototype, 'startStreaming').mockImplementation(() => {});
+            (io as jest.Mock).mockImplementation((_url: string, options: any) => {
+                socket = new FakeSocket(options);
+                return socket;
+            });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should stream through the voice server without an API key', async () => {
+            const onConversationStart = jest.fn();
+            render(<VoiceChatWidget {...tokenProps} onConversationStart={onConversationStart} />);
+
+            await startRecording();
+            socket.receive('connect');
+            socket.receive('sessionStarted', { id: 'session-1', resumeToken: 'resume-1' });
+
+            await waitFor(() => expect(onConversationStart).toHaveBeenCalled());
+            expect(io).toHaveBeenCalledWith('https://voice.example.com', expect.anything());
+            await expect(socket.handshake()).resolves.toEqual({ token });
+            expect(socket.sent).toContainEqual(['startSession', { officerEmail: 'test@example.com', appName: 'test-app', language: 'en' }]);
+            expect(screen.queryByText('Configuration Error')).not.toBeInTheDocument();
+        });
+
+        it('should pause audio capture while the server applies backpressure', async () => {
+            const applyBackpressure = jest.spyOn(WebRTCService.prototype, 'applyBackpressure');
+            const onConversationStart = jest.fn();
+            render(<VoiceChatWidget {...tokenProps} onConversationStart={onConversationStart} />);
+
+            await startRecording();
+            socket.receive('connect');
+            socket.receive('sessionStarted', { id: 'session-1', resumeToken: 'resume-1' });
+            await waitFor(() => expect(onConversationStart).toHaveBeenCalled());
+
+            socket.receive('audioBackpressure', { sessionId: 'session-1', paused: true, bufferedBytes: 900, maxBytes: 1000 });
+            socket.receive('audioBackpressure', { sessionId: 'session-1', paused: false, bufferedBytes: 100, maxBytes: 1000 });
+
+            expect(applyBackpressure.mock.calls.map(([backpressure]) => backpressure.paused)).toEqual([true, false]);
+        });
+
+        it('should show the ended conversation\'s processing progress', async () => {
+            const onConversationStart = jest.fn();
+            render(<VoiceChatWidget {...tokenProps} onConversationStart={onConversationStart} />);
+
+            await startRecording();
+            socket.receive('connect');
+            socket.receive('sessionStarted', { id: 'session-1', resumeToken: 'resume-1' });
+            await waitFor(() => expect(onConversationStart).toHaveBeenCalled());
+
+            fireEvent.click(screen.getByRole('button', { name: /stop recording/i }));
+            await waitFor(() => expect(socket.sent).toContainEqual(['endSession', { sessionId: 'session-1' }]));
+            socket.receive('sessionEnded', { id: 'conversation-1' });
+
+            const progress = {
+                sessionId: 'session-1',
+                conversationId: 'conversation-1',
+                pipeline: 'conversation',
+                timestamp: '2026-10-19T12:00:00.000Z',
+            };
+            act(() => {
+                socket.receive('processingProgress', {
+                    ...progress,
+                    stage: 'summary',
+                    status: 'running',
+                    percent: 40,
+                    stages: { summary: 'running', pdf: 'pending' },
+                    pipelineStatus: 'running',
+                    artifacts: {},
+                });
+            });
+
+            expect(screen.getByText('Summary')).toBeInTheDocument();
+            expect(screen.getByText('40%')).toBeInTheDocument();
+
+            act(() => {
+                socket.receive('processingProgress', {
+                    ...progress,
+                    stage: 'pdf',
+                    status: 'completed',
+                    stages: { summary: 'completed', pdf: 'completed' },
+                    pipelineStatus: 'completed',
+                    artifacts: { pdfUrl: 'https://files.example.com/report.pdf' },
+                });
+            });
+
+            expect(screen.getByRole('link', { name: /pdf report/i })).toHaveAttribute('href', 'https://files.example.com/report.pdf');
+            expect(socket.disconnect).toHaveBeenCalled();
+        });
+
+        it('should report a rejected session token as unauthorized', async () => {
+            const onError = jest.fn();
+            render(<VoiceChatWidget {...tokenProps} onError={onError} />);
+
+            await startRecording();
+            socket.receive('connect_error', Object.assign(new Error('Unauthorized'), { data: { code: 'TOKEN_REVOKED' } }));
+
+            expect(await screen.findByText('Not Authorized')).toBeInTheDocument();
+            expect(screen.getByText(/session token has expired/)).toBeInTheDocument();
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'UNAUTHORIZED' }));
+        });
+
+        it('should require serverUrl', () => {
+            const { serverUrl, ...propsWithoutServer } = tokenProps;
+            const onError = jest.fn();
+            render(<VoiceChatWidget {...propsWithoutServer} onError={onError} />);
+
+            expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_PROPS' }));
+        });
+    });
 });
@@ -0,0 +1,218 @@
+import { EventEmitter } from 'events';
+import { io } from 'socket.io-client';
+import { VoiceServerProvider } from '../../src/src/services/VoiceServerProvider';
+
+jest.mock('socket.io-client', () => ({ io: jest.fn() }));
+
+// Stands in for a Socket.IO client socket: emit() records what the widget sends, receive() plays the server
+class FakeSocket {
+    public sent: Array<[string, any]> = [];
+    public disconnect = jest.fn();
+    private handlers = new EventEmitter();
+
+    constructor(public options: any) {}
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.handlers.on(event, listener);
+        return this;
+    }
+
+    off(event: string, listener: (...args: any[]) => void) {
+        this.handlers.off(event, listener);
+        return this;
+    }
+
+    emit(event: string, data?: any) {
+        this.sent.push([event, data]);
+        return this;
+    }
+
+    removeAllListeners() {
+        this.handlers.removeAllListeners();
+        return this;
+    }
+
+    receive(event: string, ...args: any[]) {
+        this.handlers.emit(event, ...args);
+    }
+
+    // The auth payload the socket would present on its next handshake
+    handshake(): Promise<any> {
+        return new Promise(resolve => this.options.auth(resolve));
+    }
+}
+
+// An unsigned JWT; the widget only reads the expiry
+const tokenExpiringIn = (ms: number, id = 'token') =>
+    `header.${btoa(JSON.stringify({ jti: id, exp: Math.floor((Date.now() + ms) / 1000) }))}.signature`;
+
+const progress = (pipelineStatus: 'running' | 'completed') => ({
+    sessionId: 'session-1',
+    conversationId: 'conversation-1',
+    pipeline: 'conversation',
+    stage: 'summary',
+    status: pipelineStatus === 'running' ? 'running' : 'completed',
+    stages: { summary: pipelineStatus === 'running' ? 'running' : 'completed' },
+    pipelineStatus,
+    artifacts: {},
+    timestamp: '2026-10-19T12:00:00.000Z',
+});
+
+describe('VoiceServerProvider', () => {
+    let socket: FakeSocket;
+    let provider: VoiceServerProvider;
+
+    const config = {
+        serverUrl: 'https://voice.example.com',
+        officerEmail: 'officer@example.com',
+        appName: 'test-app',
+        language: 'en',
+        sampleRate: 16000,
+        channels: 1,
+    };
+
+    // Let the server accept the handshake and start the session
+    const startSession = async () => {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        socket.receive('connect');
+        socket.receive('sessionStarted', { id: 'session-1', resumeToken: 'resume-1' });
+    };
+
+    beforeEach(() => {
+        (io as jest.Mock).mockImplementation((_url: string, options: any) => {
+            socket = new FakeSocket(options);
+            return socket;
+        });
+    });
+
+    afterEach(() => {
+        provider?.disconnect();
+        jest.clearAllMocks();
+    });
+
+    it('should authenticate with the session token and start a session', async () => {
+        const token = tokenExpiringIn(60 * 60 * 1000);
+        provider = new VoiceServerProvider(config);
+
+        const connected = provider.connect(token);
+        await startSession();
+        await connected;
+
+        expect(io).toHaveBeenCalledWith(config.serverUrl, expect.objectContaining({ transports: ['websocket'] }));
+        await expect(socket.handshake()).resolves.toEqual({ token });
+        expect(socket.sent).toContainEqual(['startSession', { officerEmail: 'officer@example.com', appName: 'test-app', language: 'en' }]);
+
+        provider.sendAudio(new ArrayBuffer(64));
+        expect(socket.sent).toContainEqual(['audioData', {
+            sessionId: 'session-1',
+            audioChunk: expect.objectContaining({ sampleRate: 16000, channels: 1 }),
+        }]);
+    });
+
+    it('should fetch a token through getToken and refresh it before it expires', async () => {
+        const first = tokenExpiringIn(60 * 1000 + 50, 'first');
+        const second = tokenExpiringIn(60 * 60 * 1000, 'second');
+        const getToken = jest.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+        provider = new VoiceServerProvider({ ...config, getToken });
+
+        const connected = provider.connect('');
+        await startSession();
+        await connected;
+
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        expect(getToken).toHaveBeenCalledTimes(2);
+        expect(socket.sent).toContainEqual(['refreshToken', { token: second }]);
+        // A reconnect presents the refreshed token
+        await expect(socket.handshake()).resolves.toEqual({ token: second });
+    });
+
+    it('should reject with UNAUTHORIZED when the server refuses the token', async () => {
+        provider = new VoiceServerProvider(config);
+
+        const connected = provider.connect(tokenExpiringIn(60 * 60 * 1000));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        socket.receive('connect_error', Object.assign(new Error('Unauthorized'), { data: { code: 'TOKEN_REVOKED' } }));
+
+        await expect(connected).rejects.toMatchObject({ code: 'UNAUTHORIZED', details: { reason: 'TOKEN_REVOKED' } });
+        expect(socket.disconnect).toHaveBeenCalled();
+    });
+
+    it('should fail to connect without a usable token', async () => {
+        provider = new VoiceServerProvider(config);
+
+        await expect(provider.connect(tokenExpiringIn(-1000))).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+        expect(io).not.toHaveBeenCalled();
+    });
+
+    it('should resume the session after reconnecting', async () => {
+        provider = new VoiceServerProvider(config);
+        const finals: any[] = [];
+        provider.on('finalTranscript', transcript => finals.push(transcript));
+
+        const connected = provider.connect(tokenExpiringIn(60 * 60 * 1000));
+        await startSession();
+        await connected;
+        socket.receive('finalTranscript', { transcript: 'Hello', seq: 3 });
+
+        socket.receive('connect');
+        socket.receive('sessionResumed', { resumeToken: 'resume-2', missedSegments: [{ transcript: 'again', seq: 4 }] });
+
+        expect(socket.sent).toContainEqual(['resumeSession', { sessionId: 'session-1', resumeToken: 'resume-1', lastSeq: 3 }]);
+        expect(finals.map(transcript => transcript.transcript)).toEqual(['Hello', 'again']);
+    });
+
+    it('should relay backpressure for its own session', async () => {
+        provider = new VoiceServerProvider(config);
+        const backpressure = jest.fn();
+        provider.on('audioBackpressure', backpressure);
+
+        const connected = provider.connect(tokenExpiringIn(60 * 60 * 1000));
+        await startSession();
+        await connected;
+
+        socket.receive('audioBackpressure', { sessionId: 'other-session', paused: true });
+        socket.receive('audioBackpressure', { sessionId: 'session-1', paused: true, bufferedBytes: 900, maxBytes: 1000 });
+
+        expect(backpressure).toHaveBeenCalledTimes(1);
+        expect(backpressure).toHaveBeenCalledWith(expect.objectContaining({ paused: true, bufferedBytes: 900 }));
+    });
+
+    it('should close the connection once the server ends the session', async () => {
+        provider = new VoiceServerProvider(config);
+        const ended = jest.fn();
+        provider.on('sessionEnded', ended);
+
+        const connected = provider.connect(tokenExpiringIn(60 * 60 * 1000));
+        await startSession();
+        await connected;
+
+        provider.endStream();
+        expect(socket.sent).toContainEqual(['endSession', { sessionId: 'session-1' }]);
+
+        socket.receive('sessionEnded', { id: 'conversation-1' });
+        expect(ended).toHaveBeenCalledWith({ id: 'conversation-1' });
+        expect(socket.disconnect).not.toHaveBeenCalled();
+
+        socket.receive('processingProgress', progress('completed'));
+        expect(socket.disconnect).toHaveBeenCalled();
+    });
+
+    it('should relay the ended session\'s processing progress', async () => {
+        provider = new VoiceServerProvider(config);
+        const updates: any[] = [];
+        provider.on('processingProgress', update => updates.push(update));
+
+        const connected = provider.connect(tokenExpiringIn(60 * 60 * 1000));
+        await startSession();
+        await connected;
+
+        provider.endStream();
+        socket.receive('sessionEnded', { id: 'conversation-1' });
+        socket.receive('processingProgress', { ...progress('running'), sessionId: 'other-session' });
+        socket.receive('processingProgress', progress('running'));
+
+        expect(updates).toEqual([progress('running')]);
+        expect(socket.disconnect).not.toHaveBeenCalled();
+    });
+});
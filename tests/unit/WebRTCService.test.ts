@@ -80,4 +80,53 @@ describe('WebRTCService', () => {
             webRTCService.emit('error', testError);
         });
     });
+
+    describe('applyBackpressure', () => {
+        const capture = (samples: number[]) => (webRTCService as any).processAudioData(new Float32Array(samples).buffer);
+
+        it('should hold audio while paused and send it as one chunk on resume', () => {
+            const chunks: any[] = [];
+            webRTCService.on('audioChunk', chunk => chunks.push(chunk));
+
+            webRTCService.applyBackpressure({ paused: true });
+            capture([0.1, 0.2]);
+            capture([0.3]);
+            expect(chunks).toHaveLength(0);
+
+            webRTCService.applyBackpressure({ paused: false });
+            expect(chunks).toHaveLength(1);
+            expect(Array.from(new Float32Array(chunks[0].data))).toEqual([
+                Math.fround(0.1), Math.fround(0.2), Math.fround(0.3),
+            ]);
+
+            capture([0.4]);
+            expect(chunks).toHaveLength(2);
+        });
+
+        it('should drop the oldest held audio beyond the limit', () => {
+            webRTCService = new WebRTCService({ ...mockConfig, maxHeldChunks: 2 });
+            const chunks: any[] = [];
+            webRTCService.on('audioChunk', chunk => chunks.push(chunk));
+
+            webRTCService.applyBackpressure({ paused: true });
+            capture([1]);
+            capture([2]);
+            capture([3]);
+            webRTCService.applyBackpressure({ paused: false });
+
+            expect(Array.from(new Float32Array(chunks[0].data))).toEqual([2, 3]);
+        });
+
+        it('should emit pause and resume events once per transition', () => {
+            const events: string[] = [];
+            webRTCService.on('audioPaused', () => events.push('paused'));
+            webRTCService.on('audioResumed', () => events.push('resumed'));
+
+            webRTCService.applyBackpressure({ paused: true });
+            webRTCService.applyBackpressure({ paused: true });
+            webRTCService.applyBackpressure({ paused: false });
+
+            expect(events).toEqual(['paused', 'resumed']);
+        });
+    });
 });
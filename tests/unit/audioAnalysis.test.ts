@@ -0,0 +1,115 @@
+/**
+ * @jest-environment node
+ */
+import {
+    analyzeAudio,
+    decodeWavSamples,
+    detectAudioFormat,
+    encodeWav16,
+    parseMp3,
+    parseOgg,
+    parseWav,
+    parseWebm,
+} from '../../server/src/utils/audioAnalysis';
+import { createWavHeader } from '../../server/src/utils/wav';
+
+const options = { silenceThresholdDbfs: -50, silentRatio: 0.98 };
+
+const floatWav = (samples: number[], sampleRate = 16000): Buffer => {
+    const data = Buffer.alloc(samples.length * 4);
+    samples.forEach((sample, index) => data.writeFloatLE(sample, index * 4));
+    return Buffer.concat([createWavHeader({ sampleRate, channels: 1, encoding: 'pcm_f32le' }, data.length), data]);
+};
+
+const tone = (seconds: number, amplitude: number, sampleRate = 16000): number[] =>
+    Array.from({ length: seconds * sampleRate }, (_, i) => amplitude * Math.sin((2 * Math.PI * 440 * i) / sampleRate));
+
+describe('audioAnalysis', () => {
+    describe('wav', () => {
+        it('should compute duration and loudness from the data chunk', () => {
+            const analysis = analyzeAudio(floatWav(tone(2, 0.5)), options);
+
+            expect(analysis).toMatchObject({ format: 'wav', codec: 'pcm_f32le', sampleRate: 16000, channels: 1, duration: 2, status: 'ok' });
+            expect(analysis.loudness!.peakDbfs).toBeCloseTo(-6.02, 1);
+            expect(analysis.loudness!.rmsDbfs).toBeCloseTo(-9.03, 1);
+            expect(analysis.loudness!.silenceRatio).toBe(0);
+        });
+
+        it('should flag silent recordings', () => {
+            const analysis = analyzeAudio(floatWav(new Array(16000).fill(0.0001)), options);
+
+            expect(analysis.status).toBe('silent');
+            expect(analysis.loudness!.silenceRatio).toBe(1);
+        });
+
+        it('should flag corrupted files', () => {
+            const wav = floatWav(tone(1, 0.5));
+
+            expect(analyzeAudio(Buffer.alloc(0), options).status).toBe('corrupted');
+            expect(analyzeAudio(Buffer.from('not audio at all'), options)).toMatchObject({ status: 'corrupted', issues: ['Unrecognized audio format'] });
+            expect(analyzeAudio(wav.subarray(0, 30), options)).toMatchObject({ status: 'corrupted', issues: ['Truncated fmt chunk'] });
+        });
+
+        it('should normalize to 16-bit PCM', () => {
+            const source = floatWav(tone(1, 0.25));
+            const info = parseWav(source);
+            const archival = parseWav(encodeWav16(decodeWavSamples(source, info)!, 16000, 1));
+
+            expect(archival).toMatchObject({ codec: 'pcm_s16le', bitsPerSample: 16, sampleRate: 16000, duration: 1 });
+        });
+    });
+
+    it('should read Ogg Opus headers and duration', () => {
+        const page = (granule: bigint, body: Buffer): Buffer => {
+            const header = Buffer.alloc(28);
+            header.write('OggS', 0, 'ascii');
+            header.writeBigInt64LE(granule, 6);
+            header[26] = 1;
+            header[27] = body.length;
+            return Buffer.concat([header, body]);
+        };
+        const opusHead = Buffer.alloc(19);
+        opusHead.write('OpusHead', 0, 'ascii');
+        opusHead[8] = 1;
+        opusHead[9] = 2;
+        opusHead.writeUInt16LE(312, 10);
+        opusHead.writeUInt32LE(48000, 12);
+
+        const ogg = Buffer.concat([page(0n, opusHead), page(BigInt(48000 * 3 + 312), Buffer.alloc(10))]);
+
+        expect(detectAudioFormat(ogg)).toBe('ogg');
+        expect(parseOgg(ogg)).toMatchObject({ codec: 'opus', channels: 2, sampleRate: 48000, duration: 3 });
+    });
+
+    it('should estimate MP3 duration from a CBR frame header', () => {
+        // MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo
+        const frame = Buffer.from([0xFF, 0xFB, 0x90, 0x40]);
+        const mp3 = Buffer.concat([frame, Buffer.alloc(16000 - 4)]);
+
+        expect(parseMp3(mp3)).toMatchObject({ codec: 'mp3', sampleRate: 44100, channels: 2, bitRate: 128000, duration: 1 });
+    });
+
+    it('should read WebM segment info and the audio track', () => {
+        const element = (id: number[], data: Buffer): Buffer => Buffer.concat([Buffer.from(id), Buffer.from([0x80 | data.length]), data]);
+        const float64 = (value: number) => {
+            const buffer = Buffer.alloc(8);
+            buffer.writeDoubleBE(value);
+            return buffer;
+        };
+
+        const info = element([0x15, 0x49, 0xA9, 0x66], Buffer.concat([
+            element([0x2A, 0xD7, 0xB1], Buffer.from([0x0F, 0x42, 0x40])),
+            element([0x44, 0x89], float64(4500)),
+        ]));
+        const tracks = element([0x16, 0x54, 0xAE, 0x6B], element([0xAE], Buffer.concat([
+            element([0x86], Buffer.from('A_OPUS')),
+            element([0xE1], Buffer.concat([element([0xB5], float64(48000)), element([0x9F], Buffer.from([1]))])),
+        ])));
+        const webm = Buffer.concat([
+            element([0x1A, 0x45, 0xDF, 0xA3], Buffer.alloc(0)),
+            element([0x18, 0x53, 0x80, 0x67], Buffer.concat([info, tracks])),
+        ]);
+
+        expect(parseWebm(webm)).toMatchObject({ format: 'webm', codec: 'opus', sampleRate: 48000, channels: 1, duration: 4.5 });
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import path from 'path';
+import {
+    SUMMARY_JSON_SCHEMA,
+    SUMMARY_SCHEMA_VERSION,
+    StructuredSummary,
+    SummaryRequirements,
+    buildSummaryJsonSchema,
+    formatSummaryText,
+    parseSummaryJson,
+    readSummary,
+    validateSummary,
+} from '../../server/src/utils/summarySchema';
+
+describe('summarySchema', () => {
+    const summary: StructuredSummary = {
+        schemaVersion: SUMMARY_SCHEMA_VERSION,
+        overview: 'The caller reported a break-in at the warehouse.',
+        keyPoints: ['The alarm did not trigger'],
+        decisions: ['Open a burglary case'],
+        actionItems: [
+            { description: 'Request camera footage', owner: 'Officer Reyes', dueDate: '2025-10-14' },
+            { description: 'Call the caller back', owner: null, dueDate: null },
+        ],
+        entities: [{ name: 'Harbor Street warehouse', type: 'location' }],
+        sentiment: { overall: 'negative', rationale: 'The caller was distressed' },
+        followUps: ['Was anything taken?'],
+    };
+
+    it('should accept a conforming summary and drop unknown properties', () => {
+        const validation = validateSummary({ ...summary, extra: true });
+
+        expect(validation).toEqual({ ok: true, summary });
+    });
+
+    it('should list every schema violation', () => {
+        const validation = validateSummary({
+            ...summary,
+            overview: '',
+            actionItems: [{ description: 'Request footage', owner: 3, dueDate: 'next Friday' }],
+            entities: [{ name: 'Reyes', type: 'officer' }],
+            sentiment: { overall: 'angry', rationale: null },
+            followUps: 'none',
+        });
+
+        expect(validation.ok).toBe(false);
+        expect(!validation.ok && validation.errors).toEqual([
+            'overview must be a non-empty string',
+            'followUps must be an array of strings',
+            'actionItems[0].owner must be a string or null',
+            'actionItems[0].dueDate must be formatted as YYYY-MM-DD',
+            'entities[0].type must be one of person, organization, location, date, vehicle, reference, other',
+            'sentiment.overall must be one of positive, neutral, negative, mixed',
+        ]);
+    });
+
+    it('should parse JSON wrapped in a code fence and report invalid JSON', () => {
+        expect(parseSummaryJson('```json\n' + JSON.stringify(summary) + '\n```')).toEqual({ ok: true, summary });
+
+        const invalid = parseSummaryJson('Here is the summary: {');
+        expect(invalid.ok).toBe(false);
+        expect(!invalid.ok && invalid.errors[0]).toMatch(/^output is not valid JSON/);
+    });
+
+    it('should upgrade summaries stored before the schema was versioned', () => {
+        const upgraded = readSummary({
+            overview: 'A short call.',
+            keyPoints: ['Point'],
+            decisions: [],
+            actionItems: ['Follow up'],
+            importantDetails: ['Detail'],
+            fullSummary: 'A short call.',
+            metadata: {},
+        });
+
+        expect(upgraded).toEqual({
+            schemaVersion: SUMMARY_SCHEMA_VERSION,
+            overview: 'A short call.',
+            keyPoints: ['Point', 'Detail'],
+            decisions: [],
+            actionItems: [{ description: 'Follow up', owner: null, dueDate: null }],
+            entities: [],
+            sentiment: { overall: 'neutral', rationale: null },
+            followUps: [],
+        });
+        expect(readSummary(null)).toBeNull();
+        expect(readSummary({ ...summary, schemaVersion: 2 })).toBeNull();
+    });
+
+    it('should render plain text with owners and due dates', () => {
+        expect(formatSummaryText(summary)).toBe([
+            'The caller reported a break-in at the warehouse.',
+            'Key points:\n- The alarm did not trigger',
+            'Decisions:\n- Open a burglary case',
+            'Action items:\n- Request camera footage (owner: Officer Reyes, due 2025-10-14)\n- Call the caller back',
+            'Follow-ups:\n- Was anything taken?',
+        ].join('\n\n'));
+    });
+
+    describe('template requirements', () => {
+        const requirements: SummaryRequirements = {
+            requiredSections: ['overview', 'decisions', 'followUps'],
+            detailsSchema: {
+                type: 'object',
+                required: ['location'],
+                properties: {
+                    location: { type: 'string' },
+                    injuries: { type: 'string' },
+                    parties: { type: 'array', items: { type: 'object', required: ['name'], properties: { name: { type: 'string' }, role: { type: 'string', enum: ['victim', 'witness'] } } } },
+                },
+            },
+        };
+        const details = { location: 'Harbor Street', injuries: null, parties: [{ name: 'Dana', role: 'witness' }] };
+
+        it('should add the details object to the JSON Schema in strict form', () => {
+            const schema = buildSummaryJsonSchema(requirements.detailsSchema) as any;
+
+            expect(schema.required).toContain('details');
+            expect(schema.properties.details).toMatchObject({
+                additionalProperties: false,
+                required: ['location', 'injuries', 'parties'],
+                properties: { location: { type: 'string' }, injuries: { type: ['string', 'null'] } },
+            });
+            expect(schema.properties.details.properties.parties.items.properties.role).toEqual({ type: ['string', 'null'], enum: ['victim', 'witness', null] });
+            expect(buildSummaryJsonSchema(null)).toBe(SUMMARY_JSON_SCHEMA);
+        });
+
+        it('should require the template sections and details', () => {
+            const validation = validateSummary({ ...summary, followUps: [], details: { location: 7, injuries: null, parties: [{ name: 'Dana', role: 'bystander' }] } }, requirements);
+
+            expect(validation).toEqual({
+                ok: false,
+                errors: ['followUps must not be empty', 'details.location must be string', 'details.parties[0].role must be one of victim, witness, null'],
+            });
+            expect(validateSummary(summary, requirements)).toEqual({ ok: false, errors: ['details must be object'] });
+        });
+
+        it('should keep valid details and render them as text', () => {
+            const validation = validateSummary({ ...summary, details }, requirements);
+
+            expect(validation).toEqual({ ok: true, summary: { ...summary, details } });
+            expect(formatSummaryText({ ...summary, details })).toContain('Details:\n- Location: Harbor Street\n- Parties: Name: Dana, Role: witness');
+        });
+    });
+
+    it('should keep the edge function copy identical', () => {
+        const root = path.join(__dirname, '../..');
+        const server = fs.readFileSync(path.join(root, 'server/src/utils/summarySchema.ts'), 'utf8');
+        const edge = fs.readFileSync(path.join(root, 'supabase/functions/_shared/summarySchema.ts'), 'utf8');
+
+        expect(edge).toBe(server);
+    });
+});
@@ -0,0 +1,54 @@
+/**
+ * @jest-environment node
+ */
+import { chunkTranscript, estimateTokens } from '../../server/src/utils/transcriptChunks';
+
+describe('transcriptChunks', () => {
+    it('should estimate about four characters per token', () => {
+        expect(estimateTokens('')).toBe(0);
+        expect(estimateTokens('abcd')).toBe(1);
+        expect(estimateTokens('abcde')).toBe(2);
+    });
+
+    it('should keep a short transcript in one chunk', () => {
+        const transcript = 'Speaker 1: Hello.\nSpeaker 2: Hi there.';
+
+        expect(chunkTranscript(transcript, 100)).toEqual([transcript]);
+    });
+
+    it('should break between speaker turns', () => {
+        const turns = [
+            'Speaker 1: I was at the station when it happened.',
+            'Speaker 2: What time was that?',
+            'Speaker 1: Around nine in the evening, just after the last train.',
+        ];
+
+        const chunks = chunkTranscript(turns.join('\n'), 30);
+
+        expect(chunks).toEqual([`${turns[0]}\n${turns[1]}`, turns[2]]);
+        chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(30));
+    });
+
+    it('should split a long turn between sentences and keep its speaker label', () => {
+        const turn = 'Speaker 1: ' + Array.from({ length: 6 }, (_, index) => `This is sentence number ${index + 1} of the statement.`).join(' ');
+
+        const chunks = chunkTranscript(turn, 30);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => {
+            expect(chunk.startsWith('Speaker 1: ')).toBe(true);
+            expect(estimateTokens(chunk)).toBeLessThanOrEqual(30);
+        });
+        expect(chunks.map(chunk => chunk.slice('Speaker 1: '.length)).join(' ')).toBe(turn.slice('Speaker 1: '.length));
+    });
+
+    it('should fall back to words for unpunctuated transcripts', () => {
+        const transcript = Array.from({ length: 200 }, (_, index) => `word${index}`).join(' ');
+
+        const chunks = chunkTranscript(transcript, 50);
+
+        expect(chunks.length).toBeGreaterThan(1);
+        chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(50));
+        expect(chunks.join(' ')).toBe(transcript);
+    });
+});